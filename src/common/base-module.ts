@@ -3,6 +3,11 @@
  * All storage module implementations should extend this class.
  */
 
+import { promises as fsp } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { Readable, addAbortSignal } from 'stream';
 import type {
   StorageModule,
   StorageProvider,
@@ -13,14 +18,70 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  BatchOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchResult,
+  BatchSummary,
   ListOptions,
+  DeleteOptions,
   TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  ChangesPage,
+  GetChangesOptions,
+  SearchOptions,
+  SearchPage,
+  FileVersion,
+  VersioningConfig,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
 } from '../types';
-import { ConfigurationError } from './errors';
-import { successResult, errorResult } from './utils';
-import { normalizePath, joinPath, getBaseName, getParentPath } from './path-utils';
+import {
+  HazoFilesError,
+  ConfigurationError,
+  FileExistsError,
+  FileNotFoundError,
+  DirectoryNotEmptyError,
+  InvalidPathError,
+  OperationAbortedError,
+  UploadSessionError,
+  InvalidCursorError,
+} from './errors';
+import { successResult, errorResult, mapWithConcurrency } from './utils';
+import {
+  normalizePath,
+  joinPath,
+  getBaseName,
+  getParentPath,
+  getExtension,
+  getNameWithoutExtension,
+  isChildPath,
+  getPathSegments,
+} from './path-utils';
+import { getMimeType } from './mime-types';
+import { resolveByteRange, trackStreamProgress, type ByteRange } from './stream-utils';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  createSearchFilter,
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from './search-utils';
+
+/** How long a session of the default upload implementation lasts */
+const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Abstract base class for storage modules.
@@ -30,6 +91,8 @@ export abstract class BaseStorageModule implements StorageModule {
   abstract readonly provider: StorageProvider;
   protected config: HazoFilesConfig | null = null;
   protected _initialized = false;
+  // Last queued append of each upload session of the default implementation
+  private uploadQueues = new Map<string, Promise<OperationResult<UploadSession>>>();
 
   /**
    * Check if the module is initialized
@@ -86,7 +149,7 @@ export abstract class BaseStorageModule implements StorageModule {
     destinationPath: string,
     options?: MoveOptions
   ): Promise<OperationResult<FileSystemItem>>;
-  abstract deleteFile(path: string): Promise<OperationResult>;
+  abstract deleteFile(path: string, options?: DeleteOptions): Promise<OperationResult>;
   abstract renameFile(
     path: string,
     newName: string,
@@ -104,6 +167,655 @@ export abstract class BaseStorageModule implements StorageModule {
   abstract getItem(path: string): Promise<OperationResult<FileSystemItem>>;
   abstract exists(path: string): Promise<boolean>;
 
+  /**
+   * Open a file as a Node.js stream.
+   * Default implementation buffers the file via downloadFile(); modules should
+   * override it to stream with constant memory.
+   */
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    const result = await this.downloadFile(remotePath, undefined, { signal: options.signal });
+    if (!result.success) {
+      return errorResult(result.error || `Failed to download file: ${remotePath}`);
+    }
+
+    try {
+      const buffer = result.data as Buffer;
+      const range = resolveByteRange(remotePath, buffer.length, options);
+      const stream = Readable.from([buffer.subarray(range.start, range.end + 1)]);
+      return successResult(this.toDownloadStream(remotePath, stream, buffer.length, range, options));
+    } catch (error) {
+      return errorResult((error as Error).message);
+    }
+  }
+
+  /**
+   * Open a file as a web ReadableStream (e.g. to return `new Response(stream)` from a route handler)
+   */
+  async downloadWebStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<WebDownloadStream>> {
+    const result = await this.downloadStream(remotePath, options);
+    if (!result.success || !result.data) {
+      return errorResult(result.error || `Failed to download file: ${remotePath}`);
+    }
+
+    return successResult({
+      ...result.data,
+      stream: Readable.toWeb(result.data.stream) as ReadableStream<Uint8Array>,
+    });
+  }
+
+  /**
+   * Build a DownloadStream result, attaching progress reporting when requested
+   */
+  protected toDownloadStream(
+    remotePath: string,
+    stream: Readable,
+    size: number,
+    range: ByteRange,
+    options: DownloadStreamOptions = {},
+    mimeType?: string
+  ): DownloadStream {
+    // Aborting the signal destroys the stream with an AbortError
+    if (options.signal) {
+      addAbortSignal(options.signal, stream);
+    }
+
+    return {
+      stream: trackStreamProgress(stream, range.length, options.onProgress),
+      size,
+      start: range.start,
+      end: range.end,
+      contentLength: range.length,
+      mimeType: mimeType || getMimeType(getBaseName(remotePath)),
+    };
+  }
+
+  // ============ Copy ============
+
+  /**
+   * Copy a file or folder.
+   * Default implementation streams every file through downloadStream() and
+   * uploadFile(); modules with a server-side copy override it.
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const source = await this.prepareCopy(sourcePath, destinationPath, options);
+      const copied = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        await this.streamCopy(source, target, copyOptions, this.createCopyTracker(copyOptions));
+        const item = await this.getItem(target);
+        if (!item.success || !item.data) {
+          throw new FileNotFoundError(target);
+        }
+        return item.data;
+      });
+      return successResult(copied);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (error instanceof HazoFilesError) {
+        return errorResult(error.message);
+      }
+      return errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Check a copy before it starts: the source must exist, a folder with contents needs
+   * `recursive`, and the destination must be free unless `overwrite` is set. An item
+   * at the destination is only replaced by copyIntoPlace(), once the copy is complete.
+   * @returns The source item
+   * @throws FileExistsError when the destination is taken and overwrite is not set
+   */
+  protected async prepareCopy(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions
+  ): Promise<FileSystemItem> {
+    this.throwIfAborted(options.signal, sourcePath);
+    const source = normalizePath(sourcePath);
+    const destination = normalizePath(destinationPath);
+
+    const item = await this.getItem(source);
+    if (!item.success || !item.data) {
+      throw new FileNotFoundError(sourcePath);
+    }
+    if (destination === source || isChildPath(source, destination)) {
+      throw new InvalidPathError(destinationPath, 'cannot copy an item into itself');
+    }
+    if (item.data.isDirectory && !options.recursive) {
+      const children = await this.listDirectory(source, { includeHidden: true });
+      if (children.data?.length) {
+        throw new DirectoryNotEmptyError(sourcePath);
+      }
+    }
+
+    if (!options.overwrite && (await this.exists(destination))) {
+      throw new FileExistsError(destinationPath);
+    }
+    return item.data;
+  }
+
+  /**
+   * Run a copy into its destination. When `overwrite` replaces an existing item, the
+   * copy is made under a temporary name next to it and swapped in once complete, so
+   * a copy that fails or is aborted leaves the existing item as it was.
+   * @param copy - Copies to the given path (with onProgress reporting destination paths)
+   * @returns The copied item at the destination
+   */
+  protected async copyIntoPlace(
+    destinationPath: string,
+    options: CopyOptions,
+    copy: (target: string, options: CopyOptions) => Promise<FileSystemItem>
+  ): Promise<FileSystemItem> {
+    const destination = normalizePath(destinationPath);
+    if (!options.overwrite || !(await this.exists(destination))) {
+      return copy(destination, options);
+    }
+
+    const temp = joinPath(getParentPath(destination), `.hazo_copy_${randomUUID()}_${getBaseName(destination)}`);
+    const onProgress = options.onProgress;
+    try {
+      await copy(temp, {
+        ...options,
+        onProgress: onProgress && ((progress) =>
+          onProgress({ ...progress, path: destination + normalizePath(progress.path).slice(temp.length) })),
+      });
+    } catch (error) {
+      await this.removeItem(temp).catch(() => {});
+      throw error;
+    }
+
+    await this.removeItem(destination);
+    const moved = await this.moveItem(temp, destination);
+    if (!moved.success || !moved.data) {
+      throw new Error(`${moved.error || 'Failed to move the copy into place'} (the copy is at ${temp})`);
+    }
+    return moved.data;
+  }
+
+  /**
+   * Progress reporting for a copy: call the returned function with every copied file
+   */
+  protected createCopyTracker(options: CopyOptions): (file: FileItem) => void {
+    let filesCopied = 0;
+    let bytesCopied = 0;
+    return (file) => {
+      filesCopied++;
+      bytesCopied += file.size;
+      options.onProgress?.({ path: normalizePath(file.path), filesCopied, bytesCopied });
+    };
+  }
+
+  /**
+   * Report the files of an item copied in one request (e.g. a folder copied on the
+   * server) to onProgress
+   */
+  protected async reportCopiedItem(item: FileSystemItem, options: CopyOptions): Promise<void> {
+    if (!options.onProgress) return;
+
+    const onCopied = this.createCopyTracker(options);
+    if (!item.isDirectory) {
+      onCopied(item);
+      return;
+    }
+    const listing = await this.listDirectory(item.path, { recursive: true, includeHidden: true });
+    for (const child of listing.data ?? []) {
+      if (!child.isDirectory) onCopied(child);
+    }
+  }
+
+  private async streamCopy(
+    source: FileSystemItem,
+    destination: string,
+    options: CopyOptions,
+    onCopied: (file: FileItem) => void
+  ): Promise<void> {
+    this.throwIfAborted(options.signal, source.path);
+
+    if (!source.isDirectory) {
+      const download = await this.downloadStream(source.path, { signal: options.signal });
+      if (!download.success || !download.data) {
+        throw new Error(download.error || `Failed to read file: ${source.path}`);
+      }
+      const { stream } = download.data;
+      const upload = await this.uploadFile(Readable.toWeb(stream) as ReadableStream, destination, {
+        signal: options.signal,
+      });
+      if (!upload.success || !upload.data) {
+        stream.destroy();
+        throw new Error(upload.error || `Failed to write file: ${destination}`);
+      }
+      onCopied(upload.data);
+      return;
+    }
+
+    const created = await this.createDirectory(destination);
+    if (!created.success) {
+      throw new Error(created.error || `Failed to create directory: ${destination}`);
+    }
+    const children = await this.listDirectory(source.path, { includeHidden: true, signal: options.signal });
+    if (!children.success || !children.data) {
+      throw new Error(children.error || `Failed to list directory: ${source.path}`);
+    }
+    for (const child of children.data) {
+      await this.streamCopy(child, joinPath(destination, child.name), options, onCopied);
+    }
+  }
+
+  // ============ Batch Operations ============
+
+  /**
+   * Delete many files and folders.
+   * Default implementation runs deleteFile()/removeDirectory() for each path;
+   * modules with a batch endpoint override it.
+   */
+  async batchDelete(paths: string[], options: BatchDeleteOptions = {}): Promise<OperationResult<BatchResult>> {
+    this.ensureInitialized();
+    return this.runBatch(paths, (path) => path, options, async (path) => {
+      const item = await this.getItem(path);
+      if (!item.success || !item.data) {
+        return errorResult(item.error || new FileNotFoundError(path).message);
+      }
+      return item.data.isDirectory
+        ? this.removeDirectory(path, options.recursive)
+        : this.deleteFile(path, { signal: options.signal });
+    });
+  }
+
+  /**
+   * Move many files and folders.
+   * Default implementation runs moveItem() for each operation.
+   */
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options: BatchMoveOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.runBatch(operations, (operation) => operation.sourcePath, options, (operation) =>
+      this.moveItem(operation.sourcePath, operation.destinationPath, {
+        overwrite: options.overwrite,
+        signal: options.signal,
+      })
+    );
+  }
+
+  /**
+   * Copy many files and folders.
+   * Default implementation runs copyItem() for each operation.
+   */
+  async batchCopy(
+    operations: BatchCopyOperation[],
+    options: BatchCopyOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.runBatch(operations, (operation) => operation.sourcePath, options, (operation) =>
+      this.copyItem(operation.sourcePath, operation.destinationPath, {
+        recursive: options.recursive,
+        overwrite: options.overwrite,
+        signal: options.signal,
+      })
+    );
+  }
+
+  /**
+   * Rename many files and folders.
+   * Default implementation runs renameFile()/renameFolder() for each operation.
+   */
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options: BatchRenameOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.runBatch(operations, (operation) => operation.path, options, async (operation) => {
+      const item = await this.getItem(operation.path);
+      if (!item.success || !item.data) {
+        return errorResult(item.error || new FileNotFoundError(operation.path).message);
+      }
+      const renameOptions = { overwrite: options.overwrite, signal: options.signal };
+      return item.data.isDirectory
+        ? this.renameFolder(operation.path, operation.newName, renameOptions)
+        : this.renameFile(operation.path, operation.newName, renameOptions);
+    });
+  }
+
+  /**
+   * Run a batch one operation at a time per worker (options.concurrency workers),
+   * collecting a result for every operation
+   * @param pathOf - Path an operation acts on, for progress and abort messages
+   */
+  protected async runBatch<T, R>(
+    operations: T[],
+    pathOf: (operation: T) => string,
+    options: BatchOptions,
+    run: (operation: T) => Promise<OperationResult<R>>
+  ): Promise<OperationResult<BatchResult<R>>> {
+    const onDone = this.createBatchTracker(operations.length, options);
+    const results = await mapWithConcurrency(operations, options.concurrency ?? 4, async (operation) => {
+      const path = pathOf(operation);
+      let result: OperationResult<R>;
+      try {
+        result = options.signal?.aborted ? this.abortedResult<R>(path) : await run(operation);
+      } catch (error) {
+        result = this.isAbortError(error, options.signal)
+          ? this.abortedResult<R>(path)
+          : errorResult((error as Error).message);
+      }
+      onDone(path, result);
+      return result;
+    });
+    return this.toBatchResult(results);
+  }
+
+  /**
+   * Wrap the results of a batch with its summary
+   */
+  protected toBatchResult<R>(results: OperationResult<R>[]): OperationResult<BatchResult<R>> {
+    const succeeded = results.filter((result) => result.success).length;
+    const summary: BatchSummary = { total: results.length, succeeded, failed: results.length - succeeded };
+    return successResult({ results, summary });
+  }
+
+  /**
+   * Progress reporting for a batch: call the returned function with the result of
+   * every operation as it finishes
+   */
+  protected createBatchTracker(
+    total: number,
+    options: BatchOptions
+  ): (path: string, result: OperationResult<unknown>) => void {
+    let succeeded = 0;
+    let failed = 0;
+    return (path, result) => {
+      if (result.success) {
+        succeeded++;
+      } else {
+        failed++;
+      }
+      options.onProgress?.({ path: normalizePath(path), total, succeeded, failed });
+    };
+  }
+
+  // ============ Cancellation ============
+
+  /**
+   * Throw an OperationAbortedError if the signal has been aborted
+   */
+  protected throwIfAborted(signal?: AbortSignal, path?: string): void {
+    if (signal?.aborted) {
+      throw new OperationAbortedError(path);
+    }
+  }
+
+  /**
+   * Check whether an error was caused by aborting the operation:
+   * an OperationAbortedError, or the AbortError raised by fs streams, fetch and the SDKs
+   */
+  protected isAbortError(error: unknown, signal?: AbortSignal): boolean {
+    return (
+      error instanceof OperationAbortedError ||
+      (error as Error | undefined)?.name === 'AbortError' ||
+      signal?.aborted === true
+    );
+  }
+
+  /**
+   * Error result for an aborted operation
+   */
+  protected abortedResult<T = void>(path?: string): OperationResult<T> {
+    return errorResult<T>(new OperationAbortedError(path).message);
+  }
+
+  // ============ Resumable Uploads ============
+  // Default implementation stages chunks in a temp part file and calls uploadFile()
+  // on completion. Sessions expire after a day, and part files left that long are
+  // removed when the next session starts. Modules with native resumable uploads
+  // override these methods.
+
+  async startUpload(
+    remotePath: string,
+    options: StartUploadOptions = {}
+  ): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    try {
+      if (!options.overwrite && (await this.exists(remotePath))) {
+        throw new FileExistsError(remotePath);
+      }
+
+      await this.removeExpiredParts();
+      const session = this.createUploadSession(
+        remotePath,
+        options,
+        {},
+        new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
+      );
+      const partPath = join(this.getUploadTempDir(), `${session.id}.part`);
+      await fsp.mkdir(this.getUploadTempDir(), { recursive: true });
+      await fsp.writeFile(partPath, Buffer.alloc(0));
+      session.providerState = { partPath };
+
+      return successResult(session);
+    } catch (error) {
+      if (error instanceof FileExistsError) {
+        return errorResult(error.message);
+      }
+      return errorResult(`Failed to start upload: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    // Appends to a part file run one at a time, in the order they were called
+    const previous = this.uploadQueues.get(session.id);
+    const result = previous
+      ? previous.then(() => this.appendChunk(session, chunk))
+      : this.appendChunk(session, chunk);
+    this.uploadQueues.set(session.id, result);
+    void result.then(() => {
+      if (this.uploadQueues.get(session.id) === result) {
+        this.uploadQueues.delete(session.id);
+      }
+    });
+    return result;
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      await this.uploadQueues.get(session.id);
+      this.assertNotExpired(session);
+      this.assertUploadComplete(session);
+      const partPath = this.getPartPath(session);
+
+      // Drop bytes from an append that was interrupted before the session was saved
+      await fsp.truncate(partPath, session.bytesUploaded);
+
+      const result = await this.uploadFile(partPath, session.remotePath, { overwrite: session.overwrite });
+      if (result.success) {
+        await fsp.rm(partPath, { force: true });
+      }
+      return result;
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        return errorResult(error.message);
+      }
+      return errorResult(`Failed to complete upload: ${(error as Error).message}`);
+    }
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      await this.uploadQueues.get(session.id);
+      await fsp.rm(this.getPartPath(session), { force: true });
+      return successResult();
+    } catch (error) {
+      return errorResult(`Failed to abort upload: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Append a chunk to the part file of a session started by the default implementation
+   */
+  private async appendChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    try {
+      this.assertNotExpired(session);
+      this.assertChunkFits(session, chunk);
+      const partPath = this.getPartPath(session);
+
+      const stats = await fsp.stat(partPath).catch(() => null);
+      if (!stats || stats.size < session.bytesUploaded) {
+        throw new UploadSessionError(session.id, 'uploaded data is missing (expired or aborted)');
+      }
+
+      // Drop bytes from an append that was interrupted before the session was saved
+      if (stats.size > session.bytesUploaded) {
+        await fsp.truncate(partPath, session.bytesUploaded);
+      }
+
+      await fsp.appendFile(partPath, chunk);
+      return successResult(this.advanceUploadSession(session, chunk.length));
+    } catch (error) {
+      if (error instanceof UploadSessionError) {
+        return errorResult(error.message);
+      }
+      return errorResult(`Failed to upload chunk: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Remove part files not written to for longer than a session lasts
+   */
+  private async removeExpiredParts(): Promise<void> {
+    const dir = this.getUploadTempDir();
+    const names = await fsp.readdir(dir).catch(() => [] as string[]);
+    const expiredBefore = Date.now() - UPLOAD_SESSION_TTL_MS;
+
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith('.part'))
+        .map(async (name) => {
+          const partPath = join(dir, name);
+          const stats = await fsp.stat(partPath).catch(() => null);
+          if (stats && stats.mtimeMs <= expiredBefore) {
+            await fsp.rm(partPath, { force: true }).catch(() => undefined);
+          }
+        })
+    );
+  }
+
+  /**
+   * Directory for temp part files of the default upload session implementation
+   */
+  protected getUploadTempDir(): string {
+    return join(tmpdir(), 'hazo_files_uploads');
+  }
+
+  /**
+   * Temp part file of a session started by the default implementation
+   */
+  protected getPartPath(session: UploadSession): string {
+    const partPath = session.providerState.partPath;
+    if (typeof partPath !== 'string') {
+      throw new UploadSessionError(session.id, 'session has no part file');
+    }
+    return partPath;
+  }
+
+  /**
+   * Create the initial state for a new upload session
+   */
+  protected createUploadSession(
+    remotePath: string,
+    options: StartUploadOptions,
+    providerState: Record<string, unknown> = {},
+    expiresAt?: Date
+  ): UploadSession {
+    const now = new Date().toISOString();
+    return {
+      id: randomUUID(),
+      provider: this.provider,
+      remotePath: normalizePath(remotePath),
+      totalSize: options.totalSize,
+      bytesUploaded: 0,
+      overwrite: options.overwrite ?? false,
+      mimeType: options.mimeType || getMimeType(getBaseName(remotePath)),
+      metadata: options.metadata,
+      providerState,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: expiresAt?.toISOString(),
+    };
+  }
+
+  /**
+   * Return a copy of the session with the committed offset moved forward
+   */
+  protected advanceUploadSession(
+    session: UploadSession,
+    bytes: number,
+    providerState: Record<string, unknown> = session.providerState
+  ): UploadSession {
+    return {
+      ...session,
+      bytesUploaded: session.bytesUploaded + bytes,
+      providerState,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Reject sessions past their expiry
+   */
+  protected assertNotExpired(session: UploadSession): void {
+    if (session.expiresAt !== undefined && Date.parse(session.expiresAt) <= Date.now()) {
+      throw new UploadSessionError(session.id, `session expired at ${session.expiresAt}`);
+    }
+  }
+
+  /**
+   * Reject chunks that would exceed the declared total size
+   */
+  protected assertChunkFits(session: UploadSession, chunk: Buffer): void {
+    if (session.totalSize !== undefined && session.bytesUploaded + chunk.length > session.totalSize) {
+      throw new UploadSessionError(
+        session.id,
+        `chunk exceeds the declared size of ${session.totalSize} bytes`,
+        { bytesUploaded: session.bytesUploaded, chunkSize: chunk.length }
+      );
+    }
+  }
+
+  /**
+   * Reject completion before all declared bytes have arrived
+   */
+  protected assertUploadComplete(session: UploadSession): void {
+    if (session.totalSize !== undefined && session.bytesUploaded !== session.totalSize) {
+      throw new UploadSessionError(
+        session.id,
+        `only ${session.bytesUploaded} of ${session.totalSize} bytes uploaded`,
+        { bytesUploaded: session.bytesUploaded, totalSize: session.totalSize }
+      );
+    }
+  }
+
   /**
    * Get folder tree structure.
    * Default implementation that can be overridden by subclasses for optimization.
@@ -148,6 +860,232 @@ export abstract class BaseStorageModule implements StorageModule {
     return nodes;
   }
 
+  // ============ Search ============
+
+  /**
+   * Find items below a folder by glob and attributes.
+   * Default implementation walks the tree with listDirectory(), one folder at a time
+   * in name order, and stops once the page is full; the cursor holds the path of the
+   * last item returned and the next page continues the walk after it. Modules whose
+   * provider has a search API override it.
+   */
+  async search(options: SearchOptions = {}): Promise<OperationResult<SearchPage>> {
+    this.ensureInitialized();
+    const root = normalizePath(options.root ?? '/');
+
+    try {
+      const limit = Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT);
+      const after = options.cursor ? decodeSearchCursor<{ after?: string }>(options.cursor).after : undefined;
+      if (options.cursor && typeof after !== 'string') {
+        throw new InvalidCursorError(options.cursor, 'not a cursor returned by search()', 'search');
+      }
+      let afterSegments = after ? getPathSegments(after) : null;
+      const matches = createSearchFilter(options);
+      const items: FileSystemItem[] = [];
+
+      // Depth-first with each folder before its contents, so the walk order is the
+      // order of the paths' name lists; returns false once a match past the page is found
+      const walk = async (folder: string): Promise<boolean> => {
+        this.throwIfAborted(options.signal, folder);
+        const listing = await this.listDirectory(folder, { includeHidden: options.includeHidden, signal: options.signal });
+        if (!listing.success || !listing.data) {
+          throw new Error(listing.error || `Failed to list directory: ${folder}`);
+        }
+
+        const children = listing.data
+          .map((item) => ({ item, path: normalizePath(item.path) }))
+          .sort((a, b) => compareNames(a.item.name, b.item.name));
+        for (const { item, path } of children) {
+          let emit = true;
+          if (afterSegments) {
+            const position = compareWalkPosition(getPathSegments(path), afterSegments);
+            if (position === 'before') continue;
+            if (position === 'after') {
+              afterSegments = null;
+            } else {
+              // The item of the cursor or a folder above it: returned on an earlier page
+              emit = false;
+            }
+          }
+
+          if (emit && matches({ ...item, path })) {
+            if (items.length === limit) return false;
+            items.push({ ...item, path });
+          }
+          if (item.isDirectory && !(await walk(path))) return false;
+        }
+        return true;
+      };
+
+      const complete = await walk(root);
+      return successResult({
+        items,
+        cursor: complete ? undefined : encodeSearchCursor({ after: items[items.length - 1].path }),
+        hasMore: !complete,
+      });
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(root);
+      }
+      if (error instanceof InvalidCursorError) {
+        return errorResult(error.message);
+      }
+      return errorResult(`Failed to search: ${(error as Error).message}`);
+    }
+  }
+
+  // ============ Change Feed ============
+
+  /**
+   * Get changes made since a cursor.
+   * Default implementation reports that there is no change feed; modules whose
+   * provider can report changes override it.
+   */
+  async getChanges(_cursor?: string, _options?: GetChangesOptions): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+    return errorResult(`Change feed is not supported by the ${this.provider} provider`);
+  }
+
+  // ============ Versions ============
+
+  /**
+   * List the earlier versions of a file.
+   * Default implementation reports that there are no versions; modules that keep
+   * versions override it together with downloadVersion() and restoreVersion().
+   */
+  async listVersions(_path: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+    return errorResult(`Versioning is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Download the content of an earlier version
+   */
+  async downloadVersion(_path: string, _versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+    return errorResult(`Versioning is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Make an earlier version the current content
+   */
+  async restoreVersion(_path: string, _versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return errorResult(`Versioning is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Versions to remove under a retention config
+   * @param versions - Versions of one file, newest first
+   */
+  protected expiredVersions<T extends { modifiedAt: Date }>(versions: T[], config: VersioningConfig): T[] {
+    const maxVersions = config.maxVersions ?? 0;
+    const maxAgeMs = (config.maxAgeDays ?? 0) * 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    return versions.filter((version, index) =>
+      (maxVersions > 0 && index >= maxVersions) ||
+      (maxAgeMs > 0 && now - version.modifiedAt.getTime() > maxAgeMs)
+    );
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Move a file or folder to the trash.
+   * Default implementation reports that there is no trash; modules with a trash
+   * override it together with listTrash(), restoreFromTrash() and purgeTrash().
+   */
+  async trashItem(_path: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+    return errorResult(`Trash is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * List the items in the trash, most recently deleted first
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return errorResult(`Trash is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Move an item out of the trash
+   */
+  async restoreFromTrash(
+    _trashId: string,
+    _options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return errorResult(`Trash is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Permanently delete items from the trash
+   */
+  async purgeTrash(_options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return errorResult(`Trash is not supported by the ${this.provider} provider`);
+  }
+
+  /**
+   * Items of the trash that purgeTrash() removes: the given IDs, or the items deleted
+   * before the retention period (none with a retention of 0 days)
+   */
+  protected trashToPurge(items: TrashItem[], options: PurgeTrashOptions, retentionDays: number): TrashItem[] {
+    if (options.ids) {
+      const ids = new Set(options.ids);
+      return items.filter((item) => ids.has(item.id));
+    }
+    const days = options.olderThanDays ?? retentionDays;
+    if (options.olderThanDays === undefined && days <= 0) {
+      return [];
+    }
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    return items.filter((item) => item.deletedAt.getTime() <= cutoff);
+  }
+
+  /**
+   * Path to restore a trashed item to, applying the conflict strategy when the path is taken
+   * @throws FileExistsError when the path is taken and onConflict is 'fail'
+   */
+  protected async resolveRestorePath(path: string, options: RestoreFromTrashOptions = {}): Promise<string> {
+    const normalized = normalizePath(path);
+    if (!(await this.exists(normalized))) {
+      return normalized;
+    }
+
+    switch (options.onConflict ?? 'fail') {
+      case 'rename': {
+        const parentPath = getParentPath(normalized);
+        const name = getBaseName(normalized);
+        for (let n = 1; ; n++) {
+          const candidate = joinPath(parentPath, `${getNameWithoutExtension(name)} (${n})${getExtension(name)}`);
+          if (!(await this.exists(candidate))) {
+            return candidate;
+          }
+        }
+      }
+      case 'overwrite':
+        await this.removeItem(normalized);
+        return normalized;
+      default:
+        throw new FileExistsError(normalized);
+    }
+  }
+
+  /**
+   * Delete the file or folder (with its contents) at a path that is about to be replaced
+   */
+  private async removeItem(path: string): Promise<void> {
+    const existing = await this.getItem(path);
+    const removed = existing.data?.isDirectory
+      ? await this.removeDirectory(path, true)
+      : await this.deleteFile(path);
+    if (!removed.success) {
+      throw new Error(removed.error || `Failed to replace ${path}`);
+    }
+  }
+
   // Utility methods available to subclasses
   protected normalizePath = normalizePath;
   protected joinPath = joinPath;
@@ -163,3 +1101,23 @@ export abstract class BaseStorageModule implements StorageModule {
 export function isModuleInitialized(module: StorageModule): boolean {
   return (module as BaseStorageModule).isInitialized ?? false;
 }
+
+/**
+ * Order of two names in a search() walk
+ */
+function compareNames(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Where a path comes in a search() walk relative to the cursor path: 'before' with
+ * everything below it, 'above' (the cursor item or a folder containing it), or 'after'
+ */
+function compareWalkPosition(segments: string[], cursor: string[]): 'before' | 'above' | 'after' {
+  for (let i = 0; i < segments.length; i++) {
+    if (i === cursor.length) return 'after';
+    const order = compareNames(segments[i], cursor[i]);
+    if (order !== 0) return order < 0 ? 'before' : 'after';
+  }
+  return 'above';
+}
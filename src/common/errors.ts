@@ -84,6 +84,59 @@ export class InvalidExtensionError extends HazoFilesError {
   }
 }
 
+export class InvalidRangeError extends HazoFilesError {
+  constructor(path: string, start: number | undefined, end: number | undefined, size: number) {
+    super(
+      `Invalid byte range ${start ?? ''}-${end ?? ''} for "${path}" (${size} bytes)`,
+      'INVALID_RANGE',
+      { path, start, end, size }
+    );
+    this.name = 'InvalidRangeError';
+  }
+}
+
+export class UploadSessionError extends HazoFilesError {
+  constructor(sessionId: string, message: string, details?: Record<string, unknown>) {
+    super(`Upload session ${sessionId}: ${message}`, 'UPLOAD_SESSION_ERROR', { sessionId, ...details });
+    this.name = 'UploadSessionError';
+  }
+}
+
+export class OperationAbortedError extends HazoFilesError {
+  constructor(path?: string) {
+    super(path ? `Operation aborted: ${path}` : 'Operation aborted', 'OPERATION_ABORTED', { path });
+    this.name = 'OperationAbortedError';
+  }
+}
+
+export class EncryptionError extends HazoFilesError {
+  constructor(path: string, message: string) {
+    super(`Encryption error for "${path}": ${message}`, 'ENCRYPTION_ERROR', { path });
+    this.name = 'EncryptionError';
+  }
+}
+
+export class InvalidCursorError extends HazoFilesError {
+  constructor(cursor: string, reason: string, kind: 'change' | 'search' | 'query' = 'change') {
+    super(`Invalid ${kind} cursor: ${reason}`, 'INVALID_CURSOR', { cursor });
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export class VersionNotFoundError extends HazoFilesError {
+  constructor(path: string, versionId: string) {
+    super(`Version ${versionId} not found: ${path}`, 'VERSION_NOT_FOUND', { path, versionId });
+    this.name = 'VersionNotFoundError';
+  }
+}
+
+export class TrashItemNotFoundError extends HazoFilesError {
+  constructor(trashId: string) {
+    super(`Item not found in trash: ${trashId}`, 'TRASH_ITEM_NOT_FOUND', { trashId });
+    this.name = 'TrashItemNotFoundError';
+  }
+}
+
 export class AuthenticationError extends HazoFilesError {
   constructor(provider: string, message: string) {
     super(`Authentication failed for ${provider}: ${message}`, 'AUTHENTICATION_ERROR', { provider });
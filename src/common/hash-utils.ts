@@ -19,6 +19,7 @@ export interface FileInfo {
 /** xxHash API interface */
 interface XXHashAPI {
   h64Raw(inputBuffer: Uint8Array, seed?: bigint): bigint;
+  create64(seed?: bigint): { update(input: Uint8Array): unknown; digest(): bigint };
 }
 
 /** Cached xxhash instance */
@@ -56,16 +57,22 @@ async function loadXxhash(): Promise<XXHashAPI | null> {
  * Used when xxhash-wasm is not available
  */
 function fnv1aHash(data: Uint8Array): string {
-  // FNV-1a 64-bit hash
-  let hash = BigInt('14695981039346656037');
-  const prime = BigInt('1099511628211');
+  return fnv1aUpdate(FNV_OFFSET_BASIS, data).toString(16).padStart(16, '0');
+}
+
+// FNV-1a 64-bit parameters
+const FNV_OFFSET_BASIS = BigInt('14695981039346656037');
+const FNV_PRIME = BigInt('1099511628211');
 
+/**
+ * Add bytes to a running FNV-1a hash
+ */
+function fnv1aUpdate(hash: bigint, data: Uint8Array): bigint {
   for (let i = 0; i < data.length; i++) {
     hash ^= BigInt(data[i]);
-    hash = BigInt.asUintN(64, hash * prime);
+    hash = BigInt.asUintN(64, hash * FNV_PRIME);
   }
-
-  return hash.toString(16).padStart(16, '0');
+  return hash;
 }
 
 /**
@@ -175,6 +182,64 @@ export async function computeFileHashFromStream(
   return computeFileHash(buffer);
 }
 
+/**
+ * Compute hash and size for a Node.js stream (or any async iterable of chunks)
+ *
+ * The content is hashed as it is read, never held in memory as a whole.
+ * Gives the same result as computeFileInfo() on the complete content.
+ *
+ * @param stream - File content, e.g. from downloadStream()
+ * @returns Object with file_hash and file_size
+ *
+ * @example
+ * ```typescript
+ * const result = await fileManager.downloadStream('/videos/intro.mp4');
+ * const info = await computeFileInfoFromReadable(result.data!.stream);
+ * ```
+ */
+export async function computeFileInfoFromReadable(
+  stream: AsyncIterable<Uint8Array | string>
+): Promise<FileInfo> {
+  const hasher = await createFileHasher();
+  for await (const chunk of stream) {
+    hasher.update(typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk);
+  }
+  return hasher.digest();
+}
+
+/** Incremental hash of content that arrives in chunks */
+export interface FileHasher {
+  update(chunk: Uint8Array): void;
+  /** Hash and size of everything passed to update() */
+  digest(): FileInfo;
+}
+
+/**
+ * Create an incremental hasher, e.g. to hash content while it is copied.
+ * Gives the same result as computeFileInfo() on the complete content.
+ */
+export async function createFileHasher(): Promise<FileHasher> {
+  const xxhash = await loadXxhash();
+  const hasher = xxhash?.create64();
+  let fallback = FNV_OFFSET_BASIS;
+  let file_size = 0;
+
+  return {
+    update(chunk: Uint8Array): void {
+      if (hasher) {
+        hasher.update(chunk);
+      } else {
+        fallback = fnv1aUpdate(fallback, chunk);
+      }
+      file_size += chunk.length;
+    },
+    digest(): FileInfo {
+      const hash = hasher ? hasher.digest() : fallback;
+      return { file_hash: hash.toString(16).padStart(16, '0'), file_size };
+    },
+  };
+}
+
 /**
  * Check if two hashes are equal
  *
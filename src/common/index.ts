@@ -21,3 +21,6 @@ export * from './naming-utils';
 export * from './file-data-utils';
 export * from './hash-utils';
 export * from './ref-utils';
+export * from './stream-utils';
+export * from './search-utils';
+export * from './metadata-query-utils';
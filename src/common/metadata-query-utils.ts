@@ -0,0 +1,311 @@
+/**
+ * Metadata query utilities for hazo_files
+ *
+ * Evaluates MetadataQuery filters, sorting and cursors against tracked file records,
+ * for the records FileMetadataService could not narrow down in the store.
+ */
+
+import { InvalidCursorError } from './errors';
+import { normalizePath, isChildPath } from './path-utils';
+import { matchesMimeType } from './search-utils';
+import { parseFileData } from './file-data-utils';
+import type {
+  FileDataStructure,
+  FileMetadataRecordV2,
+  MetadataDataPredicate,
+  MetadataDateRange,
+  MetadataNumberRange,
+  MetadataQuery,
+  MetadataQueryPage,
+  MetadataSort,
+} from '../types';
+
+/** Records per query page when no limit is given */
+export const DEFAULT_QUERY_LIMIT = 100;
+
+const DEFAULT_SORT: MetadataSort[] = [{ field: 'created_at', direction: 'desc' }];
+
+const DATE_COLUMNS = new Set(['created_at', 'changed_at', 'file_changed_at']);
+
+type SortValue = string | number | null;
+
+interface SortKey {
+  values: SortValue[];
+  id: string;
+}
+
+interface QueryCursor {
+  /** Sort the cursor was made for */
+  s: string;
+  v: SortValue[];
+  id: string;
+}
+
+/**
+ * Read a value from a record's file_data by path, e.g. 'merged_data.total' or
+ * 'raw_data[0].data.vendor'
+ * @throws Error if the path does not start with merged_data or raw_data
+ */
+export function getFileDataValue(fileData: FileDataStructure, path: string): unknown {
+  const segments = Array.from(path.matchAll(/[^.[\]]+/g), (match) => match[0]);
+  if (segments[0] !== 'merged_data' && segments[0] !== 'raw_data') {
+    throw new Error(`Invalid file_data path (must start with merged_data or raw_data): ${path}`);
+  }
+
+  let value: unknown = fileData;
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Compare a file_data value with a query value; null when they cannot be compared
+ */
+function compareWithQueryValue(actual: unknown, expected: unknown): number | null {
+  if (expected instanceof Date) {
+    const time = typeof actual === 'string' || typeof actual === 'number' ? new Date(actual).getTime() : NaN;
+    return Number.isNaN(time) ? null : time - expected.getTime();
+  }
+  if (typeof expected === 'number' || (typeof expected === 'string' && typeof actual === 'number')) {
+    const a = toNumber(actual);
+    const b = toNumber(expected);
+    return a === null || b === null ? null : a - b;
+  }
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return actual < expected ? -1 : actual > expected ? 1 : 0;
+  }
+  return null;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : null;
+  }
+  return null;
+}
+
+function valuesEqual(actual: unknown, expected: unknown): boolean {
+  if (expected === null || expected === undefined) {
+    return actual === null || actual === undefined;
+  }
+  if (typeof expected === 'boolean') {
+    return actual === expected;
+  }
+  return compareWithQueryValue(actual, expected) === 0;
+}
+
+function matchesPredicate(actual: unknown, predicate: MetadataDataPredicate): boolean {
+  const { op, value } = predicate;
+  switch (op) {
+    case '=':
+      return valuesEqual(actual, value);
+    case '!=':
+      return !valuesEqual(actual, value);
+    case '>':
+    case '>=':
+    case '<':
+    case '<=': {
+      const comparison = compareWithQueryValue(actual, value);
+      if (comparison === null) return false;
+      return op === '>' ? comparison > 0 : op === '>=' ? comparison >= 0 : op === '<' ? comparison < 0 : comparison <= 0;
+    }
+    case 'in':
+      return Array.isArray(value) && value.some((candidate) => valuesEqual(actual, candidate));
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((item) => valuesEqual(item, value));
+      }
+      return typeof actual === 'string' && typeof value === 'string' &&
+        actual.toLowerCase().includes(value.toLowerCase());
+    case 'exists':
+      return (actual !== undefined && actual !== null) === (value !== false);
+    default:
+      throw new Error(`Unknown query operator: ${String(op)}`);
+  }
+}
+
+function toList<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function toTime(value: Date | string | null | undefined): number {
+  return value === null || value === undefined ? NaN : new Date(value).getTime();
+}
+
+function inDateRange(value: string | null | undefined, range: MetadataDateRange): boolean {
+  const time = toTime(value);
+  if (Number.isNaN(time)) return false;
+  if (range.after !== undefined && time < toTime(range.after)) return false;
+  if (range.before !== undefined && !(time < toTime(range.before))) return false;
+  return true;
+}
+
+function inNumberRange(value: number | null | undefined, range: MetadataNumberRange): boolean {
+  if (typeof value !== 'number') return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+/**
+ * Build the test that decides whether a record matches the filters of a query
+ * (sort, limit and cursor are applied by queryMetadataRecords())
+ */
+export function createMetadataQueryFilter(query: MetadataQuery): (record: FileMetadataRecordV2) => boolean {
+  const statuses = query.status !== undefined ? toList(query.status) : null;
+  const contentTags = query.content_tag !== undefined ? toList(query.content_tag) : null;
+  const scopes = query.scope_id !== undefined ? toList(query.scope_id) : null;
+  const uploaders = query.uploaded_by !== undefined ? toList(query.uploaded_by) : null;
+  const fileTypes = query.file_type !== undefined ? toList(query.file_type) : null;
+  const root = query.path !== undefined ? normalizePath(query.path) : null;
+  const predicates = query.where ?? [];
+  // Fail on bad paths up front rather than for the first record that has file_data
+  predicates.forEach((predicate) => getFileDataValue({ merged_data: {}, raw_data: [] }, predicate.path));
+
+  return (record) => {
+    if (query.storage_type !== undefined && record.storage_type !== query.storage_type) return false;
+    if (statuses ? !statuses.includes(record.status) : record.status === 'soft_deleted') return false;
+    if (contentTags && !contentTags.includes(record.content_tag ?? null)) return false;
+    if (scopes && !scopes.includes(record.scope_id ?? null)) return false;
+    if (uploaders && !uploaders.includes(record.uploaded_by ?? '')) return false;
+    if (fileTypes) {
+      const isFolder = record.file_type === 'folder';
+      const matches = fileTypes.some((type) =>
+        type === 'folder' ? isFolder : !isFolder && matchesMimeType(record.file_type, [type])
+      );
+      if (!matches) return false;
+    }
+    if (root && record.file_path !== root && !isChildPath(root, record.file_path)) return false;
+    if (query.created_at && !inDateRange(record.created_at, query.created_at)) return false;
+    if (query.changed_at && !inDateRange(record.changed_at, query.changed_at)) return false;
+    if (query.file_changed_at && !inDateRange(record.file_changed_at, query.file_changed_at)) return false;
+    if (query.ref_count && !inNumberRange(record.ref_count, query.ref_count)) return false;
+    if (query.file_size && !inNumberRange(record.file_size, query.file_size)) return false;
+
+    if (predicates.length > 0) {
+      const fileData = parseFileData(record.file_data);
+      return predicates.every((predicate) =>
+        matchesPredicate(getFileDataValue(fileData, predicate.path), predicate)
+      );
+    }
+    return true;
+  };
+}
+
+/**
+ * Value of a sort field, as a number or string that orders correctly (null when unset)
+ */
+function getSortValue(record: FileMetadataRecordV2, field: string, getFileData: () => FileDataStructure): SortValue {
+  let value: unknown;
+  if (field.startsWith('merged_data') || field.startsWith('raw_data')) {
+    value = getFileDataValue(getFileData(), field);
+    // Extracted numbers are often strings; order them with the other numbers
+    value = toNumber(value) ?? value;
+  } else if (DATE_COLUMNS.has(field)) {
+    const time = toTime(record[field] as string | null | undefined);
+    return Number.isNaN(time) ? null : time;
+  } else {
+    value = record[field];
+  }
+
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') return value;
+  return null;
+}
+
+function compareSortValues(a: SortValue, b: SortValue, direction: 'asc' | 'desc'): number {
+  // Unset values come last in either direction
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  let comparison: number;
+  if (typeof a === typeof b) {
+    comparison = a < b ? -1 : a > b ? 1 : 0;
+  } else {
+    comparison = typeof a === 'number' ? -1 : 1;
+  }
+  return direction === 'desc' ? -comparison : comparison;
+}
+
+function compareSortKeys(a: SortKey, b: SortKey, sort: MetadataSort[]): number {
+  for (let i = 0; i < sort.length; i++) {
+    const comparison = compareSortValues(a.values[i], b.values[i], sort[i].direction ?? 'asc');
+    if (comparison !== 0) return comparison;
+  }
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+function getSortSignature(sort: MetadataSort[]): string {
+  return sort.map((key) => `${key.field}:${key.direction ?? 'asc'}`).join(',');
+}
+
+function encodeQueryCursor(cursor: QueryCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf-8').toString('base64url');
+}
+
+function decodeQueryCursor(cursor: string, signature: string): QueryCursor {
+  let state: Partial<QueryCursor> | null = null;
+  try {
+    state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    // Reported below
+  }
+  if (!state || typeof state !== 'object' || !Array.isArray(state.v) || typeof state.id !== 'string') {
+    throw new InvalidCursorError(cursor, 'not a cursor returned by queryFiles()', 'query');
+  }
+  if (state.s !== signature) {
+    throw new InvalidCursorError(cursor, 'the query is sorted differently', 'query');
+  }
+  return state as QueryCursor;
+}
+
+/**
+ * The first sort key of a query and its value at the query's cursor (undefined on the
+ * first page); date columns give milliseconds since the epoch
+ * @throws InvalidCursorError if the cursor is not from this query
+ */
+export function getQueryStart(query: MetadataQuery): { sort: MetadataSort; value?: string | number | null } {
+  const sort = query.sort?.length ? query.sort : DEFAULT_SORT;
+  const after = query.cursor ? decodeQueryCursor(query.cursor, getSortSignature(sort)) : null;
+  return { sort: sort[0], value: after?.v[0] };
+}
+
+/**
+ * Apply a query to records: filter, sort, and return the page after `query.cursor`.
+ * Cursors hold the sort values of the last record, so records added or changed
+ * between pages neither shift nor repeat the pages that follow.
+ * @throws InvalidCursorError if the cursor is not from this query
+ */
+export function queryMetadataRecords(records: FileMetadataRecordV2[], query: MetadataQuery): MetadataQueryPage {
+  const sort = query.sort?.length ? query.sort : DEFAULT_SORT;
+  const signature = getSortSignature(sort);
+  const limit = Math.max(1, query.limit ?? DEFAULT_QUERY_LIMIT);
+  const after = query.cursor ? decodeQueryCursor(query.cursor, signature) : null;
+  const filter = createMetadataQueryFilter(query);
+
+  const keyed = records.filter(filter).map((record) => {
+    let fileData: FileDataStructure | undefined;
+    const getFileData = () => (fileData ??= parseFileData(record.file_data));
+    const key: SortKey = { values: sort.map((key) => getSortValue(record, key.field, getFileData)), id: record.id };
+    return { record, key };
+  });
+  keyed.sort((a, b) => compareSortKeys(a.key, b.key, sort));
+
+  const start = after
+    ? keyed.findIndex(({ key }) => compareSortKeys(key, { values: after.v, id: after.id }, sort) > 0)
+    : 0;
+  const page = start === -1 ? [] : keyed.slice(start, start + limit);
+  const hasMore = start !== -1 && start + limit < keyed.length;
+  const last = page[page.length - 1];
+
+  return {
+    items: page.map(({ record }) => record),
+    cursor: hasMore && last ? encodeQueryCursor({ s: signature, v: last.key.values, id: last.key.id }) : undefined,
+    hasMore,
+  };
+}
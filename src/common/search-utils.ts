@@ -0,0 +1,147 @@
+/**
+ * Search utilities for hazo_files
+ *
+ * Glob matching, the attribute filters of search() and search cursors, shared by
+ * the walk in BaseStorageModule and the providers that search natively.
+ */
+
+import { InvalidCursorError } from './errors';
+import { normalizePath, getPathSegments } from './path-utils';
+import { getMimeType } from './mime-types';
+import type { FileSystemItem, SearchOptions } from '../types';
+
+/** Items per search() page when no limit is given */
+export const DEFAULT_SEARCH_LIMIT = 100;
+
+/**
+ * Compile a glob into a regular expression for a path relative to the search root.
+ * `*` and `?` match within a name, `**` any number of folders, `{a,b}` either
+ * alternative and `\` escapes the next character. A pattern without '/' matches
+ * the name at any depth. Matching ignores case.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = glob.replace(/^\/+/, '');
+  if (!pattern.includes('/')) {
+    pattern = `**/${pattern}`;
+  }
+
+  let source = '';
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  source += ')'.repeat(braces);
+
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Check a MIME type against a list that may contain wildcards like 'image/*'
+ */
+export function matchesMimeType(mimeType: string, mimeTypes: string[]): boolean {
+  const type = mimeType.toLowerCase();
+  return mimeTypes.some((candidate) => {
+    const wanted = candidate.toLowerCase();
+    return wanted.endsWith('/*') ? type.startsWith(wanted.slice(0, -1)) : type === wanted;
+  });
+}
+
+/**
+ * Build the test that decides whether an item below the search root is a match.
+ * Providers that search natively apply it to their results as well, for the
+ * filters their query cannot express.
+ */
+export function createSearchFilter(options: SearchOptions): (item: FileSystemItem) => boolean {
+  // Compared ignoring case, as Dropbox reports paths in their display case
+  const root = normalizePath(options.root ?? '/').toLowerCase();
+  const rootDepth = getPathSegments(root).length;
+  const glob = options.glob ? globToRegExp(options.glob) : null;
+  const nameContains = options.nameContains?.toLowerCase();
+  const mimeTypes = options.mimeTypes?.length ? options.mimeTypes : null;
+  const filesOnly = !options.includeFolders ||
+    mimeTypes !== null || options.minSize !== undefined || options.maxSize !== undefined;
+  const after = options.modifiedAfter?.getTime();
+  const before = options.modifiedBefore?.getTime();
+
+  return (item) => {
+    const segments = getPathSegments(item.path);
+    const itemRoot = normalizePath(segments.slice(0, rootDepth).join('/')).toLowerCase();
+    if (segments.length <= rootDepth || itemRoot !== root) {
+      return false;
+    }
+    const relative = segments.slice(rootDepth);
+    if (!options.includeHidden && relative.some((segment) => segment.startsWith('.'))) {
+      return false;
+    }
+    if (item.isDirectory && filesOnly) {
+      return false;
+    }
+    if (nameContains && !item.name.toLowerCase().includes(nameContains)) {
+      return false;
+    }
+    if (glob && !glob.test(relative.join('/'))) {
+      return false;
+    }
+    if (!item.isDirectory) {
+      if (options.minSize !== undefined && item.size < options.minSize) return false;
+      if (options.maxSize !== undefined && item.size > options.maxSize) return false;
+      if (mimeTypes && !matchesMimeType(item.mimeType || getMimeType(item.name), mimeTypes)) return false;
+    }
+    const modified = new Date(item.modifiedAt).getTime();
+    if (after !== undefined && !(modified >= after)) return false;
+    if (before !== undefined && !(modified < before)) return false;
+    return true;
+  };
+}
+
+/**
+ * Encode the state needed to continue a search as an opaque cursor
+ */
+export function encodeSearchCursor(state: object): string {
+  return Buffer.from(JSON.stringify(state), 'utf-8').toString('base64url');
+}
+
+/**
+ * Decode a cursor made by encodeSearchCursor()
+ * @throws InvalidCursorError if the cursor was not made by encodeSearchCursor()
+ */
+export function decodeSearchCursor<T extends object>(cursor: string): T {
+  try {
+    const state = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (state && typeof state === 'object') {
+      return state as T;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError(cursor, 'not a cursor returned by search()', 'search');
+}
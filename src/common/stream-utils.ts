@@ -0,0 +1,111 @@
+/**
+ * Stream utilities for hazo_files
+ *
+ * Helpers shared by the storage modules to serve byte ranges and
+ * report progress on streamed downloads.
+ */
+
+import { Readable, Transform } from 'stream';
+import { InvalidRangeError } from './errors';
+import type { DownloadStreamOptions, ProgressCallback } from '../types';
+
+/** A resolved, inclusive byte range */
+export interface ByteRange {
+  start: number;
+  /** Last byte, inclusive (-1 for an empty file) */
+  end: number;
+  /** Number of bytes in the range */
+  length: number;
+}
+
+/**
+ * Resolve requested start/end offsets against a file size.
+ * An `end` past the last byte is clamped, as HTTP servers do for Range requests.
+ * @throws InvalidRangeError if the range cannot be satisfied
+ */
+export function resolveByteRange(
+  path: string,
+  size: number,
+  options: Pick<DownloadStreamOptions, 'start' | 'end'> = {}
+): ByteRange {
+  const { start: requestedStart, end: requestedEnd } = options;
+
+  if (requestedStart === undefined && requestedEnd === undefined) {
+    return { start: 0, end: size - 1, length: size };
+  }
+
+  const start = requestedStart ?? 0;
+  const end = Math.min(requestedEnd ?? size - 1, size - 1);
+
+  if (
+    !Number.isInteger(start) ||
+    (requestedEnd !== undefined && !Number.isInteger(requestedEnd)) ||
+    start < 0 ||
+    start >= size ||
+    end < start
+  ) {
+    throw new InvalidRangeError(path, requestedStart, requestedEnd, size);
+  }
+
+  return { start, end, length: end - start + 1 };
+}
+
+/**
+ * Skip and truncate a full stream to a byte range.
+ * Used when a backend cannot read a range natively (or ignores the Range header).
+ */
+export function sliceStream(source: Readable, range: ByteRange): Readable {
+  async function* slice(): AsyncGenerator<Buffer> {
+    let position = 0;
+
+    // Leaving the loop early destroys the source, so the rest is never downloaded
+    for await (const data of source) {
+      const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data);
+      const chunkStart = position;
+      position += chunk.length;
+
+      if (position <= range.start) continue;
+
+      const from = Math.max(range.start - chunkStart, 0);
+      const to = Math.min(range.end - chunkStart + 1, chunk.length);
+      yield chunk.subarray(from, to);
+
+      if (position > range.end) break;
+    }
+  }
+
+  return Readable.from(slice(), { objectMode: false });
+}
+
+/**
+ * Report progress as data flows through a stream
+ */
+export function trackStreamProgress(
+  stream: Readable,
+  totalBytes: number,
+  onProgress?: ProgressCallback
+): Readable {
+  if (!onProgress) {
+    return stream;
+  }
+
+  let bytesTransferred = 0;
+  const tracker = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesTransferred += chunk.length;
+      const total = totalBytes || bytesTransferred;
+      onProgress(total > 0 ? (bytesTransferred / total) * 100 : 100, bytesTransferred, total);
+      callback(null, chunk);
+    },
+  });
+
+  stream.on('error', (error) => tracker.destroy(error));
+  return stream.pipe(tracker);
+}
+
+/**
+ * An already-finished stream, for empty files
+ */
+export function emptyStream(): Readable {
+  return Readable.from([]);
+}
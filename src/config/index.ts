@@ -6,7 +6,7 @@
 import * as ini from 'ini';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { HazoFilesConfig, StorageProvider, LocalStorageConfig, GoogleDriveConfig, DropboxConfig } from '../types';
+import type { HazoFilesConfig, StorageProvider, LocalStorageConfig, GoogleDriveConfig, DropboxConfig, S3Config, MemoryStorageConfig, SftpConfig, WebDavConfig, VersioningConfig, TrashConfig } from '../types';
 
 const DEFAULT_CONFIG_FILENAME = 'hazo_files_config.ini';
 
@@ -32,6 +32,8 @@ export function parseConfig(configContent: string): HazoFilesConfig {
       maxFileSize: parsed.local.max_file_size
         ? parseInt(parsed.local.max_file_size, 10)
         : undefined,
+      versioning: parseVersioning(parsed.local),
+      trash: parseTrash(parsed.local),
     };
   }
 
@@ -44,6 +46,7 @@ export function parseConfig(configContent: string): HazoFilesConfig {
       refreshToken: parsed.google_drive.refresh_token || process.env.HAZO_GOOGLE_DRIVE_REFRESH_TOKEN,
       accessToken: parsed.google_drive.access_token || process.env.HAZO_GOOGLE_DRIVE_ACCESS_TOKEN,
       rootFolderId: parsed.google_drive.root_folder_id || process.env.HAZO_GOOGLE_DRIVE_ROOT_FOLDER_ID,
+      trash: parseTrash(parsed.google_drive),
     };
   }
 
@@ -56,12 +59,107 @@ export function parseConfig(configContent: string): HazoFilesConfig {
       refreshToken: parsed.dropbox.refresh_token || process.env.HAZO_DROPBOX_REFRESH_TOKEN,
       accessToken: parsed.dropbox.access_token || process.env.HAZO_DROPBOX_ACCESS_TOKEN,
       rootPath: parsed.dropbox.root_path || process.env.HAZO_DROPBOX_ROOT_PATH,
+      trash: parseTrash(parsed.dropbox),
     };
   }
 
+  // Parse in-memory storage config (mainly useful for limits in tests)
+  if (parsed.memory) {
+    config.memory = {
+      allowedExtensions: parsed.memory.allowed_extensions
+        ? parsed.memory.allowed_extensions.split(',').map((ext: string) => ext.trim())
+        : undefined,
+      maxFileSize: parsed.memory.max_file_size
+        ? parseInt(parsed.memory.max_file_size, 10)
+        : undefined,
+      versioning: parseVersioning(parsed.memory),
+      trash: parseTrash(parsed.memory),
+    };
+  }
+
+  // Parse S3 config
+  if (parsed.s3) {
+    const forcePathStyle = parsed.s3.force_path_style || process.env.HAZO_S3_FORCE_PATH_STYLE;
+    const partSize = parsed.s3.part_size || process.env.HAZO_S3_PART_SIZE;
+    config.s3 = {
+      bucket: parsed.s3.bucket || process.env.HAZO_S3_BUCKET || '',
+      region: parsed.s3.region || process.env.HAZO_S3_REGION,
+      endpoint: parsed.s3.endpoint || process.env.HAZO_S3_ENDPOINT,
+      accessKeyId: parsed.s3.access_key_id || process.env.HAZO_S3_ACCESS_KEY_ID,
+      secretAccessKey: parsed.s3.secret_access_key || process.env.HAZO_S3_SECRET_ACCESS_KEY,
+      prefix: parsed.s3.prefix || process.env.HAZO_S3_PREFIX,
+      forcePathStyle: forcePathStyle !== undefined && forcePathStyle !== ''
+        ? String(forcePathStyle).toLowerCase() === 'true'
+        : undefined,
+      partSize: partSize ? parseInt(partSize, 10) : undefined,
+    };
+  }
+
+  // Parse SFTP config
+  if (parsed.sftp) {
+    const port = parsed.sftp.port || process.env.HAZO_SFTP_PORT;
+    const readyTimeout = parsed.sftp.ready_timeout || process.env.HAZO_SFTP_READY_TIMEOUT;
+    config.sftp = {
+      host: parsed.sftp.host || process.env.HAZO_SFTP_HOST || '',
+      port: port ? parseInt(port, 10) : undefined,
+      username: parsed.sftp.username || process.env.HAZO_SFTP_USERNAME || '',
+      password: parsed.sftp.password || process.env.HAZO_SFTP_PASSWORD,
+      privateKey: parsed.sftp.private_key || process.env.HAZO_SFTP_PRIVATE_KEY,
+      passphrase: parsed.sftp.passphrase || process.env.HAZO_SFTP_PASSPHRASE,
+      basePath: parsed.sftp.base_path || process.env.HAZO_SFTP_BASE_PATH,
+      readyTimeout: readyTimeout ? parseInt(readyTimeout, 10) : undefined,
+    };
+  }
+
+  // Parse WebDAV config
+  if (parsed.webdav) {
+    config.webdav = {
+      url: parsed.webdav.url || process.env.HAZO_WEBDAV_URL || '',
+      username: parsed.webdav.username || process.env.HAZO_WEBDAV_USERNAME,
+      password: parsed.webdav.password || process.env.HAZO_WEBDAV_PASSWORD,
+      token: parsed.webdav.token || process.env.HAZO_WEBDAV_TOKEN,
+      basePath: parsed.webdav.base_path || process.env.HAZO_WEBDAV_BASE_PATH,
+    };
+  }
+
+  // Parse mount points (mount path = provider) for the mount provider
+  if (parsed.mounts) {
+    config.mounts = Object.fromEntries(
+      Object.entries(parsed.mounts as Record<string, string>).map(([mountPath, mountProvider]) => [
+        mountPath.trim(),
+        String(mountProvider).trim() as StorageProvider,
+      ])
+    );
+  }
+
   return config;
 }
 
+/**
+ * Parse the versioning keys of a provider section
+ * (versioning, max_versions, max_version_age_days)
+ */
+function parseVersioning(section: Record<string, string>): VersioningConfig | undefined {
+  if (String(section.versioning ?? '').toLowerCase() !== 'true') {
+    return undefined;
+  }
+  return {
+    enabled: true,
+    maxVersions: section.max_versions ? parseInt(section.max_versions, 10) : undefined,
+    maxAgeDays: section.max_version_age_days ? parseInt(section.max_version_age_days, 10) : undefined,
+  };
+}
+
+/**
+ * Parse the trash keys of a provider section (trash_retention_days)
+ */
+function parseTrash(section: Record<string, string>): TrashConfig | undefined {
+  if (section.trash_retention_days === undefined || section.trash_retention_days === '') {
+    return undefined;
+  }
+  return { retentionDays: parseInt(section.trash_retention_days, 10) };
+}
+
 /**
  * Load configuration from file
  * @param configPath - Path to the config file, defaults to hazo_files_config.ini in current directory
@@ -115,9 +213,15 @@ export function generateSampleConfig(): string {
 ; This file configures the file management system
 
 [general]
-; Available providers: local, google_drive
+; Available providers: local, google_drive, dropbox, s3, memory, sftp, webdav, mount
 provider = local
 
+; [mounts]
+; Used with provider = mount: each line mounts a provider at a top-level folder.
+; The mounted providers read their settings from their own sections below.
+; /local = local
+; /drive = google_drive
+
 [local]
 ; Base path for local file storage (relative or absolute)
 base_path = ./files
@@ -125,6 +229,13 @@ base_path = ./files
 allowed_extensions =
 ; Maximum file size in bytes (optional, 0 = unlimited)
 max_file_size = 0
+; Keep overwritten content as versions in a hidden .hazo_versions folder (optional)
+versioning = false
+; Versions kept per file and their maximum age in days (optional, 0 = unlimited)
+max_versions = 0
+max_version_age_days = 0
+; Days trashed items stay in the hidden .hazo_trash folder before purgeTrash() removes them (optional, default 30, 0 = until purged by ID)
+trash_retention_days = 30
 
 [google_drive]
 ; Google Drive OAuth credentials
@@ -137,6 +248,8 @@ refresh_token =
 access_token =
 ; Optional: Root folder ID to use as base (empty = root of Drive)
 root_folder_id =
+; Optional: Days trashed items are kept by purgeTrash() (default 30)
+trash_retention_days =
 
 [dropbox]
 ; Dropbox OAuth credentials
@@ -149,6 +262,57 @@ refresh_token =
 access_token =
 ; Optional: Root path to use as base (empty = root of Dropbox)
 root_path =
+; Optional: Days deleted files are kept by purgeTrash() (default 30)
+trash_retention_days =
+
+[s3]
+; S3-compatible storage (AWS S3, MinIO, etc.)
+; These can also be set via environment variables:
+; HAZO_S3_BUCKET, HAZO_S3_ACCESS_KEY_ID, HAZO_S3_SECRET_ACCESS_KEY, etc.
+bucket =
+region = us-east-1
+; Optional: Custom endpoint for S3-compatible services (e.g. http://localhost:9000 for MinIO)
+endpoint =
+access_key_id =
+secret_access_key =
+; Optional: Key prefix to use as base (empty = root of bucket)
+prefix =
+; Optional: Use path-style URLs (bucket in path instead of host name), required by most MinIO setups (true/false, default false)
+force_path_style =
+; Optional: Multipart upload part size in bytes (default 8MB, minimum 5MB)
+part_size =
+
+[sftp]
+; SFTP (SSH) storage
+; These can also be set via environment variables:
+; HAZO_SFTP_HOST, HAZO_SFTP_USERNAME, HAZO_SFTP_PASSWORD, HAZO_SFTP_PRIVATE_KEY, etc.
+host =
+port = 22
+username =
+; Use either password or private_key authentication
+password =
+; Private key contents or an absolute path to the key file
+private_key =
+; Optional: Passphrase for an encrypted private key
+passphrase =
+; Optional: Remote directory to use as base (default /)
+base_path =
+; Optional: Connection timeout in milliseconds (default 20000)
+ready_timeout =
+
+[webdav]
+; WebDAV storage (Nextcloud, ownCloud, any RFC 4918 server)
+; These can also be set via environment variables:
+; HAZO_WEBDAV_URL, HAZO_WEBDAV_USERNAME, HAZO_WEBDAV_PASSWORD, etc.
+; DAV root URL, for Nextcloud: https://cloud.example.com/remote.php/dav/files/<username>
+url =
+username =
+; Use an app password for Nextcloud/ownCloud
+password =
+; Optional: Bearer token (used instead of username/password)
+token =
+; Optional: Folder below the DAV root to use as base
+base_path =
 `;
 }
 
@@ -169,6 +333,8 @@ export async function saveConfig(config: HazoFilesConfig, configPath?: string):
       base_path: config.local.basePath,
       allowed_extensions: config.local.allowedExtensions?.join(', ') || '',
       max_file_size: config.local.maxFileSize?.toString() || '0',
+      ...versioningToIni(config.local.versioning),
+      ...trashToIni(config.local.trash),
     };
   }
 
@@ -180,6 +346,7 @@ export async function saveConfig(config: HazoFilesConfig, configPath?: string):
       refresh_token: config.google_drive.refreshToken || '',
       access_token: config.google_drive.accessToken || '',
       root_folder_id: config.google_drive.rootFolderId || '',
+      ...trashToIni(config.google_drive.trash),
     };
   }
 
@@ -191,11 +358,75 @@ export async function saveConfig(config: HazoFilesConfig, configPath?: string):
       refresh_token: config.dropbox.refreshToken || '',
       access_token: config.dropbox.accessToken || '',
       root_path: config.dropbox.rootPath || '',
+      ...trashToIni(config.dropbox.trash),
+    };
+  }
+
+  if (config.memory) {
+    iniConfig.memory = {
+      allowed_extensions: config.memory.allowedExtensions?.join(', ') || '',
+      max_file_size: config.memory.maxFileSize?.toString() || '0',
+      ...versioningToIni(config.memory.versioning),
+      ...trashToIni(config.memory.trash),
+    };
+  }
+
+  if (config.s3) {
+    iniConfig.s3 = {
+      bucket: config.s3.bucket || '',
+      region: config.s3.region || '',
+      endpoint: config.s3.endpoint || '',
+      access_key_id: config.s3.accessKeyId || '',
+      secret_access_key: config.s3.secretAccessKey || '',
+      prefix: config.s3.prefix || '',
+      force_path_style: config.s3.forcePathStyle === undefined ? '' : String(config.s3.forcePathStyle),
+      part_size: config.s3.partSize?.toString() || '',
     };
   }
 
+  if (config.sftp) {
+    iniConfig.sftp = {
+      host: config.sftp.host || '',
+      port: config.sftp.port?.toString() || '',
+      username: config.sftp.username || '',
+      password: config.sftp.password || '',
+      private_key: config.sftp.privateKey || '',
+      passphrase: config.sftp.passphrase || '',
+      base_path: config.sftp.basePath || '',
+      ready_timeout: config.sftp.readyTimeout?.toString() || '',
+    };
+  }
+
+  if (config.webdav) {
+    iniConfig.webdav = {
+      url: config.webdav.url || '',
+      username: config.webdav.username || '',
+      password: config.webdav.password || '',
+      token: config.webdav.token || '',
+      base_path: config.webdav.basePath || '',
+    };
+  }
+
+  if (config.mounts) {
+    iniConfig.mounts = { ...config.mounts };
+  }
+
   const content = ini.stringify(iniConfig);
   await fs.promises.writeFile(resolvedPath, content, 'utf-8');
 }
 
-export type { HazoFilesConfig, LocalStorageConfig, GoogleDriveConfig, DropboxConfig };
+function versioningToIni(versioning?: VersioningConfig): Record<string, string> {
+  if (!versioning) return {};
+  return {
+    versioning: versioning.enabled ? 'true' : 'false',
+    max_versions: versioning.maxVersions?.toString() || '0',
+    max_version_age_days: versioning.maxAgeDays?.toString() || '0',
+  };
+}
+
+function trashToIni(trash?: TrashConfig): Record<string, string> {
+  if (trash?.retentionDays === undefined) return {};
+  return { trash_retention_days: trash.retentionDays.toString() };
+}
+
+export type { HazoFilesConfig, LocalStorageConfig, GoogleDriveConfig, DropboxConfig, S3Config, MemoryStorageConfig, SftpConfig, WebDavConfig, VersioningConfig, TrashConfig };
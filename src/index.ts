@@ -12,9 +12,16 @@ export {
   TrackedFileManager,
   createTrackedFileManager,
   createInitializedTrackedFileManager,
+  // Upload session stores
+  MemoryUploadSessionStore,
+  FileUploadSessionStore,
+  createMemoryUploadSessionStore,
+  createFileUploadSessionStore,
   // File metadata service
   FileMetadataService,
   createFileMetadataService,
+  MetadataQueryBuilder,
+  createMetadataQueryBuilder,
   // Naming convention service
   NamingConventionService,
   createNamingConventionService,
@@ -24,6 +31,14 @@ export {
   // Upload + extract service
   UploadExtractService,
   createUploadExtractService,
+  // Content search
+  MemoryContentIndex,
+  SqliteContentIndex,
+  createMemoryContentIndex,
+  createSqliteContentIndex,
+  ContentSearchService,
+  createContentSearchService,
+  migrateStorage,
 } from './services';
 
 // Configuration
@@ -43,10 +58,18 @@ export {
   HAZO_FILES_NAMING_TABLE_SCHEMA,
   HAZO_FILES_NAMING_DEFAULT_TABLE_NAME,
   getNamingSchemaForTable,
+  HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA,
+  HAZO_FILES_DRIVE_INDEX_DEFAULT_TABLE_NAME,
+  getDriveIndexSchemaForTable,
+  HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA,
+  HAZO_FILES_CONTENT_INDEX_DEFAULT_TABLE_NAME,
+  getContentIndexSchemaForTable,
   HAZO_FILES_MIGRATION_V2,
   getMigrationForTable,
   HAZO_FILES_MIGRATION_V3,
   getMigrationV3ForTable,
+  HAZO_FILES_MIGRATION_V4,
+  getMigrationV4ForTable,
 } from './schema';
 
 // Migration utilities
@@ -54,6 +77,7 @@ export {
   migrateToV2,
   backfillV2Defaults,
   migrateToV3,
+  migrateToV4,
 } from './migrations';
 
 // Modules
@@ -69,10 +93,32 @@ export {
   createGoogleDriveModule,
   GoogleDriveAuth,
   createGoogleDriveAuth,
+  DatabasePathIndexStore,
+  createDatabasePathIndexStore,
   DropboxModule,
   createDropboxModule,
   DropboxAuth,
   createDropboxAuth,
+  S3StorageModule,
+  createS3Module,
+  MemoryStorageModule,
+  createMemoryModule,
+  SftpStorageModule,
+  createSftpModule,
+  WebDavStorageModule,
+  createWebDavModule,
+  MirroredStorageModule,
+  createMirroredModule,
+  MountedStorageModule,
+  createMountedModule,
+  EncryptedStorageModule,
+  createEncryptedModule,
+  LocalKeyProvider,
+  createLocalKeyProvider,
+  CompressedStorageModule,
+  createCompressedModule,
+  CachedStorageModule,
+  createCachedModule,
 } from './modules';
 
 // Common utilities
@@ -124,6 +170,13 @@ export {
   InvalidPathError,
   FileTooLargeError,
   InvalidExtensionError,
+  InvalidRangeError,
+  UploadSessionError,
+  OperationAbortedError,
+  EncryptionError,
+  InvalidCursorError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
   AuthenticationError,
   ConfigurationError,
   OperationError,
@@ -175,8 +228,22 @@ export {
   computeFileHashSync,
   computeFileInfo,
   computeFileHashFromStream,
+  computeFileInfoFromReadable,
+  createFileHasher,
   hashesEqual,
   hasFileContentChanged,
+  // Stream utilities
+  resolveByteRange,
+  sliceStream,
+  trackStreamProgress,
+  // Search utilities
+  globToRegExp,
+  matchesMimeType,
+  createSearchFilter,
+  // Metadata query utilities
+  getFileDataValue,
+  createMetadataQueryFilter,
+  queryMetadataRecords,
   // Reference tracking utilities
   generateRefId,
   parseFileRefs,
@@ -199,13 +266,51 @@ export type {
   LocalStorageConfig,
   GoogleDriveConfig,
   DropboxConfig,
+  S3Config,
+  MemoryStorageConfig,
+  VersioningConfig,
+  TrashConfig,
+  SftpConfig,
+  WebDavConfig,
   OperationResult,
   ProgressCallback,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
+  UploadSession,
+  StartUploadOptions,
+  UploadChunkOptions,
+  UploadSessionStore,
   ListOptions,
+  SearchOptions,
+  SearchPage,
   MoveOptions,
+  CopyOptions,
+  CopyProgress,
+  BatchOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchSummary,
+  BatchProgress,
+  BatchResult,
   RenameOptions,
+  DeleteOptions,
+  FileChangeType,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  TrashConflictStrategy,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
   TreeNode,
   FileBrowserState,
   // Naming types
@@ -226,6 +331,16 @@ export type {
   FileMetadataUpdate,
   DatabaseTrackingConfig,
   TrackedFileManagerOptions,
+  ReconcileOptions,
+  ReconcileIssueType,
+  ReconcileIssue,
+  ReconcileResult,
+  ImportScopeRule,
+  ImportExistingOptions,
+  ImportProgress,
+  ImportResult,
+  FileVersionRecord,
+  TrackedFileVersion,
   // Extraction data types
   ExtractionData,
   FileDataStructure,
@@ -251,12 +366,34 @@ export type {
   FindOrphanedOptions,
   CleanupOrphanedOptions,
   UploadWithRefOptions,
+  // Metadata query types
+  MetadataQueryOperator,
+  MetadataDataPredicate,
+  MetadataDateRange,
+  MetadataNumberRange,
+  MetadataSortColumn,
+  MetadataSort,
+  MetadataQuery,
+  MetadataQueryPage,
+  // Content search types
+  ContentIndexDocument,
+  ContentSearchOptions,
+  ContentIndexHit,
+  ContentSearchResult,
+  ContentIndexBackend,
+  ReindexContentResult,
 } from './types';
 
 export type {
   FileManagerOptions,
   TrackedFileManagerFullOptions,
   TrackedUploadOptions,
+  TrackedCopyOptions,
+  TrackedBatchCopyOptions,
+  DuplicateFile,
+  MigrateStorageOptions,
+  MigrationProgress,
+  MigrationResult,
   MetadataLogger,
   CrudServiceLike,
   FileMetadataServiceOptions,
@@ -270,17 +407,51 @@ export type {
   UploadExtractOptions,
   UploadExtractResult,
   CreateFolderOptions,
+  ContentIndexExecutor,
+  ContentSearchServiceOptions,
+  ReindexContentOptions,
 } from './services';
-export type { TokenData, AuthCallbacks, GoogleAuthConfig, DropboxTokenData, DropboxAuthCallbacks, DropboxAuthConfig } from './modules';
+export type {
+  TokenData,
+  AuthCallbacks,
+  GoogleAuthConfig,
+  ResolvePathsOptions,
+  PathIndexStore,
+  PathIndexEntry,
+  DrivePathIndexRecord,
+  DropboxTokenData,
+  DropboxAuthCallbacks,
+  DropboxAuthConfig,
+  MirroredStorageOptions,
+  MirrorWriteMode,
+  ReplicationOperation,
+  ReplicationTask,
+  ReplicationStatus,
+  EncryptedStorageOptions,
+  KeyRotationOptions,
+  KeyRotationResult,
+  KeyProvider,
+  LocalKeyProviderOptions,
+  CompressedStorageOptions,
+  CompressionAlgorithm,
+  FileCategory,
+  CachedStorageOptions,
+  CacheStats,
+} from './modules';
 export type {
   HazoFilesTableSchema,
   HazoFilesNamingTableSchema,
   DatabaseSchemaDefinition,
   HazoFilesColumnDefinitions,
   HazoFilesNamingColumnDefinitions,
+  HazoFilesDriveIndexTableSchema,
+  HazoFilesDriveIndexColumnDefinitions,
+  HazoFilesContentIndexTableSchema,
   HazoFilesMigrationV2,
   HazoFilesMigrationV3,
+  HazoFilesMigrationV4,
   MigrationSchemaDefinition,
 } from './schema';
 export type { MigrationExecutor } from './migrations';
-export type { FileInfo } from './common/hash-utils';
+export type { FileInfo, FileHasher } from './common/hash-utils';
+export type { ByteRange } from './common/stream-utils';
@@ -0,0 +1,51 @@
+/**
+ * Migration: Add Version History (V4)
+ *
+ * Adds file_versions column to an existing hazo_files table.
+ * Idempotent — safe to run multiple times.
+ */
+
+import { HAZO_FILES_MIGRATION_V4, getMigrationV4ForTable } from '../schema';
+import type { MigrationExecutor } from './add-reference-tracking';
+
+/**
+ * Run the V4 migration: add file_versions column.
+ *
+ * @param executor - Object with a `run(sql)` method
+ * @param dbType - Database type ('sqlite' | 'postgres')
+ * @param tableName - Custom table name (defaults to 'hazo_files')
+ *
+ * @example
+ * ```typescript
+ * import { migrateToV4 } from 'hazo_files';
+ *
+ * // SQLite with better-sqlite3
+ * await migrateToV4({ run: (sql) => db.exec(sql) }, 'sqlite');
+ *
+ * // PostgreSQL with pg
+ * await migrateToV4({ run: (sql) => client.query(sql) }, 'postgres');
+ * ```
+ */
+export async function migrateToV4(
+  executor: MigrationExecutor,
+  dbType: 'sqlite' | 'postgres',
+  tableName?: string
+): Promise<void> {
+  const migration = tableName
+    ? getMigrationV4ForTable(tableName, dbType)
+    : HAZO_FILES_MIGRATION_V4[dbType];
+
+  // Add new columns
+  for (const stmt of migration.alterStatements) {
+    try {
+      await executor.run(stmt);
+    } catch {
+      // Column already exists — expected for idempotent runs (especially SQLite)
+    }
+  }
+
+  // Create indexes
+  for (const idx of migration.indexes) {
+    await executor.run(idx);
+  }
+}
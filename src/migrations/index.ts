@@ -9,4 +9,6 @@ export {
 
 export { migrateToV3 } from './add-content-tag';
 
+export { migrateToV4 } from './add-version-history';
+
 export type { MigrationExecutor } from './add-reference-tracking';
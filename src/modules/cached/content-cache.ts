@@ -0,0 +1,204 @@
+/**
+ * Content Cache
+ * File contents kept on local disk, bounded by total size (least recently used first out)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { Transform, type TransformCallback } from 'stream';
+
+const CACHE_EXTENSION = '.cache';
+const TEMP_EXTENSION = '.tmp';
+
+/** A cached file */
+export interface ContentEntry {
+  /** Path of the cached copy on local disk */
+  file: string;
+  size: number;
+  /** Modification time of the remote file when it was cached (ms) */
+  modifiedAt: number;
+}
+
+export class ContentCache {
+  private entries = new Map<string, ContentEntry>();
+  // Captures in progress by remote path; removing a path discards all of them
+  private captures = new Map<string, Set<string>>();
+  private totalSize = 0;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxSize: number
+  ) {}
+
+  /** Bytes held on disk */
+  get bytes(): number {
+    return this.totalSize;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Create the cache directory and remove files left by an earlier process
+   */
+  async initialize(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const names = await fs.promises.readdir(this.dir);
+    await Promise.all(
+      names
+        .filter((name) => name.endsWith(CACHE_EXTENSION) || name.endsWith(TEMP_EXTENSION))
+        .map((name) => fs.promises.rm(path.join(this.dir, name), { force: true }))
+    );
+  }
+
+  /**
+   * Get the cached copy of a file if it still matches the remote size and modification time
+   */
+  get(remotePath: string, size: number, modifiedAt: number): ContentEntry | undefined {
+    const entry = this.entries.get(remotePath);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.size !== size || entry.modifiedAt !== modifiedAt) {
+      // A capture of the current content may be running, so only drop the entry
+      this.drop(remotePath);
+      return undefined;
+    }
+
+    this.entries.delete(remotePath);
+    this.entries.set(remotePath, entry);
+    return entry;
+  }
+
+  /**
+   * Pass-through stream that writes the file to the cache as it is read. The copy is
+   * only kept if the stream ends normally and the path was not removed meanwhile.
+   */
+  capture(remotePath: string, size: number, modifiedAt: number): Transform {
+    const token = randomBytes(8).toString('hex');
+    // Each capture has its own file, so a discarded one never overwrites a kept one
+    const file = path.join(this.dir, this.fileName(remotePath, token));
+    const tempFile = `${file}${TEMP_EXTENSION}`;
+    const writer = fs.createWriteStream(tempFile);
+    let failed = false;
+    let written = 0;
+
+    let tokens = this.captures.get(remotePath);
+    if (!tokens) {
+      tokens = new Set();
+      this.captures.set(remotePath, tokens);
+    }
+    tokens.add(token);
+    writer.on('error', () => {
+      failed = true;
+    });
+
+    const isCurrent = () => this.captures.get(remotePath)?.has(token) ?? false;
+    const release = () => {
+      const current = this.captures.get(remotePath);
+      if (current?.delete(token) && current.size === 0) {
+        this.captures.delete(remotePath);
+      }
+    };
+
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback: TransformCallback) {
+        written += chunk.length;
+        if (failed || writer.write(chunk)) {
+          callback(null, chunk);
+          return;
+        }
+        const resume = () => {
+          writer.off('drain', resume);
+          writer.off('error', resume);
+          callback(null, chunk);
+        };
+        writer.on('drain', resume);
+        writer.on('error', resume);
+      },
+      flush: (callback: TransformCallback) => {
+        writer.end(() => {
+          if (failed || !isCurrent() || written !== size) {
+            release();
+            fs.promises.rm(tempFile, { force: true }).catch(() => undefined);
+            callback();
+            return;
+          }
+
+          fs.promises
+            .rename(tempFile, file)
+            .then(() => {
+              // The path may have been removed while the file was renamed
+              if (isCurrent()) {
+                this.add(remotePath, { file, size, modifiedAt });
+              } else {
+                fs.promises.rm(file, { force: true }).catch(() => undefined);
+              }
+            })
+            .catch(() => fs.promises.rm(tempFile, { force: true }))
+            .catch(() => undefined)
+            .finally(() => {
+              release();
+              callback();
+            });
+        });
+      },
+      destroy(error, callback) {
+        release();
+        writer.destroy();
+        fs.promises.rm(tempFile, { force: true }).catch(() => undefined);
+        callback(error);
+      },
+    });
+  }
+
+  /**
+   * Remove the cached copy of a path and discard the captures of it in progress
+   */
+  remove(remotePath: string): void {
+    this.captures.delete(remotePath);
+    this.drop(remotePath);
+  }
+
+  removeWhere(predicate: (remotePath: string) => boolean): void {
+    for (const remotePath of Array.from(this.captures.keys())) {
+      if (predicate(remotePath)) this.captures.delete(remotePath);
+    }
+    for (const remotePath of Array.from(this.entries.keys())) {
+      if (predicate(remotePath)) this.drop(remotePath);
+    }
+  }
+
+  clear(): void {
+    this.removeWhere(() => true);
+  }
+
+  private add(remotePath: string, entry: ContentEntry): void {
+    this.drop(remotePath);
+    this.entries.set(remotePath, entry);
+    this.totalSize += entry.size;
+
+    while (this.totalSize > this.maxSize && this.entries.size > 0) {
+      this.drop(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Remove the cached copy of a path, leaving captures in progress running
+   */
+  private drop(remotePath: string): void {
+    const entry = this.entries.get(remotePath);
+    if (entry) {
+      this.entries.delete(remotePath);
+      this.totalSize -= entry.size;
+      fs.promises.rm(entry.file, { force: true }).catch(() => undefined);
+    }
+  }
+
+  private fileName(remotePath: string, token: string): string {
+    return `${createHash('sha256').update(remotePath).digest('hex')}.${token}${CACHE_EXTENSION}`;
+  }
+}
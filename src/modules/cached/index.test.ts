@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+
+import { MemoryStorageModule } from '../memory';
+import { CachedStorageModule, type CachedStorageOptions } from './index';
+import { ContentCache } from './content-cache';
+import type { FileItem, HazoFilesConfig } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'memory' };
+
+const readAll = async (stream: Readable) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe('CachedStorageModule', () => {
+  let storage: MemoryStorageModule;
+  let cacheDir: string;
+  let calls: Record<string, number>;
+
+  async function createCached(options: Partial<CachedStorageOptions> = {}) {
+    const cached = new CachedStorageModule({ storage, cacheDir, ...options });
+    await cached.initialize(config);
+    return cached;
+  }
+
+  /** Count the calls that reach the wrapped module */
+  function count(method: 'listDirectory' | 'getItem' | 'downloadStream') {
+    const original = storage[method].bind(storage) as (...args: unknown[]) => unknown;
+    (storage as unknown as Record<string, unknown>)[method] = (...args: unknown[]) => {
+      calls[method] = (calls[method] ?? 0) + 1;
+      return original(...args);
+    };
+  }
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    await storage.initialize(config);
+    await storage.createDirectory('/docs');
+    await storage.uploadFile(Buffer.from('hello'), '/docs/a.txt');
+    await storage.uploadFile(Buffer.from('world'), '/docs/b.txt');
+    cacheDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hazo_files_cache-test-'));
+    calls = {};
+    count('listDirectory');
+    count('getItem');
+    count('downloadStream');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(cacheDir, { recursive: true, force: true });
+  });
+
+  describe('metadata', () => {
+    it('answers repeated reads from the cache', async () => {
+      const cached = await createCached();
+
+      await cached.listDirectory('/docs');
+      await cached.listDirectory('/docs');
+      expect(calls.listDirectory).toBe(1);
+
+      // Items are found in the cached listing of their folder
+      expect(((await cached.getItem('/docs/a.txt')).data as FileItem).size).toBe(5);
+      expect(calls.getItem).toBeUndefined();
+    });
+
+    it('evicts the least recently used entries beyond maxEntries', async () => {
+      const cached = await createCached({ maxEntries: 2 });
+
+      await cached.getItem('/docs/a.txt');
+      await cached.getItem('/docs/b.txt');
+      await cached.getItem('/docs/a.txt');
+      await cached.getItem('/docs');
+      expect(cached.getCacheStats().entries).toBe(2);
+      expect(calls.getItem).toBe(3);
+
+      // b.txt was used least recently
+      await cached.getItem('/docs/a.txt');
+      await cached.getItem('/docs/b.txt');
+      expect(calls.getItem).toBe(4);
+    });
+
+    it('drops entries for the paths a write touches', async () => {
+      const cached = await createCached();
+      await cached.listDirectory('/docs');
+      await cached.listDirectory('/');
+
+      await cached.uploadFile(Buffer.from('new'), '/docs/c.txt');
+      expect((await cached.listDirectory('/docs')).data?.map((item) => item.name).sort()).toEqual([
+        'a.txt',
+        'b.txt',
+        'c.txt',
+      ]);
+      expect(calls.listDirectory).toBe(3);
+
+      await cached.deleteFile('/docs/c.txt');
+      expect(await cached.exists('/docs/c.txt')).toBe(false);
+      // The root listing does not contain /docs/c.txt
+      await cached.listDirectory('/');
+      expect(calls.listDirectory).toBe(4);
+    });
+
+    it('drops entries for the paths of batch operations', async () => {
+      const cached = await createCached();
+      const names = async (folder: string) =>
+        (await cached.listDirectory(folder)).data?.map((item) => item.name).sort();
+      await cached.createDirectory('/archive');
+      expect(await names('/docs')).toEqual(['a.txt', 'b.txt']);
+      expect(await names('/archive')).toEqual([]);
+
+      await cached.batchCopy([{ sourcePath: '/docs/a.txt', destinationPath: '/archive/a.txt' }]);
+      expect(await names('/archive')).toEqual(['a.txt']);
+
+      await cached.batchMove([{ sourcePath: '/docs/b.txt', destinationPath: '/archive/b.txt' }]);
+      expect(await names('/docs')).toEqual(['a.txt']);
+      expect(await names('/archive')).toEqual(['a.txt', 'b.txt']);
+
+      await cached.batchRename([{ path: '/archive/b.txt', newName: 'c.txt' }]);
+      expect(await names('/archive')).toEqual(['a.txt', 'c.txt']);
+
+      await cached.batchDelete(['/archive/a.txt', '/archive/c.txt']);
+      expect(await names('/archive')).toEqual([]);
+      expect((await cached.getItem('/archive/c.txt')).success).toBe(false);
+    });
+  });
+
+  describe('content', () => {
+    it('serves a downloaded file from disk', async () => {
+      const cached = await createCached();
+
+      expect((await cached.downloadFile('/docs/a.txt')).data?.toString()).toBe('hello');
+      await tick();
+      expect(cached.getCacheStats()).toMatchObject({ contentFiles: 1, contentBytes: 5 });
+
+      expect((await cached.downloadFile('/docs/a.txt')).data?.toString()).toBe('hello');
+      expect(calls.downloadStream).toBe(1);
+    });
+
+    it('downloads the file again when its size or modification time changed', async () => {
+      const cached = await createCached();
+      await cached.downloadFile('/docs/a.txt');
+      await tick();
+
+      // Changed outside the cached module; the same size, a later modification time
+      await storage.uploadFile(Buffer.from('HELLO'), '/docs/a.txt', { overwrite: true });
+      cached.invalidate('/docs/a.txt');
+      expect((await cached.downloadFile('/docs/a.txt')).data?.toString()).toBe('HELLO');
+      expect(calls.downloadStream).toBe(2);
+      await tick();
+
+      await storage.uploadFile(Buffer.from('hello again'), '/docs/a.txt', { overwrite: true });
+      cached.invalidate('/docs/a.txt');
+      expect((await cached.downloadFile('/docs/a.txt')).data?.toString()).toBe('hello again');
+      expect(calls.downloadStream).toBe(3);
+      await tick();
+      expect(cached.getCacheStats()).toMatchObject({ contentFiles: 1, contentBytes: 11 });
+    });
+
+    it('does not keep a file that was invalidated while it was being read', async () => {
+      const cached = await createCached();
+
+      const result = await cached.downloadStream('/docs/a.txt');
+      cached.invalidate('/docs/a.txt');
+      expect((await readAll(result.data!.stream)).toString()).toBe('hello');
+      await tick();
+
+      expect(cached.getCacheStats().contentFiles).toBe(0);
+      expect(await fs.promises.readdir(cacheDir)).toEqual([]);
+    });
+  });
+});
+
+describe('ContentCache', () => {
+  let dir: string;
+  let cache: ContentCache;
+
+  async function write(remotePath: string, content: string, modifiedAt = 1) {
+    const capture = cache.capture(remotePath, content.length, modifiedAt);
+    const done = new Promise((resolve) => capture.on('finish', resolve));
+    capture.end(Buffer.from(content));
+    capture.resume();
+    await done;
+    await tick();
+    return capture;
+  }
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hazo_files_cache-test-'));
+    cache = new ContentCache(dir, 10);
+    await cache.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  it('discards captures that are still writing when the path is removed', async () => {
+    const first = cache.capture('/a.txt', 5, 1);
+    const second = cache.capture('/a.txt', 5, 1);
+    first.resume();
+    second.resume();
+    first.write(Buffer.from('hel'));
+    second.write(Buffer.from('hel'));
+
+    cache.remove('/a.txt');
+    first.end(Buffer.from('lo'));
+    second.end(Buffer.from('lo'));
+    await tick();
+
+    expect(cache.get('/a.txt', 5, 1)).toBeUndefined();
+    expect(await fs.promises.readdir(dir)).toEqual([]);
+  });
+
+  it('discards a capture when the path is removed while its file is moved into place', async () => {
+    const rename = fs.promises.rename.bind(fs.promises);
+    const spy = vi.spyOn(fs.promises, 'rename').mockImplementation(async (from, to) => {
+      cache.remove('/a.txt');
+      return rename(from, to);
+    });
+
+    try {
+      await write('/a.txt', 'hello');
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(cache.get('/a.txt', 5, 1)).toBeUndefined();
+    expect(await fs.promises.readdir(dir)).toEqual([]);
+  });
+
+  it('keeps a capture that started after the path was removed', async () => {
+    await write('/a.txt', 'hello');
+    cache.remove('/a.txt');
+    await write('/a.txt', 'HELLO', 2);
+
+    expect(cache.get('/a.txt', 5, 2)).toBeDefined();
+    expect(await fs.promises.readdir(dir)).toHaveLength(1);
+  });
+
+  it('evicts the least recently used files beyond the maximum size', async () => {
+    await write('/a.txt', 'aaaa');
+    await write('/b.txt', 'bbbb');
+    cache.get('/a.txt', 4, 1);
+    await write('/c.txt', 'cccc');
+
+    expect(cache.get('/b.txt', 4, 1)).toBeUndefined();
+    expect(cache.get('/a.txt', 4, 1)).toBeDefined();
+    expect(cache.bytes).toBe(8);
+  });
+});
@@ -0,0 +1,613 @@
+/**
+ * Cached Storage Module
+ * Read-through cache in front of a slow or rate-limited module (Google Drive, Dropbox, ...).
+ * Listings, items and folder trees are kept in a bounded in-memory LRU cache with a TTL;
+ * file contents are kept in a size-bounded cache on local disk. Writes made through
+ * this module invalidate the affected entries.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable, pipeline } from 'stream';
+
+import { BaseStorageModule } from '../../common/base-module';
+import { HazoFilesError, ConfigurationError } from '../../common/errors';
+import { isChildPath } from '../../common/path-utils';
+import { emptyStream, resolveByteRange, trackStreamProgress } from '../../common/stream-utils';
+import { LruCache } from './lru-cache';
+import { ContentCache } from './content-cache';
+import type {
+  StorageModule,
+  StorageProvider,
+  HazoFilesConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  TreeNode,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  SearchOptions,
+  SearchPage,
+  UploadSession,
+  StartUploadOptions,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+  BatchResult,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+} from '../../types';
+
+/** Options for CachedStorageModule */
+export interface CachedStorageOptions {
+  /** Module whose reads are cached */
+  storage: StorageModule;
+  /** How long listings, items and folder trees stay cached, in ms (default: 60000) */
+  ttl?: number;
+  /** Maximum number of cached listings, items and folder trees (default: 1000) */
+  maxEntries?: number;
+  /** Cache file contents on local disk (default: true) */
+  cacheContent?: boolean;
+  /**
+   * Directory for cached file contents (default: a new temp directory).
+   * Cache files left in it by an earlier process are removed on initialize.
+   */
+  cacheDir?: string;
+  /** Maximum bytes of file content kept on disk (default: 256 MiB) */
+  maxCacheSize?: number;
+  /** Files larger than this are never cached (default: 16 MiB) */
+  maxFileSize?: number;
+}
+
+/** Cache counters reported by getCacheStats() */
+export interface CacheStats {
+  /** Reads answered from the cache */
+  hits: number;
+  /** Reads passed on to the wrapped module */
+  misses: number;
+  /** Cached listings, items and folder trees */
+  entries: number;
+  /** Files held in the content cache */
+  contentFiles: number;
+  /** Bytes held in the content cache */
+  contentBytes: number;
+}
+
+type CachedValue = FileSystemItem | FileSystemItem[] | TreeNode[];
+type EntryKind = 'item' | 'list' | 'tree';
+
+const DEFAULT_TTL = 60_000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_CACHE_SIZE = 256 * 1024 * 1024;
+const DEFAULT_MAX_FILE_SIZE = 16 * 1024 * 1024;
+const KEY_SEPARATOR = '\0';
+
+/**
+ * Cached Storage Module Implementation
+ *
+ * A cached file is served from disk as long as the (cached) item still reports the
+ * size and modification time it had when it was downloaded, so content never outlives
+ * its metadata. Changes made outside this module (another process, the provider's web
+ * UI) show up once the TTL expires, or straight away after invalidate().
+ */
+export class CachedStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider;
+
+  private readonly storage: StorageModule;
+  private readonly metadata: LruCache<CachedValue>;
+  private readonly options: CachedStorageOptions;
+  private readonly maxFileSize: number;
+  private content: ContentCache | null = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: CachedStorageOptions) {
+    super();
+    if (!options.storage) {
+      throw new ConfigurationError('Cached storage requires a storage module');
+    }
+
+    this.storage = options.storage;
+    this.provider = options.storage.provider;
+    this.options = options;
+    this.metadata = new LruCache(options.maxEntries ?? DEFAULT_MAX_ENTRIES, options.ttl ?? DEFAULT_TTL);
+    this.maxFileSize = Math.min(
+      options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+      options.maxCacheSize ?? DEFAULT_MAX_CACHE_SIZE
+    );
+  }
+
+  /**
+   * Initialize the wrapped module (unless it already is) and the content cache directory
+   */
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    if (!(this.storage instanceof BaseStorageModule && this.storage.isInitialized)) {
+      await this.storage.initialize({ ...config, provider: this.storage.provider });
+    }
+
+    if (this.options.cacheContent !== false) {
+      const dir =
+        this.options.cacheDir ?? (await fs.promises.mkdtemp(path.join(os.tmpdir(), 'hazo_files_cache-')));
+      this.content = new ContentCache(dir, this.options.maxCacheSize ?? DEFAULT_MAX_CACHE_SIZE);
+      await this.content.initialize();
+    }
+
+    await super.initialize(config);
+  }
+
+  /**
+   * Get the wrapped module
+   */
+  getStorage(): StorageModule {
+    return this.storage;
+  }
+
+  /**
+   * Drop cached data for a path, everything below it and the listings and folder
+   * trees that contain it. Call it after changing files outside this module.
+   */
+  invalidate(path = '/'): void {
+    const target = this.normalizePath(path);
+    const affects = (entryPath: string, kind: EntryKind) =>
+      entryPath === target || isChildPath(target, entryPath) || (kind !== 'item' && isChildPath(entryPath, target));
+
+    this.metadata.deleteWhere((key) => {
+      const [kind, entryPath] = key.split(KEY_SEPARATOR);
+      return affects(entryPath, kind as EntryKind);
+    });
+    this.content?.removeWhere((entryPath) => affects(entryPath, 'item'));
+  }
+
+  /**
+   * Drop everything cached
+   */
+  clearCache(): void {
+    this.metadata.clear();
+    this.content?.clear();
+  }
+
+  getCacheStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.metadata.size,
+      contentFiles: this.content?.size ?? 0,
+      contentBytes: this.content?.bytes ?? 0,
+    };
+  }
+
+  // ============================================
+  // Directory operations
+  // ============================================
+
+  async createDirectory(path: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.createDirectory(path), path);
+  }
+
+  async removeDirectory(path: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.removeDirectory(path, recursive), path);
+  }
+
+  // ============================================
+  // File operations
+  // ============================================
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.uploadFile(source, remotePath, options), remotePath);
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+    if (!this.content) {
+      return this.storage.downloadFile(remotePath, localPath, options);
+    }
+
+    try {
+      const result = await this.downloadStream(remotePath, { signal: options.signal });
+      if (!result.success || !result.data) {
+        return this.errorResult(result.error || `Failed to download file: ${remotePath}`);
+      }
+
+      const { stream, size } = result.data;
+      const tracked = trackStreamProgress(stream, size, options.onProgress);
+
+      if (localPath) {
+        await fs.promises.writeFile(localPath, tracked, { signal: options.signal });
+        return this.successResult(localPath);
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of tracked) {
+        chunks.push(chunk as Buffer);
+      }
+      return this.successResult(Buffer.concat(chunks));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'download file');
+    }
+  }
+
+  /**
+   * Open a file as a stream: from the content cache when the cached copy is current,
+   * otherwise from the wrapped module, caching the file as it is read. Ranged reads
+   * of files that are not cached yet go straight to the wrapped module.
+   */
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+    if (!this.content) {
+      return this.storage.downloadStream(remotePath, options);
+    }
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const item = await this.getItem(remotePath);
+      if (!item.success || !item.data || item.data.isDirectory) {
+        return this.storage.downloadStream(remotePath, options);
+      }
+
+      const { size } = item.data;
+      const modifiedAt = new Date(item.data.modifiedAt).getTime();
+      const cached = this.content.get(this.normalizePath(remotePath), size, modifiedAt);
+      if (cached) {
+        this.hits++;
+        const range = resolveByteRange(remotePath, size, options);
+        const stream: Readable =
+          range.length > 0 ? fs.createReadStream(cached.file, { start: range.start, end: range.end }) : emptyStream();
+        return this.successResult(
+          this.toDownloadStream(remotePath, stream, size, range, options, item.data.mimeType)
+        );
+      }
+
+      this.misses++;
+      const ranged = options.start !== undefined || options.end !== undefined;
+      const result = await this.storage.downloadStream(remotePath, options);
+      if (ranged || size > this.maxFileSize || !result.success || !result.data) {
+        return result;
+      }
+
+      const capture = this.content.capture(this.normalizePath(remotePath), size, modifiedAt);
+      const stream = pipeline(result.data.stream, capture, () => {
+        // Errors reach the caller through the destroyed capture stream
+      });
+      return this.successResult({ ...result.data, stream });
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'open download stream');
+    }
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const result = await this.storage.moveItem(sourcePath, destinationPath, options);
+    this.invalidate(sourcePath);
+    return this.afterWrite(result, destinationPath);
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.copyItem(sourcePath, destinationPath, options), destinationPath);
+  }
+
+  async deleteFile(path: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.deleteFile(path, options), path);
+  }
+
+  async renameFile(path: string, newName: string, options: RenameOptions = {}): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    const result = await this.storage.renameFile(path, newName, options);
+    this.invalidate(path);
+    return this.afterWrite(result, this.joinPath(this.getParentPath(path), newName));
+  }
+
+  async renameFolder(
+    path: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    const result = await this.storage.renameFolder(path, newName, options);
+    this.invalidate(path);
+    return this.afterWrite(result, this.joinPath(this.getParentPath(path), newName));
+  }
+
+  // ============================================
+  // Batch operations (delegated, so batch endpoints of the wrapped module are used)
+  // ============================================
+
+  async batchDelete(paths: string[], options: BatchDeleteOptions = {}): Promise<OperationResult<BatchResult>> {
+    this.ensureInitialized();
+    const result = await this.storage.batchDelete(paths, options);
+    paths.forEach((path) => this.invalidate(path));
+    return result;
+  }
+
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options: BatchMoveOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    const result = await this.storage.batchMove(operations, options);
+    for (const operation of operations) {
+      this.invalidate(operation.sourcePath);
+      this.invalidate(operation.destinationPath);
+    }
+    return result;
+  }
+
+  async batchCopy(
+    operations: BatchCopyOperation[],
+    options: BatchCopyOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    const result = await this.storage.batchCopy(operations, options);
+    operations.forEach((operation) => this.invalidate(operation.destinationPath));
+    return result;
+  }
+
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options: BatchRenameOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    const result = await this.storage.batchRename(operations, options);
+    for (const operation of operations) {
+      this.invalidate(operation.path);
+      this.invalidate(this.joinPath(this.getParentPath(operation.path), operation.newName));
+    }
+    return result;
+  }
+
+  // ============================================
+  // Upload sessions (delegated to the wrapped module)
+  // ============================================
+
+  async startUpload(remotePath: string, options: StartUploadOptions = {}): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    return this.storage.startUpload(remotePath, options);
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    return this.storage.uploadChunk(session, chunk);
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.completeUpload(session), session.remotePath);
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.storage.abortUpload(session);
+  }
+
+  // ============================================
+  // Query operations
+  // ============================================
+
+  async listDirectory(path: string, options: ListOptions = {}): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    const key = this.listKey(path, options.recursive, options.includeHidden);
+    let items = this.lookup<FileSystemItem[]>(key);
+
+    if (!items) {
+      // The unfiltered listing is cached so other filters can reuse it
+      const result = await this.storage.listDirectory(path, { ...options, filter: undefined });
+      if (!result.success || !result.data) {
+        return result;
+      }
+      items = result.data;
+      this.metadata.set(key, items);
+    }
+
+    return this.successResult(options.filter ? items.filter(options.filter) : [...items]);
+  }
+
+  /**
+   * Get an item, answering from a cached listing of its folder when there is one
+   */
+  async getItem(path: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    const key = this.key('item', path);
+    const normalized = this.normalizePath(path);
+    const siblings =
+      this.metadata.get(this.listKey(this.getParentPath(path), false, true)) ??
+      this.metadata.get(this.listKey(this.getParentPath(path), false, false));
+    const item =
+      (this.metadata.get(key) as FileSystemItem | undefined) ??
+      (siblings as FileSystemItem[] | undefined)?.find((sibling) => this.normalizePath(sibling.path) === normalized);
+
+    if (item) {
+      this.hits++;
+      return this.successResult(item);
+    }
+
+    this.misses++;
+    const result = await this.storage.getItem(path);
+    if (result.success && result.data) {
+      this.metadata.set(key, result.data);
+    }
+    return result;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    this.ensureInitialized();
+    if (this.metadata.get(this.key('item', path))) {
+      return true;
+    }
+    return this.storage.exists(path);
+  }
+
+  async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
+    this.ensureInitialized();
+
+    const key = this.key('tree', path, String(depth));
+    const cached = this.lookup<TreeNode[]>(key);
+    if (cached) {
+      return this.successResult(cached);
+    }
+
+    const result = await this.storage.getFolderTree(path, depth);
+    if (result.success && result.data) {
+      this.metadata.set(key, result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Search the wrapped module, which may have a search API. Pages are not cached,
+   * as their cursors are only valid for the wrapped module.
+   */
+  async search(options: SearchOptions = {}): Promise<OperationResult<SearchPage>> {
+    this.ensureInitialized();
+    return this.storage.search(options);
+  }
+
+  /**
+   * Changes of the wrapped module. Every changed path (and the path a move came
+   * from) is invalidated, so polling getChanges() keeps the cache fresh.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.getChanges(cursor, options);
+    for (const change of result.data?.changes ?? []) {
+      this.invalidate(change.path);
+      if (change.previousPath) {
+        this.invalidate(change.previousPath);
+      }
+    }
+    return result;
+  }
+
+  async listVersions(path: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+    return this.storage.listVersions(path);
+  }
+
+  async downloadVersion(path: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+    return this.storage.downloadVersion(path, versionId);
+  }
+
+  async restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.restoreVersion(path, versionId), path);
+  }
+
+  async trashItem(path: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+    return this.afterWrite(await this.storage.trashItem(path), path);
+  }
+
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.storage.listTrash();
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const result = await this.storage.restoreFromTrash(trashId, options);
+    return this.afterWrite(result, result.data?.path ?? options?.path ?? '/');
+  }
+
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.storage.purgeTrash(options);
+  }
+
+  // ============================================
+  // Helper methods
+  // ============================================
+
+  private key(kind: EntryKind, path: string, variant = ''): string {
+    return [kind, this.normalizePath(path), variant].join(KEY_SEPARATOR);
+  }
+
+  private listKey(path: string, recursive?: boolean, includeHidden?: boolean): string {
+    return this.key('list', path, `${recursive ? 'r' : ''}${includeHidden ? 'h' : ''}`);
+  }
+
+  private lookup<T extends CachedValue>(key: string): T | undefined {
+    const value = this.metadata.get(key) as T | undefined;
+    if (value) {
+      this.hits++;
+    } else {
+      this.misses++;
+    }
+    return value;
+  }
+
+  /**
+   * Invalidate a written path (also after a failed write, which may have changed it partly)
+   */
+  private afterWrite<T>(result: OperationResult<T>, path: string): OperationResult<T> {
+    this.invalidate(path);
+    return result;
+  }
+
+  private failure<T>(error: unknown, operation: string): OperationResult<T> {
+    if (error instanceof HazoFilesError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult(`Failed to ${operation}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Factory function to create a CachedStorageModule instance
+ */
+export function createCachedModule(options: CachedStorageOptions): CachedStorageModule {
+  return new CachedStorageModule(options);
+}
+
+export default CachedStorageModule;
@@ -0,0 +1,72 @@
+/**
+ * LRU Cache
+ * Bounded in-memory cache with a time-to-live per entry
+ */
+
+interface LruEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Map-backed LRU cache: Map keeps insertion order, so re-inserting an entry on
+ * every hit makes the first key the least recently used one.
+ */
+export class LruCache<V> {
+  private entries = new Map<string, LruEntry<V>>();
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttl: number
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Delete every entry whose key matches
+   * @returns Number of entries deleted
+   */
+  deleteWhere(predicate: (key: string) => boolean): number {
+    let deleted = 0;
+    for (const key of Array.from(this.entries.keys())) {
+      if (predicate(key)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
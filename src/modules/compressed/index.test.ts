@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as zlib from 'zlib';
+import { randomBytes } from 'crypto';
+
+import { MemoryStorageModule } from '../memory';
+import { CompressedStorageModule } from './index';
+import type { HazoFilesConfig } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'memory' };
+const text = Buffer.from('hazo_files compresses text files. '.repeat(2000));
+
+async function readStored(storage: MemoryStorageModule, path: string): Promise<Buffer> {
+  const result = await storage.downloadFile(path);
+  expect(result.success).toBe(true);
+  return result.data as Buffer;
+}
+
+describe('CompressedStorageModule', () => {
+  let storage: MemoryStorageModule;
+  let compressed: CompressedStorageModule;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    compressed = new CompressedStorageModule({ storage, algorithms: { text: 'gzip', document: 'brotli' } });
+    await compressed.initialize(config);
+  });
+
+  it('stores compressed data followed by the trailer', async () => {
+    await compressed.uploadFile(text, '/notes.txt');
+
+    const stored = await readStored(storage, '/notes.txt');
+    const trailer = stored.subarray(stored.length - 16);
+    expect(Number(trailer.readBigUInt64BE(0))).toBe(text.length);
+    expect(trailer[8]).toBe(1); // gzip
+    expect(trailer[9]).toBe(1); // format version
+    expect(trailer.subarray(12).toString()).toBe('HZCZ');
+    expect(stored.length).toBeLessThan(text.length / 10);
+    expect(zlib.gunzipSync(stored.subarray(0, stored.length - 16)).equals(text)).toBe(true);
+  });
+
+  it('picks the algorithm by file category', async () => {
+    await compressed.uploadFile(text, '/report.pdf');
+    const png = randomBytes(4096);
+    await compressed.uploadFile(png, '/photo.png');
+
+    const pdf = await readStored(storage, '/report.pdf');
+    expect(pdf[pdf.length - 8]).toBe(2); // brotli
+    expect(zlib.brotliDecompressSync(pdf.subarray(0, pdf.length - 16)).equals(text)).toBe(true);
+    expect((await readStored(storage, '/photo.png')).equals(png)).toBe(true);
+  });
+
+  it('reports logical sizes and round-trips the content', async () => {
+    await compressed.uploadFile(text, '/notes.txt');
+
+    const item = await compressed.getItem('/notes.txt');
+    const stored = await readStored(storage, '/notes.txt');
+    expect(item.data).toMatchObject({
+      size: text.length,
+      metadata: { compression: 'gzip', storedSize: stored.length },
+    });
+    const listing = await compressed.listDirectory('/');
+    expect(listing.data?.[0]).toMatchObject({ name: 'notes.txt', size: text.length });
+    expect(((await compressed.downloadFile('/notes.txt')).data as Buffer).equals(text)).toBe(true);
+  });
+
+  it('serves byte ranges of the decompressed content', async () => {
+    await compressed.uploadFile(text, '/notes.txt');
+
+    const result = await compressed.downloadStream('/notes.txt', { start: 1000, end: 1999 });
+    expect(result.data).toMatchObject({ size: text.length, start: 1000, end: 1999, contentLength: 1000 });
+    const chunks: Buffer[] = [];
+    for await (const chunk of result.data!.stream) chunks.push(chunk as Buffer);
+    expect(Buffer.concat(chunks).equals(text.subarray(1000, 2000))).toBe(true);
+  });
+
+  it('reads files without a trailer as stored', async () => {
+    await storage.uploadFile(text, '/plain.txt');
+
+    expect((await compressed.getItem('/plain.txt')).data).toMatchObject({ size: text.length });
+    expect(((await compressed.downloadFile('/plain.txt')).data as Buffer).equals(text)).toBe(true);
+  });
+});
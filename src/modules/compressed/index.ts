@@ -0,0 +1,610 @@
+/**
+ * Compressed Storage Module
+ * Decorator that compresses files on upload and decompresses them on download.
+ * The algorithm is chosen per file category (text, document, image, ...), so
+ * already-compressed media is stored as is.
+ *
+ * A compressed file is the compressed data followed by a 16-byte trailer:
+ *   logical size (uint64 BE) | algorithm (1 byte) | version (1 byte) | reserved (2) | "HZCZ"
+ * The trailer is written after the data, so uploads can stream without knowing the
+ * size in advance. Files without a trailer are read as stored.
+ */
+
+import * as fs from 'fs';
+import * as zlib from 'zlib';
+import { Readable, Transform, pipeline } from 'stream';
+
+import { BaseStorageModule } from '../../common/base-module';
+import { HazoFilesError, ConfigurationError, FileNotFoundError } from '../../common/errors';
+import { getFileCategory } from '../../common/mime-types';
+import { resolveByteRange, sliceStream, trackStreamProgress } from '../../common/stream-utils';
+import { mapWithConcurrency } from '../../common/utils';
+import type {
+  StorageModule,
+  StorageProvider,
+  HazoFilesConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+} from '../../types';
+
+/** Supported compression algorithms ('none' stores the file as is) */
+export type CompressionAlgorithm = 'gzip' | 'brotli' | 'zstd' | 'none';
+
+/** File categories as returned by getFileCategory() */
+export type FileCategory = ReturnType<typeof getFileCategory>;
+
+/** Options for CompressedStorageModule */
+export interface CompressedStorageOptions {
+  /** Module that stores the compressed files */
+  storage: StorageModule;
+  /**
+   * Algorithm per file category; categories not listed are stored uncompressed.
+   * Default: { text: 'gzip' } (text, CSV, JSON, ...)
+   */
+  algorithms?: Partial<Record<FileCategory, CompressionAlgorithm>>;
+  /**
+   * Compression level for the chosen algorithm (gzip 1-9, brotli 0-11, zstd 1-22).
+   * Default: gzip 6, brotli 5, zstd 3.
+   */
+  level?: number;
+}
+
+const TRAILER_SIZE = 16;
+const MAGIC = Buffer.from('HZCZ');
+const VERSION = 1;
+const ALGORITHM_IDS: Record<Exclude<CompressionAlgorithm, 'none'>, number> = { gzip: 1, brotli: 2, zstd: 3 };
+// Files whose sizes are read at once when listing
+const LIST_CONCURRENCY = 8;
+
+// zstd is only built into newer Node.js releases (22.15+)
+type ZlibWithZstd = typeof zlib & {
+  createZstdCompress?: (options?: { params?: Record<number, number> }) => Transform;
+  createZstdDecompress?: () => Transform;
+  constants: typeof zlib.constants & { ZSTD_c_compressionLevel?: number };
+};
+const zlibZstd = zlib as ZlibWithZstd;
+
+/** How a file is stored */
+interface StoredInfo {
+  algorithm: CompressionAlgorithm;
+  /** Logical (uncompressed) size */
+  size: number;
+  storedSize: number;
+}
+
+/**
+ * Compressed Storage Module Implementation
+ *
+ * Sizes in results are the logical (uncompressed) sizes; compressed files also get
+ * `metadata.compression` and `metadata.storedSize`. Reading a size means reading the
+ * trailer, so listings make one small ranged read per file. A byte range of a
+ * compressed file is served by decompressing from the start of the file.
+ */
+export class CompressedStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider;
+
+  private readonly storage: StorageModule;
+  private readonly algorithms: Partial<Record<FileCategory, CompressionAlgorithm>>;
+  private readonly level?: number;
+
+  constructor(options: CompressedStorageOptions) {
+    super();
+    if (!options.storage) {
+      throw new ConfigurationError('Compressed storage requires a storage module');
+    }
+
+    this.storage = options.storage;
+    this.provider = options.storage.provider;
+    this.algorithms = options.algorithms ?? { text: 'gzip' };
+    this.level = options.level;
+
+    if (Object.values(this.algorithms).includes('zstd') && !zlibZstd.createZstdCompress) {
+      throw new ConfigurationError(`zstd compression is not supported by Node.js ${process.version}`);
+    }
+  }
+
+  /**
+   * Initialize the wrapped module, unless it already is
+   */
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    if (!(this.storage instanceof BaseStorageModule && this.storage.isInitialized)) {
+      await this.storage.initialize({ ...config, provider: this.storage.provider });
+    }
+    await super.initialize(config);
+  }
+
+  /**
+   * Get the wrapped module (which holds the compressed files)
+   */
+  getStorage(): StorageModule {
+    return this.storage;
+  }
+
+  /**
+   * Get the algorithm used for new files with the given name
+   */
+  getAlgorithm(fileName: string): CompressionAlgorithm {
+    return this.algorithms[getFileCategory(fileName)] ?? 'none';
+  }
+
+  // ============================================
+  // Directory operations
+  // ============================================
+
+  async createDirectory(path: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    return this.storage.createDirectory(path);
+  }
+
+  async removeDirectory(path: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.storage.removeDirectory(path, recursive);
+  }
+
+  // ============================================
+  // File operations
+  // ============================================
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    const algorithm = this.getAlgorithm(this.getBaseName(remotePath));
+    if (algorithm === 'none') {
+      return this.storage.uploadFile(source, remotePath, options);
+    }
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+
+      let input: Readable;
+      let totalBytes = 0;
+      if (typeof source === 'string') {
+        totalBytes = (await fs.promises.stat(source)).size;
+        input = fs.createReadStream(source);
+      } else if (Buffer.isBuffer(source)) {
+        totalBytes = source.length;
+        input = Readable.from([source]);
+      } else {
+        input = Readable.fromWeb(source as import('stream/web').ReadableStream);
+      }
+
+      let logicalSize = 0;
+      const counter = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          logicalSize += chunk.length;
+          callback(null, chunk);
+        },
+      });
+      const trailer = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          callback(null, chunk);
+        },
+        flush(callback) {
+          callback(null, encodeTrailer(algorithm, logicalSize));
+        },
+      });
+
+      const compressed = pipeline(
+        trackStreamProgress(input, totalBytes, options.onProgress),
+        counter,
+        this.createCompressor(algorithm),
+        trailer,
+        () => {
+          // Errors reach the upload through the destroyed trailer stream
+        }
+      );
+
+      const result = await this.storage.uploadFile(Readable.toWeb(compressed) as ReadableStream, remotePath, {
+        overwrite: options.overwrite,
+        metadata: options.metadata,
+        signal: options.signal,
+      });
+
+      if (!result.success || !result.data) {
+        input.destroy();
+        return result;
+      }
+      return this.successResult(
+        this.withInfo(result.data, { algorithm, size: logicalSize, storedSize: result.data.size })
+      );
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'upload file');
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.downloadStream(remotePath, { signal: options.signal });
+      if (!result.success || !result.data) {
+        return this.errorResult(result.error || `Failed to download file: ${remotePath}`);
+      }
+
+      const { stream, size } = result.data;
+      const tracked = trackStreamProgress(stream, size, options.onProgress);
+
+      if (localPath) {
+        await fs.promises.writeFile(localPath, tracked, { signal: options.signal });
+        return this.successResult(localPath);
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of tracked) {
+        chunks.push(chunk as Buffer);
+      }
+      return this.successResult(Buffer.concat(chunks));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'download file');
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const item = await this.storage.getItem(remotePath);
+      if (!item.success || !item.data || item.data.isDirectory) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const info = await this.readInfo(remotePath, item.data.size, options.signal);
+      if (info.algorithm === 'none') {
+        return this.storage.downloadStream(remotePath, options);
+      }
+
+      const range = resolveByteRange(remotePath, info.size, options);
+      const result = await this.storage.downloadStream(remotePath, {
+        start: 0,
+        end: info.storedSize - TRAILER_SIZE - 1,
+        signal: options.signal,
+      });
+      if (!result.success || !result.data) {
+        return this.errorResult(result.error || `Failed to download file: ${remotePath}`);
+      }
+
+      const decompressed = result.data.stream.pipe(this.createDecompressor(info.algorithm));
+      result.data.stream.on('error', (error) => decompressed.destroy(error));
+      const ranged = options.start !== undefined || options.end !== undefined;
+      const stream = ranged ? sliceStream(decompressed, range) : decompressed;
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, info.size, range, options));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'open download stream');
+    }
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.moveItem(sourcePath, destinationPath, options));
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.copyItem(sourcePath, destinationPath, options));
+  }
+
+  async deleteFile(path: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.storage.deleteFile(path, options);
+  }
+
+  async renameFile(path: string, newName: string, options: RenameOptions = {}): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.renameFile(path, newName, options));
+  }
+
+  async renameFolder(
+    path: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    return this.storage.renameFolder(path, newName, options);
+  }
+
+  // ============================================
+  // Query operations
+  // ============================================
+
+  async listDirectory(path: string, options: ListOptions = {}): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    // Filter once the logical sizes are known
+    const result = await this.storage.listDirectory(path, { ...options, filter: undefined });
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      const items = await mapWithConcurrency(result.data, LIST_CONCURRENCY, (item) =>
+        this.toLogicalItem(item, options.signal)
+      );
+      return this.successResult(options.filter ? items.filter(options.filter) : items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(path);
+      }
+      return this.failure(error, 'list directory');
+    }
+  }
+
+  async getItem(path: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.getItem(path));
+  }
+
+  async exists(path: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.storage.exists(path);
+  }
+
+  /**
+   * Changes of the wrapped module with logical file sizes. A file that is gone again
+   * before its trailer can be read keeps its stored size.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.getChanges(cursor, options);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const changes = await mapWithConcurrency(result.data.changes, LIST_CONCURRENCY, async (change) =>
+      change.item
+        ? { ...change, item: await this.toLogicalItem(change.item, options.signal).catch(() => change.item) }
+        : change
+    );
+    if (options.signal?.aborted) {
+      return this.abortedResult();
+    }
+    return this.successResult({ ...result.data, changes });
+  }
+
+  /**
+   * Versions of the wrapped module. Sizes and hashes are those of the stored
+   * (compressed) content; the content itself is decompressed on download.
+   */
+  async listVersions(path: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+    return this.storage.listVersions(path);
+  }
+
+  async downloadVersion(path: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.downloadVersion(path, versionId);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      return this.successResult(await this.decompressBuffer(result.data));
+    } catch (error) {
+      return this.failure(error, 'download version');
+    }
+  }
+
+  async restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.restoreVersion(path, versionId));
+  }
+
+  /**
+   * Trash of the wrapped module; sizes are those of the stored (compressed) content
+   */
+  async trashItem(path: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+    return this.storage.trashItem(path);
+  }
+
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.storage.listTrash();
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.restoreFromTrash(trashId, options));
+  }
+
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.storage.purgeTrash(options);
+  }
+
+  // ============================================
+  // Helper methods
+  // ============================================
+
+  private createCompressor(algorithm: CompressionAlgorithm): Transform {
+    switch (algorithm) {
+      case 'gzip':
+        return zlib.createGzip({ level: this.level ?? zlib.constants.Z_DEFAULT_COMPRESSION });
+      case 'brotli':
+        return zlib.createBrotliCompress({
+          params: { [zlib.constants.BROTLI_PARAM_QUALITY]: this.level ?? 5 },
+        });
+      case 'zstd':
+        return zlibZstd.createZstdCompress!(
+          this.level !== undefined ? { params: { [zlibZstd.constants.ZSTD_c_compressionLevel!]: this.level } } : {}
+        );
+      default:
+        throw new ConfigurationError(`Unknown compression algorithm: ${algorithm}`);
+    }
+  }
+
+  private createDecompressor(algorithm: CompressionAlgorithm): Transform {
+    switch (algorithm) {
+      case 'gzip':
+        return zlib.createGunzip();
+      case 'brotli':
+        return zlib.createBrotliDecompress();
+      case 'zstd':
+        if (!zlibZstd.createZstdDecompress) {
+          throw new ConfigurationError(`zstd compression is not supported by Node.js ${process.version}`);
+        }
+        return zlibZstd.createZstdDecompress();
+      default:
+        throw new ConfigurationError(`Unknown compression algorithm: ${algorithm}`);
+    }
+  }
+
+  /**
+   * Read the trailer of a stored file to find its algorithm and logical size
+   */
+  private async readInfo(path: string, storedSize: number, signal?: AbortSignal): Promise<StoredInfo> {
+    const stored: StoredInfo = { algorithm: 'none', size: storedSize, storedSize };
+    if (storedSize < TRAILER_SIZE) {
+      return stored;
+    }
+
+    const result = await this.storage.downloadStream(path, { start: storedSize - TRAILER_SIZE, signal });
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to read file: ${path}`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of result.data.stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return decodeTrailer(Buffer.concat(chunks), storedSize) ?? stored;
+  }
+
+  /**
+   * Decompress a whole stored file read into memory
+   */
+  private async decompressBuffer(stored: Buffer): Promise<Buffer> {
+    const info = decodeTrailer(stored.subarray(Math.max(0, stored.length - TRAILER_SIZE)), stored.length);
+    if (!info || info.algorithm === 'none') {
+      return stored;
+    }
+
+    const chunks: Buffer[] = [];
+    const decompressed = Readable.from([stored.subarray(0, stored.length - TRAILER_SIZE)])
+      .pipe(this.createDecompressor(info.algorithm));
+    for await (const chunk of decompressed) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private withInfo<T extends FileItem>(item: T, info: StoredInfo): T {
+    if (info.algorithm === 'none') {
+      return item;
+    }
+    return {
+      ...item,
+      size: info.size,
+      metadata: { ...item.metadata, compression: info.algorithm, storedSize: info.storedSize },
+    };
+  }
+
+  private async toLogicalItem<T extends FileSystemItem>(item: T, signal?: AbortSignal): Promise<T> {
+    if (item.isDirectory) {
+      return item;
+    }
+    return this.withInfo(item, await this.readInfo(item.path, item.size, signal)) as T;
+  }
+
+  private async mapItemResult<T extends FileSystemItem>(result: OperationResult<T>): Promise<OperationResult<T>> {
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      return this.successResult(await this.toLogicalItem(result.data));
+    } catch (error) {
+      return this.failure(error, 'read file size');
+    }
+  }
+
+  private failure<T>(error: unknown, operation: string): OperationResult<T> {
+    if (error instanceof HazoFilesError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult(`Failed to ${operation}: ${(error as Error).message}`);
+  }
+}
+
+function encodeTrailer(algorithm: Exclude<CompressionAlgorithm, 'none'>, logicalSize: number): Buffer {
+  const trailer = Buffer.alloc(TRAILER_SIZE);
+  trailer.writeBigUInt64BE(BigInt(logicalSize), 0);
+  trailer.writeUInt8(ALGORITHM_IDS[algorithm], 8);
+  trailer.writeUInt8(VERSION, 9);
+  MAGIC.copy(trailer, TRAILER_SIZE - MAGIC.length);
+  return trailer;
+}
+
+function decodeTrailer(trailer: Buffer, storedSize: number): StoredInfo | null {
+  if (trailer.length !== TRAILER_SIZE || !trailer.subarray(TRAILER_SIZE - MAGIC.length).equals(MAGIC)) {
+    return null;
+  }
+
+  const algorithm = (Object.keys(ALGORITHM_IDS) as Exclude<CompressionAlgorithm, 'none'>[]).find(
+    (name) => ALGORITHM_IDS[name] === trailer.readUInt8(8)
+  );
+  if (!algorithm || trailer.readUInt8(9) !== VERSION) {
+    return null;
+  }
+  return { algorithm, size: Number(trailer.readBigUInt64BE(0)), storedSize };
+}
+
+/**
+ * Factory function to create a CompressedStorageModule instance
+ */
+export function createCompressedModule(options: CompressedStorageOptions): CompressedStorageModule {
+  return new CompressedStorageModule(options);
+}
+
+export default CompressedStorageModule;
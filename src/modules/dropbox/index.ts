@@ -4,15 +4,30 @@
  */
 
 import { Dropbox } from 'dropbox';
+import { Readable } from 'stream';
 
 import { BaseStorageModule } from '../../common/base-module';
 import {
+  HazoFilesError,
   FileExistsError,
   FileTooLargeError,
   AuthenticationError,
+  FileNotFoundError,
+  InvalidRangeError,
+  UploadSessionError,
+  InvalidCursorError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
 } from '../../common/errors';
-import { createFileItem, createFolderItem } from '../../common/utils';
+import { createFileItem, createFolderItem, delay, mapWithConcurrency } from '../../common/utils';
 import { getMimeType } from '../../common/mime-types';
+import { resolveByteRange, sliceStream, emptyStream } from '../../common/stream-utils';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  createSearchFilter,
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from '../../common/search-utils';
 import { DropboxAuth, createDropboxAuth, type DropboxTokenData, type DropboxAuthCallbacks } from './auth';
 import type {
   StorageProvider,
@@ -23,10 +38,35 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  DeleteOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchResult,
+  BatchOptions,
   ListOptions,
+  SearchOptions,
+  SearchPage,
   TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashConfig,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
 } from '../../types';
 
 // Dropbox types from SDK
@@ -51,6 +91,37 @@ interface DropboxFolderMetadata {
 
 type DropboxMetadata = DropboxFileMetadata | DropboxFolderMetadata;
 
+interface DropboxDeletedMetadata {
+  '.tag': 'deleted';
+  name: string;
+  path_lower?: string;
+  path_display?: string;
+}
+
+/** A Dropbox error union, e.g. { '.tag': 'from_lookup', from_lookup: { '.tag': 'not_found' } } */
+interface DropboxTaggedError {
+  '.tag': string;
+  [key: string]: unknown;
+}
+
+/** Result of one entry of a delete_batch, move_batch_v2 or copy_batch_v2 job */
+interface DropboxBatchEntry {
+  '.tag': 'success' | 'failure' | 'other';
+  /** Deleted item (delete_batch) */
+  metadata?: DropboxMetadata;
+  /** Moved or copied item (move_batch_v2, copy_batch_v2) */
+  success?: DropboxMetadata;
+  failure?: DropboxTaggedError;
+}
+
+/** Launch or poll result of a batch job */
+interface DropboxBatchStatus {
+  '.tag': string;
+  async_job_id?: string;
+  entries?: DropboxBatchEntry[];
+  failed?: DropboxTaggedError;
+}
+
 /** Dropbox specific configuration */
 export interface DropboxConfig {
   clientId: string;
@@ -59,17 +130,59 @@ export interface DropboxConfig {
   refreshToken?: string;
   accessToken?: string;
   rootPath?: string;
+  /** Retention used by purgeTrash() for deleted files */
+  trash?: TrashConfig;
 }
 
 // 150MB upload limit for simple upload
 const MAX_UPLOAD_SIZE = 150 * 1024 * 1024;
 
+// Upload sessions accept up to 150MB per request and expire after 7 days
+const MAX_CHUNK_SIZE = 150 * 1024 * 1024;
+const UPLOAD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Batch jobs take up to 1000 entries and are polled until they complete
+const BATCH_SIZE = 1000;
+const BATCH_POLL_INTERVAL_MS = 1000;
+
+// Entries per search_v2 / list_folder request in search()
+const SEARCH_PAGE_SIZE = 1000;
+
+// Content endpoint used for streamed downloads (the SDK buffers the whole file)
+const DOWNLOAD_URL = 'https://content.dropboxapi.com/2/files/download';
+
+/**
+ * Describe a Dropbox error union by its tags, like the SDK's error_summary (e.g. "from_lookup/not_found")
+ */
+function describeTaggedError(error: DropboxTaggedError | undefined): string {
+  const tags: string[] = [];
+  let current: unknown = error;
+  while (current && typeof current === 'object' && typeof (current as DropboxTaggedError)['.tag'] === 'string') {
+    const tag = (current as DropboxTaggedError)['.tag'];
+    tags.push(tag);
+    current = (current as DropboxTaggedError)[tag];
+  }
+  return tags.join('/') || 'unknown error';
+}
+
+/**
+ * Encode a Dropbox-API-Arg header value (non-ASCII characters must be escaped)
+ */
+function toApiArgHeader(arg: Record<string, unknown>): string {
+  return JSON.stringify(arg).replace(/[\u007f-\uffff]/g, (c) =>
+    '\\u' + c.charCodeAt(0).toString(16).padStart(4, '0')
+  );
+}
+
 export class DropboxModule extends BaseStorageModule {
   readonly provider: StorageProvider = 'dropbox' as StorageProvider;
   private auth: DropboxAuth | null = null;
   private dbx: Dropbox | null = null;
   private rootPath: string = '';
   private authCallbacks: DropboxAuthCallbacks = {};
+  // Last known path of each file and folder ID, to report moves in getChanges()
+  private pathsById = new Map<string, string>();
+  private trashRetentionDays = 30;
 
   /**
    * Set authentication callbacks for token persistence
@@ -105,6 +218,7 @@ export class DropboxModule extends BaseStorageModule {
     }
 
     this.rootPath = dropboxConfig.rootPath || '';
+    this.trashRetentionDays = dropboxConfig.trash?.retentionDays ?? 30;
     this.createDropboxClient();
   }
 
@@ -180,11 +294,12 @@ export class DropboxModule extends BaseStorageModule {
   }
 
   /**
-   * Convert Dropbox metadata to FileSystemItem
+   * Convert Dropbox metadata to FileSystemItem (and remember the path of its ID)
    */
   private metadataToItem(entry: DropboxMetadata, virtualPath?: string): FileSystemItem {
     const isFolder = entry['.tag'] === 'folder';
     const path = virtualPath || this.toVirtualPath(entry.path_display || entry.name);
+    this.pathsById.set(entry.id, path);
 
     if (isFolder) {
       return createFolderItem({
@@ -291,6 +406,7 @@ export class DropboxModule extends BaseStorageModule {
     options: UploadOptions = {}
   ): Promise<OperationResult<FileItem>> {
     try {
+      this.throwIfAborted(options.signal, remotePath);
       await this.ensureAuthenticated();
 
       const normalized = this.normalizePath(remotePath);
@@ -301,7 +417,7 @@ export class DropboxModule extends BaseStorageModule {
 
       if (typeof source === 'string') {
         const fs = await import('fs');
-        contents = await fs.promises.readFile(source);
+        contents = await fs.promises.readFile(source, { signal: options.signal });
       } else if (Buffer.isBuffer(source)) {
         contents = source;
       } else {
@@ -310,6 +426,10 @@ export class DropboxModule extends BaseStorageModule {
         const reader = (source as ReadableStream).getReader();
         let done = false;
         while (!done) {
+          if (options.signal?.aborted) {
+            await reader.cancel();
+            this.throwIfAborted(options.signal, remotePath);
+          }
           const result = await reader.read();
           done = result.done;
           if (result.value) {
@@ -335,6 +455,8 @@ export class DropboxModule extends BaseStorageModule {
         }
       }
 
+      // The SDK can't cancel a request in flight, so the signal is checked before each call
+      this.throwIfAborted(options.signal, remotePath);
       const response = await this.dbx!.filesUpload({
         path: dbxPath,
         contents,
@@ -363,6 +485,9 @@ export class DropboxModule extends BaseStorageModule {
 
       return this.successResult(item);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
       if (
         error instanceof AuthenticationError ||
         error instanceof FileExistsError ||
@@ -380,11 +505,13 @@ export class DropboxModule extends BaseStorageModule {
     options: DownloadOptions = {}
   ): Promise<OperationResult<Buffer | string>> {
     try {
+      this.throwIfAborted(options.signal, remotePath);
       await this.ensureAuthenticated();
 
       const dbxPath = this.toDropboxPath(remotePath);
 
       const response = await this.dbx!.filesDownload({ path: dbxPath });
+      this.throwIfAborted(options.signal, remotePath);
 
       // The SDK attaches fileBinary to the result for Node.js
       const result = response.result as unknown as { fileBinary: Buffer };
@@ -398,12 +525,15 @@ export class DropboxModule extends BaseStorageModule {
         const fs = await import('fs');
         const path = await import('path');
         await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
-        await fs.promises.writeFile(localPath, buffer);
+        await fs.promises.writeFile(localPath, buffer, { signal: options.signal });
         return this.successResult(localPath);
       }
 
       return this.successResult(buffer);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('path/not_found') || errMsg.includes('path_lookup/not_found')) {
         return this.errorResult(`File not found: ${remotePath}`);
@@ -412,12 +542,193 @@ export class DropboxModule extends BaseStorageModule {
     }
   }
 
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      await this.ensureAuthenticated();
+
+      const dbxPath = this.toDropboxPath(remotePath);
+      const metadata = await this.dbx!.filesGetMetadata({ path: dbxPath });
+      this.throwIfAborted(options.signal, remotePath);
+      const entry = metadata.result as unknown as DropboxMetadata;
+      if (entry['.tag'] !== 'file') {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const range = resolveByteRange(remotePath, entry.size, options);
+      const partial = range.length < entry.size;
+
+      let stream: Readable = emptyStream();
+      if (range.length > 0) {
+        const response = await fetch(DOWNLOAD_URL, {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${this.auth!.getAccessToken()}`,
+            'Dropbox-API-Arg': toApiArgHeader({ path: entry.id }),
+            ...(partial ? { Range: `bytes=${range.start}-${range.end}` } : {}),
+          },
+          signal: options.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Download failed with status ${response.status}: ${await response.text()}`);
+        }
+
+        stream = Readable.fromWeb(response.body as import('stream/web').ReadableStream);
+        if (partial && response.status !== 206) {
+          stream = sliceStream(stream, range);
+        }
+      }
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, entry.size, range, options));
+    } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (error instanceof FileNotFoundError || error instanceof InvalidRangeError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('path/not_found') || errMsg.includes('path_lookup/not_found')) {
+        return this.errorResult(`File not found: ${remotePath}`);
+      }
+      return this.errorResult(`Failed to download file: ${errMsg}`);
+    }
+  }
+
+  async startUpload(
+    remotePath: string,
+    options: StartUploadOptions = {}
+  ): Promise<OperationResult<UploadSession>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const dbxPath = this.toDropboxPath(remotePath);
+
+      if (!options.overwrite) {
+        try {
+          await this.dbx!.filesGetMetadata({ path: dbxPath });
+          throw new FileExistsError(remotePath);
+        } catch (err: unknown) {
+          if (err instanceof FileExistsError) throw err;
+          // File doesn't exist, proceed
+        }
+      }
+
+      const response = await this.dbx!.filesUploadSessionStart({ close: false, contents: Buffer.alloc(0) });
+
+      const session = this.createUploadSession(
+        remotePath,
+        options,
+        { sessionId: response.result.session_id },
+        new Date(Date.now() + UPLOAD_SESSION_TTL_MS)
+      );
+
+      return this.successResult(session);
+    } catch (error: unknown) {
+      if (error instanceof AuthenticationError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to start upload: ${errMsg}`);
+    }
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    try {
+      await this.ensureAuthenticated();
+      this.assertChunkFits(session, chunk);
+
+      if (chunk.length > MAX_CHUNK_SIZE) {
+        throw new UploadSessionError(session.id, `Dropbox chunks cannot exceed ${MAX_CHUNK_SIZE} bytes`);
+      }
+
+      try {
+        await this.dbx!.filesUploadSessionAppendV2({
+          cursor: { session_id: this.getDropboxSessionId(session), offset: session.bytesUploaded },
+          close: false,
+          contents: chunk,
+        });
+      } catch (err: unknown) {
+        // A retried chunk may have been stored already: resync with the offset Dropbox reports
+        const correctOffset = (err as { error?: { error?: { correct_offset?: number } } }).error?.error?.correct_offset;
+        if (correctOffset === undefined) throw err;
+        return this.successResult(this.advanceUploadSession(session, correctOffset - session.bytesUploaded));
+      }
+
+      return this.successResult(this.advanceUploadSession(session, chunk.length));
+    } catch (error: unknown) {
+      if (error instanceof AuthenticationError || error instanceof UploadSessionError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to upload chunk: ${errMsg}`);
+    }
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    try {
+      await this.ensureAuthenticated();
+      this.assertUploadComplete(session);
+
+      const response = await this.dbx!.filesUploadSessionFinish({
+        cursor: { session_id: this.getDropboxSessionId(session), offset: session.bytesUploaded },
+        commit: {
+          path: this.toDropboxPath(session.remotePath),
+          mode: session.overwrite ? { '.tag': 'overwrite' } : { '.tag': 'add' },
+          autorename: false,
+        },
+        contents: Buffer.alloc(0),
+      });
+
+      const item = this.metadataToItem(
+        { ...response.result, '.tag': 'file' } as DropboxFileMetadata,
+        this.normalizePath(session.remotePath)
+      );
+      return this.successResult(item as FileItem);
+    } catch (error: unknown) {
+      if (error instanceof AuthenticationError || error instanceof UploadSessionError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('conflict')) {
+        return this.errorResult(`File already exists: ${session.remotePath}`);
+      }
+      return this.errorResult(`Failed to complete upload: ${errMsg}`);
+    }
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    try {
+      this.getDropboxSessionId(session);
+      // Dropbox has no cancel endpoint: unfinished sessions are discarded when they expire
+      return this.successResult();
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+  }
+
+  /**
+   * Dropbox upload session ID stored when the session was started
+   */
+  private getDropboxSessionId(session: UploadSession): string {
+    const sessionId = session.providerState.sessionId;
+    if (typeof sessionId !== 'string') {
+      throw new UploadSessionError(session.id, 'session has no Dropbox upload session ID');
+    }
+    return sessionId;
+  }
+
   async moveItem(
     sourcePath: string,
     destinationPath: string,
-    _options: MoveOptions = {}
+    options: MoveOptions = {}
   ): Promise<OperationResult<FileSystemItem>> {
     try {
+      this.throwIfAborted(options.signal, sourcePath);
       await this.ensureAuthenticated();
 
       const fromPath = this.toDropboxPath(sourcePath);
@@ -433,6 +744,9 @@ export class DropboxModule extends BaseStorageModule {
       const item = this.metadataToItem(metadata, this.normalizePath(destinationPath));
       return this.successResult(item);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('not_found')) {
         return this.errorResult(`Item not found: ${sourcePath}`);
@@ -441,14 +755,56 @@ export class DropboxModule extends BaseStorageModule {
     }
   }
 
-  async deleteFile(virtualPath: string): Promise<OperationResult> {
+  /**
+   * Copy a file or folder on the server with copy_v2 (folders in one request)
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    try {
+      await this.ensureAuthenticated();
+      await this.prepareCopy(sourcePath, destinationPath, options);
+
+      const item = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        const response = await this.dbx!.filesCopyV2({
+          from_path: this.toDropboxPath(sourcePath),
+          to_path: this.toDropboxPath(target),
+          autorename: false,
+        });
+        const copied = this.metadataToItem(response.result.metadata as DropboxMetadata, this.normalizePath(target));
+        await this.reportCopiedItem(copied, copyOptions);
+        return copied;
+      });
+      return this.successResult(item);
+    } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (error instanceof HazoFilesError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`Item not found: ${sourcePath}`);
+      }
+      return this.errorResult(`Failed to copy item: ${errMsg}`);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
       const dbxPath = this.toDropboxPath(virtualPath);
       await this.dbx!.filesDeleteV2({ path: dbxPath });
       return this.successResult();
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('not_found')) {
         return this.errorResult(`File not found: ${virtualPath}`);
@@ -460,9 +816,10 @@ export class DropboxModule extends BaseStorageModule {
   async renameFile(
     virtualPath: string,
     newName: string,
-    _options: RenameOptions = {}
+    options: RenameOptions = {}
   ): Promise<OperationResult<FileItem>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
       const parentPath = this.getParentPath(virtualPath);
@@ -480,6 +837,9 @@ export class DropboxModule extends BaseStorageModule {
       const item = this.metadataToItem(metadata, newVirtualPath) as FileItem;
       return this.successResult(item);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('not_found')) {
         return this.errorResult(`File not found: ${virtualPath}`);
@@ -491,9 +851,10 @@ export class DropboxModule extends BaseStorageModule {
   async renameFolder(
     virtualPath: string,
     newName: string,
-    _options: RenameOptions = {}
+    options: RenameOptions = {}
   ): Promise<OperationResult<FolderItem>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
       const parentPath = this.getParentPath(virtualPath);
@@ -511,6 +872,9 @@ export class DropboxModule extends BaseStorageModule {
       const item = this.metadataToItem(metadata, newVirtualPath) as FolderItem;
       return this.successResult(item);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('not_found')) {
         return this.errorResult(`Folder not found: ${virtualPath}`);
@@ -519,11 +883,238 @@ export class DropboxModule extends BaseStorageModule {
     }
   }
 
+  // ============ Batch Operations ============
+
+  /**
+   * Delete many files and folders with delete_batch. Without `recursive`, folders are
+   * deleted one by one so that a folder with contents fails.
+   */
+  async batchDelete(paths: string[], options: BatchDeleteOptions = {}): Promise<OperationResult<BatchResult>> {
+    try {
+      await this.ensureAuthenticated();
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+
+    const results = new Array<OperationResult>(paths.length);
+    const onDone = this.createBatchTracker(paths.length, options);
+    const concurrency = options.concurrency ?? 4;
+    let files = paths.map((path, index) => ({ path, index }));
+
+    if (!options.recursive) {
+      // delete_batch deletes folders with their contents, so find the folders first
+      const items = await mapWithConcurrency(files, concurrency, ({ path }) =>
+        options.signal?.aborted ? Promise.resolve(this.abortedResult<FileSystemItem>(path)) : this.getItem(path)
+      );
+      const folders = files.filter((_, i) => items[i].data?.isDirectory);
+      files.forEach(({ path, index }, i) => {
+        if (!items[i].success) {
+          results[index] = this.errorResult(items[i].error || `Item not found: ${path}`);
+          onDone(path, results[index]);
+        }
+      });
+      files = files.filter((_, i) => items[i].success && !items[i].data?.isDirectory);
+
+      await mapWithConcurrency(folders, concurrency, async ({ path, index }) => {
+        results[index] = options.signal?.aborted ? this.abortedResult(path) : await this.removeDirectory(path, false);
+        onDone(path, results[index]);
+      });
+    }
+
+    await this.runBatchJobs(files, options, async (chunk) =>
+      (await this.dbx!.filesDeleteBatch({
+        entries: chunk.map(({ path }) => ({ path: this.toDropboxPath(path) })),
+      })).result as DropboxBatchStatus,
+      async (asyncJobId) => (await this.dbx!.filesDeleteBatchCheck({ async_job_id: asyncJobId })).result as DropboxBatchStatus,
+      ({ path, index }, entry, error) => {
+        results[index] = error !== undefined
+          ? this.batchErrorResult(error, path, options)
+          : entry!['.tag'] === 'success'
+            ? this.successResult()
+            : this.errorResult(this.describeFailure(entry!.failure, path, 'delete'));
+        onDone(path, results[index]);
+      }
+    );
+
+    return this.toBatchResult(results);
+  }
+
+  /**
+   * Move many files and folders with move_batch_v2
+   */
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options: BatchMoveOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    return this.relocateBatch('move', operations, options);
+  }
+
+  /**
+   * Copy many files and folders with copy_batch_v2, after checking each copy like
+   * copyItem() does. Copies that replace an existing item run one by one through
+   * copyItem(), which swaps the copy in once complete.
+   */
+  async batchCopy(
+    operations: BatchCopyOperation[],
+    options: BatchCopyOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    try {
+      await this.ensureAuthenticated();
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+
+    const checks = await mapWithConcurrency(operations, options.concurrency ?? 4, async (operation) => {
+      try {
+        const copyOptions = { recursive: options.recursive, overwrite: options.overwrite, signal: options.signal };
+        await this.prepareCopy(operation.sourcePath, operation.destinationPath, copyOptions);
+        if (options.overwrite && (await this.exists(operation.destinationPath))) {
+          return this.copyItem(operation.sourcePath, operation.destinationPath, copyOptions);
+        }
+        return null;
+      } catch (error) {
+        return this.batchErrorResult<FileSystemItem>(error, operation.sourcePath, options);
+      }
+    });
+    return this.relocateBatch('copy', operations, options, checks);
+  }
+
+  /**
+   * Rename many files and folders with move_batch_v2
+   */
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options: BatchRenameOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    return this.relocateBatch(
+      'move',
+      operations.map(({ path, newName }) => ({
+        sourcePath: path,
+        destinationPath: this.joinPath(this.getParentPath(path), newName),
+      })),
+      options
+    );
+  }
+
+  /**
+   * Move or copy many items with move_batch_v2 / copy_batch_v2
+   * @param failed - Results of operations that already failed or were done (null for the others)
+   */
+  private async relocateBatch(
+    kind: 'move' | 'copy',
+    operations: BatchMoveOperation[],
+    options: BatchOptions,
+    failed: (OperationResult<FileSystemItem> | null)[] = []
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    try {
+      await this.ensureAuthenticated();
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+
+    const results = new Array<OperationResult<FileSystemItem>>(operations.length);
+    const onDone = this.createBatchTracker(operations.length, options);
+    const pending: Array<BatchMoveOperation & { index: number }> = [];
+    operations.forEach((operation, index) => {
+      if (failed[index]) {
+        results[index] = failed[index]!;
+        onDone(operation.sourcePath, results[index]);
+      } else {
+        pending.push({ ...operation, index });
+      }
+    });
+
+    const dbx = this.dbx!;
+    await this.runBatchJobs(pending, options, async (chunk) => {
+      const arg = {
+        entries: chunk.map((operation) => ({
+          from_path: this.toDropboxPath(operation.sourcePath),
+          to_path: this.toDropboxPath(operation.destinationPath),
+        })),
+        autorename: false,
+      };
+      const response = kind === 'move' ? await dbx.filesMoveBatchV2(arg) : await dbx.filesCopyBatchV2(arg);
+      return response.result as DropboxBatchStatus;
+    }, async (asyncJobId) => {
+      const response = kind === 'move'
+        ? await dbx.filesMoveBatchCheckV2({ async_job_id: asyncJobId })
+        : await dbx.filesCopyBatchCheckV2({ async_job_id: asyncJobId });
+      return response.result as DropboxBatchStatus;
+    }, (operation, entry, error) => {
+      const { sourcePath, destinationPath, index } = operation;
+      if (error !== undefined) {
+        results[index] = this.batchErrorResult(error, sourcePath, options);
+      } else if (entry!['.tag'] === 'success' && entry!.success) {
+        results[index] = this.successResult(this.metadataToItem(entry!.success, this.normalizePath(destinationPath)));
+      } else if (entry!['.tag'] === 'failure' && describeTaggedError(entry!.failure).includes('conflict')) {
+        results[index] = this.errorResult(new FileExistsError(destinationPath).message);
+      } else {
+        results[index] = this.errorResult(this.describeFailure(entry!.failure, sourcePath, kind));
+      }
+      onDone(sourcePath, results[index]);
+    });
+
+    return this.toBatchResult(results);
+  }
+
+  /**
+   * Run batch jobs over the arguments in chunks of BATCH_SIZE, polling each job until it
+   * completes. `onEntry` gets each argument with its result entry, or the error that
+   * stopped its chunk; once aborted, the remaining chunks aren't started.
+   */
+  private async runBatchJobs<A>(
+    args: A[],
+    options: BatchOptions,
+    launch: (chunk: A[]) => Promise<DropboxBatchStatus>,
+    check: (asyncJobId: string) => Promise<DropboxBatchStatus>,
+    onEntry: (arg: A, entry: DropboxBatchEntry | undefined, error?: unknown) => void
+  ): Promise<void> {
+    for (let i = 0; i < args.length; i += BATCH_SIZE) {
+      const chunk = args.slice(i, i + BATCH_SIZE);
+      try {
+        this.throwIfAborted(options.signal);
+        let status = await launch(chunk);
+        const asyncJobId = status.async_job_id;
+        while (asyncJobId && (status['.tag'] === 'async_job_id' || status['.tag'] === 'in_progress')) {
+          await delay(BATCH_POLL_INTERVAL_MS);
+          // The job keeps running on Dropbox; its outcome is unknown once aborted
+          this.throwIfAborted(options.signal);
+          status = await check(asyncJobId);
+        }
+        if (status['.tag'] !== 'complete' || !status.entries) {
+          throw new Error(`Batch job failed: ${describeTaggedError(status.failed ?? status as DropboxTaggedError)}`);
+        }
+        chunk.forEach((arg, j) => onEntry(arg, status.entries![j]));
+      } catch (error) {
+        chunk.forEach((arg) => onEntry(arg, undefined, error ?? new Error('Unknown error')));
+      }
+    }
+  }
+
+  private describeFailure(failure: DropboxTaggedError | undefined, path: string, operation: string): string {
+    const summary = describeTaggedError(failure);
+    if (summary.includes('not_found')) {
+      return `Item not found: ${path}`;
+    }
+    return `Failed to ${operation} item: ${summary}`;
+  }
+
+  private batchErrorResult<T>(error: unknown, path: string, options: BatchOptions): OperationResult<T> {
+    if (this.isAbortError(error, options.signal)) {
+      return this.abortedResult(path);
+    }
+    if (error instanceof HazoFilesError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult((error as Error).message || String(error));
+  }
+
   async listDirectory(
     virtualPath: string,
     options: ListOptions = {}
   ): Promise<OperationResult<FileSystemItem[]>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
       const dbxPath = this.toDropboxPath(virtualPath);
@@ -544,6 +1135,8 @@ export class DropboxModule extends BaseStorageModule {
       // Process entries
       const processEntries = async (entryList: typeof entries) => {
         for (const entry of entryList) {
+          this.throwIfAborted(options.signal, virtualPath);
+
           // Skip hidden files unless explicitly included
           if (!options.includeHidden && entry.name.startsWith('.')) {
             continue;
@@ -573,6 +1166,7 @@ export class DropboxModule extends BaseStorageModule {
 
       // Continue paginating
       while (hasMore && cursor) {
+        this.throwIfAborted(options.signal, virtualPath);
         const continueResponse = await this.dbx!.filesListFolderContinue({ cursor });
         entries = continueResponse.result.entries;
         hasMore = continueResponse.result.has_more;
@@ -580,8 +1174,13 @@ export class DropboxModule extends BaseStorageModule {
         await processEntries(entries);
       }
 
+      this.throwIfAborted(options.signal, virtualPath);
+
       return this.successResult(items);
     } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       const errMsg = (error as Error).message || String(error);
       if (errMsg.includes('path/not_found') || errMsg.includes('not_found')) {
         return this.errorResult(`Directory not found: ${virtualPath}`);
@@ -620,6 +1219,494 @@ export class DropboxModule extends BaseStorageModule {
     }
   }
 
+  // ============ Versions ============
+
+  /**
+   * List the earlier revisions of a file (Dropbox keeps up to 100, for 30 days or
+   * longer depending on the plan)
+   */
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    try {
+      await this.ensureAuthenticated();
+      return this.successResult(await this.getRevisions(virtualPath));
+    } catch (error: unknown) {
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`File not found: ${virtualPath}`);
+      }
+      return this.errorResult(`Failed to list versions: ${errMsg}`);
+    }
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    try {
+      await this.ensureAuthenticated();
+
+      // A revision is downloaded by rev alone, so check that it belongs to this file
+      const versions = await this.getRevisions(virtualPath);
+      if (!versions.some((version) => version.id === versionId)) {
+        throw new VersionNotFoundError(virtualPath, versionId);
+      }
+
+      const response = await this.dbx!.filesDownload({ path: `rev:${versionId}` });
+      const result = response.result as unknown as { fileBinary: Buffer };
+      return this.successResult(Buffer.from(result.fileBinary));
+    } catch (error: unknown) {
+      if (error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`File not found: ${virtualPath}`);
+      }
+      return this.errorResult(`Failed to download version: ${errMsg}`);
+    }
+  }
+
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const versions = await this.getRevisions(virtualPath);
+      if (!versions.some((version) => version.id === versionId)) {
+        throw new VersionNotFoundError(virtualPath, versionId);
+      }
+
+      const response = await this.dbx!.filesRestore({ path: this.toDropboxPath(virtualPath), rev: versionId });
+      const metadata: DropboxFileMetadata = { ...response.result, '.tag': 'file' };
+      const item = this.metadataToItem(metadata, this.normalizePath(virtualPath));
+      return this.successResult(item as FileItem);
+    } catch (error: unknown) {
+      if (error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`File not found: ${virtualPath}`);
+      }
+      return this.errorResult(`Failed to restore version: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Earlier revisions of a file, newest first (without the current one)
+   */
+  private async getRevisions(virtualPath: string): Promise<FileVersion[]> {
+    const response = await this.dbx!.filesListRevisions({
+      path: this.toDropboxPath(virtualPath),
+      mode: { '.tag': 'path' },
+      limit: 100,
+    });
+    if (response.result.is_deleted) {
+      throw new FileNotFoundError(virtualPath);
+    }
+
+    // Revisions are listed newest first, the first one is the current content
+    const normalized = this.normalizePath(virtualPath);
+    return response.result.entries.slice(1).map((entry) => ({
+      id: entry.rev,
+      path: normalized,
+      size: entry.size,
+      modifiedAt: new Date(entry.server_modified),
+      hash: entry.content_hash,
+      modifiedBy: entry.sharing_info?.modified_by,
+    }));
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Delete a file or folder, keeping it restorable in Dropbox's deleted files.
+   * The path it was deleted from is its trash ID.
+   */
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const normalized = this.normalizePath(virtualPath);
+      if (normalized === '/') {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const response = await this.dbx!.filesDeleteV2({ path: this.toDropboxPath(normalized) });
+      const metadata = response.result.metadata as DropboxMetadata;
+      return this.successResult({
+        id: normalized,
+        name: metadata.name,
+        originalPath: normalized,
+        isDirectory: metadata['.tag'] === 'folder',
+        size: metadata['.tag'] === 'file' ? metadata.size : undefined,
+        deletedAt: new Date(),
+      });
+    } catch (error: unknown) {
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`File not found: ${virtualPath}`);
+      }
+      return this.errorResult(`Failed to move to trash: ${errMsg}`);
+    }
+  }
+
+  /**
+   * List the deleted files and folders under the root path. Files of a deleted folder
+   * are not listed, they are restored with it.
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const deleted = await this.listDeletedPaths();
+      const items: TrashItem[] = [];
+      for (const path of deleted) {
+        const lower = path.toLowerCase();
+        if (deleted.some((other) => lower.startsWith(`${other.toLowerCase()}/`))) continue;
+
+        const file = await this.getDeletedFile(path);
+        if (file) {
+          items.push({ id: path, name: this.getBaseName(path), originalPath: path, isDirectory: false, ...file });
+          continue;
+        }
+
+        // Dropbox keeps no deletion time for folders, use the one of a file in it
+        let deletedAt = new Date(0);
+        for (const child of deleted.filter((other) => other.toLowerCase().startsWith(`${lower}/`))) {
+          const childFile = await this.getDeletedFile(child);
+          if (childFile) {
+            deletedAt = childFile.deletedAt;
+            break;
+          }
+        }
+        items.push({ id: path, name: this.getBaseName(path), originalPath: path, isDirectory: true, deletedAt });
+      }
+
+      return this.successResult(items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+    } catch (error: unknown) {
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to list trash: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Restore a deleted file from its last revision, or a deleted folder file by file
+   */
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const lower = this.normalizePath(trashId).toLowerCase();
+      const deleted = await this.listDeletedPaths();
+      const originalPath = deleted.find((path) => path.toLowerCase() === lower);
+      if (!originalPath) {
+        throw new TrashItemNotFoundError(trashId);
+      }
+      const destination = await this.resolveRestorePath(options.path ?? originalPath, options);
+
+      const file = await this.getDeletedFile(originalPath);
+      if (file) {
+        const response = await this.dbx!.filesRestore({ path: this.toDropboxPath(destination), rev: file.rev });
+        const metadata: DropboxFileMetadata = { ...response.result, '.tag': 'file' };
+        return this.successResult(this.metadataToItem(metadata, destination));
+      }
+
+      await this.dbx!.filesCreateFolderV2({ path: this.toDropboxPath(destination) });
+      for (const path of deleted.filter((other) => other.toLowerCase().startsWith(`${lower}/`))) {
+        const target = this.joinPath(destination, path.slice(originalPath.length));
+        const child = await this.getDeletedFile(path);
+        if (child) {
+          await this.dbx!.filesRestore({ path: this.toDropboxPath(target), rev: child.rev });
+        } else {
+          await this.dbx!.filesCreateFolderV2({ path: this.toDropboxPath(target) }).catch(() => {});
+        }
+      }
+
+      const response = await this.dbx!.filesGetMetadata({ path: this.toDropboxPath(destination) });
+      return this.successResult(this.metadataToItem(response.result as DropboxMetadata, destination));
+    } catch (error: unknown) {
+      if (error instanceof TrashItemNotFoundError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to restore from trash: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Permanently delete items (requires a Dropbox Business account): by default those
+   * older than `trash.retentionDays`
+   */
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<OperationResult<TrashItem[]>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const listing = await this.listTrash();
+      if (!listing.success) {
+        return this.errorResult(listing.error!);
+      }
+      const purged: TrashItem[] = [];
+      for (const item of this.trashToPurge(listing.data!, options, this.trashRetentionDays)) {
+        await this.dbx!.filesPermanentlyDelete({ path: this.toDropboxPath(item.originalPath) });
+        purged.push(item);
+      }
+      return this.successResult(purged);
+    } catch (error: unknown) {
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to purge trash: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Virtual paths of the deleted entries under the root path
+   */
+  private async listDeletedPaths(): Promise<string[]> {
+    const paths: string[] = [];
+    let response = await this.dbx!.filesListFolder({
+      path: this.toDropboxPath('/'),
+      recursive: true,
+      include_deleted: true,
+      limit: 2000,
+    });
+    for (;;) {
+      for (const entry of response.result.entries) {
+        if (entry['.tag'] === 'deleted') {
+          paths.push(this.toVirtualPath(entry.path_display || entry.name));
+        }
+      }
+      if (!response.result.has_more) break;
+      response = await this.dbx!.filesListFolderContinue({ cursor: response.result.cursor });
+    }
+    return paths;
+  }
+
+  /**
+   * Last revision of a deleted file; null for folders and files that exist again
+   */
+  private async getDeletedFile(
+    virtualPath: string
+  ): Promise<{ rev: string; size: number; deletedAt: Date } | null> {
+    try {
+      const response = await this.dbx!.filesListRevisions({
+        path: this.toDropboxPath(virtualPath),
+        mode: { '.tag': 'path' },
+        limit: 1,
+      });
+      const latest = response.result.entries[0];
+      if (!response.result.is_deleted || !latest) {
+        return null;
+      }
+      return {
+        rev: latest.rev,
+        size: latest.size,
+        deletedAt: response.result.server_deleted ? new Date(response.result.server_deleted) : new Date(),
+      };
+    } catch (error: unknown) {
+      const summary = (error as { error?: { error_summary?: string } }).error?.error_summary ?? '';
+      if (summary.includes('not_file') || String(error).includes('not_file')) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get changes under the root path since a cursor, using list_folder/continue.
+   * Without a cursor, returns the latest list_folder cursor.
+   * Dropbox reports a move as a deletion plus the entry at its new path; moves are
+   * recognized for IDs this module has seen before, and entries it has not seen are
+   * reported as created.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    try {
+      this.throwIfAborted(options.signal);
+      await this.ensureAuthenticated();
+
+      if (!cursor) {
+        const response = await this.dbx!.filesListFolderGetLatestCursor({
+          path: this.toDropboxPath('/'),
+          recursive: true,
+          include_deleted: true,
+        });
+        return this.successResult({ changes: [], cursor: response.result.cursor, hasMore: false });
+      }
+
+      const response = await this.dbx!.filesListFolderContinue({ cursor }).catch((error: unknown) => {
+        const summary = (error as { error?: { error_summary?: string } }).error?.error_summary ?? '';
+        if (summary.startsWith('reset')) {
+          throw new InvalidCursorError(cursor, 'Dropbox reset the cursor; start over without a cursor');
+        }
+        throw error;
+      });
+
+      this.throwIfAborted(options.signal);
+      const entries = response.result.entries as Array<DropboxMetadata | DropboxDeletedMetadata>;
+      return this.successResult({
+        changes: this.entriesToChanges(entries),
+        cursor: response.result.cursor,
+        hasMore: response.result.has_more,
+      });
+    } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult();
+      }
+      if (error instanceof AuthenticationError || error instanceof InvalidCursorError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      return this.errorResult(`Failed to get changes: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Turn list_folder entries into changes. Deletions of paths that an entry in the
+   * same page was moved from are dropped in favour of the move.
+   */
+  private entriesToChanges(entries: Array<DropboxMetadata | DropboxDeletedMetadata>): FileChange[] {
+    const previousPaths = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry['.tag'] !== 'deleted' && this.pathsById.has(entry.id)) {
+        previousPaths.set(entry.id, this.pathsById.get(entry.id)!);
+      }
+    }
+
+    const movedFrom: string[] = [];
+    for (const entry of entries) {
+      if (entry['.tag'] === 'deleted') continue;
+      const previous = previousPaths.get(entry.id);
+      if (previous && previous !== this.toVirtualPath(entry.path_display || entry.name)) {
+        movedFrom.push(previous.toLowerCase());
+      }
+    }
+
+    const changes: FileChange[] = [];
+    for (const entry of entries) {
+      const path = this.toVirtualPath(entry.path_display || entry.name);
+
+      if (entry['.tag'] === 'deleted') {
+        const lower = path.toLowerCase();
+        if (movedFrom.some((from) => lower === from || lower.startsWith(`${from}/`))) continue;
+        for (const [id, knownPath] of Array.from(this.pathsById)) {
+          const knownLower = knownPath.toLowerCase();
+          if (knownLower === lower || knownLower.startsWith(`${lower}/`)) this.pathsById.delete(id);
+        }
+        changes.push({ type: 'deleted', path });
+        continue;
+      }
+
+      const previous = previousPaths.get(entry.id);
+      const item = this.metadataToItem(entry, path);
+      if (previous && previous !== path) {
+        changes.push({ type: 'moved', path, previousPath: previous, item, id: entry.id });
+      } else {
+        changes.push({ type: previous ? 'modified' : 'created', path, item, id: entry.id });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Search with search_v2 when a name is given, and otherwise read the tree with a
+   * recursive list_folder. Dropbox matches names loosely, so every entry is checked
+   * against all filters. The cursor holds the Dropbox cursor of the page being read
+   * and how many of its entries were already read.
+   */
+  async search(options: SearchOptions = {}): Promise<OperationResult<SearchPage>> {
+    const root = this.normalizePath(options.root ?? '/');
+    try {
+      this.throwIfAborted(options.signal, root);
+      await this.ensureAuthenticated();
+
+      const limit = Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT);
+      const cursor = options.cursor
+        ? decodeSearchCursor<{ cursor?: string; offset?: number }>(options.cursor)
+        : {};
+      let dbxCursor = cursor.cursor;
+      let offset = cursor.offset ?? 0;
+      const matches = createSearchFilter(options);
+      const items: FileSystemItem[] = [];
+
+      for (;;) {
+        this.throwIfAborted(options.signal, root);
+        const page = await this.fetchSearchPage(root, options.nameContains, dbxCursor).catch((error: unknown) => {
+          const summary = (error as { error?: { error_summary?: string } }).error?.error_summary ?? '';
+          if (dbxCursor && (summary.startsWith('reset') || summary.includes('invalid'))) {
+            throw new InvalidCursorError(options.cursor!, 'Dropbox rejected the cursor; start over without a cursor', 'search');
+          }
+          throw error;
+        });
+
+        for (let i = offset; i < page.entries.length; i++) {
+          const item = this.metadataToItem(page.entries[i]);
+          if (!matches(item)) continue;
+          if (items.length === limit) {
+            return this.successResult({ items, cursor: encodeSearchCursor({ cursor: dbxCursor, offset: i }), hasMore: true });
+          }
+          items.push(item);
+        }
+
+        if (!page.hasMore || !page.cursor) {
+          return this.successResult({ items, hasMore: false });
+        }
+        dbxCursor = page.cursor;
+        offset = 0;
+      }
+    } catch (error: unknown) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(root);
+      }
+      if (error instanceof AuthenticationError || error instanceof InvalidCursorError) {
+        return this.errorResult(error.message);
+      }
+      const errMsg = (error as Error).message || String(error);
+      if (errMsg.includes('not_found')) {
+        return this.errorResult(`Directory not found: ${root}`);
+      }
+      return this.errorResult(`Failed to search: ${errMsg}`);
+    }
+  }
+
+  /**
+   * Read one page of search_v2 matches or recursive list_folder entries (files and
+   * folders only), starting or continuing from a Dropbox cursor
+   */
+  private async fetchSearchPage(
+    root: string,
+    query: string | undefined,
+    cursor: string | undefined
+  ): Promise<{ entries: DropboxMetadata[]; cursor?: string; hasMore: boolean }> {
+    const isEntry = (entry: { '.tag': string } | undefined): entry is DropboxMetadata =>
+      entry?.['.tag'] === 'file' || entry?.['.tag'] === 'folder';
+
+    if (query) {
+      const dbxPath = this.toDropboxPath(root);
+      const response = cursor
+        ? await this.dbx!.filesSearchContinueV2({ cursor })
+        : await this.dbx!.filesSearchV2({
+            query,
+            options: {
+              ...(dbxPath ? { path: dbxPath } : {}),
+              max_results: SEARCH_PAGE_SIZE,
+              file_status: { '.tag': 'active' },
+              filename_only: true,
+            },
+          });
+      const entries = response.result.matches.map((match) =>
+        match.metadata['.tag'] === 'metadata' ? match.metadata.metadata as { '.tag': string } : undefined
+      );
+      return { entries: entries.filter(isEntry), cursor: response.result.cursor, hasMore: response.result.has_more };
+    }
+
+    const response = cursor
+      ? await this.dbx!.filesListFolderContinue({ cursor })
+      : await this.dbx!.filesListFolder({ path: this.toDropboxPath(root), recursive: true, limit: SEARCH_PAGE_SIZE });
+    const entries = response.result.entries as Array<{ '.tag': string }>;
+    return { entries: entries.filter(isEntry), cursor: response.result.cursor, hasMore: response.result.has_more };
+  }
+
   async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
     try {
       await this.ensureAuthenticated();
@@ -0,0 +1,283 @@
+/**
+ * Encrypted File Format
+ *
+ *   [header: 1 KiB][chunk 0][chunk 1]...[chunk n]
+ *
+ * header  = "HZEF" | version (1 byte) | JSON length (uint16 BE) | JSON | zero padding
+ * chunk i = AES-256-GCM with the file's data key, IV = nonce prefix (8 bytes) | i (uint32 BE),
+ *           AAD = final flag (1 byte); ciphertext followed by the 16-byte tag.
+ *           Every chunk but the last holds 64 KiB of plaintext.
+ *
+ * Fixed header and chunk sizes let the plaintext size and the chunks holding any
+ * byte range be computed from the ciphertext size alone, so listings need no extra
+ * requests and ranged downloads only fetch the chunks they need. The chunk index in
+ * the IV and the final flag in the AAD detect reordered or truncated chunks. The header
+ * is not part of the AAD, so a key rotation can re-wrap the data key without touching
+ * the chunks (a swapped wrapped key yields the wrong data key and fails authentication).
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes } from 'crypto';
+import { Transform, type TransformCallback } from 'stream';
+
+export const HEADER_SIZE = 1024;
+export const CHUNK_SIZE = 64 * 1024;
+export const TAG_SIZE = 16;
+
+const MAGIC = Buffer.from('HZEF');
+const VERSION = 1;
+const NONCE_PREFIX_SIZE = 8;
+const ENCRYPTED_CHUNK_SIZE = CHUNK_SIZE + TAG_SIZE;
+
+/** Per-file key material stored in the header */
+export interface EncryptionHeader {
+  /** ID of the key that wrapped the data key */
+  keyId: string;
+  wrappedKey: Buffer;
+  noncePrefix: Buffer;
+}
+
+/**
+ * Create the header for a new file
+ */
+export function createHeader(keyId: string, wrappedKey: Buffer): EncryptionHeader {
+  return { keyId, wrappedKey, noncePrefix: randomBytes(NONCE_PREFIX_SIZE) };
+}
+
+export function encodeHeader(header: EncryptionHeader): Buffer {
+  const json = Buffer.from(
+    JSON.stringify({
+      kid: header.keyId,
+      wk: header.wrappedKey.toString('base64'),
+      np: header.noncePrefix.toString('base64'),
+    })
+  );
+
+  const buffer = Buffer.alloc(HEADER_SIZE);
+  if (MAGIC.length + 3 + json.length > HEADER_SIZE) {
+    throw new Error('Wrapped key is too large for the file header');
+  }
+  MAGIC.copy(buffer, 0);
+  buffer.writeUInt8(VERSION, MAGIC.length);
+  buffer.writeUInt16BE(json.length, MAGIC.length + 1);
+  json.copy(buffer, MAGIC.length + 3);
+  return buffer;
+}
+
+/**
+ * Parse a file header
+ * @throws Error if the data is not an encrypted file
+ */
+export function decodeHeader(buffer: Buffer): EncryptionHeader {
+  if (buffer.length < HEADER_SIZE || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error('not an encrypted file');
+  }
+  const version = buffer.readUInt8(MAGIC.length);
+  if (version !== VERSION) {
+    throw new Error(`unsupported format version ${version}`);
+  }
+
+  const length = buffer.readUInt16BE(MAGIC.length + 1);
+  const json = JSON.parse(buffer.subarray(MAGIC.length + 3, MAGIC.length + 3 + length).toString('utf-8'));
+  return {
+    keyId: json.kid,
+    wrappedKey: Buffer.from(json.wk, 'base64'),
+    noncePrefix: Buffer.from(json.np, 'base64'),
+  };
+}
+
+/**
+ * Number of chunks for a plaintext size (an empty file has one empty chunk)
+ */
+export function chunkCount(plainSize: number): number {
+  return Math.max(1, Math.ceil(plainSize / CHUNK_SIZE));
+}
+
+/**
+ * Plaintext size of an encrypted file, or -1 if the size is not a valid encrypted file size
+ */
+export function toPlainSize(cipherSize: number): number {
+  const payload = cipherSize - HEADER_SIZE;
+  if (payload < TAG_SIZE) {
+    return -1;
+  }
+  return payload - Math.ceil(payload / ENCRYPTED_CHUNK_SIZE) * TAG_SIZE;
+}
+
+/**
+ * Offset of a chunk in the encrypted file
+ */
+export function chunkOffset(index: number): number {
+  return HEADER_SIZE + index * ENCRYPTED_CHUNK_SIZE;
+}
+
+function chunkIv(noncePrefix: Buffer, index: number): Buffer {
+  const iv = Buffer.alloc(NONCE_PREFIX_SIZE + 4);
+  noncePrefix.copy(iv, 0);
+  iv.writeUInt32BE(index, NONCE_PREFIX_SIZE);
+  return iv;
+}
+
+function chunkAad(final: boolean): Buffer {
+  return Buffer.from([final ? 1 : 0]);
+}
+
+/**
+ * Stream that turns plaintext into an encrypted file (header included)
+ */
+export function createEncryptStream(dataKey: Buffer, header: EncryptionHeader): Transform {
+  const headerBuffer = encodeHeader(header);
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  const encryptChunk = (plain: Buffer, final: boolean): Buffer => {
+    const cipher = createCipheriv('aes-256-gcm', dataKey, chunkIv(header.noncePrefix, index++));
+    cipher.setAAD(chunkAad(final));
+    return Buffer.concat([cipher.update(plain), cipher.final(), cipher.getAuthTag()]);
+  };
+
+  return new Transform({
+    construct(callback) {
+      this.push(headerBuffer);
+      callback();
+    },
+    transform(data: Buffer, _encoding, callback: TransformCallback) {
+      try {
+        pending = pending.length > 0 ? Buffer.concat([pending, data]) : Buffer.from(data);
+        // Keep the last chunk back until the end, it carries the final flag
+        while (pending.length > CHUNK_SIZE) {
+          this.push(encryptChunk(pending.subarray(0, CHUNK_SIZE), false));
+          pending = pending.subarray(CHUNK_SIZE);
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+    flush(callback: TransformCallback) {
+      try {
+        this.push(encryptChunk(pending, true));
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
+
+export interface DecryptStreamOptions {
+  /** Header of the file, read separately when the stream starts after it */
+  headerBuffer?: Buffer;
+  /** Index of the first chunk in the stream (default: 0, stream includes the header) */
+  firstChunk?: number;
+  /** Index of the last chunk in the stream */
+  lastChunk: number;
+  /** Index of the last chunk of the file */
+  finalChunk: number;
+}
+
+/**
+ * Stream that decrypts a run of chunks. Without a header in the options, the stream
+ * must start with the file header.
+ */
+export function createDecryptStream(
+  unwrap: (header: EncryptionHeader) => Promise<Buffer>,
+  options: DecryptStreamOptions
+): Transform {
+  let headerBuffer = options.headerBuffer ?? null;
+  let header: EncryptionHeader | null = null;
+  let dataKey: Buffer | null = null;
+  let pending = Buffer.alloc(0);
+  let index = options.firstChunk ?? 0;
+
+  const decryptChunk = (data: Buffer): Buffer => {
+    const final = index === options.finalChunk;
+    const decipher = createDecipheriv('aes-256-gcm', dataKey!, chunkIv(header!.noncePrefix, index++));
+    decipher.setAAD(chunkAad(final));
+    decipher.setAuthTag(data.subarray(data.length - TAG_SIZE));
+    try {
+      return Buffer.concat([decipher.update(data.subarray(0, data.length - TAG_SIZE)), decipher.final()]);
+    } catch {
+      throw new Error(`chunk ${index - 1} failed authentication (wrong key, or the data was modified)`);
+    }
+  };
+
+  const prepare = async (): Promise<boolean> => {
+    if (!headerBuffer) {
+      if (pending.length < HEADER_SIZE) return false;
+      headerBuffer = pending.subarray(0, HEADER_SIZE);
+      pending = pending.subarray(HEADER_SIZE);
+    }
+    header ??= decodeHeader(headerBuffer);
+    dataKey ??= await unwrap(header);
+    return true;
+  };
+
+  return new Transform({
+    transform(data: Buffer, _encoding, callback: TransformCallback) {
+      pending = pending.length > 0 ? Buffer.concat([pending, data]) : Buffer.from(data);
+      prepare()
+        .then((ready) => {
+          if (ready) {
+            // The final chunk may be short, so it is decrypted at the end
+            while (index < options.finalChunk && index <= options.lastChunk && pending.length >= ENCRYPTED_CHUNK_SIZE) {
+              this.push(decryptChunk(pending.subarray(0, ENCRYPTED_CHUNK_SIZE)));
+              pending = pending.subarray(ENCRYPTED_CHUNK_SIZE);
+            }
+          }
+          callback();
+        })
+        .catch((error) => callback(error));
+    },
+    flush(callback: TransformCallback) {
+      prepare()
+        .then((ready) => {
+          if (ready && index === options.finalChunk && index <= options.lastChunk) {
+            this.push(decryptChunk(pending));
+            pending = Buffer.alloc(0);
+          }
+          if (!ready || index !== options.lastChunk + 1 || pending.length > 0) {
+            throw new Error('encrypted data is truncated or corrupt');
+          }
+          callback();
+        })
+        .catch((error) => callback(error));
+    },
+  });
+}
+
+/**
+ * Deterministic, authenticated file name encryption (synthetic IV: the IV is an
+ * HMAC of the name), so the same name always maps to the same stored name and
+ * paths can be looked up without a directory index.
+ */
+export class NameCipher {
+  private readonly ivKey: Buffer;
+  private readonly encryptionKey: Buffer;
+
+  constructor(key: Buffer) {
+    this.ivKey = Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), 'hazo_files name iv', 32));
+    this.encryptionKey = Buffer.from(hkdfSync('sha256', key, Buffer.alloc(0), 'hazo_files name key', 32));
+  }
+
+  encrypt(name: string): string {
+    const iv = createHmac('sha256', this.ivKey).update(name).digest().subarray(0, 12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const encrypted = Buffer.concat([cipher.update(name, 'utf-8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  }
+
+  /**
+   * Decrypt a stored name, or return null if it was not encrypted with this key
+   */
+  decrypt(storedName: string): string | null {
+    try {
+      const data = Buffer.from(storedName, 'base64url');
+      if (data.length < 12 + TAG_SIZE) return null;
+      const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, data.subarray(0, 12));
+      decipher.setAuthTag(data.subarray(12, 12 + TAG_SIZE));
+      return Buffer.concat([decipher.update(data.subarray(12 + TAG_SIZE)), decipher.final()]).toString('utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
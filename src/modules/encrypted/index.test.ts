@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomBytes } from 'crypto';
+
+import { MemoryStorageModule } from '../memory';
+import { EncryptedStorageModule, createLocalKeyProvider } from './index';
+import { CHUNK_SIZE, HEADER_SIZE, TAG_SIZE, decodeHeader } from './format';
+import type { HazoFilesConfig } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'memory' };
+const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+
+async function createEncrypted(storage: MemoryStorageModule, currentKeyId = 'k1', encryptNames = false) {
+  const module = new EncryptedStorageModule({
+    storage,
+    keyProvider: createLocalKeyProvider({ keys, currentKeyId }),
+    encryptNames,
+    nameKey: encryptNames ? randomBytes(32) : undefined,
+  });
+  await module.initialize(config);
+  return module;
+}
+
+async function readStored(storage: MemoryStorageModule, path: string): Promise<Buffer> {
+  const result = await storage.downloadFile(path);
+  expect(result.success).toBe(true);
+  return result.data as Buffer;
+}
+
+describe('EncryptedStorageModule', () => {
+  let storage: MemoryStorageModule;
+  let encrypted: EncryptedStorageModule;
+  // Two full chunks and a partial one
+  const content = randomBytes(2 * CHUNK_SIZE + 1000);
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    encrypted = await createEncrypted(storage);
+  });
+
+  it('stores a header followed by authenticated chunks', async () => {
+    expect((await encrypted.uploadFile(content, '/a.bin')).success).toBe(true);
+
+    const stored = await readStored(storage, '/a.bin');
+    expect(stored.subarray(0, 4).toString()).toBe('HZEF');
+    expect(stored[4]).toBe(1);
+    expect(stored.length).toBe(HEADER_SIZE + content.length + 3 * TAG_SIZE);
+    expect(decodeHeader(stored).keyId).toBe('k1');
+    expect(stored.includes(content.subarray(0, 64))).toBe(false);
+  });
+
+  it('reports plaintext sizes and round-trips the content', async () => {
+    await encrypted.uploadFile(content, '/a.bin');
+
+    const item = await encrypted.getItem('/a.bin');
+    expect(item.data).toMatchObject({ isDirectory: false, size: content.length });
+    const download = await encrypted.downloadFile('/a.bin');
+    expect(Buffer.compare(download.data as Buffer, content)).toBe(0);
+  });
+
+  it('round-trips an empty file', async () => {
+    await encrypted.uploadFile(Buffer.alloc(0), '/empty.txt');
+
+    expect((await readStored(storage, '/empty.txt')).length).toBe(HEADER_SIZE + TAG_SIZE);
+    expect((await encrypted.downloadFile('/empty.txt')).data).toEqual(Buffer.alloc(0));
+  });
+
+  it('decrypts byte ranges that span chunks', async () => {
+    await encrypted.uploadFile(content, '/a.bin');
+
+    const start = CHUNK_SIZE - 10;
+    const end = 2 * CHUNK_SIZE + 5;
+    const result = await encrypted.downloadStream('/a.bin', { start, end });
+    expect(result.data).toMatchObject({ size: content.length, start, end, contentLength: end - start + 1 });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of result.data!.stream) chunks.push(chunk as Buffer);
+    expect(Buffer.compare(Buffer.concat(chunks), content.subarray(start, end + 1))).toBe(0);
+  });
+
+  it('fails on modified or truncated ciphertext', async () => {
+    await encrypted.uploadFile(content, '/a.bin');
+    const stored = await readStored(storage, '/a.bin');
+
+    const modified = Buffer.from(stored);
+    modified[HEADER_SIZE + 100] ^= 1;
+    await storage.uploadFile(modified, '/a.bin', { overwrite: true });
+    expect((await encrypted.downloadFile('/a.bin')).success).toBe(false);
+
+    // Drop the final chunk: the new last chunk is not marked final
+    const truncated = stored.subarray(0, HEADER_SIZE + 2 * (CHUNK_SIZE + TAG_SIZE));
+    await storage.uploadFile(truncated, '/a.bin', { overwrite: true });
+    expect((await encrypted.downloadFile('/a.bin')).success).toBe(false);
+  });
+
+  it('re-wraps data keys with the current key on rotation', async () => {
+    await encrypted.uploadFile(content, '/docs/a.bin');
+    const before = await readStored(storage, '/docs/a.bin');
+
+    const rotating = await createEncrypted(storage, 'k2');
+    const result = await rotating.rotateKeys('/');
+    expect(result.data).toMatchObject({ rotated: ['/docs/a.bin'], skipped: 0, failed: [] });
+
+    const after = await readStored(storage, '/docs/a.bin');
+    expect(decodeHeader(after).keyId).toBe('k2');
+    // Only the header changes
+    expect(Buffer.compare(after.subarray(HEADER_SIZE), before.subarray(HEADER_SIZE))).toBe(0);
+    expect(Buffer.compare((await rotating.downloadFile('/docs/a.bin')).data as Buffer, content)).toBe(0);
+
+    expect((await rotating.rotateKeys('/')).data).toMatchObject({ rotated: [], skipped: 1 });
+  });
+
+  it('hides file and folder names from the wrapped module', async () => {
+    const named = await createEncrypted(storage, 'k1', true);
+    await named.createDirectory('/reports');
+    await named.uploadFile(Buffer.from('hello'), '/reports/q1.txt');
+
+    const stored = await storage.listDirectory('/', { recursive: true });
+    const storedNames = (stored.data ?? []).map((item) => item.name);
+    expect(storedNames).toHaveLength(2);
+    expect(storedNames).not.toContain('reports');
+    expect(storedNames).not.toContain('q1.txt');
+
+    const listing = await named.listDirectory('/reports');
+    expect(listing.data?.map((item) => item.path)).toEqual(['/reports/q1.txt']);
+    expect((await named.downloadFile('/reports/q1.txt')).data?.toString()).toBe('hello');
+  });
+});
@@ -0,0 +1,790 @@
+/**
+ * Encrypted Storage Module
+ * Decorator that encrypts file content (and optionally names) before it reaches the
+ * wrapped module, so the storage provider only ever sees ciphertext.
+ *
+ * Every file gets its own random AES-256 data key, wrapped by a KeyProvider and
+ * stored in the file header. See ./format for the file layout.
+ */
+
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { BaseStorageModule } from '../../common/base-module';
+import { HazoFilesError, ConfigurationError, EncryptionError, FileNotFoundError } from '../../common/errors';
+import { getMimeType } from '../../common/mime-types';
+import { resolveByteRange, sliceStream, trackStreamProgress } from '../../common/stream-utils';
+import {
+  CHUNK_SIZE,
+  HEADER_SIZE,
+  NameCipher,
+  chunkCount,
+  chunkOffset,
+  createDecryptStream,
+  createEncryptStream,
+  createHeader,
+  decodeHeader,
+  encodeHeader,
+  toPlainSize,
+  type EncryptionHeader,
+} from './format';
+import { parseKey, type KeyProvider } from './key-provider';
+import type {
+  StorageModule,
+  StorageProvider,
+  HazoFilesConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+} from '../../types';
+
+/** Options for EncryptedStorageModule */
+export interface EncryptedStorageOptions {
+  /** Module that stores the encrypted files */
+  storage: StorageModule;
+  /** Wraps the per-file data keys */
+  keyProvider: KeyProvider;
+  /** Also encrypt file and folder names (default: false) */
+  encryptNames?: boolean;
+  /**
+   * 32-byte key (Buffer, base64 or hex) for name encryption, required with encryptNames.
+   * Names are not re-encrypted by rotateKeys(), so keep this key stable.
+   */
+  nameKey?: Buffer | string;
+}
+
+/** Options for rotateKeys() */
+export interface KeyRotationOptions {
+  /** Include files in subfolders (default: true) */
+  recursive?: boolean;
+  /**
+   * Re-encrypt the content with new data keys instead of only re-wrapping the existing
+   * data keys with the current key (default: false). Re-wrapping skips files that already
+   * use the current key.
+   */
+  reencrypt?: boolean;
+  signal?: AbortSignal;
+}
+
+/** Outcome of rotateKeys() */
+export interface KeyRotationResult {
+  /** Paths of the rotated files */
+  rotated: string[];
+  /** Files that already used the current key */
+  skipped: number;
+  failed: { path: string; error: string }[];
+}
+
+/**
+ * Encrypted Storage Module Implementation
+ *
+ * Sizes and MIME types in results describe the plaintext. Upload metadata is passed
+ * to the wrapped module unencrypted. Resumable uploads use the default part-file
+ * implementation, so chunks are staged in plaintext on the server and encrypted on
+ * completion.
+ */
+export class EncryptedStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider;
+
+  private readonly storage: StorageModule;
+  private readonly keyProvider: KeyProvider;
+  private readonly names: NameCipher | null;
+
+  constructor(options: EncryptedStorageOptions) {
+    super();
+    if (!options.storage || !options.keyProvider) {
+      throw new ConfigurationError('Encrypted storage requires a storage module and a key provider');
+    }
+    if (options.encryptNames && !options.nameKey) {
+      throw new ConfigurationError('nameKey is required when encryptNames is enabled');
+    }
+
+    this.storage = options.storage;
+    this.keyProvider = options.keyProvider;
+    this.provider = options.storage.provider;
+    this.names = options.encryptNames ? new NameCipher(parseKey('nameKey', options.nameKey!)) : null;
+  }
+
+  /**
+   * Initialize the wrapped module, unless it already is
+   */
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    if (!(this.storage instanceof BaseStorageModule && this.storage.isInitialized)) {
+      await this.storage.initialize({ ...config, provider: this.storage.provider });
+    }
+    await super.initialize(config);
+  }
+
+  /**
+   * Get the wrapped module (which holds the encrypted files)
+   */
+  getStorage(): StorageModule {
+    return this.storage;
+  }
+
+  // ============================================
+  // Directory operations
+  // ============================================
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.createDirectory(this.toStoredPath(virtualPath));
+    return this.mapItemResult(result);
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.storage.removeDirectory(this.toStoredPath(virtualPath), recursive);
+  }
+
+  // ============================================
+  // File operations
+  // ============================================
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+
+      let plaintext: Readable;
+      let totalBytes = 0;
+      if (typeof source === 'string') {
+        totalBytes = (await fs.promises.stat(source)).size;
+        plaintext = fs.createReadStream(source);
+      } else if (Buffer.isBuffer(source)) {
+        totalBytes = source.length;
+        plaintext = Readable.from([source]);
+      } else {
+        plaintext = Readable.fromWeb(source as import('stream/web').ReadableStream);
+      }
+
+      const keyId = await this.keyProvider.getCurrentKeyId();
+      const dataKey = randomBytes(32);
+      const header = createHeader(keyId, await this.keyProvider.wrapKey(dataKey, keyId));
+
+      const tracked = trackStreamProgress(plaintext, totalBytes, options.onProgress);
+      const encrypted = tracked.pipe(createEncryptStream(dataKey, header));
+      tracked.on('error', (error) => encrypted.destroy(error));
+
+      const result = await this.storage.uploadFile(
+        Readable.toWeb(encrypted) as ReadableStream,
+        this.toStoredPath(remotePath),
+        { overwrite: options.overwrite, metadata: options.metadata, signal: options.signal }
+      );
+
+      if (!result.success) {
+        plaintext.destroy();
+      }
+      return this.mapItemResult(result);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'upload file');
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.downloadStream(remotePath, { signal: options.signal });
+      if (!result.success || !result.data) {
+        return this.errorResult(result.error || `Failed to download file: ${remotePath}`);
+      }
+
+      const { stream, size } = result.data;
+      const tracked = trackStreamProgress(stream, size, options.onProgress);
+
+      if (localPath) {
+        await pipeline(tracked, fs.createWriteStream(localPath), { signal: options.signal });
+        return this.successResult(localPath);
+      }
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of tracked) {
+        chunks.push(chunk as Buffer);
+      }
+      return this.successResult(Buffer.concat(chunks));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'download file');
+    }
+  }
+
+  /**
+   * Open a decrypted stream. A byte range only downloads the chunks that hold it
+   * (plus the header), so seeking in large files stays cheap.
+   */
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const storedPath = this.toStoredPath(remotePath);
+      const ranged = options.start !== undefined || options.end !== undefined;
+
+      // A range needs the plaintext size up front to pick the chunks
+      let range = null;
+      if (ranged) {
+        const item = await this.storage.getItem(storedPath);
+        if (!item.success || !item.data || item.data.isDirectory) {
+          throw new FileNotFoundError(remotePath);
+        }
+        range = resolveByteRange(remotePath, this.plainSizeOf(remotePath, item.data.size), options);
+      }
+
+      const firstChunk = range ? Math.floor(range.start / CHUNK_SIZE) : 0;
+      const headerBuffer = firstChunk > 0 ? await this.readHeader(storedPath, options.signal) : undefined;
+
+      const result = await this.storage.downloadStream(storedPath, {
+        start: firstChunk > 0 ? chunkOffset(firstChunk) : ranged ? 0 : undefined,
+        end: range ? chunkOffset(Math.floor(Math.max(range.end, 0) / CHUNK_SIZE) + 1) - 1 : undefined,
+        signal: options.signal,
+      });
+      if (!result.success || !result.data) {
+        return this.errorResult(result.error || `Failed to download file: ${remotePath}`);
+      }
+
+      let size: number;
+      try {
+        size = this.plainSizeOf(remotePath, result.data.size);
+      } catch (error) {
+        result.data.stream.destroy();
+        throw error;
+      }
+      range ??= resolveByteRange(remotePath, size);
+      const decrypted = result.data.stream.pipe(
+        createDecryptStream((header) => this.unwrapDataKey(header), {
+          headerBuffer,
+          firstChunk,
+          lastChunk: Math.floor(Math.max(range.end, 0) / CHUNK_SIZE),
+          finalChunk: chunkCount(size) - 1,
+        })
+      );
+      result.data.stream.on('error', (error) => decrypted.destroy(error));
+
+      // Trim the decrypted chunks to the requested bytes
+      const offset = firstChunk * CHUNK_SIZE;
+      const stream = ranged
+        ? sliceStream(decrypted, { start: range.start - offset, end: range.end - offset, length: range.length })
+        : decrypted;
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, size, range, options));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      return this.failure(error, 'open download stream');
+    }
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.moveItem(
+      this.toStoredPath(sourcePath),
+      this.toStoredPath(destinationPath),
+      options
+    );
+    return this.mapItemResult(result);
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    // Progress is reported by the stored module; map it to plaintext paths and sizes
+    let storedBytes = 0;
+    let plainBytes = 0;
+    const onProgress = options.onProgress;
+    const result = await this.storage.copyItem(this.toStoredPath(sourcePath), this.toStoredPath(destinationPath), {
+      ...options,
+      onProgress: onProgress && ((progress) => {
+        plainBytes += Math.max(toPlainSize(progress.bytesCopied - storedBytes), 0);
+        storedBytes = progress.bytesCopied;
+        onProgress({
+          path: this.toVirtualPath(progress.path) ?? progress.path,
+          filesCopied: progress.filesCopied,
+          bytesCopied: plainBytes,
+        });
+      }),
+    });
+    return this.mapItemResult(result);
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.storage.deleteFile(this.toStoredPath(virtualPath), options);
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.renameFile(this.toStoredPath(virtualPath), this.toStoredName(newName), options);
+    return this.mapItemResult(result);
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.renameFolder(this.toStoredPath(virtualPath), this.toStoredName(newName), options);
+    return this.mapItemResult(result);
+  }
+
+  // ============================================
+  // Query operations
+  // ============================================
+
+  /**
+   * List a directory. With encrypted names, entries whose names can't be decrypted
+   * (not written through this module) are left out.
+   */
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    // Hidden names can only be recognized once decrypted
+    const result = await this.storage.listDirectory(this.toStoredPath(virtualPath), {
+      recursive: options.recursive,
+      includeHidden: this.names ? true : options.includeHidden,
+      signal: options.signal,
+    });
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const items = result.data
+      .map((item) => this.toVirtualItem(item))
+      .filter((item): item is FileSystemItem => item !== null)
+      .filter((item) => !this.names || options.includeHidden || !item.name.startsWith('.'))
+      .filter((item) => !options.filter || options.filter(item));
+    return this.successResult(items);
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.getItem(this.toStoredPath(virtualPath));
+    return this.mapItemResult(result);
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.storage.exists(this.toStoredPath(virtualPath));
+  }
+
+  /**
+   * Changes of the wrapped module by plaintext path. With encrypted names, changes to
+   * names that can't be decrypted are left out.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.getChanges(cursor, options);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const changes = result.data.changes
+      .map((change) => this.toVirtualChange(change))
+      .filter((change): change is FileChange => change !== null);
+    return this.successResult({ ...result.data, changes });
+  }
+
+  /**
+   * Versions of the wrapped module with plaintext sizes (hashes are those of the
+   * encrypted content)
+   */
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.listVersions(this.toStoredPath(virtualPath));
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const path = this.normalizePath(virtualPath);
+    return this.successResult(result.data.map((version) => ({
+      ...version,
+      path,
+      size: Math.max(toPlainSize(version.size), 0),
+    })));
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.downloadVersion(this.toStoredPath(virtualPath), versionId);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      const size = this.plainSizeOf(virtualPath, result.data.length);
+      const decrypted = Readable.from([result.data]).pipe(
+        createDecryptStream((header) => this.unwrapDataKey(header), {
+          lastChunk: chunkCount(size) - 1,
+          finalChunk: chunkCount(size) - 1,
+        })
+      );
+
+      const chunks: Buffer[] = [];
+      for await (const chunk of decrypted) {
+        chunks.push(chunk as Buffer);
+      }
+      return this.successResult(Buffer.concat(chunks));
+    } catch (error) {
+      return this.failure(error, 'download version');
+    }
+  }
+
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.mapItemResult(await this.storage.restoreVersion(this.toStoredPath(virtualPath), versionId));
+  }
+
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.trashItem(this.toStoredPath(virtualPath));
+    if (!result.success || !result.data) {
+      return result;
+    }
+    return this.successResult(this.toVirtualTrashItem(result.data) ?? result.data);
+  }
+
+  /**
+   * Trash of the wrapped module by plaintext name, path and size (items whose names
+   * can't be decrypted are left out)
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.listTrash();
+    if (!result.success || !result.data) {
+      return result;
+    }
+    return this.successResult(
+      result.data.map((item) => this.toVirtualTrashItem(item)).filter((item): item is TrashItem => item !== null)
+    );
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const storedOptions = options.path ? { ...options, path: this.toStoredPath(options.path) } : options;
+    return this.mapItemResult(await this.storage.restoreFromTrash(trashId, storedOptions));
+  }
+
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    const result = await this.storage.purgeTrash(options);
+    if (!result.success || !result.data) {
+      return result;
+    }
+    return this.successResult(result.data.map((item) => this.toVirtualTrashItem(item) ?? item));
+  }
+
+  // ============================================
+  // Key rotation
+  // ============================================
+
+  /**
+   * Move files onto the current key of the key provider.
+   * By default only the data keys are re-wrapped (the encrypted content is copied as
+   * is); with `reencrypt` every file gets a new data key. Files are rewritten to a
+   * temporary sibling and moved over the original, so an interrupted rotation never
+   * leaves a half-written file.
+   * @param path - File or folder to rotate (default: everything)
+   */
+  async rotateKeys(path = '/', options: KeyRotationOptions = {}): Promise<OperationResult<KeyRotationResult>> {
+    this.ensureInitialized();
+
+    try {
+      const item = await this.getItem(path);
+      if (!item.success || !item.data) {
+        return this.errorResult(item.error || `Failed to rotate keys: ${path}`);
+      }
+
+      let files: FileSystemItem[] = [item.data];
+      if (item.data.isDirectory) {
+        const listing = await this.listDirectory(path, {
+          recursive: options.recursive ?? true,
+          includeHidden: true,
+          signal: options.signal,
+        });
+        if (!listing.success || !listing.data) {
+          return this.errorResult(listing.error || `Failed to rotate keys: ${path}`);
+        }
+        files = listing.data.filter((entry) => !entry.isDirectory);
+      }
+
+      const currentKeyId = await this.keyProvider.getCurrentKeyId();
+      const summary: KeyRotationResult = { rotated: [], skipped: 0, failed: [] };
+
+      for (const file of files) {
+        this.throwIfAborted(options.signal, path);
+        try {
+          if (await this.rotateFile(file.path, currentKeyId, options)) {
+            summary.rotated.push(file.path);
+          } else {
+            summary.skipped++;
+          }
+        } catch (error) {
+          if (this.isAbortError(error, options.signal)) throw error;
+          summary.failed.push({ path: file.path, error: (error as Error).message });
+        }
+      }
+
+      return this.successResult(summary);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(path);
+      }
+      return this.failure(error, 'rotate keys');
+    }
+  }
+
+  /**
+   * Rewrite one file onto the current key
+   * @returns false if the file already used the current key
+   */
+  private async rotateFile(virtualPath: string, currentKeyId: string, options: KeyRotationOptions): Promise<boolean> {
+    const storedPath = this.toStoredPath(virtualPath);
+    const header = decodeHeader(await this.readHeader(storedPath, options.signal));
+    if (!options.reencrypt && header.keyId === currentKeyId) {
+      return false;
+    }
+
+    let content: Readable;
+    if (options.reencrypt) {
+      const download = await this.downloadStream(virtualPath, { signal: options.signal });
+      if (!download.success || !download.data) {
+        throw new Error(download.error || 'Failed to read file');
+      }
+      const dataKey = randomBytes(32);
+      const newHeader = createHeader(currentKeyId, await this.keyProvider.wrapKey(dataKey, currentKeyId));
+      content = download.data.stream.pipe(createEncryptStream(dataKey, newHeader));
+      download.data.stream.on('error', (error) => content.destroy(error));
+    } else {
+      // Same data key and chunks, new wrapping
+      const dataKey = await this.unwrapDataKey(header);
+      const newHeader: EncryptionHeader = {
+        ...header,
+        keyId: currentKeyId,
+        wrappedKey: await this.keyProvider.wrapKey(dataKey, currentKeyId),
+      };
+      const download = await this.storage.downloadStream(storedPath, { start: HEADER_SIZE, signal: options.signal });
+      if (!download.success || !download.data) {
+        throw new Error(download.error || 'Failed to read file');
+      }
+      const chunks = download.data.stream;
+      content = Readable.from(
+        (async function* () {
+          yield encodeHeader(newHeader);
+          yield* chunks;
+        })()
+      );
+    }
+
+    const tempPath = this.joinPath(this.getParentPath(storedPath), `.${this.getBaseName(storedPath)}.rotating`);
+    const upload = await this.storage.uploadFile(Readable.toWeb(content) as ReadableStream, tempPath, {
+      overwrite: true,
+      signal: options.signal,
+    });
+    if (!upload.success) {
+      content.destroy();
+      throw new Error(upload.error || 'Failed to write file');
+    }
+
+    const move = await this.storage.moveItem(tempPath, storedPath, { overwrite: true });
+    if (!move.success) {
+      await this.storage.deleteFile(tempPath);
+      throw new Error(move.error || 'Failed to replace file');
+    }
+    return true;
+  }
+
+  // ============================================
+  // Helper methods
+  // ============================================
+
+  private async readHeader(storedPath: string, signal?: AbortSignal): Promise<Buffer> {
+    const result = await this.storage.downloadStream(storedPath, { start: 0, end: HEADER_SIZE - 1, signal });
+    if (!result.success || !result.data) {
+      throw new Error(result.error || `Failed to read file header: ${storedPath}`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of result.data.stream) {
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private async unwrapDataKey(header: EncryptionHeader): Promise<Buffer> {
+    return this.keyProvider.unwrapKey(header.wrappedKey, header.keyId);
+  }
+
+  private plainSizeOf(virtualPath: string, storedSize: number): number {
+    const size = toPlainSize(storedSize);
+    if (size < 0) {
+      throw new EncryptionError(virtualPath, 'not an encrypted file');
+    }
+    return size;
+  }
+
+  private toStoredName(name: string): string {
+    return this.names ? this.names.encrypt(name) : name;
+  }
+
+  private toStoredPath(virtualPath: string): string {
+    const normalized = this.normalizePath(virtualPath);
+    if (!this.names || normalized === '/') {
+      return normalized;
+    }
+    return '/' + normalized.slice(1).split('/').map((segment) => this.names!.encrypt(segment)).join('/');
+  }
+
+  /**
+   * Map a stored path back to its virtual path (null if a name can't be decrypted)
+   */
+  private toVirtualPath(storedPath: string): string | null {
+    const normalized = this.normalizePath(storedPath);
+    if (!this.names || normalized === '/') {
+      return normalized;
+    }
+
+    const segments = normalized.slice(1).split('/').map((segment) => this.names!.decrypt(segment));
+    return segments.includes(null) ? null : '/' + segments.join('/');
+  }
+
+  /**
+   * Describe a stored item by its plaintext name, path, size and MIME type
+   */
+  private toVirtualItem<T extends FileSystemItem>(item: T): T | null {
+    const path = this.toVirtualPath(item.path);
+    if (path === null) {
+      return null;
+    }
+
+    const name = this.getBaseName(path);
+    if (item.isDirectory) {
+      const children = item.children
+        ?.map((child) => this.toVirtualItem(child))
+        .filter((child): child is FileSystemItem => child !== null);
+      return { ...item, name, path, ...(children ? { children } : {}) };
+    }
+    return { ...item, name, path, size: Math.max(toPlainSize(item.size), 0), mimeType: getMimeType(name) };
+  }
+
+  private toVirtualChange(change: FileChange): FileChange | null {
+    const path = this.toVirtualPath(change.path);
+    if (path === null) {
+      return null;
+    }
+
+    const item = change.item ? this.toVirtualItem(change.item) ?? undefined : undefined;
+    if (change.previousPath === undefined) {
+      return { ...change, path, item };
+    }
+
+    const previousPath = this.toVirtualPath(change.previousPath);
+    // Moved from a name that can't be decrypted: new as far as this module can tell
+    return previousPath === null
+      ? { type: 'created', path, item, id: change.id }
+      : { ...change, path, previousPath, item };
+  }
+
+  private toVirtualTrashItem(item: TrashItem): TrashItem | null {
+    const originalPath = this.toVirtualPath(item.originalPath);
+    if (originalPath === null) {
+      return null;
+    }
+    const size = item.size === undefined ? undefined : Math.max(toPlainSize(item.size), 0);
+    return { ...item, name: this.getBaseName(originalPath), originalPath, size };
+  }
+
+  private mapItemResult<T extends FileSystemItem>(result: OperationResult<T>): OperationResult<T> {
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    const item = this.toVirtualItem(result.data);
+    return item ? this.successResult(item) : this.errorResult('Stored name could not be decrypted');
+  }
+
+  private failure<T>(error: unknown, operation: string): OperationResult<T> {
+    if (error instanceof HazoFilesError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult(`Failed to ${operation}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Factory function to create an EncryptedStorageModule instance
+ */
+export function createEncryptedModule(options: EncryptedStorageOptions): EncryptedStorageModule {
+  return new EncryptedStorageModule(options);
+}
+
+export { LocalKeyProvider, createLocalKeyProvider } from './key-provider';
+export type { KeyProvider, LocalKeyProviderOptions } from './key-provider';
+
+export default EncryptedStorageModule;
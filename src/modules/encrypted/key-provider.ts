@@ -0,0 +1,109 @@
+/**
+ * Key Providers for EncryptedStorageModule
+ * Wrap and unwrap the per-file data keys with a key encryption key (KEK)
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { ConfigurationError } from '../../common/errors';
+
+/**
+ * Wraps per-file data keys. Implement it to keep the key encryption keys in a KMS
+ * (AWS KMS, Google Cloud KMS, Vault, ...) - the data keys never leave the process unwrapped.
+ */
+export interface KeyProvider {
+  /** ID of the key that wraps new data keys */
+  getCurrentKeyId(): Promise<string>;
+  /** Encrypt a data key with the given key */
+  wrapKey(dataKey: Buffer, keyId: string): Promise<Buffer>;
+  /** Decrypt a data key that was wrapped with the given key */
+  unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer>;
+}
+
+export interface LocalKeyProviderOptions {
+  /** 32-byte keys by ID, as Buffers or base64/hex strings. Keep retired keys to read older files. */
+  keys: Record<string, Buffer | string>;
+  /** ID of the key used for new files (default: the last key in `keys`) */
+  currentKeyId?: string;
+}
+
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Key provider holding the key encryption keys in memory (e.g. loaded from environment variables).
+ * Data keys are wrapped with AES-256-GCM; rotate by adding a key and making it current.
+ */
+export class LocalKeyProvider implements KeyProvider {
+  private keys = new Map<string, Buffer>();
+  private currentKeyId: string;
+
+  constructor(options: LocalKeyProviderOptions) {
+    for (const [keyId, key] of Object.entries(options.keys)) {
+      this.keys.set(keyId, parseKey(keyId, key));
+    }
+
+    const keyIds = Array.from(this.keys.keys());
+    if (keyIds.length === 0) {
+      throw new ConfigurationError('Key provider requires at least one key');
+    }
+
+    this.currentKeyId = options.currentKeyId ?? keyIds[keyIds.length - 1];
+    if (!this.keys.has(this.currentKeyId)) {
+      throw new ConfigurationError(`Unknown current key ID: ${this.currentKeyId}`);
+    }
+  }
+
+  async getCurrentKeyId(): Promise<string> {
+    return this.currentKeyId;
+  }
+
+  async wrapKey(dataKey: Buffer, keyId: string): Promise<Buffer> {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', this.getKey(keyId), iv);
+    const encrypted = Buffer.concat([cipher.update(dataKey), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+  }
+
+  async unwrapKey(wrappedKey: Buffer, keyId: string): Promise<Buffer> {
+    const iv = wrappedKey.subarray(0, IV_LENGTH);
+    const tag = wrappedKey.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+    const decipher = createDecipheriv('aes-256-gcm', this.getKey(keyId), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(wrappedKey.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new ConfigurationError(`Unknown encryption key ID: ${keyId}`);
+    }
+    return key;
+  }
+}
+
+/**
+ * Parse a 32-byte key given as a Buffer, base64 or hex string
+ */
+export function parseKey(keyId: string, key: Buffer | string): Buffer {
+  let parsed: Buffer;
+  if (Buffer.isBuffer(key)) {
+    parsed = key;
+  } else if (/^[0-9a-fA-F]{64}$/.test(key)) {
+    parsed = Buffer.from(key, 'hex');
+  } else {
+    parsed = Buffer.from(key, 'base64');
+  }
+
+  if (parsed.length !== KEY_LENGTH) {
+    throw new ConfigurationError(`Key "${keyId}" must be ${KEY_LENGTH} bytes (got ${parsed.length})`);
+  }
+  return parsed;
+}
+
+/**
+ * Create a key provider that holds its keys in memory
+ */
+export function createLocalKeyProvider(options: LocalKeyProviderOptions): LocalKeyProvider {
+  return new LocalKeyProvider(options);
+}
@@ -5,16 +5,32 @@
 
 import { google, drive_v3 } from 'googleapis';
 import { Readable } from 'stream';
+import { randomUUID } from 'crypto';
 
 import { BaseStorageModule } from '../../common/base-module';
 import {
   FileNotFoundError,
   DirectoryNotFoundError,
   FileExistsError,
+  DirectoryNotEmptyError,
+  InvalidPathError,
   AuthenticationError,
+  InvalidRangeError,
+  UploadSessionError,
+  InvalidCursorError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
 } from '../../common/errors';
-import { createFileItem, createFolderItem } from '../../common/utils';
+import { createFileItem, createFolderItem, mapWithConcurrency } from '../../common/utils';
+import { resolveByteRange, emptyStream } from '../../common/stream-utils';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  createSearchFilter,
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from '../../common/search-utils';
 import { GoogleDriveAuth, createGoogleDriveAuth, TokenData, AuthCallbacks } from './auth';
+import { DrivePathIndex, type PathIndexEntry, type PathIndexStore } from './path-index';
 import type {
   StorageProvider,
   HazoFilesConfig,
@@ -25,20 +41,97 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  DeleteOptions,
+  BatchOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchRenameOperation,
+  BatchResult,
   ListOptions,
+  SearchOptions,
+  SearchPage,
   TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
 } from '../../types';
 
 const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
 
+const FILE_FIELDS = 'id, name, mimeType, size, createdTime, modifiedTime, webViewLink, thumbnailLink';
+
+// Fields of a trashed file, for listTrash() and restoreFromTrash()
+const TRASH_FIELDS = 'id, name, mimeType, size, parents, trashed, trashedTime, explicitlyTrashed';
+
+// Resumable upload endpoint; session URIs stay valid for one week
+const RESUMABLE_UPLOAD_URL = 'https://www.googleapis.com/upload/drive/v3/files';
+const RESUMABLE_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Every chunk except the last must be a multiple of 256 KiB
+const RESUMABLE_CHUNK_ALIGNMENT = 256 * 1024;
+
+// Names looked up per files.list request in resolvePaths()
+const RESOLVE_BATCH_SIZE = 50;
+
+// Batch endpoint; one batch request carries up to 100 calls
+const BATCH_URL = 'https://www.googleapis.com/batch/drive/v3';
+const BATCH_SIZE = 100;
+
+// Changes per changes.list request in getChanges()
+const CHANGES_PAGE_SIZE = 1000;
+
+// Files per files.list request in search()
+const SEARCH_PAGE_SIZE = 1000;
+
+// Folder levels walked up from a changed file to find its path
+const MAX_PATH_DEPTH = 64;
+
+/** One call in a batch request */
+interface DriveBatchRequest {
+  method: 'GET' | 'PATCH' | 'DELETE';
+  /** Path and query below /drive/v3/ */
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+/** Response to one call in a batch request (error when the batch request itself failed) */
+interface DriveBatchResponse {
+  status: number;
+  body: drive_v3.Schema$File & { error?: { message?: string } };
+  error?: unknown;
+}
+
+/** Options for resolvePaths() */
+export interface ResolvePathsOptions {
+  /** Create missing folders (every path is treated as a folder path) */
+  createIfMissing?: boolean;
+  signal?: AbortSignal;
+}
+
 export class GoogleDriveModule extends BaseStorageModule {
   readonly provider: StorageProvider = 'google_drive';
   private auth: GoogleDriveAuth | null = null;
   private drive: drive_v3.Drive | null = null;
   private rootFolderId: string = 'root';
   private authCallbacks: AuthCallbacks = {};
+  private pathIndexStore: PathIndexStore | null = null;
+  private pathIndex = new DrivePathIndex('root');
+  // File ID of the root folder, when rootFolderId is the 'root' alias
+  private resolvedRootId: string | null = null;
+  private trashRetentionDays = 30;
 
   /**
    * Set authentication callbacks for token persistence
@@ -47,6 +140,14 @@ export class GoogleDriveModule extends BaseStorageModule {
     this.authCallbacks = callbacks;
   }
 
+  /**
+   * Persist the path to file ID index (e.g. createDatabasePathIndexStore()).
+   * Call before initialize(); without a store the index lives in memory only.
+   */
+  setPathIndexStore(store: PathIndexStore): void {
+    this.pathIndexStore = store;
+  }
+
   async initialize(config: HazoFilesConfig): Promise<void> {
     await super.initialize(config);
 
@@ -75,6 +176,10 @@ export class GoogleDriveModule extends BaseStorageModule {
 
     this.drive = google.drive({ version: 'v3', auth: this.auth.getClient() });
     this.rootFolderId = driveConfig.rootFolderId || 'root';
+    this.trashRetentionDays = driveConfig.trash?.retentionDays ?? 30;
+
+    this.pathIndex = new DrivePathIndex(this.rootFolderId, this.pathIndexStore);
+    await this.pathIndex.load();
   }
 
   /**
@@ -116,39 +221,54 @@ export class GoogleDriveModule extends BaseStorageModule {
   }
 
   /**
-   * Get folder ID from path (creates folders if needed for certain operations)
+   * Get the file ID for a path (creates missing folders if requested).
+   * Starts from the deepest ancestor in the path index that Drive confirms is still
+   * current and indexes every segment it resolves.
    */
-  private async getIdFromPath(virtualPath: string, createIfMissing = false): Promise<string | null> {
+  private async getIdFromPath(
+    virtualPath: string,
+    createIfMissing = false,
+    signal?: AbortSignal
+  ): Promise<string | null> {
     const normalized = this.normalizePath(virtualPath);
     if (normalized === '/') {
       return this.rootFolderId;
     }
 
+    const indexed = this.pathIndex.get(normalized);
+    if (indexed && await this.isIndexCurrent(indexed, signal)) {
+      return indexed.fileId;
+    }
+
     const segments = normalized.split('/').filter(Boolean);
+    let depth = segments.length - 1;
     let currentParentId = this.rootFolderId;
+    for (; depth > 0; depth--) {
+      const ancestor = this.pathIndex.get('/' + segments.slice(0, depth).join('/'));
+      if (ancestor && await this.isIndexCurrent(ancestor, signal)) {
+        currentParentId = ancestor.fileId;
+        break;
+      }
+    }
 
-    for (const segment of segments) {
-      const query = `name='${segment}' and '${currentParentId}' in parents and trashed=false`;
+    for (let i = depth; i < segments.length; i++) {
+      const segment = segments[i];
+      const currentPath = '/' + segments.slice(0, i + 1).join('/');
+      const query = `name='${escapeQuery(segment)}' and '${currentParentId}' in parents and trashed=false`;
 
       const response = await this.drive!.files.list({
         q: query,
         fields: 'files(id, name, mimeType)',
         pageSize: 1,
-      });
+      }, { signal });
 
-      if (response.data.files && response.data.files.length > 0) {
-        currentParentId = response.data.files[0].id!;
+      const file = response.data.files?.[0];
+      if (file) {
+        currentParentId = file.id!;
+        this.pathIndex.set({ path: currentPath, fileId: file.id!, isFolder: file.mimeType === FOLDER_MIME_TYPE });
       } else if (createIfMissing) {
-        // Create the folder
-        const createResponse = await this.drive!.files.create({
-          requestBody: {
-            name: segment,
-            mimeType: FOLDER_MIME_TYPE,
-            parents: [currentParentId],
-          },
-          fields: 'id',
-        });
-        currentParentId = createResponse.data.id!;
+        currentParentId = await this.createFolder(segment, currentParentId, signal);
+        this.pathIndex.set({ path: currentPath, fileId: currentParentId, isFolder: true });
       } else {
         return null;
       }
@@ -157,6 +277,175 @@ export class GoogleDriveModule extends BaseStorageModule {
     return currentParentId;
   }
 
+  private async createFolder(name: string, parentId: string, signal?: AbortSignal): Promise<string> {
+    const response = await this.drive!.files.create({
+      requestBody: {
+        name,
+        mimeType: FOLDER_MIME_TYPE,
+        parents: [parentId],
+      },
+      fields: 'id',
+    }, { signal });
+    return response.data.id!;
+  }
+
+  /**
+   * Resolve many paths to file IDs at once. Paths are resolved level by level and the
+   * missing names under each folder are looked up with one files.list request, so
+   * resolving many deep paths costs about one request per folder rather than one per
+   * path segment. Results are keyed by normalized path (null when not found).
+   */
+  async resolvePaths(
+    virtualPaths: string[],
+    options: ResolvePathsOptions = {}
+  ): Promise<OperationResult<Record<string, string | null>>> {
+    try {
+      this.throwIfAborted(options.signal);
+      await this.ensureAuthenticated();
+
+      const targets = Array.from(new Set(virtualPaths.map((path) => this.normalizePath(path))));
+
+      // Every target and its ancestors, grouped by depth
+      const levels: Set<string>[] = [];
+      for (const target of targets) {
+        const segments = target.split('/').filter(Boolean);
+        for (let depth = 1; depth <= segments.length; depth++) {
+          (levels[depth - 1] ??= new Set()).add('/' + segments.slice(0, depth).join('/'));
+        }
+      }
+
+      for (const level of levels) {
+        const byParent = new Map<string, string[]>();
+        for (const path of level) {
+          if (this.pathIndex.get(path)) continue;
+          const parentPath = this.getParentPath(path);
+          const parentId = parentPath === '/' ? this.rootFolderId : this.pathIndex.get(parentPath)?.fileId;
+          if (!parentId) continue; // Parent was not found
+          byParent.set(parentId, [...(byParent.get(parentId) ?? []), path]);
+        }
+
+        for (const [parentId, paths] of byParent) {
+          await this.lookupChildren(parentId, paths, options.signal);
+
+          if (options.createIfMissing) {
+            for (const path of paths.filter((candidate) => !this.pathIndex.get(candidate))) {
+              const fileId = await this.createFolder(this.getBaseName(path), parentId, options.signal);
+              this.pathIndex.set({ path, fileId, isFolder: true });
+            }
+          }
+        }
+      }
+
+      const resolved: Record<string, string | null> = {};
+      for (const target of targets) {
+        resolved[target] = target === '/' ? this.rootFolderId : this.pathIndex.get(target)?.fileId ?? null;
+      }
+      return this.successResult(resolved);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult();
+      }
+      if (error instanceof AuthenticationError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to resolve paths: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Forget indexed paths (all of them by default), e.g. after changes made outside this module
+   */
+  invalidatePathIndex(virtualPath = '/'): void {
+    const normalized = this.normalizePath(virtualPath);
+    if (normalized === '/') {
+      this.pathIndex.clear();
+    } else {
+      this.pathIndex.remove(normalized);
+    }
+  }
+
+  /**
+   * Look up children of a folder by name and index the ones found
+   */
+  private async lookupChildren(parentId: string, paths: string[], signal?: AbortSignal): Promise<void> {
+    for (let i = 0; i < paths.length; i += RESOLVE_BATCH_SIZE) {
+      const batch = paths.slice(i, i + RESOLVE_BATCH_SIZE);
+      const byName = new Map(batch.map((path) => [this.getBaseName(path), path]));
+      const names = Array.from(byName.keys(), (name) => `name='${escapeQuery(name)}'`).join(' or ');
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.drive!.files.list({
+          q: `'${parentId}' in parents and trashed=false and (${names})`,
+          fields: 'nextPageToken, files(id, name, mimeType)',
+          pageSize: 1000,
+          pageToken,
+        }, { signal });
+
+        for (const file of response.data.files ?? []) {
+          const path = byName.get(file.name!);
+          // Drive allows duplicate names: the first match wins, as in getIdFromPath()
+          if (path && !this.pathIndex.get(path)) {
+            this.pathIndex.set({ path, fileId: file.id!, isFolder: file.mimeType === FOLDER_MIME_TYPE });
+          }
+        }
+
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    }
+  }
+
+  /**
+   * Index a file or folder returned by Drive
+   */
+  private indexItem(item: FileSystemItem): void {
+    this.pathIndex.set({ path: this.normalizePath(item.path), fileId: item.id, isFolder: item.isDirectory });
+  }
+
+  /**
+   * Check an index entry against Drive. The file may have been trashed, renamed or
+   * moved in the Drive UI or by another server since it was indexed; such entries
+   * are dropped, with the paths below them, so the caller walks the path again.
+   */
+  private async isIndexCurrent(entry: PathIndexEntry, signal?: AbortSignal): Promise<boolean> {
+    const parentPath = this.getParentPath(entry.path);
+    const parentId = parentPath === '/' ? await this.getRootId(signal) : this.pathIndex.get(parentPath)?.fileId;
+
+    let current = false;
+    try {
+      const response = await this.drive!.files.get({
+        fileId: entry.fileId,
+        fields: 'id, name, parents, trashed',
+      }, { signal });
+      const file = response.data;
+      current = !file.trashed
+        && file.name === this.getBaseName(entry.path)
+        && (!parentId || Boolean(file.parents?.includes(parentId)));
+    } catch (error) {
+      if (!this.isNotFoundError(error)) throw error;
+    }
+
+    if (!current) {
+      this.pathIndex.remove(entry.path);
+    }
+    return current;
+  }
+
+  private isNotFoundError(error: unknown): boolean {
+    const status = (error as { response?: { status?: number } }).response?.status ?? (error as { code?: unknown }).code;
+    return status === 404 || status === '404';
+  }
+
+  /**
+   * Forget an indexed path when Drive reports its file ID as not found
+   * (deleted or moved outside this module); the next call resolves it again
+   */
+  private forgetIfNotFound(error: unknown, virtualPath: string): void {
+    if (this.isNotFoundError(error)) {
+      this.pathIndex.remove(this.normalizePath(virtualPath));
+    }
+  }
+
   /**
    * Convert Drive file to FileSystemItem
    */
@@ -209,7 +498,7 @@ export class GoogleDriveModule extends BaseStorageModule {
       }
 
       // Check if folder already exists
-      const existingQuery = `name='${folderName}' and '${parentId}' in parents and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`;
+      const existingQuery = `name='${escapeQuery(folderName)}' and '${parentId}' in parents and mimeType='${FOLDER_MIME_TYPE}' and trashed=false`;
       const existingResponse = await this.drive!.files.list({
         q: existingQuery,
         fields: 'files(id)',
@@ -231,8 +520,10 @@ export class GoogleDriveModule extends BaseStorageModule {
       });
 
       const item = this.driveFileToItem(response.data, normalized) as FolderItem;
+      this.indexItem(item);
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, this.getParentPath(virtualPath));
       if (error instanceof AuthenticationError || error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -263,8 +554,10 @@ export class GoogleDriveModule extends BaseStorageModule {
       }
 
       await this.drive!.files.delete({ fileId: folderId });
+      this.pathIndex.remove(this.normalizePath(virtualPath));
       return this.successResult();
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
       if (error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -278,6 +571,7 @@ export class GoogleDriveModule extends BaseStorageModule {
     options: UploadOptions = {}
   ): Promise<OperationResult<FileItem>> {
     try {
+      this.throwIfAborted(options.signal, remotePath);
       await this.ensureAuthenticated();
 
       const normalized = this.normalizePath(remotePath);
@@ -285,19 +579,19 @@ export class GoogleDriveModule extends BaseStorageModule {
       const fileName = this.getBaseName(normalized);
 
       // Get or create parent folder
-      const parentId = await this.getIdFromPath(parentPath, true);
+      const parentId = await this.getIdFromPath(parentPath, true, options.signal);
       if (!parentId) {
         throw new DirectoryNotFoundError(parentPath);
       }
 
       // Check if file already exists
       if (!options.overwrite) {
-        const existingQuery = `name='${fileName}' and '${parentId}' in parents and trashed=false`;
+        const existingQuery = `name='${escapeQuery(fileName)}' and '${parentId}' in parents and trashed=false`;
         const existingResponse = await this.drive!.files.list({
           q: existingQuery,
           fields: 'files(id)',
           pageSize: 1,
-        });
+        }, { signal: options.signal });
 
         if (existingResponse.data.files && existingResponse.data.files.length > 0) {
           throw new FileExistsError(remotePath);
@@ -332,15 +626,20 @@ export class GoogleDriveModule extends BaseStorageModule {
         },
         media,
         fields: 'id, name, mimeType, size, createdTime, modifiedTime, webViewLink, thumbnailLink',
-      });
+      }, { signal: options.signal });
 
       if (options.onProgress) {
         options.onProgress(100, parseInt(response.data.size || '0', 10), parseInt(response.data.size || '0', 10));
       }
 
       const item = this.driveFileToItem(response.data, normalized) as FileItem;
+      this.indexItem(item);
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, this.getParentPath(remotePath));
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
       if (
         error instanceof AuthenticationError ||
         error instanceof DirectoryNotFoundError ||
@@ -358,16 +657,17 @@ export class GoogleDriveModule extends BaseStorageModule {
     options: DownloadOptions = {}
   ): Promise<OperationResult<Buffer | string>> {
     try {
+      this.throwIfAborted(options.signal, remotePath);
       await this.ensureAuthenticated();
 
-      const fileId = await this.getIdFromPath(remotePath);
+      const fileId = await this.getIdFromPath(remotePath, false, options.signal);
       if (!fileId) {
         throw new FileNotFoundError(remotePath);
       }
 
       const response = await this.drive!.files.get(
         { fileId, alt: 'media' },
-        { responseType: 'arraybuffer' }
+        { responseType: 'arraybuffer', signal: options.signal }
       );
 
       const buffer = Buffer.from(response.data as ArrayBuffer);
@@ -380,12 +680,16 @@ export class GoogleDriveModule extends BaseStorageModule {
         const fs = await import('fs');
         const path = await import('path');
         await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
-        await fs.promises.writeFile(localPath, buffer);
+        await fs.promises.writeFile(localPath, buffer, { signal: options.signal });
         return this.successResult(localPath);
       }
 
       return this.successResult(buffer);
     } catch (error) {
+      this.forgetIfNotFound(error, remotePath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -393,15 +697,241 @@ export class GoogleDriveModule extends BaseStorageModule {
     }
   }
 
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      await this.ensureAuthenticated();
+
+      const fileId = await this.getIdFromPath(remotePath, false, options.signal);
+      if (!fileId) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const metadata = await this.drive!.files.get(
+        { fileId, fields: 'size, mimeType' },
+        { signal: options.signal }
+      );
+      if (metadata.data.mimeType === FOLDER_MIME_TYPE) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const size = parseInt(metadata.data.size || '0', 10);
+      const range = resolveByteRange(remotePath, size, options);
+
+      let stream: Readable = emptyStream();
+      if (range.length > 0) {
+        const response = await this.drive!.files.get(
+          { fileId, alt: 'media' },
+          {
+            responseType: 'stream',
+            signal: options.signal,
+            headers: range.length < size ? { Range: `bytes=${range.start}-${range.end}` } : undefined,
+          }
+        );
+        stream = response.data as unknown as Readable;
+      }
+
+      return this.successResult(
+        this.toDownloadStream(remotePath, stream, size, range, options, metadata.data.mimeType || undefined)
+      );
+    } catch (error) {
+      this.forgetIfNotFound(error, remotePath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (error instanceof FileNotFoundError || error instanceof InvalidRangeError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async startUpload(
+    remotePath: string,
+    options: StartUploadOptions = {}
+  ): Promise<OperationResult<UploadSession>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const normalized = this.normalizePath(remotePath);
+      const parentPath = this.getParentPath(normalized);
+      const fileName = this.getBaseName(normalized);
+
+      const parentId = await this.getIdFromPath(parentPath, true);
+      if (!parentId) {
+        throw new DirectoryNotFoundError(parentPath);
+      }
+
+      const existingResponse = await this.drive!.files.list({
+        q: `name='${escapeQuery(fileName)}' and '${parentId}' in parents and trashed=false`,
+        fields: 'files(id)',
+        pageSize: 1,
+      });
+      const existingId = existingResponse.data.files?.[0]?.id;
+      if (existingId && !options.overwrite) {
+        throw new FileExistsError(remotePath);
+      }
+
+      const session = this.createUploadSession(
+        remotePath,
+        options,
+        {},
+        new Date(Date.now() + RESUMABLE_SESSION_TTL_MS)
+      );
+
+      // Overwrites update the existing file's content so its ID is kept
+      const response = await this.auth!.getClient().request({
+        url: existingId
+          ? `${RESUMABLE_UPLOAD_URL}/${existingId}?uploadType=resumable`
+          : `${RESUMABLE_UPLOAD_URL}?uploadType=resumable`,
+        method: existingId ? 'PATCH' : 'POST',
+        headers: {
+          'X-Upload-Content-Type': session.mimeType,
+          ...(options.totalSize !== undefined ? { 'X-Upload-Content-Length': String(options.totalSize) } : {}),
+        },
+        data: existingId ? {} : { name: fileName, parents: [parentId] },
+      });
+
+      const sessionUri = response.headers.location as string | undefined;
+      if (!sessionUri) {
+        throw new Error('Drive did not return a resumable session URI');
+      }
+
+      session.providerState = { sessionUri };
+      return this.successResult(session);
+    } catch (error) {
+      if (
+        error instanceof AuthenticationError ||
+        error instanceof DirectoryNotFoundError ||
+        error instanceof FileExistsError
+      ) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to start upload: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    try {
+      await this.ensureAuthenticated();
+      this.assertChunkFits(session, chunk);
+
+      const isLast = session.totalSize !== undefined && session.bytesUploaded + chunk.length === session.totalSize;
+      if (!isLast && chunk.length % RESUMABLE_CHUNK_ALIGNMENT !== 0) {
+        throw new UploadSessionError(
+          session.id,
+          `Google Drive chunks must be a multiple of ${RESUMABLE_CHUNK_ALIGNMENT} bytes (except the last)`
+        );
+      }
+
+      const start = session.bytesUploaded;
+      const end = start + chunk.length - 1;
+      const response = await this.auth!.getClient().request<drive_v3.Schema$File>({
+        url: this.getSessionUri(session),
+        method: 'PUT',
+        headers: { 'Content-Range': `bytes ${start}-${end}/${session.totalSize ?? '*'}` },
+        data: chunk,
+        validateStatus: (status) => status === 308 || (status >= 200 && status < 300),
+      });
+
+      if (response.status === 308) {
+        // "Resume Incomplete": Range tells how much Drive has actually persisted
+        const committed = parseCommittedBytes(response.headers.range as string | undefined);
+        return this.successResult(this.advanceUploadSession(session, committed - session.bytesUploaded));
+      }
+
+      // The last chunk creates the file
+      return this.successResult(
+        this.advanceUploadSession(session, chunk.length, { ...session.providerState, fileId: response.data.id })
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof UploadSessionError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to upload chunk: ${(error as Error).message}`);
+    }
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    try {
+      await this.ensureAuthenticated();
+      this.assertUploadComplete(session);
+
+      let file: drive_v3.Schema$File;
+      const fileId = session.providerState.fileId as string | undefined;
+
+      if (fileId) {
+        const response = await this.drive!.files.get({ fileId, fields: FILE_FIELDS });
+        file = response.data;
+      } else {
+        // Total size was not declared up front: finalize with an empty request
+        const response = await this.auth!.getClient().request<drive_v3.Schema$File>({
+          url: this.getSessionUri(session),
+          method: 'PUT',
+          headers: { 'Content-Range': `bytes */${session.bytesUploaded}` },
+          params: { fields: FILE_FIELDS },
+        });
+        file = response.data;
+        if (!file.size) {
+          file = (await this.drive!.files.get({ fileId: file.id!, fields: FILE_FIELDS })).data;
+        }
+      }
+
+      const item = this.driveFileToItem(file, this.normalizePath(session.remotePath)) as FileItem;
+      this.indexItem(item);
+      return this.successResult(item);
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof UploadSessionError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to complete upload: ${(error as Error).message}`);
+    }
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    try {
+      await this.ensureAuthenticated();
+
+      // Drive answers a cancelled session with 499, so any status is accepted
+      await this.auth!.getClient().request({
+        url: this.getSessionUri(session),
+        method: 'DELETE',
+        validateStatus: () => true,
+      });
+
+      return this.successResult();
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof UploadSessionError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to abort upload: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Resumable session URI stored when the session was started
+   */
+  private getSessionUri(session: UploadSession): string {
+    const sessionUri = session.providerState.sessionUri;
+    if (typeof sessionUri !== 'string') {
+      throw new UploadSessionError(session.id, 'session has no Google Drive session URI');
+    }
+    return sessionUri;
+  }
+
   async moveItem(
     sourcePath: string,
     destinationPath: string,
-    _options: MoveOptions = {}
+    options: MoveOptions = {}
   ): Promise<OperationResult<FileSystemItem>> {
     try {
+      this.throwIfAborted(options.signal, sourcePath);
       await this.ensureAuthenticated();
 
-      const fileId = await this.getIdFromPath(sourcePath);
+      const fileId = await this.getIdFromPath(sourcePath, false, options.signal);
       if (!fileId) {
         throw new FileNotFoundError(sourcePath);
       }
@@ -410,14 +940,14 @@ export class GoogleDriveModule extends BaseStorageModule {
       const file = await this.drive!.files.get({
         fileId,
         fields: 'parents',
-      });
+      }, { signal: options.signal });
 
       const previousParents = file.data.parents?.join(',') || '';
 
       // Get new parent
       const destParentPath = this.getParentPath(destinationPath);
       const newName = this.getBaseName(destinationPath);
-      const newParentId = await this.getIdFromPath(destParentPath, true);
+      const newParentId = await this.getIdFromPath(destParentPath, true, options.signal);
 
       if (!newParentId) {
         throw new DirectoryNotFoundError(destParentPath);
@@ -432,11 +962,17 @@ export class GoogleDriveModule extends BaseStorageModule {
           name: newName,
         },
         fields: 'id, name, mimeType, size, createdTime, modifiedTime, webViewLink, thumbnailLink',
-      });
+      }, { signal: options.signal });
 
       const item = this.driveFileToItem(response.data, destinationPath);
+      this.pathIndex.move(this.normalizePath(sourcePath), this.normalizePath(destinationPath));
+      this.indexItem(item);
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, sourcePath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
       if (error instanceof FileNotFoundError || error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -444,18 +980,114 @@ export class GoogleDriveModule extends BaseStorageModule {
     }
   }
 
-  async deleteFile(virtualPath: string): Promise<OperationResult> {
+  /**
+   * Copy a file or folder. Files are copied on the server with files.copy; Drive can't
+   * copy folders, so a folder's tree is recreated folder by folder.
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const source = await this.prepareCopy(sourcePath, destinationPath, options);
+      const destination = this.normalizePath(destinationPath);
+      const parentPath = this.getParentPath(destination);
+      const parentId = await this.getIdFromPath(parentPath, true, options.signal);
+      if (!parentId) {
+        throw new DirectoryNotFoundError(parentPath);
+      }
+
+      const item = await this.copyIntoPlace(destination, options, (target, copyOptions) =>
+        this.copyDriveItem(source, parentId, target, copyOptions, this.createCopyTracker(copyOptions))
+      );
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (
+        error instanceof FileNotFoundError ||
+        error instanceof FileExistsError ||
+        error instanceof DirectoryNotFoundError ||
+        error instanceof DirectoryNotEmptyError ||
+        error instanceof InvalidPathError
+      ) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  private async copyDriveItem(
+    source: { id: string; isDirectory: boolean },
+    parentId: string,
+    destination: string,
+    options: CopyOptions,
+    onCopied: (file: FileItem) => void
+  ): Promise<FileSystemItem> {
+    this.throwIfAborted(options.signal, destination);
+    const name = this.getBaseName(destination);
+
+    if (!source.isDirectory) {
+      const response = await this.drive!.files.copy({
+        fileId: source.id,
+        requestBody: { name, parents: [parentId] },
+        fields: FILE_FIELDS,
+      }, { signal: options.signal });
+      const item = this.driveFileToItem(response.data, destination) as FileItem;
+      this.indexItem(item);
+      onCopied(item);
+      return item;
+    }
+
+    const folderId = await this.createFolder(name, parentId, options.signal);
+    this.pathIndex.set({ path: destination, fileId: folderId, isFolder: true });
+
+    let pageToken: string | undefined;
+    do {
+      const response = await this.drive!.files.list({
+        q: `'${source.id}' in parents and trashed=false`,
+        fields: 'nextPageToken, files(id, name, mimeType)',
+        pageSize: 1000,
+        pageToken,
+      }, { signal: options.signal });
+      for (const child of response.data.files || []) {
+        await this.copyDriveItem(
+          { id: child.id!, isDirectory: child.mimeType === FOLDER_MIME_TYPE },
+          folderId,
+          this.joinPath(destination, child.name!),
+          options,
+          onCopied
+        );
+      }
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    const folder = await this.drive!.files.get({ fileId: folderId, fields: FILE_FIELDS }, { signal: options.signal });
+    return this.driveFileToItem(folder.data, destination);
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
-      const fileId = await this.getIdFromPath(virtualPath);
+      const fileId = await this.getIdFromPath(virtualPath, false, options.signal);
       if (!fileId) {
         throw new FileNotFoundError(virtualPath);
       }
 
-      await this.drive!.files.delete({ fileId });
+      await this.drive!.files.delete({ fileId }, { signal: options.signal });
+      this.pathIndex.remove(this.normalizePath(virtualPath));
       return this.successResult();
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -466,12 +1098,13 @@ export class GoogleDriveModule extends BaseStorageModule {
   async renameFile(
     virtualPath: string,
     newName: string,
-    _options: RenameOptions = {}
+    options: RenameOptions = {}
   ): Promise<OperationResult<FileItem>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
-      const fileId = await this.getIdFromPath(virtualPath);
+      const fileId = await this.getIdFromPath(virtualPath, false, options.signal);
       if (!fileId) {
         throw new FileNotFoundError(virtualPath);
       }
@@ -482,14 +1115,19 @@ export class GoogleDriveModule extends BaseStorageModule {
           name: newName,
         },
         fields: 'id, name, mimeType, size, createdTime, modifiedTime, webViewLink, thumbnailLink',
-      });
+      }, { signal: options.signal });
 
       const parentPath = this.getParentPath(virtualPath);
       const newPath = this.joinPath(parentPath, newName);
       const item = this.driveFileToItem(response.data, newPath) as FileItem;
+      this.pathIndex.move(this.normalizePath(virtualPath), this.normalizePath(newPath));
 
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -500,12 +1138,13 @@ export class GoogleDriveModule extends BaseStorageModule {
   async renameFolder(
     virtualPath: string,
     newName: string,
-    _options: RenameOptions = {}
+    options: RenameOptions = {}
   ): Promise<OperationResult<FolderItem>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
-      const folderId = await this.getIdFromPath(virtualPath);
+      const folderId = await this.getIdFromPath(virtualPath, false, options.signal);
       if (!folderId) {
         throw new DirectoryNotFoundError(virtualPath);
       }
@@ -516,14 +1155,19 @@ export class GoogleDriveModule extends BaseStorageModule {
           name: newName,
         },
         fields: 'id, name, mimeType, createdTime, modifiedTime, webViewLink',
-      });
+      }, { signal: options.signal });
 
       const parentPath = this.getParentPath(virtualPath);
       const newPath = this.joinPath(parentPath, newName);
       const item = this.driveFileToItem(response.data, newPath) as FolderItem;
+      this.pathIndex.move(this.normalizePath(virtualPath), this.normalizePath(newPath));
 
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -531,14 +1175,279 @@ export class GoogleDriveModule extends BaseStorageModule {
     }
   }
 
+  // ============ Batch Operations ============
+
+  /**
+   * Delete many files and folders with batch requests. Without `recursive`, folders are
+   * deleted one by one so that a folder with contents fails.
+   */
+  async batchDelete(paths: string[], options: BatchDeleteOptions = {}): Promise<OperationResult<BatchResult>> {
+    try {
+      await this.ensureAuthenticated();
+      const results = new Array<OperationResult>(paths.length);
+      const onDone = this.createBatchTracker(paths.length, options);
+      const fileIds = await this.resolveBatchPaths(paths, options.signal);
+
+      const deletes: Array<{ path: string; index: number; fileId: string }> = [];
+      const folders: Array<{ path: string; index: number }> = [];
+      paths.forEach((path, index) => {
+        const fileId = fileIds[this.normalizePath(path)];
+        if (!fileId || this.normalizePath(path) === '/') {
+          results[index] = this.errorResult(new FileNotFoundError(path).message);
+          onDone(path, results[index]);
+        } else if (!options.recursive && this.pathIndex.get(this.normalizePath(path))?.isFolder) {
+          folders.push({ path, index });
+        } else {
+          deletes.push({ path, index, fileId });
+        }
+      });
+
+      await mapWithConcurrency(folders, options.concurrency ?? 4, async ({ path, index }) => {
+        results[index] = options.signal?.aborted ? this.abortedResult(path) : await this.removeDirectory(path, false);
+        onDone(path, results[index]);
+      });
+
+      const responses = await this.sendBatch(
+        deletes.map(({ fileId }) => ({ method: 'DELETE', path: `files/${fileId}` })),
+        options.signal
+      );
+      deletes.forEach(({ path, index }, i) => {
+        results[index] = this.toBatchItemResult(responses[i], path, 'delete', options, () => {
+          this.pathIndex.remove(this.normalizePath(path));
+          return this.successResult();
+        });
+        onDone(path, results[index]);
+      });
+
+      return this.toBatchResult(results);
+    } catch (error) {
+      return this.batchFailure(error, options);
+    }
+  }
+
+  /**
+   * Move many files and folders with batch requests (one to read the current parents,
+   * one to move)
+   */
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options: BatchMoveOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    try {
+      await this.ensureAuthenticated();
+      const results = new Array<OperationResult<FileSystemItem>>(operations.length);
+      const onDone = this.createBatchTracker(operations.length, options);
+      const fileIds = await this.resolveBatchPaths(operations.map((operation) => operation.sourcePath), options.signal);
+      const parentIds = await this.resolveBatchPaths(
+        operations.map((operation) => this.getParentPath(operation.destinationPath)),
+        options.signal,
+        true
+      );
+
+      const moves: Array<BatchMoveOperation & { index: number; fileId: string; parentId: string }> = [];
+      operations.forEach((operation, index) => {
+        const fileId = fileIds[this.normalizePath(operation.sourcePath)];
+        const parentId = parentIds[this.normalizePath(this.getParentPath(operation.destinationPath))];
+        if (!fileId || !parentId) {
+          const error = fileId
+            ? new DirectoryNotFoundError(this.getParentPath(operation.destinationPath))
+            : new FileNotFoundError(operation.sourcePath);
+          results[index] = this.errorResult(error.message);
+          onDone(operation.sourcePath, results[index]);
+        } else {
+          moves.push({ ...operation, index, fileId, parentId });
+        }
+      });
+
+      // Each move needs the file's current parents, to remove it from them
+      const current = await this.sendBatch(
+        moves.map(({ fileId }) => ({ method: 'GET', path: `files/${fileId}?fields=parents` })),
+        options.signal
+      );
+      const ready: Array<(typeof moves)[number] & { previousParents: string }> = [];
+      moves.forEach((move, i) => {
+        if (current[i].error === undefined && current[i].status >= 200 && current[i].status < 300) {
+          ready.push({ ...move, previousParents: current[i].body.parents?.join(',') || '' });
+        } else {
+          results[move.index] = this.toBatchItemResult(current[i], move.sourcePath, 'move item', options, () =>
+            this.successResult()
+          );
+          onDone(move.sourcePath, results[move.index]);
+        }
+      });
+
+      const responses = await this.sendBatch(
+        ready.map(({ fileId, parentId, previousParents, destinationPath }) => ({
+          method: 'PATCH',
+          path: `files/${fileId}?addParents=${encodeURIComponent(parentId)}`
+            + `&removeParents=${encodeURIComponent(previousParents)}&fields=${encodeURIComponent(FILE_FIELDS)}`,
+          body: { name: this.getBaseName(destinationPath) },
+        })),
+        options.signal
+      );
+      ready.forEach(({ sourcePath, destinationPath, index }, i) => {
+        results[index] = this.toBatchItemResult(responses[i], sourcePath, 'move item', options, (file) => {
+          const item = this.driveFileToItem(file, destinationPath);
+          this.pathIndex.move(this.normalizePath(sourcePath), this.normalizePath(destinationPath));
+          this.indexItem(item);
+          return this.successResult(item);
+        });
+        onDone(sourcePath, results[index]);
+      });
+
+      return this.toBatchResult(results);
+    } catch (error) {
+      return this.batchFailure(error, options);
+    }
+  }
+
+  /**
+   * Rename many files and folders with batch requests
+   */
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options: BatchRenameOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    try {
+      await this.ensureAuthenticated();
+      const results = new Array<OperationResult<FileSystemItem>>(operations.length);
+      const onDone = this.createBatchTracker(operations.length, options);
+      const fileIds = await this.resolveBatchPaths(operations.map((operation) => operation.path), options.signal);
+
+      const renames: Array<BatchRenameOperation & { index: number; fileId: string }> = [];
+      operations.forEach((operation, index) => {
+        const fileId = fileIds[this.normalizePath(operation.path)];
+        if (!fileId) {
+          results[index] = this.errorResult(new FileNotFoundError(operation.path).message);
+          onDone(operation.path, results[index]);
+        } else {
+          renames.push({ ...operation, index, fileId });
+        }
+      });
+
+      const responses = await this.sendBatch(
+        renames.map(({ fileId, newName }) => ({
+          method: 'PATCH',
+          path: `files/${fileId}?fields=${encodeURIComponent(FILE_FIELDS)}`,
+          body: { name: newName },
+        })),
+        options.signal
+      );
+      renames.forEach(({ path, newName, index }, i) => {
+        results[index] = this.toBatchItemResult(responses[i], path, 'rename item', options, (file) => {
+          const newPath = this.joinPath(this.getParentPath(path), newName);
+          this.pathIndex.move(this.normalizePath(path), this.normalizePath(newPath));
+          return this.successResult(this.driveFileToItem(file, newPath));
+        });
+        onDone(path, results[index]);
+      });
+
+      return this.toBatchResult(results);
+    } catch (error) {
+      return this.batchFailure(error, options);
+    }
+  }
+
+  /**
+   * Resolve the paths of a batch to file IDs, keyed by normalized path
+   */
+  private async resolveBatchPaths(
+    paths: string[],
+    signal?: AbortSignal,
+    createIfMissing = false
+  ): Promise<Record<string, string | null>> {
+    const resolved = await this.resolvePaths(paths, { signal, createIfMissing });
+    if (!resolved.success || !resolved.data) {
+      throw new Error(resolved.error || 'Failed to resolve paths');
+    }
+    return resolved.data;
+  }
+
+  /**
+   * Send calls to the batch endpoint, BATCH_SIZE per request. The responses are in the
+   * order of the calls; a request that fails gives each of its calls the error.
+   */
+  private async sendBatch(requests: DriveBatchRequest[], signal?: AbortSignal): Promise<DriveBatchResponse[]> {
+    const responses: DriveBatchResponse[] = [];
+
+    for (let i = 0; i < requests.length; i += BATCH_SIZE) {
+      const chunk = requests.slice(i, i + BATCH_SIZE);
+      const boundary = `batch_${randomUUID()}`;
+      const parts = chunk.map((request, j) =>
+        `--${boundary}\r\nContent-Type: application/http\r\nContent-ID: <item-${j}>\r\n\r\n` +
+        `${request.method} /drive/v3/${request.path} HTTP/1.1\r\n` +
+        (request.body
+          ? `Content-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify(request.body)}\r\n`
+          : '\r\n')
+      );
+
+      try {
+        this.throwIfAborted(signal);
+        const response = await this.auth!.getClient().request<string>({
+          url: BATCH_URL,
+          method: 'POST',
+          headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+          data: parts.join('') + `--${boundary}--`,
+          responseType: 'text',
+          signal,
+        });
+        const parsed = parseBatchResponse(response.data, String(response.headers['content-type'] ?? ''));
+        responses.push(
+          ...chunk.map((_, j) => parsed[j] ?? { status: 0, body: {}, error: new Error('No response in batch') })
+        );
+      } catch (error) {
+        responses.push(...chunk.map(() => ({ status: 0, body: {}, error })));
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Turn the response to one call of a batch into its operation result
+   */
+  private toBatchItemResult<T>(
+    response: DriveBatchResponse,
+    path: string,
+    operation: string,
+    options: BatchOptions,
+    onSuccess: (file: drive_v3.Schema$File) => OperationResult<T>
+  ): OperationResult<T> {
+    if (response.error !== undefined) {
+      if (this.isAbortError(response.error, options.signal)) {
+        return this.abortedResult(path);
+      }
+      return this.errorResult(`Failed to ${operation}: ${(response.error as Error).message}`);
+    }
+    if (response.status === 404) {
+      this.pathIndex.remove(this.normalizePath(path));
+      return this.errorResult(new FileNotFoundError(path).message);
+    }
+    if (response.status < 200 || response.status >= 300) {
+      return this.errorResult(`Failed to ${operation}: ${response.body.error?.message || `HTTP ${response.status}`}`);
+    }
+    return onSuccess(response.body);
+  }
+
+  private batchFailure<T>(error: unknown, options: BatchOptions): OperationResult<T> {
+    if (this.isAbortError(error, options.signal)) {
+      return this.abortedResult();
+    }
+    if (error instanceof AuthenticationError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult(`Failed to run batch: ${(error as Error).message}`);
+  }
+
   async listDirectory(
     virtualPath: string,
     options: ListOptions = {}
   ): Promise<OperationResult<FileSystemItem[]>> {
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       await this.ensureAuthenticated();
 
-      const folderId = await this.getIdFromPath(virtualPath);
+      const folderId = await this.getIdFromPath(virtualPath, false, options.signal);
       if (!folderId) {
         throw new DirectoryNotFoundError(virtualPath);
       }
@@ -553,7 +1462,7 @@ export class GoogleDriveModule extends BaseStorageModule {
           pageSize: 100,
           pageToken,
           orderBy: 'folder,name',
-        });
+        }, { signal: options.signal });
 
         if (response.data.files) {
           for (const file of response.data.files) {
@@ -564,6 +1473,7 @@ export class GoogleDriveModule extends BaseStorageModule {
 
             const itemPath = this.joinPath(virtualPath, file.name!);
             const item = this.driveFileToItem(file, itemPath);
+            this.indexItem(item);
 
             // Apply filter if provided
             if (options.filter && !options.filter(item)) {
@@ -578,6 +1488,7 @@ export class GoogleDriveModule extends BaseStorageModule {
               if (subResult.success && subResult.data) {
                 items.push(...subResult.data);
               }
+              this.throwIfAborted(options.signal, virtualPath);
             }
           }
         }
@@ -587,6 +1498,10 @@ export class GoogleDriveModule extends BaseStorageModule {
 
       return this.successResult(items);
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -611,6 +1526,7 @@ export class GoogleDriveModule extends BaseStorageModule {
       const item = this.driveFileToItem(response.data, virtualPath);
       return this.successResult(item);
     } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -628,6 +1544,496 @@ export class GoogleDriveModule extends BaseStorageModule {
     }
   }
 
+  // ============ Versions ============
+
+  /**
+   * List the earlier revisions of a file, using the Drive Revisions API.
+   * Drive keeps revisions of binary files for 30 days or 100 revisions unless they
+   * are marked keepForever.
+   */
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const fileId = await this.getIdFromPath(virtualPath);
+      if (!fileId) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const revisions: drive_v3.Schema$Revision[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.drive!.revisions.list({
+          fileId,
+          pageToken,
+          fields: 'nextPageToken, revisions(id, modifiedTime, size, md5Checksum, lastModifyingUser(displayName, emailAddress))',
+        });
+        revisions.push(...(response.data.revisions || []));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      // Revisions are listed oldest first, the last one is the current content
+      const normalized = this.normalizePath(virtualPath);
+      const versions = revisions.slice(0, -1).reverse().map((revision) => ({
+        id: revision.id!,
+        path: normalized,
+        size: parseInt(revision.size || '0', 10),
+        modifiedAt: revision.modifiedTime ? new Date(revision.modifiedTime) : new Date(0),
+        hash: revision.md5Checksum || undefined,
+        modifiedBy: revision.lastModifyingUser?.emailAddress || revision.lastModifyingUser?.displayName || undefined,
+      }));
+      return this.successResult(versions);
+    } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to list versions: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const fileId = await this.getIdFromPath(virtualPath);
+      if (!fileId) {
+        throw new FileNotFoundError(virtualPath);
+      }
+      return this.successResult(await this.getRevisionContent(fileId, virtualPath, versionId));
+    } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (error instanceof FileNotFoundError || error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download version: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Restore a revision by uploading its content as a new revision
+   */
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const fileId = await this.getIdFromPath(virtualPath);
+      if (!fileId) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const content = await this.getRevisionContent(fileId, virtualPath, versionId);
+      const response = await this.drive!.files.update({
+        fileId,
+        media: {
+          mimeType: 'application/octet-stream',
+          body: Readable.from(content),
+        },
+        fields: FILE_FIELDS,
+      });
+
+      const item = this.driveFileToItem(response.data, this.normalizePath(virtualPath)) as FileItem;
+      return this.successResult(item);
+    } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (error instanceof FileNotFoundError || error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to restore version: ${(error as Error).message}`);
+    }
+  }
+
+  private async getRevisionContent(fileId: string, virtualPath: string, versionId: string): Promise<Buffer> {
+    try {
+      const response = await this.drive!.revisions.get(
+        { fileId, revisionId: versionId, alt: 'media' },
+        { responseType: 'arraybuffer' }
+      );
+      return Buffer.from(response.data as unknown as ArrayBuffer);
+    } catch (error) {
+      if (this.isNotFoundError(error)) {
+        throw new VersionNotFoundError(virtualPath, versionId);
+      }
+      throw error;
+    }
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Move a file or folder to the Drive trash; its file ID is the trash ID
+   */
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const normalized = this.normalizePath(virtualPath);
+      const fileId = normalized === '/' ? null : await this.getIdFromPath(normalized);
+      if (!fileId) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const response = await this.drive!.files.update({
+        fileId,
+        requestBody: { trashed: true },
+        fields: TRASH_FIELDS,
+      });
+      this.pathIndex.remove(normalized);
+      return this.successResult(this.driveFileToTrashItem(response.data, normalized));
+    } catch (error) {
+      this.forgetIfNotFound(error, virtualPath);
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to move to trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List the items trashed from under the root folder. Children of a trashed folder
+   * are not listed, they are restored with it.
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const rootId = await this.getRootId();
+      const folders = new Map<string, drive_v3.Schema$File>();
+      const items: TrashItem[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.drive!.files.list({
+          q: 'trashed=true',
+          fields: `nextPageToken, files(${TRASH_FIELDS})`,
+          pageSize: 1000,
+          pageToken,
+        });
+        for (const file of response.data.files || []) {
+          if (!file.explicitlyTrashed) continue;
+          const path = await this.getPathOfFile(file, rootId, folders);
+          if (path) items.push(this.driveFileToTrashItem(file, path));
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return this.successResult(items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+    } catch (error) {
+      return this.errorResult(`Failed to list trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Untrash an item, moving or renaming it when it is restored to another path
+   */
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const file = await this.getTrashedFile(trashId);
+      // Items whose folder is gone are restored to the root folder
+      const originalPath = await this.getPathOfFile(file, await this.getRootId(), new Map());
+      const destination = await this.resolveRestorePath(
+        options.path ?? originalPath ?? this.joinPath('/', file.name!),
+        options
+      );
+
+      const parentId = await this.getIdFromPath(this.getParentPath(destination), true);
+      if (!parentId) {
+        throw new DirectoryNotFoundError(this.getParentPath(destination));
+      }
+      const currentParents = file.parents || [];
+      const moved = !currentParents.includes(parentId);
+      const response = await this.drive!.files.update({
+        fileId: trashId,
+        addParents: moved ? parentId : undefined,
+        removeParents: moved && currentParents.length ? currentParents.join(',') : undefined,
+        requestBody: { trashed: false, name: this.getBaseName(destination) },
+        fields: FILE_FIELDS,
+      });
+
+      const item = this.driveFileToItem(response.data, destination);
+      this.indexItem(item);
+      return this.successResult(item);
+    } catch (error) {
+      if (
+        error instanceof TrashItemNotFoundError ||
+        error instanceof FileExistsError ||
+        error instanceof DirectoryNotFoundError
+      ) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to restore from trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Permanently delete trashed items: by default those older than `trash.retentionDays`
+   */
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<OperationResult<TrashItem[]>> {
+    try {
+      await this.ensureAuthenticated();
+
+      const listing = await this.listTrash();
+      if (!listing.success) {
+        return this.errorResult(listing.error!);
+      }
+      const purged: TrashItem[] = [];
+      for (const item of this.trashToPurge(listing.data!, options, this.trashRetentionDays)) {
+        await this.drive!.files.delete({ fileId: item.id });
+        purged.push(item);
+      }
+      return this.successResult(purged);
+    } catch (error) {
+      return this.errorResult(`Failed to purge trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * @throws TrashItemNotFoundError when the file does not exist or is not in the trash
+   */
+  private async getTrashedFile(trashId: string): Promise<drive_v3.Schema$File> {
+    try {
+      const response = await this.drive!.files.get({ fileId: trashId, fields: TRASH_FIELDS });
+      if (response.data.trashed) {
+        return response.data;
+      }
+    } catch (error) {
+      const status = (error as { response?: { status?: number } }).response?.status ?? (error as { code?: unknown }).code;
+      if (status !== 404 && status !== '404') {
+        throw error;
+      }
+    }
+    throw new TrashItemNotFoundError(trashId);
+  }
+
+  private driveFileToTrashItem(file: drive_v3.Schema$File, originalPath: string): TrashItem {
+    const isDirectory = file.mimeType === FOLDER_MIME_TYPE;
+    return {
+      id: file.id!,
+      name: file.name!,
+      originalPath,
+      isDirectory,
+      size: isDirectory ? undefined : parseInt(file.size || '0', 10),
+      deletedAt: file.trashedTime ? new Date(file.trashedTime) : new Date(),
+    };
+  }
+
+  /**
+   * Get changes under the root folder since a cursor, using the Drive Changes API.
+   * Without a cursor, returns the current start page token as the cursor.
+   * Paths come from the path index, or from walking the parent folders of a changed
+   * file; permanently deleted files are only reported if their path was indexed.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    try {
+      this.throwIfAborted(options.signal);
+      await this.ensureAuthenticated();
+
+      const requestedAt = Date.now();
+      if (!cursor) {
+        const response = await this.drive!.changes.getStartPageToken({}, { signal: options.signal });
+        return this.successResult({
+          changes: [],
+          cursor: encodeChangesCursor(response.data.startPageToken!, requestedAt),
+          hasMore: false,
+        });
+      }
+
+      const { pageToken, issuedAt } = decodeChangesCursor(cursor);
+      const response = await this.drive!.changes.list({
+        pageToken,
+        pageSize: CHANGES_PAGE_SIZE,
+        includeRemoved: true,
+        fields: `nextPageToken, newStartPageToken, changes(changeType, fileId, removed, file(${FILE_FIELDS}, parents, trashed))`,
+      }, { signal: options.signal }).catch((error) => {
+        const status = (error as { response?: { status?: number } }).response?.status;
+        if (status === 400 || status === 404) {
+          throw new InvalidCursorError(cursor, 'Drive rejected the page token');
+        }
+        throw error;
+      });
+
+      const rootId = await this.getRootId(options.signal);
+      const folders = new Map<string, drive_v3.Schema$File>();
+      const changes: FileChange[] = [];
+      for (const change of response.data.changes ?? []) {
+        if (change.changeType === 'drive' || !change.fileId || change.fileId === rootId) continue;
+        const mapped = await this.toFileChange(change, rootId, issuedAt, folders, options.signal);
+        if (mapped) changes.push(mapped);
+      }
+
+      const nextPageToken = response.data.nextPageToken;
+      return this.successResult({
+        changes,
+        cursor: nextPageToken
+          ? encodeChangesCursor(nextPageToken, issuedAt)
+          : encodeChangesCursor(response.data.newStartPageToken!, requestedAt),
+        hasMore: Boolean(nextPageToken),
+      });
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult();
+      }
+      if (error instanceof AuthenticationError || error instanceof InvalidCursorError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to get changes: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Turn a Drive change into a FileChange and update the path index.
+   * A file the index does not know is reported as created if it was created after
+   * the cursor was issued, otherwise as modified.
+   */
+  private async toFileChange(
+    change: drive_v3.Schema$Change,
+    rootId: string,
+    issuedAt: number,
+    folders: Map<string, drive_v3.Schema$File>,
+    signal?: AbortSignal
+  ): Promise<FileChange | null> {
+    const fileId = change.fileId!;
+    const knownPath = this.pathIndex.getPathById(fileId);
+    const file = change.removed ? null : change.file;
+    const path = file ? await this.getPathOfFile(file, rootId, folders, signal) : null;
+
+    if (!file || file.trashed || !path) {
+      // Deleted, trashed, or moved out of the root folder
+      const deletedPath = path ?? knownPath;
+      if (!deletedPath) return null;
+      this.pathIndex.remove(knownPath ?? deletedPath);
+      return { type: 'deleted', path: deletedPath, id: fileId };
+    }
+
+    const item = this.driveFileToItem(file, path);
+    if (knownPath && knownPath !== path) {
+      this.pathIndex.move(knownPath, path);
+      return { type: 'moved', path, previousPath: knownPath, item, id: fileId };
+    }
+
+    this.indexItem(item);
+    const created = !knownPath && Boolean(file.createdTime) && Date.parse(file.createdTime!) >= issuedAt;
+    return { type: created ? 'created' : 'modified', path, item, id: fileId };
+  }
+
+  /**
+   * Path of a file under the root folder, from the path index or by walking up its
+   * parent folders; null when the file is outside the root folder
+   */
+  private async getPathOfFile(
+    file: drive_v3.Schema$File,
+    rootId: string,
+    folders: Map<string, drive_v3.Schema$File>,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const names = [file.name!];
+    let parentId = file.parents?.[0];
+
+    for (let depth = 0; parentId && depth < MAX_PATH_DEPTH; depth++) {
+      const parentPath = parentId === rootId ? '/' : this.pathIndex.getPathById(parentId);
+      if (parentPath) {
+        return this.joinPath(parentPath, ...names.reverse());
+      }
+
+      let parent = folders.get(parentId);
+      if (!parent) {
+        const response = await this.drive!.files.get({ fileId: parentId, fields: 'id, name, parents' }, { signal });
+        parent = response.data;
+        folders.set(parentId, parent);
+      }
+      names.push(parent.name!);
+      parentId = parent.parents?.[0];
+    }
+
+    return null;
+  }
+
+  /**
+   * File ID of the root folder ('root' is only an alias, and changes report real IDs)
+   */
+  private async getRootId(signal?: AbortSignal): Promise<string> {
+    if (this.rootFolderId !== 'root') {
+      return this.rootFolderId;
+    }
+    if (!this.resolvedRootId) {
+      const response = await this.drive!.files.get({ fileId: 'root', fields: 'id' }, { signal });
+      this.resolvedRootId = response.data.id!;
+    }
+    return this.resolvedRootId;
+  }
+
+  /**
+   * Search with a files.list query. Drive matches `name contains` against the start
+   * of words and has no size or path conditions, so the query narrows the files down
+   * and every result is checked against all filters, with its path found by walking
+   * up its parent folders (files outside the search root are dropped). The cursor
+   * holds the Drive page token and how many files of that page were already read.
+   */
+  async search(options: SearchOptions = {}): Promise<OperationResult<SearchPage>> {
+    const root = this.normalizePath(options.root ?? '/');
+    try {
+      this.throwIfAborted(options.signal, root);
+      await this.ensureAuthenticated();
+
+      const limit = Math.max(1, options.limit ?? DEFAULT_SEARCH_LIMIT);
+      const cursor = options.cursor
+        ? decodeSearchCursor<{ pageToken?: string; offset?: number }>(options.cursor)
+        : {};
+      let pageToken = cursor.pageToken;
+      let offset = cursor.offset ?? 0;
+      const matches = createSearchFilter(options);
+      const rootId = await this.getRootId(options.signal);
+      const folders = new Map<string, drive_v3.Schema$File>();
+      const items: FileSystemItem[] = [];
+
+      for (;;) {
+        const response = await this.drive!.files.list({
+          q: buildSearchQuery(options),
+          fields: `nextPageToken, files(${FILE_FIELDS}, parents)`,
+          pageSize: SEARCH_PAGE_SIZE,
+          pageToken,
+        }, { signal: options.signal }).catch((error) => {
+          const status = (error as { response?: { status?: number } }).response?.status;
+          if (pageToken && status === 400) {
+            throw new InvalidCursorError(options.cursor!, 'Drive rejected the page token', 'search');
+          }
+          throw error;
+        });
+
+        const files = response.data.files ?? [];
+        for (let i = offset; i < files.length; i++) {
+          const path = await this.getPathOfFile(files[i], rootId, folders, options.signal);
+          if (!path) continue;
+          const item = this.driveFileToItem(files[i], path);
+          if (!matches(item)) continue;
+          if (items.length === limit) {
+            return this.successResult({ items, cursor: encodeSearchCursor({ pageToken, offset: i }), hasMore: true });
+          }
+          this.indexItem(item);
+          items.push(item);
+        }
+
+        pageToken = response.data.nextPageToken || undefined;
+        offset = 0;
+        if (!pageToken) {
+          return this.successResult({ items, hasMore: false });
+        }
+      }
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(root);
+      }
+      if (error instanceof AuthenticationError || error instanceof InvalidCursorError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to search: ${(error as Error).message}`);
+    }
+  }
+
   async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
     try {
       await this.ensureAuthenticated();
@@ -638,6 +2044,95 @@ export class GoogleDriveModule extends BaseStorageModule {
   }
 }
 
+/**
+ * Change cursors carry the Drive page token and when it was issued (ms), which tells
+ * files created since apart from files seen for the first time
+ */
+function encodeChangesCursor(pageToken: string, issuedAt: number): string {
+  return `${pageToken}@${issuedAt}`;
+}
+
+function decodeChangesCursor(cursor: string): { pageToken: string; issuedAt: number } {
+  const separator = cursor.lastIndexOf('@');
+  const issuedAt = Number(cursor.slice(separator + 1));
+  if (separator <= 0 || !Number.isFinite(issuedAt)) {
+    throw new InvalidCursorError(cursor, 'not a Google Drive change cursor');
+  }
+  return { pageToken: cursor.slice(0, separator), issuedAt };
+}
+
+/**
+ * Drive query for the search() filters it can express: name, MIME type, folders
+ * and modification time
+ */
+function buildSearchQuery(options: SearchOptions): string {
+  const terms = ['trashed=false'];
+  if (options.nameContains) {
+    terms.push(`name contains '${escapeQuery(options.nameContains)}'`);
+  }
+  if (options.mimeTypes?.length) {
+    const types = options.mimeTypes.map((type) => type.endsWith('/*')
+      ? `mimeType contains '${escapeQuery(type.slice(0, -1))}'`
+      : `mimeType='${escapeQuery(type)}'`);
+    terms.push(`(${types.join(' or ')})`);
+  } else if (!options.includeFolders || options.minSize !== undefined || options.maxSize !== undefined) {
+    terms.push(`mimeType!='${FOLDER_MIME_TYPE}'`);
+  }
+  if (options.modifiedAfter) {
+    terms.push(`modifiedTime>='${options.modifiedAfter.toISOString()}'`);
+  }
+  if (options.modifiedBefore) {
+    terms.push(`modifiedTime<'${options.modifiedBefore.toISOString()}'`);
+  }
+  return terms.join(' and ');
+}
+
+/**
+ * Escape a value for a single-quoted string in a Drive query
+ */
+function escapeQuery(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+/**
+ * Parse the Range header of a 308 response ("bytes=0-524287") into the number of bytes persisted
+ */
+function parseCommittedBytes(range: string | undefined): number {
+  const match = range ? /bytes=0-(\d+)/.exec(range) : null;
+  return match ? parseInt(match[1], 10) + 1 : 0;
+}
+
+/**
+ * Split a multipart/mixed batch response into the responses of its calls, indexed by
+ * the number in their Content-ID (<response-item-N>)
+ */
+function parseBatchResponse(text: string, contentType: string): DriveBatchResponse[] {
+  const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/.exec(contentType);
+  if (!boundary) {
+    throw new Error('Batch response has no multipart boundary');
+  }
+
+  const responses: DriveBatchResponse[] = [];
+  for (const part of text.split(`--${boundary[1] ?? boundary[2]}`)) {
+    const id = /Content-ID:\s*<response-item-(\d+)>/i.exec(part);
+    const status = /HTTP\/[\d.]+ (\d{3})/.exec(part);
+    if (!id || !status) continue;
+
+    // The body follows the blank line after the status line and its headers
+    const afterStatus = part.slice(status.index);
+    const bodyStart = afterStatus.search(/\r?\n\r?\n/);
+    const raw = bodyStart === -1 ? '' : afterStatus.slice(bodyStart).trim();
+    let body: DriveBatchResponse['body'] = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      body = { error: { message: raw } };
+    }
+    responses[Number(id[1])] = { status: Number(status[1]), body };
+  }
+  return responses;
+}
+
 /**
  * Factory function to create a GoogleDriveModule instance
  */
@@ -647,5 +2142,7 @@ export function createGoogleDriveModule(): GoogleDriveModule {
 
 export { GoogleDriveAuth, createGoogleDriveAuth } from './auth';
 export type { TokenData, AuthCallbacks, GoogleAuthConfig } from './auth';
+export { DatabasePathIndexStore, createDatabasePathIndexStore } from './path-index';
+export type { PathIndexStore, PathIndexEntry, DrivePathIndexRecord } from './path-index';
 
 export default GoogleDriveModule;
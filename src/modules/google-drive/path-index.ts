@@ -0,0 +1,223 @@
+/**
+ * Google Drive Path Index
+ * Maps virtual paths to Drive file IDs, so an operation does not have to walk the
+ * folder chain with one files.list request per path segment
+ */
+
+import { randomUUID } from 'crypto';
+import type { CrudServiceLike } from '../../services/file-metadata-service';
+
+/** A resolved path */
+export interface PathIndexEntry {
+  path: string;
+  fileId: string;
+  isFolder: boolean;
+}
+
+/**
+ * Persistence for the path index. The module keeps the whole index in memory and
+ * loads it from the store once, on initialize; changes are written through.
+ */
+export interface PathIndexStore {
+  /** Load every entry saved for a root folder */
+  load(rootId: string): Promise<PathIndexEntry[]>;
+  /** Insert or update entries (keyed by root folder and path) */
+  save(rootId: string, entries: PathIndexEntry[]): Promise<void>;
+  /** Delete entries by path */
+  delete(rootId: string, paths: string[]): Promise<void>;
+}
+
+/**
+ * Database record for the hazo_files_drive_index table
+ */
+export interface DrivePathIndexRecord extends Record<string, unknown> {
+  id: string;
+  root_id: string;
+  file_path: string;
+  /** Google Drive file ID */
+  file_id: string;
+  is_folder: number;
+  changed_at: string;
+}
+
+/**
+ * In-memory path index, written through to an optional store.
+ * Store failures are ignored: the index is a cache that Drive can always rebuild.
+ */
+export class DrivePathIndex {
+  private entries = new Map<string, PathIndexEntry>();
+  private pathsById = new Map<string, string>();
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly rootId: string,
+    private readonly store: PathIndexStore | null = null
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Load the saved entries from the store
+   */
+  async load(): Promise<void> {
+    if (!this.store) return;
+    try {
+      for (const entry of await this.store.load(this.rootId)) {
+        this.entries.set(entry.path, entry);
+        this.pathsById.set(entry.fileId, entry.path);
+      }
+    } catch {
+      // Start with an empty index
+    }
+  }
+
+  get(path: string): PathIndexEntry | undefined {
+    return this.entries.get(path);
+  }
+
+  /**
+   * Get the indexed path of a file ID
+   */
+  getPathById(fileId: string): string | undefined {
+    return this.pathsById.get(fileId);
+  }
+
+  set(entries: PathIndexEntry | PathIndexEntry[]): void {
+    const list = Array.isArray(entries) ? entries : [entries];
+    for (const entry of list) {
+      const previous = this.entries.get(entry.path);
+      if (previous && this.pathsById.get(previous.fileId) === entry.path) {
+        this.pathsById.delete(previous.fileId);
+      }
+      this.entries.set(entry.path, entry);
+      this.pathsById.set(entry.fileId, entry.path);
+    }
+
+    if (list.length > 0) {
+      this.persist((store) => store.save(this.rootId, list));
+    }
+  }
+
+  /**
+   * Remove a path and everything below it
+   */
+  remove(path: string): void {
+    const removed = this.takeTree(path);
+    if (removed.length > 0) {
+      this.persist((store) => store.delete(this.rootId, removed.map((entry) => entry.path)));
+    }
+  }
+
+  /**
+   * Move a path and everything below it to a new path
+   */
+  move(fromPath: string, toPath: string): void {
+    this.remove(toPath);
+    const taken = this.takeTree(fromPath);
+    if (taken.length > 0) {
+      this.persist((store) => store.delete(this.rootId, taken.map((entry) => entry.path)));
+    }
+    this.set(taken.map((entry) => ({
+      ...entry,
+      path: toPath + entry.path.slice(fromPath.length),
+    })));
+  }
+
+  clear(): void {
+    const removed = Array.from(this.entries.keys());
+    this.entries.clear();
+    this.pathsById.clear();
+    if (removed.length > 0) {
+      this.persist((store) => store.delete(this.rootId, removed));
+    }
+  }
+
+  /**
+   * Wait for pending store writes
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+  }
+
+  private takeTree(path: string): PathIndexEntry[] {
+    const prefix = path === '/' ? '/' : `${path}/`;
+    const taken: PathIndexEntry[] = [];
+    for (const [entryPath, entry] of Array.from(this.entries)) {
+      if (entryPath === path || entryPath.startsWith(prefix)) {
+        this.entries.delete(entryPath);
+        if (this.pathsById.get(entry.fileId) === entryPath) {
+          this.pathsById.delete(entry.fileId);
+        }
+        taken.push(entry);
+      }
+    }
+    return taken;
+  }
+
+  // Store writes run one at a time, in order
+  private persist(write: (store: PathIndexStore) => Promise<void>): void {
+    const store = this.store;
+    if (!store) return;
+    this.pending = this.pending.then(() => write(store)).catch(() => undefined);
+  }
+}
+
+/**
+ * Path index store backed by a hazo_connect CRUD service on the
+ * hazo_files_drive_index table (see HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA).
+ * Rows are keyed by root folder and path, so modules with different root folders
+ * can share the table.
+ */
+export class DatabasePathIndexStore implements PathIndexStore {
+  constructor(private readonly crud: CrudServiceLike<DrivePathIndexRecord>) {}
+
+  async load(rootId: string): Promise<PathIndexEntry[]> {
+    const records = await this.crud.findBy({ root_id: rootId });
+    return records.map((record) => ({
+      path: record.file_path,
+      fileId: record.file_id,
+      isFolder: Boolean(record.is_folder),
+    }));
+  }
+
+  async save(rootId: string, entries: PathIndexEntry[]): Promise<void> {
+    const changedAt = new Date().toISOString();
+    for (const entry of entries) {
+      const record = {
+        root_id: rootId,
+        file_path: entry.path,
+        file_id: entry.fileId,
+        is_folder: entry.isFolder ? 1 : 0,
+        changed_at: changedAt,
+      };
+
+      const existing = await this.crud.findOneBy({ root_id: rootId, file_path: entry.path });
+      if (existing) {
+        await this.crud.updateById(existing.id, record);
+      } else {
+        await this.crud.insert({ id: randomUUID(), ...record });
+      }
+    }
+  }
+
+  async delete(rootId: string, paths: string[]): Promise<void> {
+    for (const path of paths) {
+      const existing = await this.crud.findOneBy({ root_id: rootId, file_path: path });
+      if (existing) {
+        await this.crud.deleteById(existing.id);
+      }
+    }
+  }
+}
+
+/**
+ * Create a path index store on the hazo_files_drive_index table
+ * @param crudService - hazo_connect CRUD service for the table
+ */
+export function createDatabasePathIndexStore(
+  crudService: CrudServiceLike<DrivePathIndexRecord>
+): DatabasePathIndexStore {
+  return new DatabasePathIndexStore(crudService);
+}
@@ -7,6 +7,11 @@ import type { StorageModule, StorageProvider, HazoFilesConfig } from '../types';
 import { createLocalModule } from './local';
 import { createGoogleDriveModule } from './google-drive';
 import { createDropboxModule } from './dropbox';
+import { createS3Module } from './s3';
+import { createMemoryModule } from './memory';
+import { createSftpModule } from './sftp';
+import { createWebDavModule } from './webdav';
+import { createMountedModule } from './mount';
 import { ConfigurationError } from '../common/errors';
 
 /**
@@ -21,6 +26,11 @@ const moduleRegistry: Record<StorageProvider, ModuleFactory> = {
   local: createLocalModule,
   google_drive: createGoogleDriveModule,
   dropbox: createDropboxModule,
+  s3: createS3Module,
+  memory: createMemoryModule,
+  sftp: createSftpModule,
+  webdav: createWebDavModule,
+  mount: () => createMountedModule(),
 };
 
 /**
@@ -66,7 +76,52 @@ export function registerModule(provider: StorageProvider, factory: ModuleFactory
 
 // Export module classes and factories
 export { LocalStorageModule, createLocalModule } from './local';
-export { GoogleDriveModule, createGoogleDriveModule, GoogleDriveAuth, createGoogleDriveAuth } from './google-drive';
-export type { TokenData, AuthCallbacks, GoogleAuthConfig } from './google-drive';
+export {
+  GoogleDriveModule,
+  createGoogleDriveModule,
+  GoogleDriveAuth,
+  createGoogleDriveAuth,
+  DatabasePathIndexStore,
+  createDatabasePathIndexStore,
+} from './google-drive';
+export type {
+  TokenData,
+  AuthCallbacks,
+  GoogleAuthConfig,
+  ResolvePathsOptions,
+  PathIndexStore,
+  PathIndexEntry,
+  DrivePathIndexRecord,
+} from './google-drive';
 export { DropboxModule, createDropboxModule, DropboxAuth, createDropboxAuth } from './dropbox';
 export type { DropboxTokenData, DropboxAuthCallbacks, DropboxAuthConfig } from './dropbox';
+export { S3StorageModule, createS3Module } from './s3';
+export { MemoryStorageModule, createMemoryModule } from './memory';
+export { SftpStorageModule, createSftpModule } from './sftp';
+export { WebDavStorageModule, createWebDavModule } from './webdav';
+export { MirroredStorageModule, createMirroredModule } from './mirror';
+export { MountedStorageModule, createMountedModule } from './mount';
+export {
+  EncryptedStorageModule,
+  createEncryptedModule,
+  LocalKeyProvider,
+  createLocalKeyProvider,
+} from './encrypted';
+export type {
+  EncryptedStorageOptions,
+  KeyRotationOptions,
+  KeyRotationResult,
+  KeyProvider,
+  LocalKeyProviderOptions,
+} from './encrypted';
+export { CompressedStorageModule, createCompressedModule } from './compressed';
+export type { CompressedStorageOptions, CompressionAlgorithm, FileCategory } from './compressed';
+export { CachedStorageModule, createCachedModule } from './cached';
+export type { CachedStorageOptions, CacheStats } from './cached';
+export type {
+  MirroredStorageOptions,
+  MirrorWriteMode,
+  ReplicationOperation,
+  ReplicationTask,
+  ReplicationStatus,
+} from './mirror';
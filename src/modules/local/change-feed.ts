@@ -0,0 +1,439 @@
+/**
+ * Local Change Feed
+ * Records changes under the base directory with fs.watch, so that
+ * LocalStorageModule.getChanges() can return them by cursor. Where fs.watch can't
+ * watch recursively (Linux before Node.js 20), each folder gets its own watcher.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+
+import { InvalidCursorError } from '../../common/errors';
+import type { ChangesPage, FileChange, FileSystemItem } from '../../types';
+
+// Changes kept for cursors; older cursors expire
+const MAX_RETAINED_CHANGES = 10_000;
+// Changes returned per getChanges() call
+const PAGE_SIZE = 1000;
+// A deletion followed by the same inode appearing elsewhere within this window is a move
+const MOVE_WINDOW_MS = 2000;
+// Paths kept in the snapshot; changes to paths beyond it are reported without move detection
+const MAX_SNAPSHOT_ENTRIES = 50_000;
+
+/** What is known about a path, to tell moves and modifications apart */
+interface Snapshot {
+  ino: number;
+  isDirectory: boolean;
+  size: number;
+  mtimeMs: number;
+}
+
+interface RecordedChange {
+  seq: number;
+  change: FileChange;
+}
+
+interface RecentDeletion {
+  path: string;
+  seq: number;
+  at: number;
+  /** The deleted path and everything below it */
+  snapshots: Map<string, Snapshot>;
+}
+
+/**
+ * fs.watch only reports that a name changed. The feed keeps a snapshot (inode, size,
+ * modification time) of every path to turn those events into created, modified,
+ * deleted and moved changes: a path that appears with the inode of a path that
+ * disappeared is a move.
+ *
+ * The snapshot holds at most 50,000 paths, so large trees don't fill memory. Paths
+ * left out of it are still reported, but a move of one is a deletion and a creation,
+ * and a deletion may be reported for a file that only existed briefly.
+ */
+export class LocalChangeFeed {
+  private readonly id = randomBytes(6).toString('hex');
+  private running = false;
+  /** Watcher of the whole tree, where fs.watch supports `recursive` */
+  private recursiveWatcher: fs.FSWatcher | null = null;
+  /** Otherwise a watcher per folder, by virtual path */
+  private folderWatchers = new Map<string, fs.FSWatcher>();
+  private known = new Map<string, Snapshot>();
+  // Whether paths were left out of the snapshot because it was full
+  private snapshotFull = false;
+  private pathsByInode = new Map<number, string>();
+  private changes: RecordedChange[] = [];
+  private nextSeq = 1;
+  // Highest sequence number dropped from the retained changes
+  private trimmedThrough = 0;
+  // Highest sequence number handed out in a cursor
+  private readThrough = 0;
+  private recentDeletions = new Map<number, RecentDeletion>();
+  private processing: Promise<void> = Promise.resolve();
+  private failure: Error | null = null;
+
+  constructor(
+    private readonly basePath: string,
+    private readonly toItem: (fullPath: string, stats: fs.Stats) => Promise<FileSystemItem>,
+    private readonly ignore: (virtualPath: string) => boolean = () => false
+  ) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start watching. Events are handled in order, after the initial snapshot of the tree.
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      try {
+        this.recursiveWatcher = this.watch('/', true);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+        this.folderWatchers.set('/', this.watch('/', false));
+      }
+      // Folders are watched as the scan reaches them
+      this.processing = this.scan('/');
+      await this.processing;
+    } catch (error) {
+      this.stop();
+      this.processing = Promise.resolve();
+      throw error;
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+    this.recursiveWatcher?.close();
+    this.recursiveWatcher = null;
+    this.folderWatchers.forEach((watcher) => watcher.close());
+    this.folderWatchers.clear();
+  }
+
+  /**
+   * Cursor for the changes recorded so far
+   */
+  async currentCursor(): Promise<string> {
+    await this.processing;
+    this.readThrough = this.nextSeq - 1;
+    return this.encodeCursor(this.readThrough);
+  }
+
+  /**
+   * Changes recorded after a cursor
+   * @throws InvalidCursorError if the cursor is not from this feed or has expired
+   */
+  async read(cursor: string): Promise<ChangesPage> {
+    const after = this.decodeCursor(cursor);
+    await this.processing;
+
+    if (this.failure) {
+      throw new InvalidCursorError(cursor, `watching stopped (${this.failure.message})`);
+    }
+    if (after < this.trimmedThrough) {
+      throw new InvalidCursorError(cursor, 'changes after this cursor are no longer retained');
+    }
+
+    const pending = this.changes.filter((recorded) => recorded.seq > after);
+    const page = pending.slice(0, PAGE_SIZE);
+    const hasMore = pending.length > page.length;
+    const last = hasMore ? page[page.length - 1].seq : Math.max(after, this.nextSeq - 1);
+    this.readThrough = Math.max(this.readThrough, last);
+
+    return {
+      changes: page.map((recorded) => recorded.change),
+      cursor: this.encodeCursor(last),
+      hasMore,
+    };
+  }
+
+  // ============================================
+  // Event handling
+  // ============================================
+
+  private async handle(eventType: string, virtualPath: string): Promise<void> {
+    if (!this.running || this.ignore(virtualPath)) return;
+
+    const now = Date.now();
+    for (const [ino, deletion] of Array.from(this.recentDeletions)) {
+      if (now - deletion.at > MOVE_WINDOW_MS) this.recentDeletions.delete(ino);
+    }
+
+    const fullPath = this.toFullPath(virtualPath);
+    const stats = await fs.promises.lstat(fullPath).catch(() => null);
+    const previous = this.known.get(virtualPath);
+
+    if (!stats) {
+      this.unwatchFolder(virtualPath);
+      if (!previous) {
+        // A path left out of the snapshot may have existed before
+        if (this.snapshotFull) this.record({ type: 'deleted', path: virtualPath });
+        return;
+      }
+      const snapshots = this.forget(virtualPath);
+      const seq = this.record({ type: 'deleted', path: virtualPath });
+      this.recentDeletions.set(previous.ino, { path: virtualPath, seq, at: now, snapshots });
+      return;
+    }
+
+    const snapshot = toSnapshot(stats);
+    if (previous && previous.ino === snapshot.ino) {
+      // 'rename' events also repeat paths that are already known (e.g. the contents of a moved folder)
+      if (eventType === 'change' && !snapshot.isDirectory && changed(previous, snapshot)) {
+        this.remember(virtualPath, snapshot);
+        this.record({ type: 'modified', path: virtualPath, item: await this.toItem(fullPath, stats) });
+      }
+      return;
+    }
+
+    const source = await this.findMoveSource(virtualPath, snapshot);
+    if (source) {
+      for (const [sourcePath, sourceSnapshot] of source.snapshots) {
+        this.remember(virtualPath + sourcePath.slice(source.path.length), sourceSnapshot);
+      }
+      this.remember(virtualPath, snapshot);
+      if (snapshot.isDirectory) {
+        this.unwatchFolder(source.path);
+        await this.watchNewFolder(virtualPath, false);
+      }
+      this.record({
+        type: 'moved',
+        path: virtualPath,
+        previousPath: source.path,
+        item: await this.toItem(fullPath, stats),
+      });
+      return;
+    }
+
+    this.remember(virtualPath, snapshot);
+    this.record({
+      type: previous || (eventType === 'change' && this.snapshotFull) ? 'modified' : 'created',
+      path: virtualPath,
+      item: await this.toItem(fullPath, stats),
+    });
+    if (snapshot.isDirectory) {
+      await this.watchNewFolder(virtualPath, true);
+    }
+  }
+
+  /**
+   * Find the path a new path was moved from: a known path with the same inode that is
+   * gone from disk, or one deleted moments ago (events for the old and new name come
+   * in either order)
+   */
+  private async findMoveSource(
+    virtualPath: string,
+    snapshot: Snapshot
+  ): Promise<{ path: string; snapshots: Map<string, Snapshot> } | null> {
+    const knownPath = this.pathsByInode.get(snapshot.ino);
+    if (knownPath && knownPath !== virtualPath && sameFile(this.known.get(knownPath)!, snapshot)) {
+      const stillThere = await fs.promises.lstat(this.toFullPath(knownPath)).catch(() => null);
+      if (!stillThere || stillThere.ino !== snapshot.ino) {
+        return { path: knownPath, snapshots: this.forget(knownPath) };
+      }
+      return null; // A hard link
+    }
+
+    const deletion = this.recentDeletions.get(snapshot.ino);
+    const deleted = deletion?.snapshots.get(deletion.path);
+    if (deletion && deleted && sameFile(deleted, snapshot)) {
+      this.recentDeletions.delete(snapshot.ino);
+      this.changes = this.changes.filter((recorded) => recorded.seq !== deletion.seq);
+      return deletion;
+    }
+    return null;
+  }
+
+  private record(change: FileChange): number {
+    // A write right after a create (or another write) that nobody has read yet is one change
+    const previous = this.changes[this.changes.length - 1];
+    if (
+      change.type === 'modified' &&
+      previous &&
+      previous.seq > this.readThrough &&
+      previous.change.path === change.path &&
+      (previous.change.type === 'created' || previous.change.type === 'modified')
+    ) {
+      previous.change = { ...previous.change, item: change.item };
+      return previous.seq;
+    }
+
+    const seq = this.nextSeq++;
+    this.changes.push({ seq, change });
+    while (this.changes.length > MAX_RETAINED_CHANGES) {
+      this.trimmedThrough = this.changes.shift()!.seq;
+    }
+    return seq;
+  }
+
+  // ============================================
+  // Watchers
+  // ============================================
+
+  /**
+   * Watch a folder (or, recursively, the tree under it)
+   * @throws What fs.watch throws, e.g. when the system's watch limit is reached
+   */
+  private watch(virtualDir: string, recursive: boolean): fs.FSWatcher {
+    const watcher = fs.watch(this.toFullPath(virtualDir), { recursive }, (eventType, filename) => {
+      if (!filename) return;
+      const name = filename.toString().split(path.sep).join('/');
+      const virtualPath = virtualDir === '/' ? `/${name}` : `${virtualDir}/${name}`;
+      this.processing = this.processing.then(() => this.handle(eventType, virtualPath)).catch(() => undefined);
+    });
+    watcher.on('error', (error) => {
+      // A removed folder's watcher may fail; its parent reports the removal
+      if (virtualDir !== '/' && !fs.existsSync(this.toFullPath(virtualDir))) {
+        this.unwatchFolder(virtualDir);
+        return;
+      }
+      this.failure = error;
+      this.stop();
+    });
+    // Watching alone should not keep the process alive
+    watcher.unref();
+    return watcher;
+  }
+
+  /**
+   * Watch a folder that appeared, when folders are watched one by one
+   * @param created - Whether the folder is new, so what it already holds is reported as
+   *   created (nothing was watching it); the contents of a moved folder only get watchers
+   */
+  private async watchNewFolder(virtualDir: string, created: boolean): Promise<void> {
+    if (!this.running || this.recursiveWatcher || this.folderWatchers.has(virtualDir)) return;
+
+    try {
+      this.folderWatchers.set(virtualDir, this.watch(virtualDir, false));
+    } catch (error) {
+      // Gone again already; its parent reports that
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      this.failure = error as Error;
+      this.stop();
+      return;
+    }
+
+    const entries = await fs.promises.readdir(this.toFullPath(virtualDir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const virtualPath = `${virtualDir}/${entry.name}`;
+      if (this.ignore(virtualPath)) continue;
+      if (created) {
+        await this.handle('rename', virtualPath);
+      } else if (entry.isDirectory()) {
+        await this.watchNewFolder(virtualPath, false);
+      }
+    }
+  }
+
+  /**
+   * Close the watchers of a folder and the folders below it
+   */
+  private unwatchFolder(virtualDir: string): void {
+    const prefix = `${virtualDir}/`;
+    for (const [watchedPath, watcher] of Array.from(this.folderWatchers)) {
+      if (watchedPath === virtualDir || watchedPath.startsWith(prefix)) {
+        watcher.close();
+        this.folderWatchers.delete(watchedPath);
+      }
+    }
+  }
+
+  // ============================================
+  // Snapshots
+  // ============================================
+
+  /**
+   * Snapshot the tree under a folder, watching each folder when they are watched one by one
+   */
+  private async scan(virtualDir: string): Promise<void> {
+    const entries = await fs.promises.readdir(this.toFullPath(virtualDir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const virtualPath = virtualDir === '/' ? `/${entry.name}` : `${virtualDir}/${entry.name}`;
+      if (this.ignore(virtualPath)) continue;
+
+      // With a recursive watcher, nothing more is needed once the snapshot is full
+      if (this.snapshotFull && this.recursiveWatcher) return;
+
+      const stats = await fs.promises.lstat(this.toFullPath(virtualPath)).catch(() => null);
+      if (!stats) continue;
+      this.remember(virtualPath, toSnapshot(stats));
+      if (stats.isDirectory()) {
+        if (!this.recursiveWatcher) {
+          this.folderWatchers.set(virtualPath, this.watch(virtualPath, false));
+        }
+        await this.scan(virtualPath);
+      }
+    }
+  }
+
+  private remember(virtualPath: string, snapshot: Snapshot): void {
+    if (!this.known.has(virtualPath) && this.known.size >= MAX_SNAPSHOT_ENTRIES) {
+      this.snapshotFull = true;
+      return;
+    }
+    this.known.set(virtualPath, snapshot);
+    this.pathsByInode.set(snapshot.ino, virtualPath);
+  }
+
+  /**
+   * Forget a path and everything below it
+   * @returns The forgotten snapshots
+   */
+  private forget(virtualPath: string): Map<string, Snapshot> {
+    const prefix = `${virtualPath}/`;
+    const forgotten = new Map<string, Snapshot>();
+    for (const [knownPath, snapshot] of Array.from(this.known)) {
+      if (knownPath === virtualPath || knownPath.startsWith(prefix)) {
+        forgotten.set(knownPath, snapshot);
+        this.known.delete(knownPath);
+        if (this.pathsByInode.get(snapshot.ino) === knownPath) {
+          this.pathsByInode.delete(snapshot.ino);
+        }
+      }
+    }
+    return forgotten;
+  }
+
+  private toFullPath(virtualPath: string): string {
+    return path.join(this.basePath, virtualPath.slice(1));
+  }
+
+  private encodeCursor(seq: number): string {
+    return `local.${this.id}.${seq}`;
+  }
+
+  private decodeCursor(cursor: string): number {
+    const [kind, id, seq] = cursor.split('.');
+    if (kind !== 'local' || !/^\d+$/.test(seq ?? '')) {
+      throw new InvalidCursorError(cursor, 'not a local change cursor');
+    }
+    if (id !== this.id) {
+      throw new InvalidCursorError(cursor, 'cursor is from another process or an earlier watch; start over without a cursor');
+    }
+    return parseInt(seq, 10);
+  }
+}
+
+function toSnapshot(stats: fs.Stats): Snapshot {
+  return { ino: stats.ino, isDirectory: stats.isDirectory(), size: stats.size, mtimeMs: stats.mtimeMs };
+}
+
+function changed(previous: Snapshot, current: Snapshot): boolean {
+  return previous.size !== current.size || previous.mtimeMs !== current.mtimeMs;
+}
+
+/**
+ * A rename keeps the inode, size and modification time; a new file reusing a freed
+ * inode almost never matches all three
+ */
+function sameFile(previous: Snapshot, current: Snapshot): boolean {
+  if (previous.ino !== current.ino || previous.isDirectory !== current.isDirectory) {
+    return false;
+  }
+  return current.isDirectory || !changed(previous, current);
+}
@@ -5,11 +5,13 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { Readable } from 'stream';
+import { Readable, Transform } from 'stream';
 import { pipeline } from 'stream/promises';
+import { randomBytes } from 'crypto';
 
 import { BaseStorageModule } from '../../common/base-module';
 import {
+  HazoFilesError,
   FileNotFoundError,
   DirectoryNotFoundError,
   FileExistsError,
@@ -17,10 +19,18 @@ import {
   DirectoryNotEmptyError,
   FileTooLargeError,
   InvalidExtensionError,
+  InvalidRangeError,
+  InvalidPathError,
+  UploadSessionError,
+  InvalidCursorError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
 } from '../../common/errors';
 import { getMimeType } from '../../common/mime-types';
 import { getExtension } from '../../common/path-utils';
 import { generateId, createFileItem, createFolderItem } from '../../common/utils';
+import { resolveByteRange, emptyStream } from '../../common/stream-utils';
+import { LocalChangeFeed } from './change-feed';
 import type {
   StorageProvider,
   HazoFilesConfig,
@@ -31,16 +41,48 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  DeleteOptions,
   ListOptions,
+  UploadSession,
+  StartUploadOptions,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  VersioningConfig,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
 } from '../../types';
 
+// Hidden folder (never listed) holding part files of upload sessions
+const UPLOAD_TEMP_DIR = '.hazo_uploads';
+// Hidden folder (never listed) holding the versions of each file, in a folder named
+// after the file's path: .hazo_versions/<path>/<version id>
+const VERSIONS_DIR = '.hazo_versions';
+// Version IDs: archive time and a random suffix, so they sort by age
+const VERSION_ID_PATTERN = /^\d{13}-[0-9a-f]{8}$/;
+// Hidden folder (never listed) holding trashed files and folders, each renamed to its
+// trash ID, next to a <trash id>.json file describing where it came from
+const TRASH_DIR = '.hazo_trash';
+// Trash IDs: deletion time and a random suffix
+const TRASH_ID_PATTERN = /^\d{13}-[0-9a-f]{8}$/;
+// Folders at the root of the base path that hold the module's own data: never listed,
+// and their paths are rejected by every operation
+const RESERVED_DIRS = [UPLOAD_TEMP_DIR, VERSIONS_DIR, TRASH_DIR];
+
 export class LocalStorageModule extends BaseStorageModule {
   readonly provider: StorageProvider = 'local';
   private basePath: string = '';
   private allowedExtensions: string[] = [];
   private maxFileSize: number = 0;
+  private changeFeed: LocalChangeFeed | null = null;
+  private versioning: VersioningConfig = { enabled: false };
+  private trashRetentionDays = 30;
 
   async initialize(config: HazoFilesConfig): Promise<void> {
     await super.initialize(config);
@@ -51,6 +93,8 @@ export class LocalStorageModule extends BaseStorageModule {
       .map(ext => ext.trim().replace(/^\./, '').toLowerCase())
       .filter(ext => ext.length > 0);
     this.maxFileSize = localConfig.maxFileSize || 0;
+    this.versioning = localConfig.versioning ?? { enabled: false };
+    this.trashRetentionDays = localConfig.trash?.retentionDays ?? 30;
 
     // Ensure base directory exists
     await fs.promises.mkdir(this.basePath, { recursive: true });
@@ -58,13 +102,27 @@ export class LocalStorageModule extends BaseStorageModule {
 
   /**
    * Resolve a virtual path to an absolute file system path
+   * @throws InvalidPathError for paths in the reserved folders
    */
   private resolveFullPath(virtualPath: string): string {
     const normalized = this.normalizePath(virtualPath);
+    this.assertNotReserved(normalized);
     const relativePath = normalized.startsWith('/') ? normalized.slice(1) : normalized;
     return path.join(this.basePath, relativePath);
   }
 
+  /**
+   * Reject a path in one of the reserved folders (matched ignoring case, as file
+   * systems may)
+   * @throws InvalidPathError
+   */
+  private assertNotReserved(virtualPath: string): void {
+    const first = this.normalizePath(virtualPath).split('/')[1]?.toLowerCase();
+    if (first && RESERVED_DIRS.includes(first)) {
+      throw new InvalidPathError(virtualPath, `/${first} is reserved for the storage module's own data`);
+    }
+  }
+
   /**
    * Convert absolute path back to virtual path
    */
@@ -177,6 +235,7 @@ export class LocalStorageModule extends BaseStorageModule {
       }
 
       await fs.promises.rm(fullPath, { recursive, force: true });
+      await this.removeVersions(virtualPath);
       return this.successResult();
     } catch (error) {
       if (error instanceof DirectoryNotFoundError || error instanceof DirectoryNotEmptyError) {
@@ -193,7 +252,11 @@ export class LocalStorageModule extends BaseStorageModule {
   ): Promise<OperationResult<FileItem>> {
     this.ensureInitialized();
 
+    const { signal } = options;
+    let tempPath = '';
+
     try {
+      this.throwIfAborted(signal, remotePath);
       const fullPath = this.resolveFullPath(remotePath);
       const filename = path.basename(fullPath);
 
@@ -211,51 +274,88 @@ export class LocalStorageModule extends BaseStorageModule {
         }
       }
 
+      // Check the size before anything on disk changes (streams are also checked as they are written)
+      let sourceSize: number | undefined;
+      if (typeof source === 'string') {
+        sourceSize = (await fs.promises.stat(source)).size;
+      } else if (Buffer.isBuffer(source)) {
+        sourceSize = source.length;
+      }
+      const declaredSize = sourceSize ?? options.totalSize;
+      if (declaredSize !== undefined) {
+        this.validateFileSize(declaredSize, filename);
+      }
+
       // Ensure parent directory exists
       const parentDir = path.dirname(fullPath);
       await fs.promises.mkdir(parentDir, { recursive: true });
 
+      // Write next to the target and rename into place, so a failed upload never
+      // touches the file it would replace
+      tempPath = path.join(parentDir, `.${filename}.upload-${generateId()}`);
+
       if (typeof source === 'string') {
         // Source is a local file path
-        const stats = await fs.promises.stat(source);
-        this.validateFileSize(stats.size, filename);
-
-        if (options.onProgress) {
-          // Copy with progress
-          const totalBytes = stats.size;
+        if (options.onProgress || signal) {
+          // Copy with progress (streams can also be aborted, copyFile cannot)
+          const totalBytes = sourceSize!;
           let bytesTransferred = 0;
           const readStream = fs.createReadStream(source);
-          const writeStream = fs.createWriteStream(fullPath);
+          const writeStream = fs.createWriteStream(tempPath);
 
           readStream.on('data', (chunk) => {
             bytesTransferred += (chunk as Buffer).length;
             const progress = (bytesTransferred / totalBytes) * 100;
-            options.onProgress!(progress, bytesTransferred, totalBytes);
+            options.onProgress?.(progress, bytesTransferred, totalBytes);
           });
 
-          await pipeline(readStream, writeStream);
+          await pipeline(readStream, writeStream, { signal });
         } else {
-          await fs.promises.copyFile(source, fullPath);
+          await fs.promises.copyFile(source, tempPath);
         }
       } else if (Buffer.isBuffer(source)) {
         // Source is a Buffer
-        this.validateFileSize(source.length, filename);
-        await fs.promises.writeFile(fullPath, source);
+        await fs.promises.writeFile(tempPath, source, { signal });
         if (options.onProgress) {
           options.onProgress(100, source.length, source.length);
         }
       } else {
-        // Source is a ReadableStream
-        const writeStream = fs.createWriteStream(fullPath);
+        // Source is a ReadableStream; its size is only known as it is read
+        const writeStream = fs.createWriteStream(tempPath);
         const readable = Readable.fromWeb(source as import('stream/web').ReadableStream);
-        await pipeline(readable, writeStream);
+        let bytesReceived = 0;
+        const sizeLimit = new Transform({
+          transform: (chunk: Buffer, _encoding, callback) => {
+            bytesReceived += chunk.length;
+            try {
+              this.validateFileSize(bytesReceived, filename);
+              callback(null, chunk);
+            } catch (error) {
+              callback(error as Error);
+            }
+          },
+        });
+        await pipeline(readable, sizeLimit, writeStream, { signal });
+      }
+
+      if (options.overwrite && await this.keepVersion(fullPath, remotePath)) {
+        await this.pruneVersions(remotePath);
       }
+      await fs.promises.rename(tempPath, fullPath);
+      tempPath = '';
 
       const stats = await fs.promises.stat(fullPath);
       const item = await this.statToItem(fullPath, stats) as FileItem;
 
       return this.successResult(item);
     } catch (error) {
+      // Don't leave a partially written file behind
+      if (tempPath) {
+        await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+      }
+      if (this.isAbortError(error, signal)) {
+        return this.abortedResult(remotePath);
+      }
       if (
         error instanceof FileExistsError ||
         error instanceof FileTooLargeError ||
@@ -274,7 +374,10 @@ export class LocalStorageModule extends BaseStorageModule {
   ): Promise<OperationResult<Buffer | string>> {
     this.ensureInitialized();
 
+    const { signal } = options;
+
     try {
+      this.throwIfAborted(signal, remotePath);
       const fullPath = this.resolveFullPath(remotePath);
 
       const stats = await fs.promises.stat(fullPath).catch(() => null);
@@ -287,7 +390,7 @@ export class LocalStorageModule extends BaseStorageModule {
         const destDir = path.dirname(localPath);
         await fs.promises.mkdir(destDir, { recursive: true });
 
-        if (options.onProgress) {
+        if (options.onProgress || signal) {
           const totalBytes = stats.size;
           let bytesTransferred = 0;
           const readStream = fs.createReadStream(fullPath);
@@ -296,10 +399,15 @@ export class LocalStorageModule extends BaseStorageModule {
           readStream.on('data', (chunk) => {
             bytesTransferred += (chunk as Buffer).length;
             const progress = (bytesTransferred / totalBytes) * 100;
-            options.onProgress!(progress, bytesTransferred, totalBytes);
+            options.onProgress?.(progress, bytesTransferred, totalBytes);
           });
 
-          await pipeline(readStream, writeStream);
+          try {
+            await pipeline(readStream, writeStream, { signal });
+          } catch (error) {
+            await fs.promises.rm(localPath, { force: true }).catch(() => {});
+            throw error;
+          }
         } else {
           await fs.promises.copyFile(fullPath, localPath);
         }
@@ -307,13 +415,16 @@ export class LocalStorageModule extends BaseStorageModule {
         return this.successResult(localPath);
       } else {
         // Return buffer
-        const buffer = await fs.promises.readFile(fullPath);
+        const buffer = await fs.promises.readFile(fullPath, { signal });
         if (options.onProgress) {
           options.onProgress(100, buffer.length, buffer.length);
         }
         return this.successResult(buffer);
       }
     } catch (error) {
+      if (this.isAbortError(error, signal)) {
+        return this.abortedResult(remotePath);
+      }
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -321,6 +432,114 @@ export class LocalStorageModule extends BaseStorageModule {
     }
   }
 
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const fullPath = this.resolveFullPath(remotePath);
+
+      const stats = await fs.promises.stat(fullPath).catch(() => null);
+      if (!stats || stats.isDirectory()) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const range = resolveByteRange(remotePath, stats.size, options);
+      const stream = range.length > 0
+        ? fs.createReadStream(fullPath, { start: range.start, end: range.end })
+        : emptyStream();
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, stats.size, range, options));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (error instanceof FileNotFoundError || error instanceof InvalidRangeError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  protected getUploadTempDir(): string {
+    return path.join(this.basePath, UPLOAD_TEMP_DIR);
+  }
+
+  async startUpload(
+    remotePath: string,
+    options: StartUploadOptions = {}
+  ): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    try {
+      this.assertNotReserved(remotePath);
+      const filename = this.getBaseName(remotePath);
+      this.validateExtension(filename);
+      if (options.totalSize !== undefined) {
+        this.validateFileSize(options.totalSize, filename);
+      }
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+
+    return super.startUpload(remotePath, options);
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    try {
+      this.validateFileSize(session.bytesUploaded + chunk.length, this.getBaseName(session.remotePath));
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+
+    return super.uploadChunk(session, chunk);
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.assertUploadComplete(session);
+      const partPath = this.getPartPath(session);
+      const fullPath = this.resolveFullPath(session.remotePath);
+
+      const partStats = await fs.promises.stat(partPath).catch(() => null);
+      if (!partStats || partStats.size < session.bytesUploaded) {
+        throw new UploadSessionError(session.id, 'uploaded data is missing (expired or aborted)');
+      }
+      if (partStats.size > session.bytesUploaded) {
+        await fs.promises.truncate(partPath, session.bytesUploaded);
+      }
+
+      if (!session.overwrite) {
+        const existing = await fs.promises.stat(fullPath).catch(() => null);
+        if (existing) {
+          throw new FileExistsError(session.remotePath);
+        }
+      }
+
+      // The part file lives under basePath, so a rename moves it into place without copying
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      if (session.overwrite && await this.keepVersion(fullPath, session.remotePath)) {
+        await this.pruneVersions(session.remotePath);
+      }
+      await fs.promises.rename(partPath, fullPath);
+
+      const stats = await fs.promises.stat(fullPath);
+      return this.successResult(await this.statToItem(fullPath, stats) as FileItem);
+    } catch (error) {
+      if (error instanceof UploadSessionError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to complete upload: ${(error as Error).message}`);
+    }
+  }
+
   async moveItem(
     sourcePath: string,
     destinationPath: string,
@@ -329,6 +548,7 @@ export class LocalStorageModule extends BaseStorageModule {
     this.ensureInitialized();
 
     try {
+      this.throwIfAborted(options.signal, sourcePath);
       const sourceFullPath = this.resolveFullPath(sourcePath);
       const destFullPath = this.resolveFullPath(destinationPath);
 
@@ -349,13 +569,23 @@ export class LocalStorageModule extends BaseStorageModule {
       const destParent = path.dirname(destFullPath);
       await fs.promises.mkdir(destParent, { recursive: true });
 
+      const replacedVersion = options.overwrite && sourceStats.isFile()
+        ? await this.keepVersion(destFullPath, destinationPath)
+        : null;
       await fs.promises.rename(sourceFullPath, destFullPath);
+      await this.moveVersions(sourcePath, destinationPath);
+      if (replacedVersion) {
+        await this.pruneVersions(destinationPath);
+      }
 
       const newStats = await fs.promises.stat(destFullPath);
       const item = await this.statToItem(destFullPath, newStats);
 
       return this.successResult(item);
     } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
       if (error instanceof FileNotFoundError || error instanceof FileExistsError) {
         return this.errorResult(error.message);
       }
@@ -363,10 +593,63 @@ export class LocalStorageModule extends BaseStorageModule {
     }
   }
 
-  async deleteFile(virtualPath: string): Promise<OperationResult> {
+  /**
+   * Copy a file or folder with fs.cp (copy-on-write where the file system supports it),
+   * one file at a time for progress. Versions stay with the source.
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
     this.ensureInitialized();
 
     try {
+      const source = await this.prepareCopy(sourcePath, destinationPath, options);
+      const item = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        const destFullPath = this.resolveFullPath(target);
+        await fs.promises.mkdir(path.dirname(destFullPath), { recursive: true });
+        await this.copyEntry(this.resolveFullPath(source.path), destFullPath, copyOptions, this.createCopyTracker(copyOptions));
+        return this.statToItem(destFullPath, await fs.promises.stat(destFullPath));
+      });
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (error instanceof HazoFilesError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  private async copyEntry(
+    sourceFullPath: string,
+    destFullPath: string,
+    options: CopyOptions,
+    onCopied: (file: FileItem) => void
+  ): Promise<void> {
+    this.throwIfAborted(options.signal, sourceFullPath);
+
+    const stats = await fs.promises.stat(sourceFullPath);
+    if (!stats.isDirectory()) {
+      await fs.promises.cp(sourceFullPath, destFullPath, { errorOnExist: true, force: false, preserveTimestamps: true });
+      onCopied(await this.statToItem(destFullPath, await fs.promises.stat(destFullPath)) as FileItem);
+      return;
+    }
+
+    await fs.promises.mkdir(destFullPath);
+    for (const entry of await fs.promises.readdir(sourceFullPath)) {
+      await this.copyEntry(path.join(sourceFullPath, entry), path.join(destFullPath, entry), options, onCopied);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
       const fullPath = this.resolveFullPath(virtualPath);
 
       const stats = await fs.promises.stat(fullPath).catch(() => null);
@@ -378,8 +661,12 @@ export class LocalStorageModule extends BaseStorageModule {
       }
 
       await fs.promises.unlink(fullPath);
+      await this.removeVersions(virtualPath);
       return this.successResult();
     } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof FileNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -395,6 +682,7 @@ export class LocalStorageModule extends BaseStorageModule {
     this.ensureInitialized();
 
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       const fullPath = this.resolveFullPath(virtualPath);
 
       const stats = await fs.promises.stat(fullPath).catch(() => null);
@@ -406,6 +694,7 @@ export class LocalStorageModule extends BaseStorageModule {
 
       const parentDir = path.dirname(fullPath);
       const newFullPath = path.join(parentDir, newName);
+      this.assertNotReserved(this.toVirtualPath(newFullPath));
 
       // Check if destination exists
       if (!options.overwrite) {
@@ -415,13 +704,22 @@ export class LocalStorageModule extends BaseStorageModule {
         }
       }
 
+      const newVirtualPath = this.toVirtualPath(newFullPath);
+      const replacedVersion = options.overwrite ? await this.keepVersion(newFullPath, newVirtualPath) : null;
       await fs.promises.rename(fullPath, newFullPath);
+      await this.moveVersions(virtualPath, newVirtualPath);
+      if (replacedVersion) {
+        await this.pruneVersions(newVirtualPath);
+      }
 
       const newStats = await fs.promises.stat(newFullPath);
       const item = await this.statToItem(newFullPath, newStats) as FileItem;
 
       return this.successResult(item);
     } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (
         error instanceof FileNotFoundError ||
         error instanceof FileExistsError ||
@@ -441,6 +739,7 @@ export class LocalStorageModule extends BaseStorageModule {
     this.ensureInitialized();
 
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       const fullPath = this.resolveFullPath(virtualPath);
 
       const stats = await fs.promises.stat(fullPath).catch(() => null);
@@ -450,6 +749,7 @@ export class LocalStorageModule extends BaseStorageModule {
 
       const parentDir = path.dirname(fullPath);
       const newFullPath = path.join(parentDir, newName);
+      this.assertNotReserved(this.toVirtualPath(newFullPath));
 
       // Check if destination exists
       if (!options.overwrite) {
@@ -460,12 +760,16 @@ export class LocalStorageModule extends BaseStorageModule {
       }
 
       await fs.promises.rename(fullPath, newFullPath);
+      await this.moveVersions(virtualPath, this.toVirtualPath(newFullPath));
 
       const newStats = await fs.promises.stat(newFullPath);
       const item = await this.statToItem(newFullPath, newStats) as FolderItem;
 
       return this.successResult(item);
     } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof DirectoryNotFoundError || error instanceof DirectoryExistsError) {
         return this.errorResult(error.message);
       }
@@ -480,6 +784,7 @@ export class LocalStorageModule extends BaseStorageModule {
     this.ensureInitialized();
 
     try {
+      this.throwIfAborted(options.signal, virtualPath);
       const fullPath = this.resolveFullPath(virtualPath);
 
       const stats = await fs.promises.stat(fullPath).catch(() => null);
@@ -491,10 +796,15 @@ export class LocalStorageModule extends BaseStorageModule {
       const items: FileSystemItem[] = [];
 
       for (const entry of entries) {
+        this.throwIfAborted(options.signal, virtualPath);
+
         // Skip hidden files unless explicitly included
         if (!options.includeHidden && entry.name.startsWith('.')) {
           continue;
         }
+        if (fullPath === this.basePath && RESERVED_DIRS.includes(entry.name.toLowerCase())) {
+          continue;
+        }
 
         const entryPath = path.join(fullPath, entry.name);
         const entryStats = await fs.promises.stat(entryPath);
@@ -519,6 +829,8 @@ export class LocalStorageModule extends BaseStorageModule {
         }
       }
 
+      this.throwIfAborted(options.signal, virtualPath);
+
       // Sort: folders first, then alphabetically
       items.sort((a, b) => {
         if (a.isDirectory && !b.isDirectory) return -1;
@@ -528,6 +840,9 @@ export class LocalStorageModule extends BaseStorageModule {
 
       return this.successResult(items);
     } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
       if (error instanceof DirectoryNotFoundError) {
         return this.errorResult(error.message);
       }
@@ -556,6 +871,344 @@ export class LocalStorageModule extends BaseStorageModule {
     }
   }
 
+  /**
+   * Get changes under the base directory since a cursor. Changes are recorded by
+   * watching the directory, which starts with the first call (without a cursor), so
+   * cursors are only valid in this process and expire after 10,000 newer changes.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal);
+      if (!this.changeFeed?.isRunning) {
+        this.changeFeed = new LocalChangeFeed(
+          this.basePath,
+          (fullPath, stats) => this.statToItem(fullPath, stats),
+          (virtualPath) => RESERVED_DIRS.includes(virtualPath.split('/')[1].toLowerCase())
+        );
+        await this.changeFeed.start();
+      }
+
+      if (!cursor) {
+        return this.successResult({ changes: [], cursor: await this.changeFeed.currentCursor(), hasMore: false });
+      }
+      return this.successResult(await this.changeFeed.read(cursor));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult();
+      }
+      if (error instanceof InvalidCursorError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to get changes: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Stop watching the base directory for getChanges()
+   */
+  stopWatching(): void {
+    this.changeFeed?.stop();
+    this.changeFeed = null;
+  }
+
+  // ============ Versions ============
+
+  /**
+   * Folder holding the versions of a file (and of the files below a folder)
+   */
+  private getVersionsDir(virtualPath: string): string {
+    return path.join(this.basePath, VERSIONS_DIR, this.normalizePath(virtualPath).slice(1));
+  }
+
+  /**
+   * With versioning, copy the current content of a file into the versions area
+   * before it is replaced. Call pruneVersions() once the new content is in place.
+   * @returns Path of the version, or null if no version was kept
+   */
+  private async keepVersion(fullPath: string, virtualPath: string): Promise<string | null> {
+    if (!this.versioning.enabled) return null;
+
+    const stats = await fs.promises.stat(fullPath).catch(() => null);
+    if (!stats || !stats.isFile()) return null;
+
+    const versionsDir = this.getVersionsDir(virtualPath);
+    await fs.promises.mkdir(versionsDir, { recursive: true });
+    const versionPath = path.join(versionsDir, `${Date.now()}-${randomBytes(4).toString('hex')}`);
+    await fs.promises.copyFile(fullPath, versionPath);
+    // The version's modification time is when its content was written
+    await fs.promises.utimes(versionPath, stats.atime, stats.mtime);
+    return versionPath;
+  }
+
+  /**
+   * Remove the versions of a file that the retention config no longer keeps
+   */
+  private async pruneVersions(virtualPath: string): Promise<void> {
+    for (const version of this.expiredVersions(await this.readVersions(virtualPath), this.versioning)) {
+      await fs.promises.rm(path.join(this.getVersionsDir(virtualPath), version.id), { force: true }).catch(() => {});
+    }
+  }
+
+  /**
+   * Versions of a file, newest first
+   */
+  private async readVersions(virtualPath: string): Promise<FileVersion[]> {
+    const versionsDir = this.getVersionsDir(virtualPath);
+    const entries = await fs.promises.readdir(versionsDir, { withFileTypes: true }).catch(() => []);
+    const versions: FileVersion[] = [];
+    for (const entry of entries) {
+      if (!entry.isFile() || !VERSION_ID_PATTERN.test(entry.name)) continue;
+      const stats = await fs.promises.stat(path.join(versionsDir, entry.name)).catch(() => null);
+      if (stats) {
+        versions.push({ id: entry.name, path: this.normalizePath(virtualPath), size: stats.size, modifiedAt: stats.mtime });
+      }
+    }
+    return versions.sort((a, b) => (a.id < b.id ? 1 : -1));
+  }
+
+  /**
+   * Move the versions of a file or folder along with it (failures are ignored)
+   */
+  private async moveVersions(fromPath: string, toPath: string): Promise<void> {
+    const from = this.getVersionsDir(fromPath);
+    const to = this.getVersionsDir(toPath);
+    try {
+      if (!(await fs.promises.stat(from).catch(() => null))) return;
+      await fs.promises.mkdir(path.dirname(to), { recursive: true });
+      if (!(await fs.promises.stat(to).catch(() => null))) {
+        await fs.promises.rename(from, to);
+        return;
+      }
+      // The destination replaced a file that has versions of its own: merge them
+      for (const entry of await fs.promises.readdir(from)) {
+        await fs.promises.rename(path.join(from, entry), path.join(to, entry)).catch(() => {});
+      }
+      await fs.promises.rm(from, { recursive: true, force: true });
+    } catch {
+      // The versions stay at the old path
+    }
+  }
+
+  private async removeVersions(virtualPath: string): Promise<void> {
+    await fs.promises.rm(this.getVersionsDir(virtualPath), { recursive: true, force: true }).catch(() => {});
+  }
+
+  /**
+   * Path of a stored version
+   * @throws VersionNotFoundError
+   */
+  private async resolveVersionPath(virtualPath: string, versionId: string): Promise<string> {
+    // The pattern also keeps version IDs from pointing outside the versions folder
+    const versionPath = path.join(this.getVersionsDir(virtualPath), versionId);
+    const stats = VERSION_ID_PATTERN.test(versionId)
+      ? await fs.promises.stat(versionPath).catch(() => null)
+      : null;
+    if (!stats || !stats.isFile()) {
+      throw new VersionNotFoundError(virtualPath, versionId);
+    }
+    return versionPath;
+  }
+
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+
+    try {
+      const stats = await fs.promises.stat(this.resolveFullPath(virtualPath)).catch(() => null);
+      if (!stats || stats.isDirectory()) {
+        throw new FileNotFoundError(virtualPath);
+      }
+      return this.successResult(await this.readVersions(virtualPath));
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to list versions: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+
+    try {
+      const versionPath = await this.resolveVersionPath(virtualPath, versionId);
+      return this.successResult(await fs.promises.readFile(versionPath));
+    } catch (error) {
+      if (error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download version: ${(error as Error).message}`);
+    }
+  }
+
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const fullPath = this.resolveFullPath(virtualPath);
+      const stats = await fs.promises.stat(fullPath).catch(() => null);
+      if (!stats || stats.isDirectory()) {
+        throw new FileNotFoundError(virtualPath);
+      }
+      const versionPath = await this.resolveVersionPath(virtualPath, versionId);
+
+      await this.keepVersion(fullPath, virtualPath);
+      await fs.promises.copyFile(versionPath, fullPath);
+      await this.pruneVersions(virtualPath);
+
+      const restored = await fs.promises.stat(fullPath);
+      return this.successResult(await this.statToItem(fullPath, restored) as FileItem);
+    } catch (error) {
+      if (error instanceof FileNotFoundError || error instanceof VersionNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to restore version: ${(error as Error).message}`);
+    }
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Path of a trashed item (its description is next to it, with a .json extension)
+   * @throws TrashItemNotFoundError for IDs that can't be trash IDs
+   */
+  private getTrashPath(trashId: string): string {
+    // The pattern also keeps trash IDs from pointing outside the trash folder
+    if (!TRASH_ID_PATTERN.test(trashId)) {
+      throw new TrashItemNotFoundError(trashId);
+    }
+    return path.join(this.basePath, TRASH_DIR, trashId);
+  }
+
+  /**
+   * Virtual path the versions of a trashed item are kept under
+   */
+  private getTrashVersionsPath(trashId: string): string {
+    return `/${TRASH_DIR}/${trashId}`;
+  }
+
+  private async readTrashItem(trashId: string): Promise<TrashItem> {
+    const trashPath = this.getTrashPath(trashId);
+    try {
+      const info = JSON.parse(await fs.promises.readFile(`${trashPath}.json`, 'utf-8'));
+      await fs.promises.stat(trashPath);
+      return { ...info, id: trashId, deletedAt: new Date(info.deletedAt) };
+    } catch {
+      throw new TrashItemNotFoundError(trashId);
+    }
+  }
+
+  /**
+   * Move a file or folder (with its versions) into the hidden trash folder
+   */
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      const fullPath = this.resolveFullPath(normalized);
+      const stats = normalized === '/' ? null : await fs.promises.stat(fullPath).catch(() => null);
+      if (!stats) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const item: TrashItem = {
+        id: `${Date.now()}-${randomBytes(4).toString('hex')}`,
+        name: path.basename(fullPath),
+        originalPath: normalized,
+        isDirectory: stats.isDirectory(),
+        size: stats.isDirectory() ? undefined : stats.size,
+        deletedAt: new Date(),
+      };
+      const trashPath = this.getTrashPath(item.id);
+
+      await fs.promises.mkdir(path.dirname(trashPath), { recursive: true });
+      await fs.promises.rename(fullPath, trashPath);
+      try {
+        await fs.promises.writeFile(`${trashPath}.json`, JSON.stringify(item));
+      } catch (error) {
+        await fs.promises.rename(trashPath, fullPath).catch(() => {});
+        throw error;
+      }
+      await this.moveVersions(normalized, this.getTrashVersionsPath(item.id));
+
+      return this.successResult(item);
+    } catch (error) {
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to move to trash: ${(error as Error).message}`);
+    }
+  }
+
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      const entries = await fs.promises.readdir(path.join(this.basePath, TRASH_DIR)).catch(() => [] as string[]);
+      const items: TrashItem[] = [];
+      for (const entry of entries) {
+        const trashId = entry.replace(/\.json$/, '');
+        if (trashId === entry || !TRASH_ID_PATTERN.test(trashId)) continue;
+        const item = await this.readTrashItem(trashId).catch(() => null);
+        if (item) items.push(item);
+      }
+      return this.successResult(items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+    } catch (error) {
+      return this.errorResult(`Failed to list trash: ${(error as Error).message}`);
+    }
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const item = await this.readTrashItem(trashId);
+      const destination = await this.resolveRestorePath(options.path ?? item.originalPath, options);
+      const fullPath = this.resolveFullPath(destination);
+      const trashPath = this.getTrashPath(trashId);
+
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.rename(trashPath, fullPath);
+      await fs.promises.rm(`${trashPath}.json`, { force: true });
+      await this.moveVersions(this.getTrashVersionsPath(trashId), destination);
+
+      const stats = await fs.promises.stat(fullPath);
+      return this.successResult(await this.statToItem(fullPath, stats));
+    } catch (error) {
+      if (error instanceof TrashItemNotFoundError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to restore from trash: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Permanently delete trashed items: by default those older than `trash.retentionDays`
+   */
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      const listing = await this.listTrash();
+      const purged: TrashItem[] = [];
+      for (const item of this.trashToPurge(listing.data ?? [], options, this.trashRetentionDays)) {
+        const trashPath = this.getTrashPath(item.id);
+        await fs.promises.rm(trashPath, { recursive: true, force: true });
+        await fs.promises.rm(`${trashPath}.json`, { force: true });
+        await this.removeVersions(this.getTrashVersionsPath(item.id));
+        purged.push(item);
+      }
+      return this.successResult(purged);
+    } catch (error) {
+      return this.errorResult(`Failed to purge trash: ${(error as Error).message}`);
+    }
+  }
+
   async exists(virtualPath: string): Promise<boolean> {
     this.ensureInitialized();
 
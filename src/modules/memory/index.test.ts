@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { promises as fsp } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Readable } from 'stream';
+
+import { MemoryStorageModule } from './index';
+import type { HazoFilesConfig, SearchOptions, UploadSession } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'memory' };
+const content = Buffer.from('0123456789abcdefghij');
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString();
+}
+
+describe('MemoryStorageModule files and folders', () => {
+  let storage: MemoryStorageModule;
+
+  const read = async (path: string) => ((await storage.downloadFile(path)).data as Buffer | undefined)?.toString();
+  const list = async (path: string, options = {}) =>
+    (await storage.listDirectory(path, options)).data?.map((item) => item.path);
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    await storage.initialize(config);
+    await storage.uploadFile(Buffer.from('a'), '/docs/a.txt');
+    await storage.uploadFile(Buffer.from('b'), '/docs/sub/b.txt');
+    await storage.uploadFile(Buffer.from('hidden'), '/docs/.hidden');
+  });
+
+  describe('listing', () => {
+    it('lists folders first, then files by name, creating missing parents on upload', async () => {
+      expect(await list('/')).toEqual(['/docs']);
+      expect(await list('/docs')).toEqual(['/docs/sub', '/docs/a.txt']);
+      expect(await list('/docs', { includeHidden: true })).toEqual(['/docs/sub', '/docs/.hidden', '/docs/a.txt']);
+      expect(await list('/docs', { recursive: true })).toEqual(['/docs/sub', '/docs/a.txt', '/docs/sub/b.txt']);
+    });
+
+    it('fails for missing folders and for files', async () => {
+      expect(await storage.listDirectory('/missing')).toEqual({ success: false, error: 'Directory not found: /missing' });
+      expect((await storage.listDirectory('/docs/a.txt')).error).toBe('Directory not found: /docs/a.txt');
+      expect((await storage.getItem('/missing')).success).toBe(false);
+      expect((await storage.removeDirectory('/missing')).error).toBe('Directory not found: /missing');
+      expect((await storage.deleteFile('/docs/sub')).error).toBe('File not found: /docs/sub');
+    });
+
+    it('does not upload below a file', async () => {
+      const result = await storage.uploadFile(Buffer.from('c'), '/docs/a.txt/c.txt');
+
+      expect(result.error).toBe('File already exists: /docs/a.txt');
+      expect(await list('/docs')).toEqual(['/docs/sub', '/docs/a.txt']);
+    });
+
+    it('removes only empty folders unless recursive', async () => {
+      expect((await storage.removeDirectory('/docs')).error).toBe('Directory is not empty: /docs');
+
+      expect((await storage.removeDirectory('/docs', true)).success).toBe(true);
+      expect(await storage.exists('/docs/sub/b.txt')).toBe(false);
+      expect(await list('/')).toEqual([]);
+    });
+  });
+
+  describe('overwrite and exists', () => {
+    it('keeps an existing file unless overwrite is set', async () => {
+      const original = (await storage.getItem('/docs/a.txt')).data!;
+
+      expect((await storage.uploadFile(Buffer.from('new'), '/docs/a.txt')).error).toBe('File already exists: /docs/a.txt');
+      expect(await read('/docs/a.txt')).toBe('a');
+
+      const replaced = await storage.uploadFile(Buffer.from('new'), '/docs/a.txt', { overwrite: true });
+      expect(replaced.data).toMatchObject({ id: original.id, size: 3 });
+      expect(await read('/docs/a.txt')).toBe('new');
+    });
+
+    it('never replaces a folder with a file or a file with a folder', async () => {
+      expect((await storage.uploadFile(Buffer.from('x'), '/docs/sub', { overwrite: true })).error).toBe(
+        'File already exists: /docs/sub'
+      );
+      expect((await storage.createDirectory('/docs/sub')).error).toBe('Directory already exists: /docs/sub');
+      expect((await storage.createDirectory('/docs/a.txt')).error).toBe('File already exists: /docs/a.txt');
+    });
+
+    it('reports files and folders as existing, normalizing the path', async () => {
+      expect(await storage.exists('/docs/a.txt')).toBe(true);
+      expect(await storage.exists('docs/sub/')).toBe(true);
+      expect(await storage.exists('/')).toBe(true);
+      expect(await storage.exists('/docs/missing.txt')).toBe(false);
+
+      await storage.deleteFile('/docs/a.txt');
+      expect(await storage.exists('/docs/a.txt')).toBe(false);
+    });
+
+    it('stores a copy of the uploaded buffer', async () => {
+      const buffer = Buffer.from('abc');
+      await storage.uploadFile(buffer, '/c.txt');
+      buffer.write('xyz');
+
+      expect(await read('/c.txt')).toBe('abc');
+    });
+  });
+
+  describe('moving and copying folders', () => {
+    it('moves a folder with everything below it', async () => {
+      const result = await storage.moveItem('/docs', '/archive/docs');
+
+      expect(result.data).toMatchObject({ path: '/archive/docs', isDirectory: true });
+      expect(await storage.exists('/docs')).toBe(false);
+      expect(await list('/archive/docs', { recursive: true, includeHidden: true })).toEqual([
+        '/archive/docs/sub',
+        '/archive/docs/.hidden',
+        '/archive/docs/a.txt',
+        '/archive/docs/sub/b.txt',
+      ]);
+      expect(await read('/archive/docs/sub/b.txt')).toBe('b');
+    });
+
+    it('does not move a folder into itself or over an existing item without overwrite', async () => {
+      expect((await storage.moveItem('/docs', '/docs/sub/docs')).error).toMatch(/into itself/);
+      await storage.createDirectory('/other');
+      expect((await storage.moveItem('/docs', '/other')).error).toBe('File already exists: /other');
+      expect((await storage.moveItem('/missing', '/other/missing')).error).toBe('File not found: /missing');
+      expect(await storage.exists('/docs/sub/b.txt')).toBe(true);
+    });
+
+    it('replaces the contents of the destination when moving with overwrite', async () => {
+      await storage.uploadFile(Buffer.from('old'), '/other/old.txt');
+
+      await storage.moveItem('/docs/sub', '/other', { overwrite: true });
+      expect(await list('/other')).toEqual(['/other/b.txt']);
+    });
+
+    it('copies a folder with everything below it, leaving the source in place', async () => {
+      expect((await storage.copyItem('/docs', '/copy')).error).toBe('Directory is not empty: /docs');
+
+      const result = await storage.copyItem('/docs', '/copy', { recursive: true });
+
+      expect(result.data).toMatchObject({ path: '/copy', isDirectory: true });
+      expect(await list('/copy', { recursive: true })).toEqual(['/copy/sub', '/copy/a.txt', '/copy/sub/b.txt']);
+      expect(await read('/docs/sub/b.txt')).toBe('b');
+
+      // The copies are separate files
+      await storage.uploadFile(Buffer.from('changed'), '/copy/a.txt', { overwrite: true });
+      expect(await read('/docs/a.txt')).toBe('a');
+      const ids = await Promise.all(['/copy/sub/b.txt', '/docs/sub/b.txt'].map((path) => storage.getItem(path)));
+      expect(ids[0].data!.id).not.toBe(ids[1].data!.id);
+    });
+
+    it('does not copy over an existing item without overwrite', async () => {
+      await storage.createDirectory('/copy');
+
+      expect((await storage.copyItem('/docs', '/copy', { recursive: true })).error).toBe('File already exists: /copy');
+      expect(await list('/copy')).toEqual([]);
+    });
+  });
+});
+
+describe('MemoryStorageModule byte ranges', () => {
+  let storage: MemoryStorageModule;
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    await storage.initialize(config);
+    await storage.uploadFile(content, '/file.txt');
+  });
+
+  it('streams the whole file without a range', async () => {
+    const result = await storage.downloadStream('/file.txt');
+
+    expect(result.data).toMatchObject({ size: 20, start: 0, end: 19, contentLength: 20, mimeType: 'text/plain' });
+    expect(await readAll(result.data!.stream)).toBe(content.toString());
+  });
+
+  it('streams an inclusive range', async () => {
+    const result = await storage.downloadStream('/file.txt', { start: 5, end: 9 });
+
+    expect(result.data).toMatchObject({ size: 20, start: 5, end: 9, contentLength: 5 });
+    expect(await readAll(result.data!.stream)).toBe('56789');
+  });
+
+  it('reads open-ended ranges to the end and clamps an end past it', async () => {
+    const fromStart = await storage.downloadStream('/file.txt', { start: 15 });
+    expect(await readAll(fromStart.data!.stream)).toBe('fghij');
+
+    const clamped = await storage.downloadStream('/file.txt', { start: 18, end: 100 });
+    expect(clamped.data).toMatchObject({ start: 18, end: 19, contentLength: 2 });
+    expect(await readAll(clamped.data!.stream)).toBe('ij');
+
+    const toEnd = await storage.downloadStream('/file.txt', { end: 2 });
+    expect(await readAll(toEnd.data!.stream)).toBe('012');
+  });
+
+  it('rejects ranges that cannot be satisfied', async () => {
+    for (const range of [{ start: 20 }, { start: 5, end: 4 }, { start: -1 }, { start: 1.5 }]) {
+      const result = await storage.downloadStream('/file.txt', range);
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/range/i);
+    }
+  });
+
+  it('streams an empty file', async () => {
+    await storage.uploadFile(Buffer.alloc(0), '/empty.txt');
+
+    const result = await storage.downloadStream('/empty.txt');
+    expect(result.data).toMatchObject({ size: 0, start: 0, end: -1, contentLength: 0 });
+    expect(await readAll(result.data!.stream)).toBe('');
+  });
+
+  it('serves ranges as web streams', async () => {
+    const result = await storage.downloadWebStream('/file.txt', { start: 10, end: 12 });
+
+    expect(result.data).toMatchObject({ start: 10, end: 12, contentLength: 3 });
+    expect(await new Response(result.data!.stream).text()).toBe('abc');
+  });
+
+  it('fails for missing files and folders', async () => {
+    await storage.createDirectory('/folder');
+
+    expect((await storage.downloadStream('/missing.txt', { start: 0 })).success).toBe(false);
+    expect((await storage.downloadStream('/folder')).success).toBe(false);
+  });
+});
+
+describe('MemoryStorageModule search cursors', () => {
+  let storage: MemoryStorageModule;
+
+  async function searchAll(options: SearchOptions): Promise<{ paths: string[]; pages: number }> {
+    const paths: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const result = await storage.search({ ...options, cursor });
+      expect(result.success).toBe(true);
+      paths.push(...result.data!.items.map((item) => item.path));
+      expect(result.data!.hasMore).toBe(!!result.data!.cursor);
+      cursor = result.data!.cursor;
+      pages++;
+    } while (cursor);
+    return { paths, pages };
+  }
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    await storage.initialize(config);
+    for (const path of ['/a.pdf', '/b.txt', '/docs/c.pdf', '/docs/d.pdf', '/docs/old/e.pdf', '/z.pdf']) {
+      await storage.uploadFile(Buffer.from(path), path);
+    }
+  });
+
+  it('pages through every match once, in walk order', async () => {
+    const single = await searchAll({ glob: '*.pdf', limit: 100 });
+    const paged = await searchAll({ glob: '*.pdf', limit: 2 });
+
+    expect(single.paths).toEqual(['/a.pdf', '/docs/c.pdf', '/docs/d.pdf', '/docs/old/e.pdf', '/z.pdf']);
+    expect(paged.paths).toEqual(single.paths);
+    expect(paged.pages).toBe(3);
+  });
+
+  it('continues after the cursor when items change between pages', async () => {
+    const first = await storage.search({ glob: '*.pdf', limit: 2 });
+    expect(first.data!.items.map((item) => item.path)).toEqual(['/a.pdf', '/docs/c.pdf']);
+
+    // Added before the cursor, and the cursor's own item removed
+    await storage.uploadFile(Buffer.from('new'), '/docs/b.pdf');
+    await storage.deleteFile('/docs/c.pdf');
+
+    const next = await storage.search({ glob: '*.pdf', limit: 2, cursor: first.data!.cursor });
+    expect(next.data!.items.map((item) => item.path)).toEqual(['/docs/d.pdf', '/docs/old/e.pdf']);
+  });
+
+  it('rejects cursors it did not make', async () => {
+    const result = await storage.search({ cursor: 'not-a-cursor' });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Invalid search cursor/);
+  });
+});
+
+describe('MemoryStorageModule upload sessions', () => {
+  let storage: MemoryStorageModule;
+  let session: UploadSession;
+
+  const read = async (path: string) => ((await storage.downloadFile(path)).data as Buffer).toString();
+
+  beforeEach(async () => {
+    storage = new MemoryStorageModule();
+    await storage.initialize(config);
+    session = (await storage.startUpload('/upload.txt')).data!;
+  });
+
+  it('runs appends to a session one at a time, in order', async () => {
+    const first = storage.uploadChunk(session, Buffer.from('hello '));
+    // Sent before the first append finished, with the session it will return
+    const second = storage.uploadChunk({ ...session, bytesUploaded: 6 }, Buffer.from('world'));
+    const completed = storage.completeUpload({ ...session, bytesUploaded: 11 });
+
+    expect((await first).data?.bytesUploaded).toBe(6);
+    expect((await second).data?.bytesUploaded).toBe(11);
+    expect((await completed).success).toBe(true);
+    expect(await read('/upload.txt')).toBe('hello world');
+  });
+
+  it('expires sessions after a day', async () => {
+    const expiresAt = Date.parse(session.expiresAt!);
+    expect(expiresAt - Date.parse(session.createdAt)).toBe(24 * 60 * 60 * 1000);
+
+    const expired = { ...session, expiresAt: new Date(Date.now() - 1).toISOString() };
+    expect((await storage.uploadChunk(expired, Buffer.from('late'))).error).toMatch(/session expired/);
+    expect((await storage.completeUpload(expired)).error).toMatch(/session expired/);
+    expect(await storage.exists('/upload.txt')).toBe(false);
+  });
+
+  it('removes part files left longer than a session lasts when a session starts', async () => {
+    const dir = join(tmpdir(), 'hazo_files_uploads');
+    const stale = join(dir, `stale-${session.id}.part`);
+    await fsp.writeFile(stale, 'left behind');
+    const twoDaysAgo = new Date(Date.now() - 2 * 24 * 60 * 60 * 1000);
+    await fsp.utimes(stale, twoDaysAgo, twoDaysAgo);
+
+    await storage.startUpload('/other.txt');
+
+    await expect(fsp.stat(stale)).rejects.toThrow();
+    // The part file of the session still in use is kept
+    expect((await fsp.stat(session.providerState.partPath as string)).isFile()).toBe(true);
+    await storage.abortUpload(session);
+  });
+});
@@ -0,0 +1,864 @@
+/**
+ * In-Memory Storage Module
+ * Keeps a full virtual file tree in memory. Useful for unit tests, previews and
+ * scratch workspaces. Mirrors the semantics of LocalStorageModule.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+import { BaseStorageModule } from '../../common/base-module';
+import {
+  HazoFilesError,
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  FileExistsError,
+  DirectoryExistsError,
+  DirectoryNotEmptyError,
+  FileTooLargeError,
+  InvalidExtensionError,
+  InvalidRangeError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
+} from '../../common/errors';
+import { getMimeType } from '../../common/mime-types';
+import { getExtension, isChildPath } from '../../common/path-utils';
+import { generateId, createFileItem, createFolderItem } from '../../common/utils';
+import { resolveByteRange } from '../../common/stream-utils';
+import type {
+  StorageProvider,
+  HazoFilesConfig,
+  MemoryStorageConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  FileVersion,
+  VersioningConfig,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+} from '../../types';
+
+interface MemoryVersion {
+  id: string;
+  content: Buffer;
+  modifiedAt: Date;
+}
+
+interface MemoryFileNode {
+  type: 'file';
+  id: string;
+  content: Buffer;
+  createdAt: Date;
+  modifiedAt: Date;
+  /** Earlier content, newest first (with versioning) */
+  versions?: MemoryVersion[];
+}
+
+interface MemoryDirectoryNode {
+  type: 'directory';
+  id: string;
+  createdAt: Date;
+  modifiedAt: Date;
+}
+
+type MemoryNode = MemoryFileNode | MemoryDirectoryNode;
+
+interface MemoryTrashEntry {
+  item: TrashItem;
+  /** The trashed node and its descendants, by path relative to the trashed item ('' for itself) */
+  nodes: Array<[string, MemoryNode]>;
+}
+
+export class MemoryStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider = 'memory';
+  private nodes: Map<string, MemoryNode> = new Map();
+  private allowedExtensions: string[] = [];
+  private maxFileSize: number = 0;
+  private versioning: VersioningConfig = { enabled: false };
+  private trash: Map<string, MemoryTrashEntry> = new Map();
+  private trashRetentionDays = 30;
+
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    await super.initialize(config);
+
+    // Configuration is optional for the memory provider
+    const memoryConfig: MemoryStorageConfig = config.memory || {};
+    this.allowedExtensions = (memoryConfig.allowedExtensions || [])
+      .map(ext => ext.trim().replace(/^\./, '').toLowerCase())
+      .filter(ext => ext.length > 0);
+    this.maxFileSize = memoryConfig.maxFileSize || 0;
+    this.versioning = memoryConfig.versioning ?? { enabled: false };
+    this.trashRetentionDays = memoryConfig.trash?.retentionDays ?? 30;
+
+    this.clear();
+  }
+
+  /**
+   * Remove all files and folders (and empty the trash), leaving an empty root
+   */
+  clear(): void {
+    const now = new Date();
+    this.nodes = new Map();
+    this.trash = new Map();
+    this.nodes.set('/', { type: 'directory', id: generateId(), createdAt: now, modifiedAt: now });
+  }
+
+  /**
+   * Total bytes held by all files
+   */
+  getTotalSize(): number {
+    let total = 0;
+    for (const node of this.nodes.values()) {
+      if (node.type === 'file') total += node.content.length;
+    }
+    return total;
+  }
+
+  /**
+   * Validate file extension against allowed list
+   */
+  private validateExtension(filename: string): void {
+    if (this.allowedExtensions.length === 0) return;
+
+    const ext = getExtension(filename).toLowerCase().slice(1); // Remove leading dot
+    if (!this.allowedExtensions.includes(ext)) {
+      throw new InvalidExtensionError(filename, ext, this.allowedExtensions);
+    }
+  }
+
+  /**
+   * Validate file size against maximum
+   */
+  private validateFileSize(size: number, filename: string): void {
+    if (this.maxFileSize > 0 && size > this.maxFileSize) {
+      throw new FileTooLargeError(filename, size, this.maxFileSize);
+    }
+  }
+
+  /**
+   * Create all missing ancestor directories of a path
+   */
+  private ensureParents(virtualPath: string): void {
+    const parentPath = this.getParentPath(virtualPath);
+    if (this.nodes.has(parentPath)) {
+      if (this.nodes.get(parentPath)!.type !== 'directory') {
+        throw new FileExistsError(parentPath);
+      }
+      return;
+    }
+    this.ensureParents(parentPath);
+    const now = new Date();
+    this.nodes.set(parentPath, { type: 'directory', id: generateId(), createdAt: now, modifiedAt: now });
+  }
+
+  /**
+   * Get the direct children paths of a directory
+   */
+  private getChildPaths(dirPath: string): string[] {
+    const children: string[] = [];
+    for (const nodePath of this.nodes.keys()) {
+      if (nodePath !== '/' && this.getParentPath(nodePath) === dirPath) {
+        children.push(nodePath);
+      }
+    }
+    return children;
+  }
+
+  /**
+   * Get the paths of all descendants of a directory
+   */
+  private getDescendantPaths(dirPath: string): string[] {
+    return Array.from(this.nodes.keys()).filter(nodePath => isChildPath(dirPath, nodePath));
+  }
+
+  /**
+   * Convert a node to a FileSystemItem
+   */
+  private nodeToItem(virtualPath: string, node: MemoryNode): FileSystemItem {
+    const name = this.getBaseName(virtualPath);
+
+    if (node.type === 'directory') {
+      return createFolderItem({
+        id: node.id,
+        name,
+        path: virtualPath,
+        createdAt: node.createdAt,
+        modifiedAt: node.modifiedAt,
+      });
+    }
+
+    return createFileItem({
+      id: node.id,
+      name,
+      path: virtualPath,
+      size: node.content.length,
+      mimeType: getMimeType(name),
+      createdAt: node.createdAt,
+      modifiedAt: node.modifiedAt,
+    });
+  }
+
+  /**
+   * Read an upload source into a Buffer
+   */
+  private async readSource(source: string | Buffer | ReadableStream, signal?: AbortSignal): Promise<Buffer> {
+    if (typeof source === 'string') {
+      // Source is a local file path
+      return fs.promises.readFile(source, { signal });
+    }
+    if (Buffer.isBuffer(source)) {
+      return source;
+    }
+
+    const chunks: Uint8Array[] = [];
+    const reader = (source as ReadableStream<Uint8Array>).getReader();
+    while (true) {
+      if (signal?.aborted) {
+        await reader.cancel();
+        this.throwIfAborted(signal);
+      }
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (value) chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      const existing = this.nodes.get(normalized);
+      if (existing) {
+        if (existing.type === 'directory') {
+          throw new DirectoryExistsError(virtualPath);
+        }
+        throw new FileExistsError(virtualPath);
+      }
+
+      this.ensureParents(normalized);
+      const now = new Date();
+      const node: MemoryDirectoryNode = { type: 'directory', id: generateId(), createdAt: now, modifiedAt: now };
+      this.nodes.set(normalized, node);
+
+      return this.successResult(this.nodeToItem(normalized, node) as FolderItem);
+    } catch (error) {
+      if (error instanceof DirectoryExistsError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to create directory: ${(error as Error).message}`);
+    }
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      const node = this.nodes.get(normalized);
+      if (!node || node.type !== 'directory') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const descendants = this.getDescendantPaths(normalized);
+      if (!recursive && descendants.length > 0) {
+        throw new DirectoryNotEmptyError(virtualPath);
+      }
+
+      for (const descendant of descendants) {
+        this.nodes.delete(descendant);
+      }
+      if (normalized === '/') {
+        // Removing the root empties the store but keeps the root itself
+        return this.successResult();
+      }
+      this.nodes.delete(normalized);
+
+      return this.successResult();
+    } catch (error) {
+      if (error instanceof DirectoryNotFoundError || error instanceof DirectoryNotEmptyError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to remove directory: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const normalized = this.normalizePath(remotePath);
+      const filename = this.getBaseName(normalized);
+
+      this.validateExtension(filename);
+
+      const existing = this.nodes.get(normalized);
+      if (existing && (!options.overwrite || existing.type === 'directory')) {
+        throw new FileExistsError(remotePath);
+      }
+
+      if (options.totalSize !== undefined && !Buffer.isBuffer(source) && typeof source !== 'string') {
+        this.validateFileSize(options.totalSize, filename);
+      }
+      const content = await this.readSource(source, options.signal);
+      this.validateFileSize(content.length, filename);
+      this.throwIfAborted(options.signal, remotePath);
+
+      this.ensureParents(normalized);
+      const now = new Date();
+      const node: MemoryFileNode = {
+        type: 'file',
+        id: existing?.id ?? generateId(),
+        // Copy so later mutation of the caller's buffer doesn't change stored content
+        content: Buffer.from(content),
+        createdAt: existing?.createdAt ?? now,
+        modifiedAt: now,
+        versions: existing?.type === 'file' ? this.keepVersion(existing) : undefined,
+      };
+      this.nodes.set(normalized, node);
+
+      if (options.onProgress) {
+        options.onProgress(100, content.length, content.length);
+      }
+
+      return this.successResult(this.nodeToItem(normalized, node) as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (
+        error instanceof FileExistsError ||
+        error instanceof FileTooLargeError ||
+        error instanceof InvalidExtensionError
+      ) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const node = this.nodes.get(this.normalizePath(remotePath));
+      if (!node || node.type !== 'file') {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const buffer = Buffer.from(node.content);
+      if (options.onProgress) {
+        options.onProgress(100, buffer.length, buffer.length);
+      }
+
+      if (localPath) {
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+        await fs.promises.writeFile(localPath, buffer);
+        return this.successResult(localPath);
+      }
+
+      return this.successResult(buffer);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const node = this.nodes.get(this.normalizePath(remotePath));
+      if (!node || node.type !== 'file') {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const range = resolveByteRange(remotePath, node.content.length, options);
+      // Copy the slice so later writes to the node don't affect the stream
+      const stream = Readable.from([Buffer.from(node.content.subarray(range.start, range.end + 1))]);
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, node.content.length, range, options));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      if (error instanceof FileNotFoundError || error instanceof InvalidRangeError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  // ============ Versions ============
+
+  /**
+   * The versions of a file node once its current content is replaced
+   */
+  private keepVersion(node: MemoryFileNode): MemoryVersion[] | undefined {
+    if (!this.versioning.enabled) {
+      return node.versions;
+    }
+    const versions = [{ id: generateId(), content: node.content, modifiedAt: node.modifiedAt }, ...(node.versions ?? [])];
+    const expired = new Set(this.expiredVersions(versions, this.versioning));
+    return versions.filter((version) => !expired.has(version));
+  }
+
+  private getVersion(virtualPath: string, versionId: string): { node: MemoryFileNode; version: MemoryVersion } {
+    const node = this.nodes.get(this.normalizePath(virtualPath));
+    if (!node || node.type !== 'file') {
+      throw new FileNotFoundError(virtualPath);
+    }
+    const version = node.versions?.find((candidate) => candidate.id === versionId);
+    if (!version) {
+      throw new VersionNotFoundError(virtualPath, versionId);
+    }
+    return { node, version };
+  }
+
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+
+    const normalized = this.normalizePath(virtualPath);
+    const node = this.nodes.get(normalized);
+    if (!node || node.type !== 'file') {
+      return this.errorResult(new FileNotFoundError(virtualPath).message);
+    }
+
+    return this.successResult((node.versions ?? []).map((version) => ({
+      id: version.id,
+      path: normalized,
+      size: version.content.length,
+      modifiedAt: version.modifiedAt,
+    })));
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+
+    try {
+      const { version } = this.getVersion(virtualPath, versionId);
+      return this.successResult(Buffer.from(version.content));
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+  }
+
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const { node, version } = this.getVersion(virtualPath, versionId);
+      const normalized = this.normalizePath(virtualPath);
+      const restored: MemoryFileNode = {
+        ...node,
+        content: version.content,
+        modifiedAt: new Date(),
+        versions: this.keepVersion(node),
+      };
+      this.nodes.set(normalized, restored);
+      return this.successResult(this.nodeToItem(normalized, restored) as FileItem);
+    } catch (error) {
+      return this.errorResult((error as Error).message);
+    }
+  }
+
+  // ============ Trash ============
+
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+
+    const normalized = this.normalizePath(virtualPath);
+    const node = this.nodes.get(normalized);
+    if (!node || normalized === '/') {
+      return this.errorResult(new FileNotFoundError(virtualPath).message);
+    }
+
+    const nodes: Array<[string, MemoryNode]> = [['', node]];
+    for (const descendant of node.type === 'directory' ? this.getDescendantPaths(normalized) : []) {
+      nodes.push([descendant.slice(normalized.length), this.nodes.get(descendant)!]);
+      this.nodes.delete(descendant);
+    }
+    this.nodes.delete(normalized);
+
+    const item: TrashItem = {
+      id: generateId(),
+      name: this.getBaseName(normalized),
+      originalPath: normalized,
+      isDirectory: node.type === 'directory',
+      size: node.type === 'file' ? node.content.length : undefined,
+      deletedAt: new Date(),
+    };
+    this.trash.set(item.id, { item, nodes });
+    return this.successResult({ ...item });
+  }
+
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    const items = Array.from(this.trash.values(), (entry) => ({ ...entry.item }));
+    return this.successResult(items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const entry = this.trash.get(trashId);
+      if (!entry) {
+        throw new TrashItemNotFoundError(trashId);
+      }
+
+      const destination = await this.resolveRestorePath(options.path ?? entry.item.originalPath, options);
+      this.ensureParents(destination);
+      for (const [relativePath, node] of entry.nodes) {
+        this.nodes.set(destination + relativePath, node);
+      }
+      this.trash.delete(trashId);
+      return this.successResult(this.nodeToItem(destination, this.nodes.get(destination)!));
+    } catch (error) {
+      if (error instanceof TrashItemNotFoundError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to restore from trash: ${(error as Error).message}`);
+    }
+  }
+
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    const items = Array.from(this.trash.values(), (entry) => entry.item);
+    const purged = this.trashToPurge(items, options, this.trashRetentionDays);
+    for (const item of purged) {
+      this.trash.delete(item.id);
+    }
+    return this.successResult(purged.map((item) => ({ ...item })));
+  }
+
+  /**
+   * Move a node (and all descendants for directories) to a new path
+   */
+  private relocate(sourcePath: string, destinationPath: string): void {
+    const node = this.nodes.get(sourcePath)!;
+    const descendants = node.type === 'directory' ? this.getDescendantPaths(sourcePath) : [];
+
+    // Replace anything already at the destination (overwrite)
+    for (const existing of this.getDescendantPaths(destinationPath)) {
+      this.nodes.delete(existing);
+    }
+
+    this.ensureParents(destinationPath);
+    this.nodes.delete(sourcePath);
+    this.nodes.set(destinationPath, { ...node, modifiedAt: new Date() });
+
+    for (const descendant of descendants) {
+      const child = this.nodes.get(descendant)!;
+      this.nodes.delete(descendant);
+      this.nodes.set(destinationPath + descendant.slice(sourcePath.length), child);
+    }
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, sourcePath);
+      const source = this.normalizePath(sourcePath);
+      const destination = this.normalizePath(destinationPath);
+
+      if (source === '/' || !this.nodes.has(source)) {
+        throw new FileNotFoundError(sourcePath);
+      }
+      if (source === destination) {
+        return this.successResult(this.nodeToItem(source, this.nodes.get(source)!));
+      }
+      if (isChildPath(source, destination) || isChildPath(destination, source)) {
+        throw new Error('Cannot move a folder into itself or over one of its parents');
+      }
+      if (!options.overwrite && this.nodes.has(destination)) {
+        throw new FileExistsError(destinationPath);
+      }
+
+      this.relocate(source, destination);
+      return this.successResult(this.nodeToItem(destination, this.nodes.get(destination)!));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (error instanceof FileNotFoundError || error instanceof FileExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to move item: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Copy a file or folder by cloning its nodes (the content buffers are shared, they
+   * are never changed in place). Versions stay with the source.
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      await this.prepareCopy(sourcePath, destinationPath, options);
+      const source = this.normalizePath(sourcePath);
+      const node = this.nodes.get(source)!;
+
+      const item = await this.copyIntoPlace(destinationPath, options, async (destination, copyOptions) => {
+        const onCopied = this.createCopyTracker(copyOptions);
+        this.ensureParents(destination);
+        const now = new Date();
+        const paths = [source, ...(node.type === 'directory' ? this.getDescendantPaths(source) : [])];
+        for (const path of paths) {
+          const original = this.nodes.get(path)!;
+          const target = destination + path.slice(source.length);
+          const copy: MemoryNode = original.type === 'file'
+            ? { type: 'file', id: generateId(), content: original.content, createdAt: now, modifiedAt: now }
+            : { type: 'directory', id: generateId(), createdAt: now, modifiedAt: now };
+          this.nodes.set(target, copy);
+          if (copy.type === 'file') {
+            onCopied(this.nodeToItem(target, copy) as FileItem);
+          }
+        }
+        return this.nodeToItem(destination, this.nodes.get(destination)!);
+      });
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      if (error instanceof HazoFilesError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const normalized = this.normalizePath(virtualPath);
+      const node = this.nodes.get(normalized);
+      if (!node || node.type !== 'file') {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      this.nodes.delete(normalized);
+      return this.successResult();
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      if (error instanceof FileNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const normalized = this.normalizePath(virtualPath);
+      const node = this.nodes.get(normalized);
+      if (!node || node.type !== 'file') {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      this.validateExtension(newName);
+
+      const newPath = this.joinPath(this.getParentPath(normalized), newName);
+      if (!options.overwrite && this.nodes.has(newPath)) {
+        throw new FileExistsError(newName);
+      }
+
+      this.relocate(normalized, newPath);
+      return this.successResult(this.nodeToItem(newPath, this.nodes.get(newPath)!) as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      if (
+        error instanceof FileNotFoundError ||
+        error instanceof FileExistsError ||
+        error instanceof InvalidExtensionError
+      ) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to rename file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const normalized = this.normalizePath(virtualPath);
+      const node = this.nodes.get(normalized);
+      if (normalized === '/' || !node || node.type !== 'directory') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const newPath = this.joinPath(this.getParentPath(normalized), newName);
+      if (!options.overwrite && this.nodes.has(newPath)) {
+        throw new DirectoryExistsError(newName);
+      }
+
+      this.relocate(normalized, newPath);
+      return this.successResult(this.nodeToItem(newPath, this.nodes.get(newPath)!) as FolderItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      if (error instanceof DirectoryNotFoundError || error instanceof DirectoryExistsError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to rename folder: ${(error as Error).message}`);
+    }
+  }
+
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const normalized = this.normalizePath(virtualPath);
+      const node = this.nodes.get(normalized);
+      if (!node || node.type !== 'directory') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const items: FileSystemItem[] = [];
+
+      for (const childPath of this.getChildPaths(normalized)) {
+        this.throwIfAborted(options.signal, virtualPath);
+
+        const child = this.nodes.get(childPath)!;
+        const item = this.nodeToItem(childPath, child);
+
+        // Skip hidden files unless explicitly included
+        if (!options.includeHidden && item.name.startsWith('.')) {
+          continue;
+        }
+
+        // Apply filter if provided
+        if (options.filter && !options.filter(item)) {
+          continue;
+        }
+
+        items.push(item);
+
+        // Handle recursive listing
+        if (options.recursive && child.type === 'directory') {
+          const subResult = await this.listDirectory(childPath, options);
+          if (subResult.success && subResult.data) {
+            items.push(...subResult.data);
+          }
+        }
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+
+      // Sort: folders first, then alphabetically
+      items.sort((a, b) => {
+        if (a.isDirectory && !b.isDirectory) return -1;
+        if (!a.isDirectory && b.isDirectory) return 1;
+        return a.name.localeCompare(b.name);
+      });
+
+      return this.successResult(items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      if (error instanceof DirectoryNotFoundError) {
+        return this.errorResult(error.message);
+      }
+      return this.errorResult(`Failed to list directory: ${(error as Error).message}`);
+    }
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    const normalized = this.normalizePath(virtualPath);
+    const node = this.nodes.get(normalized);
+    if (!node) {
+      return this.errorResult(new FileNotFoundError(virtualPath).message);
+    }
+
+    return this.successResult(this.nodeToItem(normalized, node));
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    this.ensureInitialized();
+    return this.nodes.has(this.normalizePath(virtualPath));
+  }
+}
+
+/**
+ * Factory function to create a MemoryStorageModule instance
+ */
+export function createMemoryModule(): MemoryStorageModule {
+  return new MemoryStorageModule();
+}
+
+export default MemoryStorageModule;
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { MemoryStorageModule } from '../memory';
+import { MirroredStorageModule, type MirroredStorageOptions } from './index';
+import type { HazoFilesConfig, OperationResult } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'memory' };
+
+describe('MirroredStorageModule', () => {
+  let primary: MemoryStorageModule;
+  let secondary: MemoryStorageModule;
+
+  async function createMirror(options: Partial<MirroredStorageOptions> = {}) {
+    const mirror = new MirroredStorageModule({ primary, secondaries: [secondary], retryDelay: 5, ...options });
+    await mirror.initialize(config);
+    return mirror;
+  }
+
+  /** Make the secondary's uploads fail `times` times (every time by default) */
+  function failUploads(times = Infinity) {
+    const upload = secondary.uploadFile.bind(secondary);
+    let calls = 0;
+    secondary.uploadFile = async (...args) =>
+      ++calls <= times ? { success: false, error: 'connect ECONNREFUSED 10.0.0.2:22' } : upload(...args);
+    return () => calls;
+  }
+
+  const read = async (module: MemoryStorageModule, path: string) =>
+    ((await module.downloadFile(path)).data as Buffer | undefined)?.toString();
+
+  beforeEach(() => {
+    primary = new MemoryStorageModule();
+    secondary = new MemoryStorageModule();
+  });
+
+  describe('replication', () => {
+    it('succeeds on the primary and retries a failing secondary', async () => {
+      failUploads(2);
+      const errors: string[] = [];
+      const mirror = await createMirror({ mode: 'async', onReplicationError: (_task, error) => errors.push(error) });
+
+      const result = await mirror.uploadFile(Buffer.from('hello'), '/a.txt');
+      expect(result.success).toBe(true);
+      expect(mirror.getReplicationStatus().pending).toMatchObject([{ target: 0, operation: { type: 'upload', path: '/a.txt' } }]);
+
+      await mirror.flush();
+      expect(errors).toHaveLength(2);
+      expect(await read(secondary, '/a.txt')).toBe('hello');
+      expect(mirror.getReplicationStatus()).toEqual({ pending: [], failed: [], unavailable: [] });
+    });
+
+    it('lists a replication as failed after maxAttempts and queues it again on retryFailed', async () => {
+      failUploads(3);
+      const mirror = await createMirror({ mode: 'async', maxAttempts: 3 });
+
+      await mirror.uploadFile(Buffer.from('hello'), '/a.txt');
+      await mirror.flush();
+      expect(mirror.getReplicationStatus()).toMatchObject({
+        pending: [],
+        failed: [{ attempts: 3, lastError: 'connect ECONNREFUSED 10.0.0.2:22' }],
+        unavailable: [0],
+      });
+
+      expect(mirror.retryFailed()).toBe(1);
+      await mirror.flush();
+      expect(await read(secondary, '/a.txt')).toBe('hello');
+      expect(mirror.getReplicationStatus()).toEqual({ pending: [], failed: [], unavailable: [] });
+    });
+
+    it('does not replicate writes that fail on the primary', async () => {
+      const mirror = await createMirror();
+      await mirror.uploadFile(Buffer.from('one'), '/a.txt');
+
+      const result = await mirror.uploadFile(Buffer.from('two'), '/a.txt');
+      expect(result.success).toBe(false);
+      expect(await read(secondary, '/a.txt')).toBe('one');
+    });
+
+    it('replicates folders, moves and deletes in order', async () => {
+      const mirror = await createMirror();
+      await mirror.createDirectory('/docs');
+      await mirror.uploadFile(Buffer.from('report'), '/docs/report.txt');
+      await mirror.moveItem('/docs/report.txt', '/report.txt');
+      await mirror.removeDirectory('/docs');
+
+      expect(await secondary.exists('/docs')).toBe(false);
+      expect(await read(secondary, '/report.txt')).toBe('report');
+    });
+  });
+
+  describe('acknowledgement', () => {
+    it('returns from a sync write once the secondary has it', async () => {
+      const mirror = await createMirror({ mode: 'sync' });
+
+      await mirror.uploadFile(Buffer.from('hello'), '/a.txt');
+      expect(await read(secondary, '/a.txt')).toBe('hello');
+      expect(mirror.getReplicationStatus().pending).toEqual([]);
+    });
+
+    it('returns from an async write before the secondary has it', async () => {
+      const mirror = await createMirror({ mode: 'async' });
+
+      await mirror.uploadFile(Buffer.from('hello'), '/a.txt');
+      expect(await secondary.exists('/a.txt')).toBe(false);
+
+      await mirror.flush();
+      expect(await read(secondary, '/a.txt')).toBe('hello');
+    });
+
+    it('waits for the retries of a sync write, then stops waiting for a secondary that is down', async () => {
+      const uploads = failUploads();
+      const mirror = await createMirror({ mode: 'sync', maxAttempts: 2 });
+
+      await mirror.uploadFile(Buffer.from('one'), '/a.txt');
+      expect(uploads()).toBe(2);
+      expect(mirror.getReplicationStatus()).toMatchObject({ pending: [], unavailable: [0] });
+
+      // Queued for the background, without waiting for its attempts
+      await mirror.uploadFile(Buffer.from('two'), '/b.txt');
+      expect(mirror.getReplicationStatus().pending).toMatchObject([{ operation: { path: '/b.txt' } }]);
+
+      await mirror.flush();
+      expect(mirror.getReplicationStatus().failed).toHaveLength(2);
+    });
+  });
+
+  describe('reads', () => {
+    let mirror: MirroredStorageModule;
+
+    beforeEach(async () => {
+      mirror = await createMirror();
+      await mirror.uploadFile(Buffer.from('hello'), '/a.txt');
+    });
+
+    function failPrimaryDownloads(fail: () => Promise<OperationResult<Buffer | string>>) {
+      primary.downloadFile = fail;
+    }
+
+    it('falls back to a secondary when the primary is unavailable', async () => {
+      failPrimaryDownloads(async () => ({ success: false, error: 'Failed to download file: connect ETIMEDOUT' }));
+      expect((await mirror.downloadFile('/a.txt')).data?.toString()).toBe('hello');
+
+      failPrimaryDownloads(async () => ({ success: false, error: 'Request failed with status 503' }));
+      expect((await mirror.downloadFile('/a.txt')).data?.toString()).toBe('hello');
+
+      failPrimaryDownloads(async () => {
+        throw new Error('socket hang up');
+      });
+      expect((await mirror.downloadFile('/a.txt')).data?.toString()).toBe('hello');
+    });
+
+    it('reports other failures from the primary', async () => {
+      failPrimaryDownloads(async () => ({ success: false, error: 'File not found: /timeout.txt' }));
+      expect(await mirror.downloadFile('/a.txt')).toEqual({ success: false, error: 'File not found: /timeout.txt' });
+
+      failPrimaryDownloads(async () => ({ success: false, error: 'Permission denied: /a.txt' }));
+      expect((await mirror.downloadFile('/a.txt')).success).toBe(false);
+    });
+
+    it('reports a missing file without asking the secondaries', async () => {
+      await primary.deleteFile('/a.txt');
+
+      expect((await mirror.downloadFile('/a.txt')).success).toBe(false);
+      expect(await mirror.exists('/a.txt')).toBe(false);
+    });
+
+    it('does not fall back when readFallback is off', async () => {
+      const strict = await createMirror({ readFallback: false });
+      failPrimaryDownloads(async () => ({ success: false, error: 'connect ECONNREFUSED' }));
+
+      expect((await strict.downloadFile('/a.txt')).success).toBe(false);
+    });
+  });
+});
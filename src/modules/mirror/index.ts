@@ -0,0 +1,745 @@
+/**
+ * Mirrored Storage Module
+ * Wraps a primary module and one or more secondaries. Every write goes to the
+ * primary first and is then replicated to the secondaries, either before the call
+ * returns (sync) or in the background (async). Failed replications are retried.
+ * Reads come from the primary and fall back to the secondaries when it is unavailable.
+ */
+
+import { Readable } from 'stream';
+
+import { BaseStorageModule } from '../../common/base-module';
+import { ConfigurationError } from '../../common/errors';
+import { generateId } from '../../common/utils';
+import type {
+  StorageModule,
+  StorageProvider,
+  HazoFilesConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  SearchOptions,
+  SearchPage,
+  TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+} from '../../types';
+
+/** When writes reach the secondaries */
+export type MirrorWriteMode = 'sync' | 'async';
+
+/** A write to repeat on a secondary */
+export type ReplicationOperation =
+  | { type: 'upload'; path: string; metadata?: Record<string, unknown> }
+  | { type: 'createDirectory'; path: string }
+  | { type: 'removeDirectory'; path: string; recursive?: boolean }
+  | { type: 'deleteFile'; path: string }
+  | { type: 'moveItem'; sourcePath: string; destinationPath: string; overwrite?: boolean }
+  | { type: 'copyItem'; sourcePath: string; destinationPath: string; recursive?: boolean; overwrite?: boolean }
+  | { type: 'renameFile'; path: string; newName: string; overwrite?: boolean }
+  | { type: 'renameFolder'; path: string; newName: string; overwrite?: boolean };
+
+/** A queued replication of one write to one secondary */
+export interface ReplicationTask {
+  id: string;
+  /** Index of the secondary in `secondaries` */
+  target: number;
+  operation: ReplicationOperation;
+  /** Attempts made so far */
+  attempts: number;
+  /** Error of the last failed attempt */
+  lastError?: string;
+  createdAt: Date;
+}
+
+/** Replication backlog */
+export interface ReplicationStatus {
+  /** Tasks waiting for their first attempt or a retry */
+  pending: ReplicationTask[];
+  /** Tasks dropped after `maxAttempts` failures */
+  failed: ReplicationTask[];
+  /** Indexes of the secondaries whose last replication was given up */
+  unavailable: number[];
+}
+
+/** Options for MirroredStorageModule */
+export interface MirroredStorageOptions {
+  /** Module that receives writes first and serves reads */
+  primary: StorageModule;
+  /** Modules that receive a copy of every write */
+  secondaries: StorageModule[];
+  /**
+   * 'sync' waits until every secondary has the write or has failed `maxAttempts` times,
+   * 'async' replicates in the background (default: 'sync'). Sync writes do not wait
+   * for a secondary whose last replication was given up until one succeeds on it again;
+   * their replications are still queued and retried in the background.
+   */
+  mode?: MirrorWriteMode;
+  /** Attempts per replication before it is moved to the failed list (default: 3 in sync mode, 5 in async mode) */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled for each further retry
+   * (default: 250 in sync mode, 1000 in async mode)
+   */
+  retryDelay?: number;
+  /**
+   * Read from the secondaries when the primary is unavailable: it throws, or fails with
+   * a network error, timeout, 5xx status or rate limit (default: true)
+   */
+  readFallback?: boolean;
+  /** Called whenever a replication attempt fails */
+  onReplicationError?: (task: ReplicationTask, error: string) => void;
+}
+
+/**
+ * Mirrored Storage Module Implementation
+ *
+ * The primary decides the outcome of every operation: when a write fails on the
+ * primary nothing is replicated, and a failed replication never fails the write.
+ * Replications run in order per secondary, so a folder is created before files are
+ * uploaded into it. Uploads are replicated by streaming the stored file back out of
+ * the primary, so any source type (path, buffer or stream) can be retried.
+ */
+export class MirroredStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider;
+
+  private readonly primary: StorageModule;
+  private readonly secondaries: StorageModule[];
+  private readonly mode: MirrorWriteMode;
+  private readonly maxAttempts: number;
+  private readonly retryDelay: number;
+  private readonly readFallback: boolean;
+  private readonly onReplicationError?: (task: ReplicationTask, error: string) => void;
+
+  private queues: ReplicationTask[][];
+  private draining: (Promise<void> | null)[];
+  private failed: ReplicationTask[] = [];
+  private unavailable: boolean[];
+  private completionWaiters = new Map<string, () => void>();
+
+  constructor(options: MirroredStorageOptions) {
+    super();
+    if (!options.primary) {
+      throw new ConfigurationError('Mirrored storage requires a primary module');
+    }
+    if (!options.secondaries || options.secondaries.length === 0) {
+      throw new ConfigurationError('Mirrored storage requires at least one secondary module');
+    }
+
+    this.primary = options.primary;
+    this.secondaries = options.secondaries;
+    this.provider = options.primary.provider;
+    this.mode = options.mode ?? 'sync';
+    // A sync write waits for the retries, so keep them short
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? (this.mode === 'sync' ? 3 : 5));
+    this.retryDelay = options.retryDelay ?? (this.mode === 'sync' ? 250 : 1000);
+    this.readFallback = options.readFallback ?? true;
+    this.onReplicationError = options.onReplicationError;
+    this.queues = this.secondaries.map(() => []);
+    this.draining = this.secondaries.map(() => null);
+    this.unavailable = this.secondaries.map(() => false);
+  }
+
+  /**
+   * Initialize the wrapped modules that are not initialized yet.
+   * Each gets the shared configuration with its own provider, so a single config
+   * can hold e.g. both a [local] and a [google_drive] section.
+   */
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    for (const module of [this.primary, ...this.secondaries]) {
+      if (module instanceof BaseStorageModule && module.isInitialized) continue;
+      await module.initialize({ ...config, provider: module.provider });
+    }
+    await super.initialize(config);
+  }
+
+  /**
+   * Get the primary module
+   */
+  getPrimary(): StorageModule {
+    return this.primary;
+  }
+
+  /**
+   * Get the secondary modules
+   */
+  getSecondaries(): StorageModule[] {
+    return [...this.secondaries];
+  }
+
+  // ============================================
+  // Write operations (primary, then replicate)
+  // ============================================
+
+  async createDirectory(path: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.createDirectory(path);
+    if (result.success) {
+      await this.replicate({ type: 'createDirectory', path });
+    }
+    return result;
+  }
+
+  async removeDirectory(path: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+    const result = await this.primary.removeDirectory(path, recursive);
+    if (result.success) {
+      await this.replicate({ type: 'removeDirectory', path, recursive });
+    }
+    return result;
+  }
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.uploadFile(source, remotePath, options);
+    if (result.success) {
+      await this.replicate({ type: 'upload', path: remotePath, metadata: options.metadata });
+    }
+    return result;
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.moveItem(sourcePath, destinationPath, options);
+    if (result.success) {
+      await this.replicate({ type: 'moveItem', sourcePath, destinationPath, overwrite: options.overwrite });
+    }
+    return result;
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.copyItem(sourcePath, destinationPath, options);
+    if (result.success) {
+      await this.replicate({
+        type: 'copyItem',
+        sourcePath,
+        destinationPath,
+        recursive: options.recursive,
+        overwrite: options.overwrite,
+      });
+    }
+    return result;
+  }
+
+  async deleteFile(path: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+    const result = await this.primary.deleteFile(path, options);
+    if (result.success) {
+      await this.replicate({ type: 'deleteFile', path });
+    }
+    return result;
+  }
+
+  async renameFile(
+    path: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.renameFile(path, newName, options);
+    if (result.success) {
+      await this.replicate({ type: 'renameFile', path, newName, overwrite: options.overwrite });
+    }
+    return result;
+  }
+
+  async renameFolder(
+    path: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.renameFolder(path, newName, options);
+    if (result.success) {
+      await this.replicate({ type: 'renameFolder', path, newName, overwrite: options.overwrite });
+    }
+    return result;
+  }
+
+  // ============================================
+  // Upload sessions (primary only, replicated on completion)
+  // ============================================
+
+  async startUpload(remotePath: string, options: StartUploadOptions = {}): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    return this.primary.startUpload(remotePath, options);
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    return this.primary.uploadChunk(session, chunk);
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.completeUpload(session);
+    if (result.success) {
+      await this.replicate({ type: 'upload', path: session.remotePath, metadata: session.metadata });
+    }
+    return result;
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    this.ensureInitialized();
+    return this.primary.abortUpload(session);
+  }
+
+  // ============================================
+  // Read operations (primary, falling back to secondaries)
+  // ============================================
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+    return this.read((module) => module.downloadFile(remotePath, localPath, options), options.signal);
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+    return this.read((module) => module.downloadStream(remotePath, options), options.signal);
+  }
+
+  async downloadWebStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<WebDownloadStream>> {
+    this.ensureInitialized();
+    return this.read((module) => module.downloadWebStream(remotePath, options), options.signal);
+  }
+
+  async listDirectory(path: string, options: ListOptions = {}): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+    return this.read((module) => module.listDirectory(path, options), options.signal);
+  }
+
+  async getItem(path: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.read((module) => module.getItem(path));
+  }
+
+  async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
+    this.ensureInitialized();
+    return this.read((module) => module.getFolderTree(path, depth));
+  }
+
+  /**
+   * Search the primary only: cursors are provider specific, so a later page could
+   * not be continued on a secondary
+   */
+  async search(options: SearchOptions = {}): Promise<OperationResult<SearchPage>> {
+    this.ensureInitialized();
+    return this.primary.search(options);
+  }
+
+  /**
+   * Check existence on the primary.
+   * A missing item is a valid answer, so secondaries are only asked when the primary throws.
+   */
+  async exists(path: string): Promise<boolean> {
+    this.ensureInitialized();
+    try {
+      return await this.primary.exists(path);
+    } catch (error) {
+      if (!this.readFallback) {
+        throw error;
+      }
+      for (const secondary of this.secondaries) {
+        try {
+          return await secondary.exists(path);
+        } catch {
+          // Try the next secondary
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Changes come from the primary only: cursors are provider specific, and the
+   * secondaries receive the same changes through replication
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+    return this.primary.getChanges(cursor, options);
+  }
+
+  /**
+   * Versions are kept by the primary; the secondaries only hold the current content,
+   * which a restore replicates like an upload
+   */
+  async listVersions(path: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+    return this.primary.listVersions(path);
+  }
+
+  async downloadVersion(path: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+    return this.primary.downloadVersion(path, versionId);
+  }
+
+  async restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.restoreVersion(path, versionId);
+    if (result.success) {
+      await this.replicate({ type: 'upload', path });
+    }
+    return result;
+  }
+
+  /**
+   * The trash is kept by the primary; the secondaries see a trashed item deleted and
+   * a restored one written again
+   */
+  async trashItem(path: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.trashItem(path);
+    if (result.success && result.data) {
+      await this.replicate(
+        result.data.isDirectory
+          ? { type: 'removeDirectory', path, recursive: true }
+          : { type: 'deleteFile', path }
+      );
+    }
+    return result;
+  }
+
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.primary.listTrash();
+  }
+
+  async restoreFromTrash(
+    trashId: string,
+    options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    const result = await this.primary.restoreFromTrash(trashId, options);
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    if (!result.data.isDirectory) {
+      await this.replicate({ type: 'upload', path: result.data.path });
+      return result;
+    }
+    await this.replicate({ type: 'createDirectory', path: result.data.path });
+    const listing = await this.primary.listDirectory(result.data.path, { recursive: true, includeHidden: true });
+    for (const item of listing.data ?? []) {
+      await this.replicate(
+        item.isDirectory ? { type: 'createDirectory', path: item.path } : { type: 'upload', path: item.path }
+      );
+    }
+    return result;
+  }
+
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.primary.purgeTrash(options);
+  }
+
+  // ============================================
+  // Replication queue
+  // ============================================
+
+  /**
+   * Get the replications that are still queued and those that were given up on
+   */
+  getReplicationStatus(): ReplicationStatus {
+    return {
+      pending: this.queues.flat().map((task) => ({ ...task })),
+      failed: this.failed.map((task) => ({ ...task })),
+      unavailable: this.secondaries.map((_, target) => target).filter((target) => this.unavailable[target]),
+    };
+  }
+
+  /**
+   * Wait until every queued replication has succeeded or failed for good.
+   * Call before shutting down when using async mode.
+   */
+  async flush(): Promise<void> {
+    let running = this.draining.filter((drain): drain is Promise<void> => drain !== null);
+    while (running.length > 0) {
+      await Promise.all(running);
+      running = this.draining.filter((drain): drain is Promise<void> => drain !== null);
+    }
+  }
+
+  /**
+   * Queue the failed replications again with a fresh set of attempts
+   * @returns Number of tasks queued
+   */
+  retryFailed(): number {
+    const tasks = this.failed;
+    this.failed = [];
+    for (const task of tasks) {
+      this.queues[task.target].push({ ...task, attempts: 0, lastError: undefined });
+    }
+    this.secondaries.forEach((_, target) => this.drain(target));
+    return tasks.length;
+  }
+
+  /**
+   * Queue a write for every secondary.
+   * In sync mode this resolves once each available secondary has the write or the
+   * task was given up after `maxAttempts`; in async mode it resolves immediately.
+   */
+  private async replicate(operation: ReplicationOperation): Promise<void> {
+    const completions = this.secondaries.map((_, target) => {
+      const task: ReplicationTask = {
+        id: generateId(),
+        target,
+        operation,
+        attempts: 0,
+        createdAt: new Date(),
+      };
+      const completed = this.mode === 'sync' && !this.unavailable[target]
+        ? new Promise<void>((resolve) => this.completionWaiters.set(task.id, resolve))
+        : Promise.resolve();
+      this.queues[target].push(task);
+      this.drain(target);
+      return completed;
+    });
+
+    await Promise.all(completions);
+  }
+
+  /**
+   * Start working through a secondary's queue, unless it is already running
+   */
+  private drain(target: number): Promise<void> {
+    if (!this.draining[target]) {
+      this.draining[target] = this.processQueue(target).finally(() => {
+        this.draining[target] = null;
+      });
+    }
+    return this.draining[target]!;
+  }
+
+  private async processQueue(target: number): Promise<void> {
+    const queue = this.queues[target];
+
+    while (queue.length > 0) {
+      const task = queue[0];
+      task.attempts++;
+      const error = await this.runTask(task);
+
+      if (!error) {
+        queue.shift();
+        this.unavailable[target] = false;
+        this.complete(task);
+        continue;
+      }
+
+      task.lastError = error;
+      this.onReplicationError?.({ ...task }, error);
+
+      if (task.attempts >= this.maxAttempts) {
+        queue.shift();
+        this.failed.push(task);
+        // Don't keep the writes queued behind it waiting for a secondary that is down
+        this.unavailable[target] = true;
+        this.complete(task);
+        queue.forEach((queued) => this.complete(queued));
+        continue;
+      }
+
+      await delay(this.retryDelay * 2 ** (task.attempts - 1));
+    }
+  }
+
+  /**
+   * Release a sync write waiting for a task that succeeded or was given up
+   */
+  private complete(task: ReplicationTask): void {
+    const waiter = this.completionWaiters.get(task.id);
+    if (waiter) {
+      this.completionWaiters.delete(task.id);
+      waiter();
+    }
+  }
+
+  /**
+   * Apply a replication to its secondary
+   * @returns Error message, or null on success
+   */
+  private async runTask(task: ReplicationTask): Promise<string | null> {
+    const target = this.secondaries[task.target];
+    const { operation } = task;
+
+    try {
+      let result: OperationResult<unknown>;
+
+      switch (operation.type) {
+        case 'upload':
+          return await this.replicateUpload(target, operation.path, operation.metadata);
+        case 'createDirectory':
+          result = await target.createDirectory(operation.path);
+          // Already there, e.g. from an earlier attempt
+          if (!result.success && (await target.exists(operation.path))) return null;
+          break;
+        case 'removeDirectory':
+          result = await target.removeDirectory(operation.path, operation.recursive);
+          if (!result.success && !(await target.exists(operation.path))) return null;
+          break;
+        case 'deleteFile':
+          result = await target.deleteFile(operation.path);
+          if (!result.success && !(await target.exists(operation.path))) return null;
+          break;
+        case 'moveItem':
+          result = await target.moveItem(operation.sourcePath, operation.destinationPath, {
+            overwrite: operation.overwrite,
+          });
+          break;
+        case 'copyItem':
+          result = await target.copyItem(operation.sourcePath, operation.destinationPath, {
+            recursive: operation.recursive,
+            overwrite: operation.overwrite,
+          });
+          break;
+        case 'renameFile':
+          result = await target.renameFile(operation.path, operation.newName, { overwrite: operation.overwrite });
+          break;
+        case 'renameFolder':
+          result = await target.renameFolder(operation.path, operation.newName, { overwrite: operation.overwrite });
+          break;
+      }
+
+      return result.success ? null : result.error || 'Unknown error';
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  /**
+   * Copy a file from the primary to a secondary
+   */
+  private async replicateUpload(
+    target: StorageModule,
+    path: string,
+    metadata?: Record<string, unknown>
+  ): Promise<string | null> {
+    const download = await this.primary.downloadStream(path);
+    if (!download.success || !download.data) {
+      // Deleted or moved on the primary since; a later task replicates that
+      if (!(await this.primary.exists(path))) return null;
+      return download.error || 'Failed to read file from primary';
+    }
+
+    const { stream } = download.data;
+    const result = await target.uploadFile(Readable.toWeb(stream) as ReadableStream, path, {
+      overwrite: true,
+      metadata,
+    });
+
+    if (!result.success) {
+      stream.destroy();
+      return result.error || 'Unknown error';
+    }
+    return null;
+  }
+
+  /**
+   * Run a read on the primary and, if the primary is unavailable, on each secondary
+   * until one succeeds. Other failures, such as a missing file, are the answer.
+   */
+  private async read<T>(
+    operation: (module: StorageModule) => Promise<OperationResult<T>>,
+    signal?: AbortSignal
+  ): Promise<OperationResult<T>> {
+    let result: OperationResult<T>;
+    let threw = false;
+    try {
+      result = await operation(this.primary);
+    } catch (error) {
+      result = this.errorResult<T>((error as Error).message);
+      threw = true;
+    }
+
+    if (result.success || !this.readFallback || signal?.aborted || !(threw || isAvailabilityError(result.error))) {
+      return result;
+    }
+
+    for (const secondary of this.secondaries) {
+      try {
+        const fallback = await operation(secondary);
+        if (fallback.success) {
+          return fallback;
+        }
+      } catch {
+        // Try the next secondary
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Failures that are a module's answer: what was asked for is missing, refused or
+ * invalid. Checked first, as these messages contain the requested path.
+ */
+const DEFINITIVE_ERRORS = [/not found/i, /permission denied|access denied|forbidden/i, /invalid/i, /operation aborted/i];
+
+/** Failures that mean a module could not be reached or is overloaded */
+const AVAILABILITY_ERRORS = [
+  /\b(ECONNREFUSED|ECONNRESET|ECONNABORTED|ETIMEDOUT|ESOCKETTIMEDOUT|EHOSTUNREACH|ENETUNREACH|ENETDOWN|ENOTFOUND|EAI_AGAIN|EPIPE)\b/,
+  /socket hang up|network|timed? ?out|connection (closed|lost|reset|refused)/i,
+  /\b(status|HTTP) (5\d\d|429)\b/i,
+  /internal (server )?error|bad gateway|service unavailable|too many requests|rate limit|slow ?down/i,
+];
+
+function isAvailabilityError(message: string | undefined): boolean {
+  if (!message || DEFINITIVE_ERRORS.some((pattern) => pattern.test(message))) {
+    return false;
+  }
+  return AVAILABILITY_ERRORS.some((pattern) => pattern.test(message));
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Factory function to create a MirroredStorageModule instance
+ */
+export function createMirroredModule(options: MirroredStorageOptions): MirroredStorageModule {
+  return new MirroredStorageModule(options);
+}
+
+export default MirroredStorageModule;
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { MemoryStorageModule } from '../memory';
+import { MountedStorageModule } from './index';
+import type { HazoFilesConfig } from '../../types';
+
+const config: HazoFilesConfig = { provider: 'mount' };
+
+describe('MountedStorageModule moves', () => {
+  let left: MemoryStorageModule;
+  let right: MemoryStorageModule;
+  let mounted: MountedStorageModule;
+
+  const paths = async (module: MemoryStorageModule) =>
+    ((await module.listDirectory('/', { recursive: true, includeHidden: true })).data ?? [])
+      .map((item) => item.path)
+      .sort();
+  const read = async (path: string) => ((await mounted.downloadFile(path)).data as Buffer | undefined)?.toString();
+
+  beforeEach(async () => {
+    left = new MemoryStorageModule();
+    right = new MemoryStorageModule();
+    mounted = new MountedStorageModule({ '/left': left, '/right': right });
+    await mounted.initialize(config);
+
+    await mounted.uploadFile(Buffer.from('report'), '/left/docs/report.txt');
+    await mounted.uploadFile(Buffer.from('secret'), '/left/docs/.env');
+    await mounted.uploadFile(Buffer.from('nested'), '/left/docs/sub/deep.txt');
+  });
+
+  it('moves within a mount with the mounted module', async () => {
+    const result = await mounted.moveItem('/left/docs/report.txt', '/left/report.txt');
+
+    expect(result.data).toMatchObject({ path: '/left/report.txt', name: 'report.txt' });
+    expect(await read('/left/report.txt')).toBe('report');
+    expect(await right.exists('/report.txt')).toBe(false);
+  });
+
+  it('moves a file across mounts', async () => {
+    const result = await mounted.moveItem('/left/docs/report.txt', '/right/report.txt');
+
+    expect(result.data).toMatchObject({ path: '/right/report.txt', size: 6 });
+    expect(await read('/right/report.txt')).toBe('report');
+    expect(await left.exists('/docs/report.txt')).toBe(false);
+  });
+
+  it('moves a folder across mounts with its hidden files', async () => {
+    const result = await mounted.moveItem('/left/docs', '/right/archive');
+
+    expect(result.data).toMatchObject({ path: '/right/archive', isDirectory: true });
+    expect(await paths(right)).toEqual([
+      '/archive',
+      '/archive/.env',
+      '/archive/report.txt',
+      '/archive/sub',
+      '/archive/sub/deep.txt',
+    ]);
+    expect(await paths(left)).toEqual([]);
+    expect(await read('/right/archive/sub/deep.txt')).toBe('nested');
+  });
+
+  it('refuses to replace an existing item unless asked to', async () => {
+    await mounted.uploadFile(Buffer.from('old'), '/right/archive/old.txt');
+
+    const refused = await mounted.moveItem('/left/docs', '/right/archive');
+    expect(refused.success).toBe(false);
+    expect(await left.exists('/docs/report.txt')).toBe(true);
+
+    const replaced = await mounted.moveItem('/left/docs', '/right/archive', { overwrite: true });
+    expect(replaced.success).toBe(true);
+    expect(await right.exists('/archive/old.txt')).toBe(false);
+    expect(await read('/right/archive/report.txt')).toBe('report');
+  });
+
+  it('keeps the source when the copy fails', async () => {
+    const upload = right.uploadFile.bind(right);
+    right.uploadFile = async (source, remotePath, options) =>
+      remotePath.endsWith('deep.txt') ? { success: false, error: 'Disk full' } : upload(source, remotePath, options);
+
+    const result = await mounted.moveItem('/left/docs', '/right/archive');
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Disk full');
+    expect(await paths(left)).toEqual(['/docs', '/docs/.env', '/docs/report.txt', '/docs/sub', '/docs/sub/deep.txt']);
+  });
+
+  it('does not move mount points or the root', async () => {
+    expect((await mounted.moveItem('/left', '/right/left')).success).toBe(false);
+    expect((await mounted.renameFolder('/left', 'other')).success).toBe(false);
+    expect((await mounted.moveItem('/left/docs', '/docs')).success).toBe(false);
+  });
+});
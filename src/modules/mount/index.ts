@@ -0,0 +1,936 @@
+/**
+ * Mounted Storage Module
+ * Combines several storage modules into one virtual tree, each mounted at a
+ * top-level folder (e.g. /local, /drive, /dropbox). Paths are routed to the
+ * module of their mount; moves between mounts stream the data across.
+ */
+
+import { Readable } from 'stream';
+
+import { BaseStorageModule } from '../../common/base-module';
+import {
+  HazoFilesError,
+  ConfigurationError,
+  FileExistsError,
+  DirectoryExistsError,
+  DirectoryNotFoundError,
+  InvalidPathError,
+  PermissionDeniedError,
+  InvalidCursorError,
+  TrashItemNotFoundError,
+} from '../../common/errors';
+import { createFolderItem } from '../../common/utils';
+import { createModule } from '..';
+import type {
+  StorageModule,
+  StorageProvider,
+  HazoFilesConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+} from '../../types';
+
+/** A virtual path resolved to its mount */
+interface ResolvedPath {
+  /** Mount point, e.g. /drive */
+  mount: string;
+  module: StorageModule;
+  /** Path inside the mounted module */
+  path: string;
+}
+
+// Mount points are single top-level folders
+const MOUNT_PATH_PATTERN = /^\/[^/]+$/;
+
+/**
+ * Mounted Storage Module Implementation
+ *
+ * The root folder lists the mount points and is read-only, as are the mount points
+ * themselves (they can't be renamed, moved or removed). Item paths are reported as
+ * full virtual paths (/drive/reports/q1.pdf); item IDs come from the mounted module.
+ */
+export class MountedStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider = 'mount';
+
+  private mounts = new Map<string, StorageModule>();
+
+  /**
+   * @param mounts - Modules keyed by mount point. When omitted, the modules are created
+   * on initialize() from `config.mounts` (mount point -> provider).
+   */
+  constructor(mounts?: Record<string, StorageModule>) {
+    super();
+    for (const [mountPath, module] of Object.entries(mounts ?? {})) {
+      this.addMount(mountPath, module);
+    }
+  }
+
+  /**
+   * Create the configured mounts (if none were passed to the constructor) and
+   * initialize every mounted module that is not initialized yet. Each gets the shared
+   * configuration with its own provider.
+   */
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    if (this.mounts.size === 0) {
+      for (const [mountPath, provider] of Object.entries(config.mounts ?? {})) {
+        if (provider === 'mount') {
+          throw new ConfigurationError(`Mounts cannot be nested: ${mountPath}`);
+        }
+        this.addMount(mountPath, createModule(provider));
+      }
+    }
+
+    if (this.mounts.size === 0) {
+      throw new ConfigurationError('Mounted storage requires at least one mount');
+    }
+
+    for (const module of this.mounts.values()) {
+      if (module instanceof BaseStorageModule && module.isInitialized) continue;
+      await module.initialize({ ...config, provider: module.provider });
+    }
+    await super.initialize(config);
+  }
+
+  /**
+   * Get the mounted modules keyed by mount point
+   */
+  getMounts(): Record<string, StorageModule> {
+    return Object.fromEntries(this.mounts);
+  }
+
+  /**
+   * Get the module a virtual path belongs to, or null for the root and unknown mounts
+   */
+  getModuleForPath(virtualPath: string): StorageModule | null {
+    const normalized = this.normalizePath(virtualPath);
+    return this.mounts.get(`/${normalized.split('/')[1]}`) ?? null;
+  }
+
+  // ============================================
+  // Directory operations
+  // ============================================
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'create directory', true);
+      if (target.path === '/') {
+        throw new DirectoryExistsError(virtualPath);
+      }
+      return this.mapItemResult(target.mount, await target.module.createDirectory(target.path));
+    } catch (error) {
+      return this.failure(error, 'create directory');
+    }
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'remove directory');
+      return target.module.removeDirectory(target.path, recursive);
+    } catch (error) {
+      return this.failure(error, 'remove directory');
+    }
+  }
+
+  // ============================================
+  // File operations
+  // ============================================
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(remotePath, 'upload');
+      return this.mapItemResult(target.mount, await target.module.uploadFile(source, target.path, options));
+    } catch (error) {
+      return this.failure(error, 'upload file');
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveInMount(remotePath);
+      return target.module.downloadFile(target.path, localPath, options);
+    } catch (error) {
+      return this.failure(error, 'download file');
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveInMount(remotePath);
+      return target.module.downloadStream(target.path, options);
+    } catch (error) {
+      return this.failure(error, 'open download stream');
+    }
+  }
+
+  async downloadWebStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<WebDownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveInMount(remotePath);
+      return target.module.downloadWebStream(target.path, options);
+    } catch (error) {
+      return this.failure(error, 'open download stream');
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'delete');
+      return target.module.deleteFile(target.path, options);
+    } catch (error) {
+      return this.failure(error, 'delete file');
+    }
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'rename');
+      return this.mapItemResult(target.mount, await target.module.renameFile(target.path, newName, options));
+    } catch (error) {
+      return this.failure(error, 'rename file');
+    }
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'rename');
+      return this.mapItemResult(target.mount, await target.module.renameFolder(target.path, newName, options));
+    } catch (error) {
+      return this.failure(error, 'rename folder');
+    }
+  }
+
+  /**
+   * Move an item. Within a mount the module moves it natively; between mounts the
+   * item is streamed to the destination module, checked, and then deleted from the
+   * source. An existing item replaced with `overwrite` is only removed once the copy
+   * is complete. If a cross-mount move fails part way, the source and any replaced
+   * item are left untouched.
+   */
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const source = this.resolveWritable(sourcePath, 'move');
+      const destination = this.resolveWritable(destinationPath, 'move');
+
+      if (source.mount === destination.mount) {
+        return this.mapItemResult(
+          source.mount,
+          await source.module.moveItem(source.path, destination.path, options)
+        );
+      }
+
+      const item = this.unwrap(await source.module.getItem(source.path));
+      this.throwIfAborted(options.signal, sourcePath);
+
+      if (!options.overwrite && (await destination.module.exists(destination.path))) {
+        throw item.isDirectory ? new DirectoryExistsError(destinationPath) : new FileExistsError(destinationPath);
+      }
+
+      const copyOptions = { overwrite: options.overwrite, signal: options.signal };
+      const moved = await this.copyIntoPlace(destinationPath, copyOptions, async (target, targetOptions) => {
+        const into = this.resolveWritable(target, 'move');
+        if (item.isDirectory) {
+          await this.copyFolderAcross(source, into, targetOptions);
+          await this.verifyFolderCopy(source, into);
+        } else {
+          await this.copyFileAcross(source, into, targetOptions);
+        }
+        return this.mapItem(into.mount, this.unwrap(await into.module.getItem(into.path)));
+      });
+
+      if (item.isDirectory) {
+        this.unwrap(await source.module.removeDirectory(source.path, true));
+      } else {
+        this.unwrap(await source.module.deleteFile(source.path));
+      }
+      return this.successResult(moved);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      return this.failure(error, 'move item');
+    }
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const source = this.resolveWritable(sourcePath, 'copy');
+      const destination = this.resolveWritable(destinationPath, 'copy');
+
+      if (source.mount === destination.mount) {
+        const onProgress = options.onProgress;
+        const result = await source.module.copyItem(source.path, destination.path, {
+          ...options,
+          onProgress: onProgress && ((progress) =>
+            onProgress({ ...progress, path: this.toVirtualPath(source.mount, progress.path) })),
+        });
+        return this.mapItemResult(source.mount, result);
+      }
+
+      const item = await this.prepareCopy(sourcePath, destinationPath, options);
+      const copied = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        const into = this.resolveWritable(target, 'copy');
+        if (item.isDirectory) {
+          await this.copyFolderAcross(source, into, copyOptions);
+        } else {
+          await this.copyFileAcross(source, into, copyOptions);
+        }
+        const result = this.mapItem(into.mount, this.unwrap(await into.module.getItem(into.path)));
+        await this.reportCopiedItem(result, copyOptions);
+        return result;
+      });
+      return this.successResult(copied);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      return this.failure(error, 'copy item');
+    }
+  }
+
+  // ============================================
+  // Upload sessions (delegated to the mounted module)
+  // ============================================
+
+  async startUpload(remotePath: string, options: StartUploadOptions = {}): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(remotePath, 'upload');
+      const result = await target.module.startUpload(target.path, options);
+      return this.mapSessionResult(target.mount, result);
+    } catch (error) {
+      return this.failure(error, 'start upload');
+    }
+  }
+
+  async uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+
+    try {
+      const { mount, module, inner } = this.unwrapSession(session);
+      return this.mapSessionResult(mount, await module.uploadChunk(inner, chunk));
+    } catch (error) {
+      return this.failure(error, 'upload chunk');
+    }
+  }
+
+  async completeUpload(session: UploadSession): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const { mount, module, inner } = this.unwrapSession(session);
+      return this.mapItemResult(mount, await module.completeUpload(inner));
+    } catch (error) {
+      return this.failure(error, 'complete upload');
+    }
+  }
+
+  async abortUpload(session: UploadSession): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const { module, inner } = this.unwrapSession(session);
+      return module.abortUpload(inner);
+    } catch (error) {
+      return this.failure(error, 'abort upload');
+    }
+  }
+
+  // ============================================
+  // Query operations
+  // ============================================
+
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolve(virtualPath);
+      if (target) {
+        const result = await target.module.listDirectory(target.path, options);
+        return this.mapItemResult(target.mount, result);
+      }
+
+      // Root: one folder per mount, plus their contents when recursive
+      const items: FileSystemItem[] = [];
+      for (const mount of this.mounts.keys()) {
+        this.throwIfAborted(options.signal, virtualPath);
+        const folder = this.mountFolder(mount);
+        if (!options.filter || options.filter(folder)) {
+          items.push(folder);
+        }
+        if (options.recursive) {
+          const children = this.unwrap(
+            this.mapItemResult(mount, await this.mounts.get(mount)!.listDirectory('/', options))
+          );
+          items.push(...children);
+        }
+      }
+      return this.successResult(items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      return this.failure(error, 'list directory');
+    }
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolve(virtualPath);
+      if (!target) {
+        return this.successResult(createFolderItem({ id: 'mount:/', name: '', path: '/' }));
+      }
+      if (target.path === '/') {
+        return this.successResult(this.mountFolder(target.mount));
+      }
+      return this.mapItemResult(target.mount, await target.module.getItem(target.path));
+    } catch (error) {
+      return this.failure(error, 'get item');
+    }
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolve(virtualPath);
+      return target ? await target.module.exists(target.path) : true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolve(path);
+      if (target) {
+        const result = await target.module.getFolderTree(target.path, depth);
+        if (!result.success || !result.data) {
+          return result;
+        }
+        return this.successResult(result.data.map((node) => this.mapTreeNode(target.mount, node)));
+      }
+
+      const nodes: TreeNode[] = [];
+      for (const [mount, module] of this.mounts) {
+        let children: TreeNode[] = [];
+        if (depth > 1) {
+          const result = await module.getFolderTree('/', depth - 1);
+          children = (result.data ?? []).map((node) => this.mapTreeNode(mount, node));
+        }
+        nodes.push({ id: `mount:${mount}`, name: mount.slice(1), path: mount, children });
+      }
+      return this.successResult(nodes);
+    } catch (error) {
+      return this.failure(error, 'get folder tree');
+    }
+  }
+
+  /**
+   * Changes of every mount that supports a change feed, by virtual path.
+   * The cursor holds one cursor per mount; mounts without a change feed are left out.
+   */
+  async getChanges(cursor?: string, options: GetChangesOptions = {}): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+
+    try {
+      const cursors: Record<string, string> = {};
+      const changes: FileChange[] = [];
+      let hasMore = false;
+
+      if (!cursor) {
+        for (const [mount, module] of this.mounts) {
+          this.throwIfAborted(options.signal);
+          const result = await module.getChanges(undefined, options);
+          if (result.success && result.data) {
+            cursors[mount] = result.data.cursor;
+          }
+        }
+        return this.successResult({ changes, cursor: encodeMountCursor(cursors), hasMore });
+      }
+
+      for (const [mount, innerCursor] of Object.entries(decodeMountCursor(cursor))) {
+        const module = this.mounts.get(mount);
+        if (!module) continue; // Unmounted since
+        this.throwIfAborted(options.signal);
+
+        const page = this.unwrap(await module.getChanges(innerCursor, options));
+        cursors[mount] = page.cursor;
+        hasMore = hasMore || page.hasMore;
+        for (const change of page.changes) {
+          changes.push({
+            ...change,
+            path: this.toVirtualPath(mount, change.path),
+            ...(change.previousPath !== undefined
+              ? { previousPath: this.toVirtualPath(mount, change.previousPath) }
+              : {}),
+            ...(change.item ? { item: this.mapItem(mount, change.item) } : {}),
+          });
+        }
+      }
+      return this.successResult({ changes, cursor: encodeMountCursor(cursors), hasMore });
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult();
+      }
+      return this.failure(error, 'get changes');
+    }
+  }
+
+  async listVersions(virtualPath: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveInMount(virtualPath);
+      const result = await target.module.listVersions(target.path);
+      if (!result.success || !result.data) {
+        return result;
+      }
+      return this.successResult(result.data.map((version) => ({
+        ...version,
+        path: this.toVirtualPath(target.mount, version.path),
+      })));
+    } catch (error) {
+      return this.failure(error, 'list versions');
+    }
+  }
+
+  async downloadVersion(virtualPath: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveInMount(virtualPath);
+      return target.module.downloadVersion(target.path, versionId);
+    } catch (error) {
+      return this.failure(error, 'download version');
+    }
+  }
+
+  async restoreVersion(virtualPath: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'restore');
+      return this.mapItemResult(target.mount, await target.module.restoreVersion(target.path, versionId));
+    } catch (error) {
+      return this.failure(error, 'restore version');
+    }
+  }
+
+  /**
+   * Trash IDs are prefixed with the mount, e.g. /drive:1a2b3c
+   */
+  async trashItem(virtualPath: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+
+    try {
+      const target = this.resolveWritable(virtualPath, 'delete');
+      const result = await target.module.trashItem(target.path);
+      if (!result.success || !result.data) {
+        return result;
+      }
+      return this.successResult(this.mapTrashItem(target.mount, result.data));
+    } catch (error) {
+      return this.failure(error, 'move to trash');
+    }
+  }
+
+  /**
+   * Trash of every mount that has one, most recently deleted first
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      const items: TrashItem[] = [];
+      for (const [mount, module] of this.mounts) {
+        const result = await module.listTrash();
+        if (result.success && result.data) {
+          items.push(...result.data.map((item) => this.mapTrashItem(mount, item)));
+        }
+      }
+      return this.successResult(items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()));
+    } catch (error) {
+      return this.failure(error, 'list trash');
+    }
+  }
+
+  /**
+   * Restore an item within the mount it was deleted from
+   */
+  async restoreFromTrash(
+    trashId: string,
+    options: RestoreFromTrashOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const { mount, module, innerId } = this.resolveTrashId(trashId);
+      let innerOptions = options;
+      if (options.path) {
+        const target = this.resolveWritable(options.path, 'restore');
+        if (target.mount !== mount) {
+          throw new InvalidPathError(options.path, `items trashed in ${mount} are restored within ${mount}`);
+        }
+        innerOptions = { ...options, path: target.path };
+      }
+      return this.mapItemResult(mount, await module.restoreFromTrash(innerId, innerOptions));
+    } catch (error) {
+      return this.failure(error, 'restore from trash');
+    }
+  }
+
+  async purgeTrash(options: PurgeTrashOptions = {}): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      const byMount = new Map<string, string[]>();
+      for (const trashId of options.ids ?? []) {
+        const { mount, innerId } = this.resolveTrashId(trashId);
+        byMount.set(mount, [...(byMount.get(mount) ?? []), innerId]);
+      }
+
+      const purged: TrashItem[] = [];
+      for (const [mount, module] of this.mounts) {
+        if (options.ids && !byMount.has(mount)) continue;
+        const result = await module.purgeTrash(options.ids ? { ...options, ids: byMount.get(mount) } : options);
+        if (result.success && result.data) {
+          purged.push(...result.data.map((item) => this.mapTrashItem(mount, item)));
+        } else if (options.ids) {
+          this.unwrap(result);
+        }
+      }
+      return this.successResult(purged);
+    } catch (error) {
+      return this.failure(error, 'purge trash');
+    }
+  }
+
+  // ============================================
+  // Helper methods
+  // ============================================
+
+  private addMount(mountPath: string, module: StorageModule): void {
+    const normalized = this.normalizePath(mountPath);
+    if (!MOUNT_PATH_PATTERN.test(normalized)) {
+      throw new ConfigurationError(`Invalid mount point "${mountPath}": use a single top-level folder such as /drive`);
+    }
+    if (this.mounts.has(normalized)) {
+      throw new ConfigurationError(`Duplicate mount point: ${normalized}`);
+    }
+    this.mounts.set(normalized, module);
+  }
+
+  /**
+   * Resolve a virtual path to its mount (null for the root)
+   */
+  private resolve(virtualPath: string): ResolvedPath | null {
+    const normalized = this.normalizePath(virtualPath);
+    if (normalized === '/') {
+      return null;
+    }
+
+    const mount = `/${normalized.split('/')[1]}`;
+    const module = this.mounts.get(mount);
+    if (!module) {
+      throw new DirectoryNotFoundError(mount);
+    }
+    return { mount, module, path: normalized.slice(mount.length) || '/' };
+  }
+
+  /**
+   * Resolve a path that must be inside a mount
+   */
+  private resolveInMount(virtualPath: string): ResolvedPath {
+    const target = this.resolve(virtualPath);
+    if (!target) {
+      throw new InvalidPathError(virtualPath, 'the root only contains mount points');
+    }
+    return target;
+  }
+
+  /**
+   * Resolve a path that is about to be changed; the root and mount points are read-only
+   */
+  private resolveWritable(virtualPath: string, operation: string, allowMountPoint = false): ResolvedPath {
+    const normalized = this.normalizePath(virtualPath);
+    if (MOUNT_PATH_PATTERN.test(normalized) && !this.mounts.has(normalized)) {
+      // A new item directly in the root
+      throw new PermissionDeniedError(normalized, operation);
+    }
+
+    const target = this.resolve(virtualPath);
+    if (!target || (target.path === '/' && !allowMountPoint)) {
+      throw new PermissionDeniedError(normalized, operation);
+    }
+    return target;
+  }
+
+  private async copyFileAcross(source: ResolvedPath, destination: ResolvedPath, options: MoveOptions): Promise<void> {
+    const { stream } = this.unwrap(await source.module.downloadStream(source.path, { signal: options.signal }));
+    const result = await destination.module.uploadFile(
+      Readable.toWeb(stream) as ReadableStream,
+      destination.path,
+      { overwrite: options.overwrite, signal: options.signal }
+    );
+    if (!result.success) {
+      stream.destroy();
+    }
+    this.unwrap(result);
+  }
+
+  private async copyFolderAcross(source: ResolvedPath, destination: ResolvedPath, options: MoveOptions): Promise<void> {
+    this.throwIfAborted(options.signal, source.path);
+    if (!(await destination.module.exists(destination.path))) {
+      this.unwrap(await destination.module.createDirectory(destination.path));
+    }
+
+    const children = this.unwrap(
+      await source.module.listDirectory(source.path, { includeHidden: true, signal: options.signal })
+    );
+    for (const child of children) {
+      const childSource = { ...source, path: this.joinPath(source.path, child.name) };
+      const childDestination = { ...destination, path: this.joinPath(destination.path, child.name) };
+      if (child.isDirectory) {
+        await this.copyFolderAcross(childSource, childDestination, options);
+      } else {
+        await this.copyFileAcross(childSource, childDestination, options);
+      }
+    }
+  }
+
+  /**
+   * Check that every file and folder below a source folder is at the destination
+   * (files with the same size), before the source of a move is deleted
+   */
+  private async verifyFolderCopy(source: ResolvedPath, destination: ResolvedPath): Promise<void> {
+    const listAll = async (target: ResolvedPath) => {
+      const items = this.unwrap(await target.module.listDirectory(target.path, { recursive: true, includeHidden: true }));
+      const prefix = target.path === '/' ? '' : target.path;
+      return new Map(items.map((item) => [
+        this.normalizePath(item.path).slice(prefix.length),
+        item.isDirectory ? -1 : item.size,
+      ]));
+    };
+
+    const copied = await listAll(destination);
+    const missing = Array.from(await listAll(source)).filter(([path, size]) => copied.get(path) !== size);
+    if (missing.length > 0) {
+      throw new Error(
+        `Copy of ${this.toVirtualPath(source.mount, source.path)} is incomplete ` +
+        `(${missing.length} items missing, e.g. ${missing[0][0]}); the source was kept`
+      );
+    }
+  }
+
+  /**
+   * Return the data of a successful result, or throw its error
+   */
+  private unwrap<T>(result: OperationResult<T>): T {
+    if (!result.success) {
+      throw new Error(result.error || 'Unknown error');
+    }
+    return result.data as T;
+  }
+
+  private toVirtualPath(mount: string, innerPath: string): string {
+    const normalized = this.normalizePath(innerPath);
+    return normalized === '/' ? mount : `${mount}${normalized}`;
+  }
+
+  private mountFolder(mount: string): FolderItem {
+    return createFolderItem({
+      id: `mount:${mount}`,
+      name: mount.slice(1),
+      path: mount,
+      metadata: { provider: this.mounts.get(mount)!.provider },
+    });
+  }
+
+  private mapItem<T extends FileSystemItem>(mount: string, item: T): T {
+    const mapped = { ...item, path: this.toVirtualPath(mount, item.path) };
+    if (mapped.isDirectory && mapped.children) {
+      mapped.children = mapped.children.map((child) => this.mapItem(mount, child));
+    }
+    return mapped;
+  }
+
+  /**
+   * Rewrite the item paths in a mounted module's result to virtual paths
+   */
+  private mapItemResult<T extends FileSystemItem | FileSystemItem[]>(
+    mount: string,
+    result: OperationResult<T>
+  ): OperationResult<T> {
+    if (!result.success || !result.data) {
+      return result;
+    }
+    const data = Array.isArray(result.data)
+      ? result.data.map((item) => this.mapItem(mount, item))
+      : this.mapItem(mount, result.data as FileSystemItem);
+    return { ...result, data: data as T };
+  }
+
+  private mapTrashItem(mount: string, item: TrashItem): TrashItem {
+    return { ...item, id: `${mount}:${item.id}`, originalPath: this.toVirtualPath(mount, item.originalPath) };
+  }
+
+  private resolveTrashId(trashId: string): { mount: string; module: StorageModule; innerId: string } {
+    const separator = trashId.indexOf(':');
+    const module = separator > 0 ? this.mounts.get(trashId.slice(0, separator)) : undefined;
+    if (!module) {
+      throw new TrashItemNotFoundError(trashId);
+    }
+    return { mount: trashId.slice(0, separator), module, innerId: trashId.slice(separator + 1) };
+  }
+
+  private mapTreeNode(mount: string, node: TreeNode): TreeNode {
+    return {
+      ...node,
+      path: this.toVirtualPath(mount, node.path),
+      children: node.children.map((child) => this.mapTreeNode(mount, child)),
+    };
+  }
+
+  /**
+   * Wrap a mounted module's session so it can be routed back to that module.
+   * The original session is kept in providerState, so the wrapper stays plain JSON.
+   */
+  private mapSessionResult(mount: string, result: OperationResult<UploadSession>): OperationResult<UploadSession> {
+    if (!result.success || !result.data) {
+      return result;
+    }
+    const inner = result.data;
+    return this.successResult({
+      ...inner,
+      provider: this.provider,
+      remotePath: this.toVirtualPath(mount, inner.remotePath),
+      providerState: { mount, session: inner },
+    });
+  }
+
+  private unwrapSession(session: UploadSession): { mount: string; module: StorageModule; inner: UploadSession } {
+    const mount = session.providerState.mount as string;
+    const inner = session.providerState.session as UploadSession | undefined;
+    const module = this.mounts.get(mount);
+    if (!module || !inner) {
+      throw new InvalidPathError(session.remotePath, 'upload session does not belong to a mount');
+    }
+    return { mount, module, inner };
+  }
+
+  private failure<T>(error: unknown, operation: string): OperationResult<T> {
+    if (error instanceof HazoFilesError) {
+      return this.errorResult(error.message);
+    }
+    return this.errorResult(`Failed to ${operation}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Mount cursors are the cursors of the mounts, keyed by mount point, as base64url JSON
+ */
+function encodeMountCursor(cursors: Record<string, string>): string {
+  return Buffer.from(JSON.stringify(cursors)).toString('base64url');
+}
+
+function decodeMountCursor(cursor: string): Record<string, string> {
+  try {
+    const cursors = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as unknown;
+    if (cursors && typeof cursors === 'object' && !Array.isArray(cursors)) {
+      return cursors as Record<string, string>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new InvalidCursorError(cursor, 'not a mount change cursor');
+}
+
+/**
+ * Factory function to create a MountedStorageModule instance
+ * @param mounts - Modules keyed by mount point (default: created from config.mounts on initialize)
+ */
+export function createMountedModule(mounts?: Record<string, StorageModule>): MountedStorageModule {
+  return new MountedStorageModule(mounts);
+}
+
+export default MountedStorageModule;
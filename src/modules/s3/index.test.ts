@@ -0,0 +1,38 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ListObjectsV2Command } from '@aws-sdk/client-s3';
+
+import { S3StorageModule } from './index';
+import type { HazoFilesConfig } from '../../types';
+
+const config: HazoFilesConfig = {
+  provider: 's3',
+  s3: { bucket: 'files', region: 'us-east-1', prefix: 'tenant-1', accessKeyId: 'key', secretAccessKey: 'secret' },
+};
+
+describe('S3StorageModule.listDirectory', () => {
+  let storage: S3StorageModule;
+  let send: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    storage = new S3StorageModule();
+    await storage.initialize(config);
+    // An empty bucket prefix: every listing comes back without objects
+    send = vi.fn(async () => ({ IsTruncated: false }));
+    storage.getClient().send = send as never;
+  });
+
+  it('lists the root under an empty prefix as an empty folder', async () => {
+    const result = await storage.listDirectory('/');
+
+    expect(result).toEqual({ success: true, data: [] });
+    const command = send.mock.calls[0][0] as ListObjectsV2Command;
+    expect(command.input).toMatchObject({ Bucket: 'files', Prefix: 'tenant-1/', Delimiter: '/' });
+  });
+
+  it('fails for other folders without objects', async () => {
+    const result = await storage.listDirectory('/missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/not found/i);
+  });
+});
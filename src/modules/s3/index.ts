@@ -0,0 +1,1065 @@
+/**
+ * S3-Compatible Storage Module
+ * Implements file operations using the AWS SDK v3 (works with AWS S3, MinIO, and other S3-compatible services)
+ *
+ * S3 has no real directories: folders are represented as key prefixes, and an
+ * empty zero-byte object ending in "/" is written as a marker for empty folders.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  S3Client,
+  HeadObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCopyCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  type _Object,
+  type HeadObjectCommandOutput,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+
+import { BaseStorageModule } from '../../common/base-module';
+import {
+  HazoFilesError,
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  FileExistsError,
+  DirectoryExistsError,
+  DirectoryNotEmptyError,
+  PermissionDeniedError,
+  InvalidRangeError,
+  ConfigurationError,
+} from '../../common/errors';
+import { getMimeType } from '../../common/mime-types';
+import { createFileItem, createFolderItem } from '../../common/utils';
+import { resolveByteRange, emptyStream } from '../../common/stream-utils';
+import type {
+  StorageProvider,
+  HazoFilesConfig,
+  S3Config,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+  TreeNode,
+} from '../../types';
+
+// 8MB default part size, 5MB is the S3 minimum
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+// CopyObject rejects sources over 5GB; larger objects are copied in parts
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024;
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+// DeleteObjects accepts at most 1000 keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+export class S3StorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider = 's3';
+  private client: S3Client | null = null;
+  private bucket: string = '';
+  private prefix: string = '';
+  private partSize: number = DEFAULT_PART_SIZE;
+
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    await super.initialize(config);
+
+    const s3Config = this.getProviderConfig<S3Config>();
+
+    if (!s3Config.bucket) {
+      throw new ConfigurationError('S3 bucket is required');
+    }
+
+    this.bucket = s3Config.bucket;
+    this.prefix = (s3Config.prefix || '').replace(/^\/+|\/+$/g, '');
+    this.partSize = Math.max(s3Config.partSize || DEFAULT_PART_SIZE, MIN_PART_SIZE);
+
+    this.client = new S3Client({
+      region: s3Config.region || 'us-east-1',
+      endpoint: s3Config.endpoint || undefined,
+      forcePathStyle: s3Config.forcePathStyle ?? false,
+      credentials:
+        s3Config.accessKeyId && s3Config.secretAccessKey
+          ? {
+              accessKeyId: s3Config.accessKeyId,
+              secretAccessKey: s3Config.secretAccessKey,
+            }
+          : undefined,
+    });
+  }
+
+  /**
+   * Get the underlying S3 client
+   */
+  getClient(): S3Client {
+    this.ensureInitialized();
+    return this.client!;
+  }
+
+  /**
+   * Convert a virtual path to an object key
+   * Virtual: /folder/file.txt -> Key: folder/file.txt (or prefix/folder/file.txt)
+   */
+  private toKey(virtualPath: string): string {
+    const relative = this.normalizePath(virtualPath).slice(1);
+    if (!this.prefix) return relative;
+    return relative ? `${this.prefix}/${relative}` : this.prefix;
+  }
+
+  /**
+   * Convert a virtual directory path to its key prefix (always ends with "/", except the bucket root)
+   */
+  private toDirKey(virtualPath: string): string {
+    const key = this.toKey(virtualPath);
+    return key ? `${key}/` : '';
+  }
+
+  /**
+   * Convert an object key (or key prefix) back to a virtual path
+   */
+  private toVirtualPath(key: string): string {
+    let relative = key;
+    if (this.prefix && (relative === this.prefix || relative.startsWith(`${this.prefix}/`))) {
+      relative = relative.slice(this.prefix.length);
+    }
+    return this.normalizePath('/' + relative);
+  }
+
+  /**
+   * Map SDK errors onto hazo_files errors where possible
+   */
+  private translateError(error: unknown, virtualPath: string, operation: string): unknown {
+    const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    const status = err?.$metadata?.httpStatusCode;
+    if (err?.name === 'AccessDenied' || err?.name === 'Forbidden' || status === 403) {
+      return new PermissionDeniedError(virtualPath, operation);
+    }
+    return error;
+  }
+
+  /**
+   * Check whether an SDK error means the object does not exist
+   */
+  private isNotFound(error: unknown): boolean {
+    const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+    return (
+      err?.name === 'NotFound' ||
+      err?.name === 'NoSuchKey' ||
+      err?.$metadata?.httpStatusCode === 404
+    );
+  }
+
+  /**
+   * HEAD an object, returning null if it doesn't exist
+   */
+  private async headObject(key: string): Promise<HeadObjectCommandOutput | null> {
+    try {
+      return await this.client!.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether any object exists under a directory prefix
+   */
+  private async prefixExists(dirKey: string): Promise<boolean> {
+    if (!dirKey) return true; // Bucket root always exists
+    const response = await this.client!.send(
+      new ListObjectsV2Command({ Bucket: this.bucket, Prefix: dirKey, MaxKeys: 1 })
+    );
+    return (response.KeyCount ?? 0) > 0;
+  }
+
+  /**
+   * List every object under a prefix (no delimiter, follows continuation tokens)
+   */
+  private async listAllObjects(dirKey: string): Promise<_Object[]> {
+    const objects: _Object[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client!.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: dirKey,
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const object of response.Contents || []) {
+        if (object.Key) objects.push(object);
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  /**
+   * List every object key under a prefix
+   */
+  private async listAllKeys(dirKey: string): Promise<string[]> {
+    return (await this.listAllObjects(dirKey)).map(object => object.Key!);
+  }
+
+  /**
+   * Delete a set of keys in batches
+   */
+  private async deleteKeys(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + DELETE_BATCH_SIZE);
+      const response = await this.client!.send(
+        new DeleteObjectsCommand({
+          Bucket: this.bucket,
+          Delete: { Objects: batch.map(Key => ({ Key })), Quiet: true },
+        })
+      );
+      if (response.Errors && response.Errors.length > 0) {
+        const first = response.Errors[0];
+        throw new Error(`Failed to delete ${first.Key}: ${first.Message || first.Code}`);
+      }
+    }
+  }
+
+  /**
+   * Server-side copy of a single object. Objects over 5GB, which CopyObject
+   * rejects, are copied with a multipart upload of UploadPartCopy parts.
+   * @param size - The source's size when already known, saving a HEAD request
+   */
+  private async copyObject(sourceKey: string, destinationKey: string, size?: number): Promise<void> {
+    const copySource = `${this.bucket}/${sourceKey.split('/').map(encodeURIComponent).join('/')}`;
+
+    let head: HeadObjectCommandOutput | null = null;
+    if (size === undefined) {
+      head = await this.headObject(sourceKey);
+      if (!head) throw new FileNotFoundError(this.toVirtualPath(sourceKey));
+      size = head.ContentLength ?? 0;
+    }
+
+    if (size <= MAX_COPY_OBJECT_SIZE) {
+      await this.client!.send(
+        new CopyObjectCommand({
+          Bucket: this.bucket,
+          CopySource: copySource,
+          Key: destinationKey,
+        })
+      );
+      return;
+    }
+
+    // CopyObject carries the content type and metadata over; a multipart upload has to set them
+    head ??= await this.headObject(sourceKey);
+    if (!head) throw new FileNotFoundError(this.toVirtualPath(sourceKey));
+
+    const { UploadId } = await this.client!.send(
+      new CreateMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: destinationKey,
+        ContentType: head.ContentType,
+        ContentDisposition: head.ContentDisposition,
+        ContentEncoding: head.ContentEncoding,
+        CacheControl: head.CacheControl,
+        Metadata: head.Metadata,
+      })
+    );
+
+    try {
+      const partSize = Math.max(COPY_PART_SIZE, Math.ceil(size / MAX_PARTS));
+      const parts: { ETag?: string; PartNumber: number }[] = [];
+      for (let start = 0, partNumber = 1; start < size; start += partSize, partNumber++) {
+        const end = Math.min(start + partSize, size) - 1;
+        const response = await this.client!.send(
+          new UploadPartCopyCommand({
+            Bucket: this.bucket,
+            Key: destinationKey,
+            UploadId,
+            PartNumber: partNumber,
+            CopySource: copySource,
+            CopySourceRange: `bytes=${start}-${end}`,
+            // Fail rather than mix parts of two versions if the source changes mid-copy
+            CopySourceIfMatch: head.ETag,
+          })
+        );
+        parts.push({ ETag: response.CopyPartResult?.ETag, PartNumber: partNumber });
+      }
+
+      await this.client!.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucket,
+          Key: destinationKey,
+          UploadId,
+          MultipartUpload: { Parts: parts },
+        })
+      );
+    } catch (error) {
+      await this.client!.send(
+        new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: destinationKey, UploadId })
+      ).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Convert a listed object to a FileItem
+   */
+  private objectToFileItem(object: _Object): FileItem {
+    const virtualPath = this.toVirtualPath(object.Key!);
+    const name = this.getBaseName(virtualPath);
+    return createFileItem({
+      id: object.Key!,
+      name,
+      path: virtualPath,
+      size: object.Size ?? 0,
+      mimeType: getMimeType(name),
+      createdAt: object.LastModified,
+      modifiedAt: object.LastModified,
+      metadata: {
+        key: object.Key,
+        etag: object.ETag,
+        storageClass: object.StorageClass,
+      },
+    });
+  }
+
+  /**
+   * Convert a HEAD response to a FileItem
+   */
+  private headToFileItem(key: string, head: HeadObjectCommandOutput): FileItem {
+    const virtualPath = this.toVirtualPath(key);
+    const name = this.getBaseName(virtualPath);
+    return createFileItem({
+      id: key,
+      name,
+      path: virtualPath,
+      size: head.ContentLength ?? 0,
+      mimeType: head.ContentType && head.ContentType !== 'application/octet-stream'
+        ? head.ContentType
+        : getMimeType(name),
+      createdAt: head.LastModified,
+      modifiedAt: head.LastModified,
+      metadata: {
+        key,
+        etag: head.ETag,
+        storageClass: head.StorageClass,
+      },
+    });
+  }
+
+  /**
+   * Create a FolderItem for a directory prefix
+   */
+  private prefixToFolderItem(dirKey: string): FolderItem {
+    const virtualPath = this.toVirtualPath(dirKey);
+    return createFolderItem({
+      id: dirKey,
+      name: this.getBaseName(virtualPath),
+      path: virtualPath,
+      metadata: {
+        prefix: dirKey,
+      },
+    });
+  }
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      const dirKey = this.toDirKey(normalized);
+
+      if (normalized === '/' || (await this.prefixExists(dirKey))) {
+        throw new DirectoryExistsError(virtualPath);
+      }
+      if (await this.headObject(this.toKey(normalized))) {
+        throw new FileExistsError(virtualPath);
+      }
+
+      await this.client!.send(
+        new PutObjectCommand({ Bucket: this.bucket, Key: dirKey, Body: '' })
+      );
+
+      return this.successResult(this.prefixToFolderItem(dirKey));
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'createDirectory');
+      if (
+        translated instanceof DirectoryExistsError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to create directory: ${(error as Error).message}`);
+    }
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const dirKey = this.toDirKey(virtualPath);
+      const keys = await this.listAllKeys(dirKey);
+
+      if (keys.length === 0) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      if (!recursive && keys.some(key => key !== dirKey)) {
+        throw new DirectoryNotEmptyError(virtualPath);
+      }
+
+      await this.deleteKeys(keys);
+      return this.successResult();
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'removeDirectory');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryNotEmptyError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to remove directory: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const key = this.toKey(remotePath);
+      const fileName = this.getBaseName(remotePath);
+
+      if (!options.overwrite && (await this.headObject(key))) {
+        throw new FileExistsError(remotePath);
+      }
+
+      let body: Readable | Buffer;
+      let totalBytes: number | undefined;
+
+      if (typeof source === 'string') {
+        // Source is a local file path
+        const stats = await fs.promises.stat(source);
+        totalBytes = stats.size;
+        body = fs.createReadStream(source);
+      } else if (Buffer.isBuffer(source)) {
+        totalBytes = source.length;
+        body = source;
+      } else {
+        body = Readable.fromWeb(source as import('stream/web').ReadableStream);
+      }
+
+      // lib-storage switches to a multipart upload once the body exceeds one part
+      const upload = new Upload({
+        client: this.client!,
+        params: {
+          Bucket: this.bucket,
+          Key: key,
+          Body: body,
+          ContentType: getMimeType(fileName),
+        },
+        partSize: this.partSize,
+        leavePartsOnError: false,
+      });
+
+      // Aborting stops the upload and removes any uploaded parts
+      const abortUpload = () => {
+        upload.abort().catch(() => {});
+      };
+      this.throwIfAborted(options.signal, remotePath);
+      options.signal?.addEventListener('abort', abortUpload, { once: true });
+
+      if (options.onProgress) {
+        upload.on('httpUploadProgress', (progress) => {
+          const loaded = progress.loaded ?? 0;
+          const total = progress.total ?? totalBytes ?? loaded;
+          options.onProgress!(total > 0 ? (loaded / total) * 100 : 0, loaded, total);
+        });
+      }
+
+      try {
+        await upload.done();
+      } finally {
+        options.signal?.removeEventListener('abort', abortUpload);
+      }
+
+      const head = await this.headObject(key);
+      if (!head) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      return this.successResult(this.headToFileItem(key, head));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'uploadFile');
+      if (
+        translated instanceof FileExistsError ||
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const key = this.toKey(remotePath);
+
+      let response;
+      try {
+        response = await this.client!.send(
+          new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+          { abortSignal: options.signal }
+        );
+      } catch (error) {
+        if (this.isNotFound(error)) throw new FileNotFoundError(remotePath);
+        throw error;
+      }
+
+      if (!response.Body) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const totalBytes = response.ContentLength ?? 0;
+
+      if (localPath) {
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+
+        const readStream = response.Body as Readable;
+        if (options.onProgress) {
+          let bytesTransferred = 0;
+          readStream.on('data', (chunk: Buffer) => {
+            bytesTransferred += chunk.length;
+            const progress = totalBytes > 0 ? (bytesTransferred / totalBytes) * 100 : 0;
+            options.onProgress!(progress, bytesTransferred, totalBytes);
+          });
+        }
+
+        await pipeline(readStream, fs.createWriteStream(localPath), { signal: options.signal });
+        return this.successResult(localPath);
+      }
+
+      const buffer = Buffer.from(await response.Body.transformToByteArray());
+      if (options.onProgress) {
+        options.onProgress(100, buffer.length, buffer.length);
+      }
+      return this.successResult(buffer);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadFile');
+      if (translated instanceof FileNotFoundError || translated instanceof PermissionDeniedError) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const key = this.toKey(remotePath);
+
+      const head = await this.headObject(key);
+      if (!head) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const size = head.ContentLength ?? 0;
+      const range = resolveByteRange(remotePath, size, options);
+
+      let stream: Readable = emptyStream();
+      if (range.length > 0) {
+        const response = await this.client!.send(
+          new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: key,
+            Range: range.length < size ? `bytes=${range.start}-${range.end}` : undefined,
+          }),
+          { abortSignal: options.signal }
+        );
+        if (!response.Body) {
+          throw new FileNotFoundError(remotePath);
+        }
+        stream = response.Body as Readable;
+      }
+
+      return this.successResult(
+        this.toDownloadStream(remotePath, stream, size, range, options, head.ContentType)
+      );
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadStream');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof InvalidRangeError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Move a single object or a whole prefix. Throws on failure.
+   */
+  private async moveKeys(
+    sourcePath: string,
+    destinationPath: string,
+    signal?: AbortSignal
+  ): Promise<FileSystemItem> {
+    const sourceKey = this.toKey(sourcePath);
+    const destKey = this.toKey(destinationPath);
+    const sourceHead = await this.headObject(sourceKey);
+
+    if (sourceHead) {
+      // Single object: copy then delete
+      await this.copyObject(sourceKey, destKey, sourceHead.ContentLength);
+      await this.client!.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: sourceKey }));
+
+      const head = await this.headObject(destKey);
+      return this.headToFileItem(destKey, head || sourceHead);
+    }
+
+    // Folder: copy every object under the prefix, then delete the originals
+    const sourceDirKey = this.toDirKey(sourcePath);
+    const destDirKey = this.toDirKey(destinationPath);
+    const objects = await this.listAllObjects(sourceDirKey);
+
+    if (objects.length === 0) {
+      throw new FileNotFoundError(sourcePath);
+    }
+
+    // Aborting while copying removes the copies; once the originals are deleted it's too late
+    const copied: string[] = [];
+    for (const object of objects) {
+      if (signal?.aborted) {
+        await this.deleteKeys(copied);
+        this.throwIfAborted(signal, sourcePath);
+      }
+      const destKey = destDirKey + object.Key!.slice(sourceDirKey.length);
+      await this.copyObject(object.Key!, destKey, object.Size);
+      copied.push(destKey);
+    }
+    await this.deleteKeys(objects.map(object => object.Key!));
+
+    return this.prefixToFolderItem(destDirKey);
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, sourcePath);
+      if (!options.overwrite && (await this.exists(destinationPath))) {
+        throw new FileExistsError(destinationPath);
+      }
+
+      const item = await this.moveKeys(sourcePath, destinationPath, options.signal);
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      const translated = this.translateError(error, sourcePath, 'moveItem');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to move item: ${(error as Error).message}`);
+    }
+  }
+
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const source = await this.prepareCopy(sourcePath, destinationPath, options);
+
+      const item = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        let copied: FileSystemItem;
+        if (!source.isDirectory) {
+          const destKey = this.toKey(target);
+          await this.copyObject(this.toKey(sourcePath), destKey);
+          const head = await this.headObject(destKey);
+          copied = this.headToFileItem(destKey, head!);
+        } else {
+          // Every object under the prefix is copied on the server, folder markers included
+          const sourceDirKey = this.toDirKey(sourcePath);
+          const destDirKey = this.toDirKey(target);
+          for (const object of await this.listAllObjects(sourceDirKey)) {
+            this.throwIfAborted(copyOptions.signal, sourcePath);
+            await this.copyObject(object.Key!, destDirKey + object.Key!.slice(sourceDirKey.length), object.Size);
+          }
+          copied = this.prefixToFolderItem(destDirKey);
+        }
+        await this.reportCopiedItem(copied, copyOptions);
+        return copied;
+      });
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      const translated = this.translateError(error, sourcePath, 'copyItem');
+      if (translated instanceof HazoFilesError) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const key = this.toKey(virtualPath);
+
+      if (!(await this.headObject(key))) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      await this.client!.send(
+        new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+        { abortSignal: options.signal }
+      );
+      return this.successResult();
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'deleteFile');
+      if (translated instanceof FileNotFoundError || translated instanceof PermissionDeniedError) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      if (!(await this.headObject(this.toKey(virtualPath)))) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const newPath = this.joinPath(this.getParentPath(virtualPath), newName);
+      if (!options.overwrite && (await this.exists(newPath))) {
+        throw new FileExistsError(newName);
+      }
+
+      const item = await this.moveKeys(virtualPath, newPath, options.signal);
+      return this.successResult(item as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const normalized = this.normalizePath(virtualPath);
+      if (normalized === '/' || !(await this.prefixExists(this.toDirKey(normalized)))) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const newPath = this.joinPath(this.getParentPath(normalized), newName);
+      if (!options.overwrite && (await this.exists(newPath))) {
+        throw new DirectoryExistsError(newName);
+      }
+
+      const item = await this.moveKeys(normalized, newPath, options.signal);
+      return this.successResult(item as FolderItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFolder');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryExistsError ||
+        translated instanceof PermissionDeniedError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename folder: ${(error as Error).message}`);
+    }
+  }
+
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const dirKey = this.toDirKey(virtualPath);
+      const items: FileSystemItem[] = [];
+      const subfolders: string[] = [];
+      // The root always exists, even when no object is under the prefix yet
+      let found = this.normalizePath(virtualPath) === '/';
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await this.client!.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucket,
+            Prefix: dirKey,
+            Delimiter: '/',
+            ContinuationToken: continuationToken,
+          }),
+          { abortSignal: options.signal }
+        );
+
+        for (const commonPrefix of response.CommonPrefixes || []) {
+          found = true;
+          const folder = this.prefixToFolderItem(commonPrefix.Prefix!);
+
+          // Skip hidden folders unless explicitly included
+          if (!options.includeHidden && folder.name.startsWith('.')) continue;
+          if (options.filter && !options.filter(folder)) continue;
+
+          items.push(folder);
+          subfolders.push(folder.path);
+        }
+
+        for (const object of response.Contents || []) {
+          found = true;
+          // Skip the folder marker object itself
+          if (!object.Key || object.Key === dirKey) continue;
+
+          const file = this.objectToFileItem(object);
+          if (!options.includeHidden && file.name.startsWith('.')) continue;
+          if (options.filter && !options.filter(file)) continue;
+
+          items.push(file);
+        }
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      if (!found) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      // Handle recursive listing
+      if (options.recursive) {
+        for (const folderPath of subfolders) {
+          const subResult = await this.listDirectory(folderPath, options);
+          if (subResult.success && subResult.data) {
+            items.push(...subResult.data);
+          }
+          this.throwIfAborted(options.signal, virtualPath);
+        }
+      }
+
+      // Sort: folders first, then alphabetically
+      items.sort((a, b) => {
+        if (a.isDirectory && !b.isDirectory) return -1;
+        if (!a.isDirectory && b.isDirectory) return 1;
+        return a.name.localeCompare(b.name);
+      });
+
+      return this.successResult(items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'listDirectory');
+      if (translated instanceof DirectoryNotFoundError || translated instanceof PermissionDeniedError) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to list directory: ${(error as Error).message}`);
+    }
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      if (normalized === '/') {
+        return this.successResult(this.prefixToFolderItem(this.toDirKey(normalized)));
+      }
+
+      const key = this.toKey(normalized);
+      const head = await this.headObject(key);
+      if (head) {
+        return this.successResult(this.headToFileItem(key, head));
+      }
+
+      const dirKey = this.toDirKey(normalized);
+      if (await this.prefixExists(dirKey)) {
+        return this.successResult(this.prefixToFolderItem(dirKey));
+      }
+
+      throw new FileNotFoundError(virtualPath);
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'getItem');
+      if (translated instanceof FileNotFoundError || translated instanceof PermissionDeniedError) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to get item: ${(error as Error).message}`);
+    }
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      const normalized = this.normalizePath(virtualPath);
+      if (normalized === '/') return true;
+      if (await this.headObject(this.toKey(normalized))) return true;
+      return await this.prefixExists(this.toDirKey(normalized));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Get folder tree using delimiter listings (only folder prefixes are fetched)
+   */
+  async getFolderTree(path = '/', depth = 3): Promise<OperationResult<TreeNode[]>> {
+    this.ensureInitialized();
+
+    try {
+      const result = await this.buildPrefixTree(this.toDirKey(path), depth, 0);
+      return this.successResult(result);
+    } catch (error) {
+      return this.errorResult(`Failed to get folder tree: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Recursively build a folder tree from common prefixes
+   */
+  private async buildPrefixTree(dirKey: string, maxDepth: number, currentDepth: number): Promise<TreeNode[]> {
+    if (currentDepth >= maxDepth) {
+      return [];
+    }
+
+    const prefixes: string[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client!.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: dirKey,
+          Delimiter: '/',
+          ContinuationToken: continuationToken,
+        })
+      );
+      for (const commonPrefix of response.CommonPrefixes || []) {
+        if (commonPrefix.Prefix) prefixes.push(commonPrefix.Prefix);
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    const nodes: TreeNode[] = [];
+    for (const prefix of prefixes) {
+      const folder = this.prefixToFolderItem(prefix);
+      if (folder.name.startsWith('.')) continue;
+
+      nodes.push({
+        id: folder.id,
+        name: folder.name,
+        path: folder.path,
+        children: await this.buildPrefixTree(prefix, maxDepth, currentDepth + 1),
+      });
+    }
+
+    return nodes.sort((a, b) => a.name.localeCompare(b.name));
+  }
+}
+
+/**
+ * Factory function to create an S3StorageModule instance
+ */
+export function createS3Module(): S3StorageModule {
+  return new S3StorageModule();
+}
+
+export default S3StorageModule;
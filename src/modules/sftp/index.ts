@@ -0,0 +1,821 @@
+/**
+ * SFTP Storage Module
+ * Implements file operations on a remote server over SSH using ssh2-sftp-client
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import SftpClient from 'ssh2-sftp-client';
+
+import { BaseStorageModule } from '../../common/base-module';
+import {
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  FileExistsError,
+  DirectoryExistsError,
+  DirectoryNotEmptyError,
+  PermissionDeniedError,
+  AuthenticationError,
+  ConfigurationError,
+  InvalidRangeError,
+} from '../../common/errors';
+import { getMimeType } from '../../common/mime-types';
+import { generateId, createFileItem, createFolderItem } from '../../common/utils';
+import { resolveByteRange, emptyStream, trackStreamProgress } from '../../common/stream-utils';
+import type {
+  StorageProvider,
+  HazoFilesConfig,
+  SftpConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+} from '../../types';
+
+// SFTP status codes (draft-ietf-secsh-filexfer) as surfaced by ssh2
+const SFTP_NO_SUCH_FILE = 2;
+const SFTP_PERMISSION_DENIED = 3;
+
+export class SftpStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider = 'sftp';
+  private client: SftpClient | null = null;
+  private connecting: Promise<void> | null = null;
+  private connected = false;
+  private basePath: string = '/';
+  private connectOptions: SftpClient.ConnectOptions | null = null;
+
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    await super.initialize(config);
+
+    const sftpConfig = this.getProviderConfig<SftpConfig>();
+
+    if (!sftpConfig.host || !sftpConfig.username) {
+      throw new ConfigurationError('SFTP host and username are required');
+    }
+    if (!sftpConfig.password && !sftpConfig.privateKey) {
+      throw new AuthenticationError('sftp', 'Either a password or a private key is required');
+    }
+
+    let privateKey = sftpConfig.privateKey;
+    if (privateKey && !privateKey.includes('PRIVATE KEY')) {
+      // Treat as a path to the key file
+      privateKey = await fs.promises.readFile(privateKey, 'utf-8');
+    }
+
+    this.basePath = path.posix.normalize(sftpConfig.basePath || '/');
+    this.connectOptions = {
+      host: sftpConfig.host,
+      port: sftpConfig.port || 22,
+      username: sftpConfig.username,
+      password: sftpConfig.password || undefined,
+      privateKey,
+      passphrase: sftpConfig.passphrase || undefined,
+      readyTimeout: sftpConfig.readyTimeout || 20000,
+    };
+  }
+
+  /**
+   * Open the SSH connection if it isn't already open.
+   * Concurrent callers share one connection attempt.
+   */
+  private async ensureConnected(): Promise<SftpClient> {
+    this.ensureInitialized();
+
+    if (this.client && this.connected) {
+      return this.client;
+    }
+
+    if (!this.connecting) {
+      const client = new SftpClient('hazo_files', {
+        end: () => { this.connected = false; },
+        close: () => { this.connected = false; },
+      });
+
+      this.connecting = client
+        .connect(this.connectOptions!)
+        .then(() => {
+          this.client = client;
+          this.connected = true;
+        })
+        .catch((error: Error & { code?: string }) => {
+          if (error.code === 'ERR_BAD_AUTH' || /authentication/i.test(error.message)) {
+            throw new AuthenticationError('sftp', error.message);
+          }
+          throw error;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
+    }
+
+    await this.connecting;
+    return this.client!;
+  }
+
+  /**
+   * Close the SSH connection
+   */
+  async disconnect(): Promise<void> {
+    if (this.client && this.connected) {
+      this.connected = false;
+      await this.client.end();
+    }
+    this.client = null;
+  }
+
+  /**
+   * Resolve a virtual path to an absolute remote path
+   */
+  private toRemotePath(virtualPath: string): string {
+    return path.posix.join(this.basePath, this.normalizePath(virtualPath));
+  }
+
+  /**
+   * Map SFTP errors onto hazo_files errors where possible
+   */
+  private translateError(error: unknown, virtualPath: string, operation: string): unknown {
+    const err = error as { code?: string | number; message?: string };
+    if (
+      err?.code === SFTP_PERMISSION_DENIED ||
+      err?.code === 'EACCES' ||
+      /permission denied/i.test(err?.message || '')
+    ) {
+      return new PermissionDeniedError(virtualPath, operation);
+    }
+    return error;
+  }
+
+  /**
+   * Check whether an SFTP error means the path does not exist
+   */
+  private isNotFound(error: unknown): boolean {
+    const err = error as { code?: string | number; message?: string };
+    return (
+      err?.code === SFTP_NO_SUCH_FILE ||
+      err?.code === 'ENOENT' ||
+      /no such file/i.test(err?.message || '')
+    );
+  }
+
+  /**
+   * Build a FileSystemItem from listing/stat information
+   */
+  private toItem(
+    virtualPath: string,
+    info: { isDirectory: boolean; size: number; modifyTime: number; accessTime?: number; mode?: number }
+  ): FileSystemItem {
+    const normalized = this.normalizePath(virtualPath);
+    const name = this.getBaseName(normalized);
+    const modifiedAt = new Date(info.modifyTime);
+
+    if (info.isDirectory) {
+      return createFolderItem({
+        id: normalized,
+        name,
+        path: normalized,
+        createdAt: modifiedAt,
+        modifiedAt,
+        metadata: {
+          remotePath: this.toRemotePath(normalized),
+        },
+      });
+    }
+
+    return createFileItem({
+      id: normalized,
+      name,
+      path: normalized,
+      size: info.size,
+      mimeType: getMimeType(name),
+      createdAt: modifiedAt,
+      modifiedAt,
+      metadata: {
+        remotePath: this.toRemotePath(normalized),
+        mode: info.mode,
+      },
+    });
+  }
+
+  /**
+   * Stat a virtual path, returning null if it doesn't exist
+   */
+  private async statItem(client: SftpClient, virtualPath: string): Promise<FileSystemItem | null> {
+    try {
+      const stats = await client.stat(this.toRemotePath(virtualPath));
+      return this.toItem(virtualPath, stats);
+    } catch (error) {
+      if (this.isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    try {
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      const existing = await client.exists(remotePath);
+      if (existing === 'd') {
+        throw new DirectoryExistsError(virtualPath);
+      }
+      if (existing) {
+        throw new FileExistsError(virtualPath);
+      }
+
+      await client.mkdir(remotePath, true);
+      const item = await this.statItem(client, virtualPath);
+
+      return this.successResult(item as FolderItem);
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'createDirectory');
+      if (
+        translated instanceof DirectoryExistsError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to create directory: ${(error as Error).message}`);
+    }
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    try {
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      if ((await client.exists(remotePath)) !== 'd') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      if (!recursive) {
+        const contents = await client.list(remotePath);
+        if (contents.length > 0) {
+          throw new DirectoryNotEmptyError(virtualPath);
+        }
+      }
+
+      await client.rmdir(remotePath, recursive);
+      return this.successResult();
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'removeDirectory');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryNotEmptyError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to remove directory: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    let client: SftpClient | null = null;
+    let tempRemotePath = '';
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      client = await this.ensureConnected();
+      const fullRemotePath = this.toRemotePath(remotePath);
+
+      if (!options.overwrite && (await client.exists(fullRemotePath))) {
+        throw new FileExistsError(remotePath);
+      }
+
+      // Ensure parent directory exists
+      const parentDir = path.posix.dirname(fullRemotePath);
+      if (!(await client.exists(parentDir))) {
+        await client.mkdir(parentDir, true);
+      }
+
+      // Write next to the target and rename into place, so a failed upload never
+      // touches the file it would replace
+      tempRemotePath = path.posix.join(parentDir, `.${path.posix.basename(fullRemotePath)}.upload-${generateId()}`);
+
+      if (options.signal) {
+        // Streams can be aborted mid-transfer (fastPut and put cannot)
+        await this.putStream(client, source, tempRemotePath, options);
+      } else if (typeof source === 'string') {
+        // Source is a local file path - fastPut transfers in parallel chunks
+        await client.fastPut(source, tempRemotePath, {
+          step: options.onProgress
+            ? (totalTransferred, _chunk, total) => {
+                options.onProgress!((totalTransferred / total) * 100, totalTransferred, total);
+              }
+            : undefined,
+        });
+      } else if (Buffer.isBuffer(source)) {
+        await client.put(source, tempRemotePath);
+        if (options.onProgress) {
+          options.onProgress(100, source.length, source.length);
+        }
+      } else {
+        const readable = Readable.fromWeb(source as import('stream/web').ReadableStream);
+        await client.put(readable, tempRemotePath);
+      }
+
+      await this.renameOver(client, tempRemotePath, fullRemotePath);
+      tempRemotePath = '';
+
+      const item = await this.statItem(client, remotePath);
+      if (!item) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      return this.successResult(item as FileItem);
+    } catch (error) {
+      // Don't leave a partially written file behind
+      if (client && tempRemotePath) {
+        await client.delete(tempRemotePath, true).catch(() => {});
+      }
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'uploadFile');
+      if (
+        translated instanceof FileExistsError ||
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Upload any source through an SFTP write stream that stops when the signal is aborted
+   */
+  private async putStream(
+    client: SftpClient,
+    source: string | Buffer | ReadableStream,
+    fullRemotePath: string,
+    options: UploadOptions
+  ): Promise<void> {
+    let readable: Readable;
+    let totalBytes = 0;
+
+    if (typeof source === 'string') {
+      totalBytes = (await fs.promises.stat(source)).size;
+      readable = fs.createReadStream(source);
+    } else if (Buffer.isBuffer(source)) {
+      totalBytes = source.length;
+      readable = Readable.from([source]);
+    } else {
+      readable = Readable.fromWeb(source as import('stream/web').ReadableStream);
+    }
+
+    await pipeline(
+      trackStreamProgress(readable, totalBytes, options.onProgress),
+      client.createWriteStream(fullRemotePath),
+      { signal: options.signal }
+    );
+  }
+
+  /**
+   * Rename a file over another. posix-rename (an OpenSSH extension) replaces the target
+   * in one step; on servers without it the target is renamed aside first and put back
+   * if the rename fails.
+   */
+  private async renameOver(client: SftpClient, fromPath: string, toPath: string): Promise<void> {
+    try {
+      await client.posixRename(fromPath, toPath);
+      return;
+    } catch (error) {
+      if (!(await client.exists(toPath))) {
+        await client.rename(fromPath, toPath);
+        return;
+      }
+      if (!(await client.exists(fromPath))) throw error;
+    }
+
+    const asidePath = `${fromPath}.previous`;
+    await client.rename(toPath, asidePath);
+    try {
+      await client.rename(fromPath, toPath);
+    } catch (error) {
+      await client.rename(asidePath, toPath).catch(() => {});
+      throw error;
+    }
+    await client.delete(asidePath, true).catch(() => {});
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const client = await this.ensureConnected();
+      const fullRemotePath = this.toRemotePath(remotePath);
+
+      if ((await client.exists(fullRemotePath)) !== '-') {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      if (localPath) {
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+
+        if (options.signal) {
+          try {
+            await pipeline(
+              trackStreamProgress(
+                client.createReadStream(fullRemotePath),
+                (await client.stat(fullRemotePath)).size,
+                options.onProgress
+              ),
+              fs.createWriteStream(localPath),
+              { signal: options.signal }
+            );
+          } catch (error) {
+            await fs.promises.rm(localPath, { force: true }).catch(() => {});
+            throw error;
+          }
+          return this.successResult(localPath);
+        }
+
+        await client.fastGet(fullRemotePath, localPath, {
+          step: options.onProgress
+            ? (totalTransferred, _chunk, total) => {
+                options.onProgress!((totalTransferred / total) * 100, totalTransferred, total);
+              }
+            : undefined,
+        });
+        return this.successResult(localPath);
+      }
+
+      const buffer = (await client.get(fullRemotePath)) as Buffer;
+      this.throwIfAborted(options.signal, remotePath);
+      if (options.onProgress) {
+        options.onProgress(100, buffer.length, buffer.length);
+      }
+      return this.successResult(buffer);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const client = await this.ensureConnected();
+      const fullRemotePath = this.toRemotePath(remotePath);
+
+      const item = await this.statItem(client, remotePath);
+      if (!item || item.isDirectory) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const size = (item as FileItem).size;
+      const range = resolveByteRange(remotePath, size, options);
+      const stream = range.length > 0
+        ? client.createReadStream(fullRemotePath, { start: range.start, end: range.end })
+        : emptyStream();
+
+      return this.successResult(this.toDownloadStream(remotePath, stream, size, range, options));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadStream');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof InvalidRangeError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Rename a remote path, removing an existing destination first when overwriting
+   * (plain SFTP rename fails if the destination exists)
+   */
+  private async renameRemote(
+    client: SftpClient,
+    sourceRemotePath: string,
+    destRemotePath: string,
+    overwrite: boolean
+  ): Promise<void> {
+    const destType = await client.exists(destRemotePath);
+    if (destType && overwrite) {
+      if (destType === 'd') {
+        await client.rmdir(destRemotePath, true);
+      } else {
+        await client.delete(destRemotePath);
+      }
+    }
+
+    const destParent = path.posix.dirname(destRemotePath);
+    if (!(await client.exists(destParent))) {
+      await client.mkdir(destParent, true);
+    }
+
+    await client.rename(sourceRemotePath, destRemotePath);
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    try {
+      this.throwIfAborted(options.signal, sourcePath);
+      const client = await this.ensureConnected();
+      const sourceRemotePath = this.toRemotePath(sourcePath);
+      const destRemotePath = this.toRemotePath(destinationPath);
+
+      if (!(await client.exists(sourceRemotePath))) {
+        throw new FileNotFoundError(sourcePath);
+      }
+      if (!options.overwrite && (await client.exists(destRemotePath))) {
+        throw new FileExistsError(destinationPath);
+      }
+
+      this.throwIfAborted(options.signal, sourcePath);
+      await this.renameRemote(client, sourceRemotePath, destRemotePath, !!options.overwrite);
+
+      const item = await this.statItem(client, destinationPath);
+      return this.successResult(item!);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      const translated = this.translateError(error, sourcePath, 'moveItem');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to move item: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      if ((await client.exists(remotePath)) !== '-') {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+      await client.delete(remotePath);
+      return this.successResult();
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'deleteFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      if ((await client.exists(remotePath)) !== '-') {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const newVirtualPath = this.joinPath(this.getParentPath(virtualPath), newName);
+      const newRemotePath = this.toRemotePath(newVirtualPath);
+
+      if (!options.overwrite && (await client.exists(newRemotePath))) {
+        throw new FileExistsError(newName);
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+      await this.renameRemote(client, remotePath, newRemotePath, !!options.overwrite);
+
+      const item = await this.statItem(client, newVirtualPath);
+      return this.successResult(item as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      if ((await client.exists(remotePath)) !== 'd') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const newVirtualPath = this.joinPath(this.getParentPath(virtualPath), newName);
+      const newRemotePath = this.toRemotePath(newVirtualPath);
+
+      if (!options.overwrite && (await client.exists(newRemotePath))) {
+        throw new DirectoryExistsError(newName);
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+      await this.renameRemote(client, remotePath, newRemotePath, !!options.overwrite);
+
+      const item = await this.statItem(client, newVirtualPath);
+      return this.successResult(item as FolderItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFolder');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename folder: ${(error as Error).message}`);
+    }
+  }
+
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const client = await this.ensureConnected();
+      const remotePath = this.toRemotePath(virtualPath);
+
+      if ((await client.exists(remotePath)) !== 'd') {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const entries = await client.list(remotePath);
+      const items: FileSystemItem[] = [];
+
+      for (const entry of entries) {
+        this.throwIfAborted(options.signal, virtualPath);
+
+        // Skip hidden files unless explicitly included
+        if (!options.includeHidden && entry.name.startsWith('.')) {
+          continue;
+        }
+
+        const entryPath = this.joinPath(virtualPath, entry.name);
+        const item = this.toItem(entryPath, {
+          isDirectory: entry.type === 'd',
+          size: entry.size,
+          modifyTime: entry.modifyTime,
+        });
+
+        // Apply filter if provided
+        if (options.filter && !options.filter(item)) {
+          continue;
+        }
+
+        items.push(item);
+
+        // Handle recursive listing
+        if (options.recursive && entry.type === 'd') {
+          const subResult = await this.listDirectory(entryPath, options);
+          if (subResult.success && subResult.data) {
+            items.push(...subResult.data);
+          }
+        }
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+
+      // Sort: folders first, then alphabetically
+      items.sort((a, b) => {
+        if (a.isDirectory && !b.isDirectory) return -1;
+        if (!a.isDirectory && b.isDirectory) return 1;
+        return a.name.localeCompare(b.name);
+      });
+
+      return this.successResult(items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'listDirectory');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to list directory: ${(error as Error).message}`);
+    }
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    try {
+      const client = await this.ensureConnected();
+
+      const item = await this.statItem(client, virtualPath);
+      if (!item) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      return this.successResult(item);
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'getItem');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to get item: ${(error as Error).message}`);
+    }
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    try {
+      const client = await this.ensureConnected();
+      return (await client.exists(this.toRemotePath(virtualPath))) !== false;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Factory function to create an SftpStorageModule instance
+ */
+export function createSftpModule(): SftpStorageModule {
+  return new SftpStorageModule();
+}
+
+export default SftpStorageModule;
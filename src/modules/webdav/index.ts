@@ -0,0 +1,902 @@
+/**
+ * WebDAV Storage Module
+ * Implements file operations against any RFC 4918 server (Nextcloud, ownCloud, Apache mod_dav, etc.)
+ *
+ * Listings and metadata come from PROPFIND, folders are created with MKCOL and
+ * moves/renames/copies are performed server-side with MOVE and COPY.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { XMLParser } from 'fast-xml-parser';
+
+import { BaseStorageModule } from '../../common/base-module';
+import {
+  HazoFilesError,
+  FileNotFoundError,
+  DirectoryNotFoundError,
+  FileExistsError,
+  DirectoryExistsError,
+  DirectoryNotEmptyError,
+  PermissionDeniedError,
+  AuthenticationError,
+  ConfigurationError,
+  InvalidRangeError,
+} from '../../common/errors';
+import { getMimeType } from '../../common/mime-types';
+import { createFileItem, createFolderItem } from '../../common/utils';
+import { resolveByteRange, sliceStream, emptyStream } from '../../common/stream-utils';
+import type {
+  StorageProvider,
+  HazoFilesConfig,
+  WebDavConfig,
+  FileItem,
+  FolderItem,
+  FileSystemItem,
+  OperationResult,
+  UploadOptions,
+  DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  MoveOptions,
+  CopyOptions,
+  RenameOptions,
+  DeleteOptions,
+  ListOptions,
+} from '../../types';
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:oc="http://owncloud.org/ns">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontentlength/>
+    <d:getcontenttype/>
+    <d:getlastmodified/>
+    <d:creationdate/>
+    <d:getetag/>
+    <oc:fileid/>
+  </d:prop>
+</d:propfind>`;
+
+/** A resource as reported by PROPFIND */
+interface DavEntry {
+  virtualPath: string;
+  isDirectory: boolean;
+  size: number;
+  contentType?: string;
+  modifiedAt: Date;
+  createdAt: Date;
+  etag?: string;
+  fileId?: string;
+}
+
+/** Error raised for non-success HTTP status codes */
+class WebDavHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    method: string,
+    url: string
+  ) {
+    super(`${method} ${url} failed with status ${status}`);
+    this.name = 'WebDavHttpError';
+  }
+}
+
+export class WebDavStorageModule extends BaseStorageModule {
+  readonly provider: StorageProvider = 'webdav';
+  private baseUrl: URL | null = null;
+  private headers: Record<string, string> = {};
+  private parser = new XMLParser({
+    ignoreAttributes: true,
+    removeNSPrefix: true,
+    parseTagValue: false,
+  });
+
+  async initialize(config: HazoFilesConfig): Promise<void> {
+    await super.initialize(config);
+
+    const davConfig = this.getProviderConfig<WebDavConfig>();
+
+    if (!davConfig.url) {
+      throw new ConfigurationError('WebDAV url is required');
+    }
+
+    const base = new URL(davConfig.url);
+    const basePath = (davConfig.basePath || '').replace(/^\/+|\/+$/g, '');
+    const rootPath = base.pathname.replace(/\/+$/, '');
+    base.pathname = basePath ? `${rootPath}/${basePath.split('/').map(encodeURIComponent).join('/')}` : rootPath;
+    this.baseUrl = base;
+
+    this.headers = { ...(davConfig.headers || {}) };
+    if (davConfig.token) {
+      this.headers['Authorization'] = `Bearer ${davConfig.token}`;
+    } else if (davConfig.username) {
+      const credentials = Buffer.from(`${davConfig.username}:${davConfig.password || ''}`).toString('base64');
+      this.headers['Authorization'] = `Basic ${credentials}`;
+    }
+  }
+
+  /**
+   * Path of the virtual root on the server, without a trailing slash
+   */
+  private rootPath(): string {
+    return this.baseUrl!.pathname.replace(/\/+$/, '');
+  }
+
+  /**
+   * Build the absolute URL for a virtual path (collections end with "/")
+   */
+  private toUrl(virtualPath: string, isDirectory = false): string {
+    const normalized = this.normalizePath(virtualPath);
+    const encoded = normalized === '/'
+      ? ''
+      : normalized.split('/').map(encodeURIComponent).join('/');
+    const trailing = isDirectory || normalized === '/' ? '/' : '';
+    return `${this.baseUrl!.origin}${this.rootPath()}${encoded}${trailing}`;
+  }
+
+  /**
+   * Convert an href from a multistatus response back to a virtual path
+   */
+  private fromHref(href: string): string {
+    const hrefPath = decodeURIComponent(new URL(href, this.baseUrl!).pathname);
+    const rootPath = decodeURIComponent(this.rootPath());
+    const relative = hrefPath.startsWith(rootPath) ? hrefPath.slice(rootPath.length) : hrefPath;
+    return this.normalizePath(relative.replace(/\/+$/, '') || '/');
+  }
+
+  /**
+   * Send a WebDAV request, throwing for non-2xx responses
+   */
+  private async request(
+    method: string,
+    url: string,
+    init: { headers?: Record<string, string>; body?: BodyInit; duplex?: 'half'; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    const response = await fetch(url, {
+      method,
+      headers: { ...this.headers, ...(init.headers || {}) },
+      body: init.body,
+      signal: init.signal,
+      ...(init.duplex ? { duplex: init.duplex } : {}),
+    } as RequestInit);
+
+    if (!response.ok) {
+      // Drain the body so the connection can be reused
+      await response.arrayBuffer().catch(() => undefined);
+      throw new WebDavHttpError(response.status, method, url);
+    }
+
+    return response;
+  }
+
+  /**
+   * Map HTTP failures onto hazo_files errors where possible
+   */
+  private translateError(error: unknown, virtualPath: string, operation: string): unknown {
+    if (error instanceof WebDavHttpError) {
+      if (error.status === 401) {
+        return new AuthenticationError('webdav', 'Server rejected the credentials');
+      }
+      if (error.status === 403) {
+        return new PermissionDeniedError(virtualPath, operation);
+      }
+    }
+    return error;
+  }
+
+  private isStatus(error: unknown, ...statuses: number[]): boolean {
+    return error instanceof WebDavHttpError && statuses.includes(error.status);
+  }
+
+  /**
+   * PROPFIND a path, returning null if it doesn't exist
+   */
+  private async propfind(
+    virtualPath: string,
+    depth: '0' | '1',
+    signal?: AbortSignal
+  ): Promise<DavEntry[] | null> {
+    try {
+      const response = await this.request('PROPFIND', this.toUrl(virtualPath), {
+        headers: { Depth: depth, 'Content-Type': 'application/xml; charset=utf-8' },
+        body: PROPFIND_BODY,
+        signal,
+      });
+      return this.parseMultistatus(await response.text());
+    } catch (error) {
+      if (this.isStatus(error, 404)) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a PROPFIND multistatus document
+   */
+  private parseMultistatus(xml: string): DavEntry[] {
+    const document = this.parser.parse(xml);
+    const responses = toArray(document?.multistatus?.response);
+    const entries: DavEntry[] = [];
+
+    for (const response of responses) {
+      // Use the propstat that returned 200 (unknown properties come back as 404)
+      const propstat = toArray(response.propstat).find((ps: { status?: string }) =>
+        /\s200\s/.test(` ${ps.status || ''} `)
+      ) ?? toArray(response.propstat)[0];
+      const prop = propstat?.prop || {};
+
+      const isDirectory = prop.resourcetype !== undefined &&
+        typeof prop.resourcetype === 'object' &&
+        'collection' in prop.resourcetype;
+      const modifiedAt = prop.getlastmodified ? new Date(prop.getlastmodified) : new Date();
+
+      entries.push({
+        virtualPath: this.fromHref(String(response.href)),
+        isDirectory,
+        size: prop.getcontentlength ? parseInt(prop.getcontentlength, 10) : 0,
+        contentType: prop.getcontenttype || undefined,
+        modifiedAt,
+        createdAt: prop.creationdate ? new Date(prop.creationdate) : modifiedAt,
+        etag: prop.getetag ? String(prop.getetag).replace(/"/g, '') : undefined,
+        fileId: prop.fileid ? String(prop.fileid) : undefined,
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Convert a PROPFIND entry to a FileSystemItem
+   */
+  private entryToItem(entry: DavEntry): FileSystemItem {
+    const name = this.getBaseName(entry.virtualPath);
+    const metadata = {
+      etag: entry.etag,
+      href: this.toUrl(entry.virtualPath, entry.isDirectory),
+    };
+
+    if (entry.isDirectory) {
+      return createFolderItem({
+        id: entry.fileId || entry.virtualPath,
+        name,
+        path: entry.virtualPath,
+        createdAt: entry.createdAt,
+        modifiedAt: entry.modifiedAt,
+        metadata,
+      });
+    }
+
+    return createFileItem({
+      id: entry.fileId || entry.virtualPath,
+      name,
+      path: entry.virtualPath,
+      size: entry.size,
+      mimeType: entry.contentType || getMimeType(name),
+      createdAt: entry.createdAt,
+      modifiedAt: entry.modifiedAt,
+      metadata,
+    });
+  }
+
+  /**
+   * Get a single resource, or null if it doesn't exist
+   */
+  private async statEntry(virtualPath: string, signal?: AbortSignal): Promise<DavEntry | null> {
+    const entries = await this.propfind(virtualPath, '0', signal);
+    return entries?.[0] ?? null;
+  }
+
+  /**
+   * Create a collection and any missing parents (MKCOL fails with 409 when the parent is missing)
+   */
+  private async ensureCollection(virtualPath: string): Promise<void> {
+    const normalized = this.normalizePath(virtualPath);
+    if (normalized === '/') return;
+
+    try {
+      await this.request('MKCOL', this.toUrl(normalized, true));
+    } catch (error) {
+      if (this.isStatus(error, 409)) {
+        await this.ensureCollection(this.getParentPath(normalized));
+        await this.request('MKCOL', this.toUrl(normalized, true));
+      } else if (!this.isStatus(error, 405)) {
+        // 405 means the collection already exists
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Server-side MOVE or COPY of a resource
+   */
+  private async transfer(
+    method: 'MOVE' | 'COPY',
+    source: DavEntry,
+    destinationPath: string,
+    overwrite: boolean
+  ): Promise<void> {
+    await this.ensureCollection(this.getParentPath(destinationPath));
+    await this.request(method, this.toUrl(source.virtualPath, source.isDirectory), {
+      headers: {
+        Destination: this.toUrl(destinationPath, source.isDirectory),
+        Overwrite: overwrite ? 'T' : 'F',
+        ...(source.isDirectory ? { Depth: 'infinity' } : {}),
+      },
+    });
+  }
+
+  async createDirectory(virtualPath: string): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      const existing = await this.statEntry(virtualPath);
+      if (existing) {
+        throw existing.isDirectory ? new DirectoryExistsError(virtualPath) : new FileExistsError(virtualPath);
+      }
+
+      await this.ensureCollection(virtualPath);
+
+      const entry = await this.statEntry(virtualPath);
+      if (!entry) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      return this.successResult(this.entryToItem(entry) as FolderItem);
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'createDirectory');
+      if (
+        translated instanceof DirectoryExistsError ||
+        translated instanceof FileExistsError ||
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to create directory: ${(error as Error).message}`);
+    }
+  }
+
+  async removeDirectory(virtualPath: string, recursive = false): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      const entries = await this.propfind(virtualPath, '1');
+      if (!entries || !entries[0]?.isDirectory) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      // The first entry is the collection itself
+      if (!recursive && entries.length > 1) {
+        throw new DirectoryNotEmptyError(virtualPath);
+      }
+
+      await this.request('DELETE', this.toUrl(virtualPath, true));
+      return this.successResult();
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'removeDirectory');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryNotEmptyError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to remove directory: ${(error as Error).message}`);
+    }
+  }
+
+  async uploadFile(
+    source: string | Buffer | ReadableStream,
+    remotePath: string,
+    options: UploadOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const fileName = this.getBaseName(remotePath);
+
+      if (!options.overwrite && (await this.statEntry(remotePath, options.signal))) {
+        throw new FileExistsError(remotePath);
+      }
+
+      await this.ensureCollection(this.getParentPath(remotePath));
+
+      let body: BodyInit;
+      let totalBytes: number | undefined;
+      let streamed = false;
+
+      if (typeof source === 'string') {
+        // Source is a local file path
+        const stats = await fs.promises.stat(source);
+        totalBytes = stats.size;
+        body = Readable.toWeb(fs.createReadStream(source)) as ReadableStream;
+        streamed = true;
+      } else if (Buffer.isBuffer(source)) {
+        totalBytes = source.length;
+        body = new Uint8Array(source);
+      } else {
+        body = source;
+        streamed = true;
+      }
+
+      await this.request('PUT', this.toUrl(remotePath), {
+        headers: {
+          'Content-Type': getMimeType(fileName),
+          ...(totalBytes !== undefined ? { 'Content-Length': String(totalBytes) } : {}),
+        },
+        body,
+        ...(streamed ? { duplex: 'half' as const } : {}),
+        signal: options.signal,
+      });
+
+      if (options.onProgress && totalBytes !== undefined) {
+        options.onProgress(100, totalBytes, totalBytes);
+      }
+
+      const entry = await this.statEntry(remotePath);
+      if (!entry) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      return this.successResult(this.entryToItem(entry) as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'uploadFile');
+      if (
+        translated instanceof FileExistsError ||
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to upload file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadFile(
+    remotePath: string,
+    localPath?: string,
+    options: DownloadOptions = {}
+  ): Promise<OperationResult<Buffer | string>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      let response: Response;
+      try {
+        response = await this.request('GET', this.toUrl(remotePath), { signal: options.signal });
+      } catch (error) {
+        if (this.isStatus(error, 404)) {
+          throw new FileNotFoundError(remotePath);
+        }
+        throw error;
+      }
+
+      const totalBytes = parseInt(response.headers.get('content-length') || '0', 10);
+      const chunks: Buffer[] = [];
+      let downloaded = 0;
+
+      if (response.body) {
+        const reader = response.body.getReader();
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(Buffer.from(value));
+          downloaded += value.length;
+          if (options.onProgress) {
+            const total = totalBytes || downloaded;
+            options.onProgress((downloaded / total) * 100, downloaded, total);
+          }
+        }
+      }
+
+      const buffer = Buffer.concat(chunks);
+
+      if (localPath) {
+        await fs.promises.mkdir(path.dirname(localPath), { recursive: true });
+        await fs.promises.writeFile(localPath, buffer, { signal: options.signal });
+        return this.successResult(localPath);
+      }
+
+      return this.successResult(buffer);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async downloadStream(
+    remotePath: string,
+    options: DownloadStreamOptions = {}
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, remotePath);
+      const entry = await this.statEntry(remotePath, options.signal);
+      if (!entry || entry.isDirectory) {
+        throw new FileNotFoundError(remotePath);
+      }
+
+      const range = resolveByteRange(remotePath, entry.size, options);
+      const partial = range.length < entry.size;
+
+      let stream: Readable = emptyStream();
+      if (range.length > 0) {
+        const response = await this.request('GET', this.toUrl(remotePath), {
+          headers: partial ? { Range: `bytes=${range.start}-${range.end}` } : {},
+          signal: options.signal,
+        });
+        stream = Readable.fromWeb(response.body as import('stream/web').ReadableStream);
+
+        // Some servers ignore Range and return the whole file
+        if (partial && response.status !== 206) {
+          stream = sliceStream(stream, range);
+        }
+      }
+
+      return this.successResult(
+        this.toDownloadStream(remotePath, stream, entry.size, range, options, entry.contentType)
+      );
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(remotePath);
+      }
+      const translated = this.translateError(error, remotePath, 'downloadStream');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof InvalidRangeError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to download file: ${(error as Error).message}`);
+    }
+  }
+
+  async moveItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: MoveOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, sourcePath);
+      const source = await this.statEntry(sourcePath, options.signal);
+      if (!source) {
+        throw new FileNotFoundError(sourcePath);
+      }
+      if (!options.overwrite && (await this.statEntry(destinationPath))) {
+        throw new FileExistsError(destinationPath);
+      }
+
+      this.throwIfAborted(options.signal, sourcePath);
+      await this.transfer('MOVE', source, destinationPath, !!options.overwrite);
+
+      const entry = await this.statEntry(destinationPath);
+      if (!entry) {
+        throw new FileNotFoundError(destinationPath);
+      }
+
+      return this.successResult(this.entryToItem(entry));
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      const translated = this.translateError(error, sourcePath, 'moveItem');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      if (this.isStatus(error, 412)) {
+        return this.errorResult(new FileExistsError(destinationPath).message);
+      }
+      return this.errorResult(`Failed to move item: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Copy a file or folder on the server (WebDAV COPY; a folder with contents needs `recursive`)
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: CopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      await this.prepareCopy(sourcePath, destinationPath, options);
+      const source = await this.statEntry(sourcePath, options.signal);
+      if (!source) {
+        throw new FileNotFoundError(sourcePath);
+      }
+
+      const item = await this.copyIntoPlace(destinationPath, options, async (target, copyOptions) => {
+        await this.transfer('COPY', source, target, false);
+
+        const entry = await this.statEntry(target);
+        if (!entry) {
+          throw new FileNotFoundError(target);
+        }
+        const copied = this.entryToItem(entry);
+        await this.reportCopiedItem(copied, copyOptions);
+        return copied;
+      });
+      return this.successResult(item);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(sourcePath);
+      }
+      const translated = this.translateError(error, sourcePath, 'copyItem');
+      if (translated instanceof HazoFilesError) {
+        return this.errorResult(translated.message);
+      }
+      if (this.isStatus(error, 412)) {
+        return this.errorResult(new FileExistsError(destinationPath).message);
+      }
+      return this.errorResult(`Failed to copy item: ${(error as Error).message}`);
+    }
+  }
+
+  async deleteFile(virtualPath: string, options: DeleteOptions = {}): Promise<OperationResult> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const entry = await this.statEntry(virtualPath, options.signal);
+      if (!entry || entry.isDirectory) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      await this.request('DELETE', this.toUrl(virtualPath), { signal: options.signal });
+      return this.successResult();
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'deleteFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to delete file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFile(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const entry = await this.statEntry(virtualPath, options.signal);
+      if (!entry || entry.isDirectory) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      const newPath = this.joinPath(this.getParentPath(virtualPath), newName);
+      if (!options.overwrite && (await this.statEntry(newPath))) {
+        throw new FileExistsError(newName);
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+      await this.transfer('MOVE', entry, newPath, !!options.overwrite);
+
+      const renamed = await this.statEntry(newPath);
+      if (!renamed) {
+        throw new FileNotFoundError(newPath);
+      }
+
+      return this.successResult(this.entryToItem(renamed) as FileItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFile');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof FileExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename file: ${(error as Error).message}`);
+    }
+  }
+
+  async renameFolder(
+    virtualPath: string,
+    newName: string,
+    options: RenameOptions = {}
+  ): Promise<OperationResult<FolderItem>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const entry = await this.statEntry(virtualPath, options.signal);
+      if (!entry || !entry.isDirectory) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const newPath = this.joinPath(this.getParentPath(virtualPath), newName);
+      if (!options.overwrite && (await this.statEntry(newPath))) {
+        throw new DirectoryExistsError(newName);
+      }
+
+      this.throwIfAborted(options.signal, virtualPath);
+      await this.transfer('MOVE', entry, newPath, !!options.overwrite);
+
+      const renamed = await this.statEntry(newPath);
+      if (!renamed) {
+        throw new DirectoryNotFoundError(newPath);
+      }
+
+      return this.successResult(this.entryToItem(renamed) as FolderItem);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'renameFolder');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof DirectoryExistsError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to rename folder: ${(error as Error).message}`);
+    }
+  }
+
+  async listDirectory(
+    virtualPath: string,
+    options: ListOptions = {}
+  ): Promise<OperationResult<FileSystemItem[]>> {
+    this.ensureInitialized();
+
+    try {
+      this.throwIfAborted(options.signal, virtualPath);
+      const entries = await this.propfind(virtualPath, '1', options.signal);
+      if (!entries || !entries[0]?.isDirectory) {
+        throw new DirectoryNotFoundError(virtualPath);
+      }
+
+      const normalized = this.normalizePath(virtualPath);
+      const items: FileSystemItem[] = [];
+
+      for (const entry of entries) {
+        // Depth 1 includes the collection itself
+        if (entry.virtualPath === normalized) {
+          continue;
+        }
+
+        const item = this.entryToItem(entry);
+
+        // Skip hidden files unless explicitly included
+        if (!options.includeHidden && item.name.startsWith('.')) {
+          continue;
+        }
+
+        // Apply filter if provided
+        if (options.filter && !options.filter(item)) {
+          continue;
+        }
+
+        items.push(item);
+
+        // Handle recursive listing
+        if (options.recursive && entry.isDirectory) {
+          const subResult = await this.listDirectory(entry.virtualPath, options);
+          if (subResult.success && subResult.data) {
+            items.push(...subResult.data);
+          }
+          this.throwIfAborted(options.signal, virtualPath);
+        }
+      }
+
+      // Sort: folders first, then alphabetically
+      items.sort((a, b) => {
+        if (a.isDirectory && !b.isDirectory) return -1;
+        if (!a.isDirectory && b.isDirectory) return 1;
+        return a.name.localeCompare(b.name);
+      });
+
+      return this.successResult(items);
+    } catch (error) {
+      if (this.isAbortError(error, options.signal)) {
+        return this.abortedResult(virtualPath);
+      }
+      const translated = this.translateError(error, virtualPath, 'listDirectory');
+      if (
+        translated instanceof DirectoryNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to list directory: ${(error as Error).message}`);
+    }
+  }
+
+  async getItem(virtualPath: string): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+
+    try {
+      const entry = await this.statEntry(virtualPath);
+      if (!entry) {
+        throw new FileNotFoundError(virtualPath);
+      }
+
+      return this.successResult(this.entryToItem(entry));
+    } catch (error) {
+      const translated = this.translateError(error, virtualPath, 'getItem');
+      if (
+        translated instanceof FileNotFoundError ||
+        translated instanceof PermissionDeniedError ||
+        translated instanceof AuthenticationError
+      ) {
+        return this.errorResult(translated.message);
+      }
+      return this.errorResult(`Failed to get item: ${(error as Error).message}`);
+    }
+  }
+
+  async exists(virtualPath: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return (await this.statEntry(virtualPath)) !== null;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Normalize a parsed XML node that may be a single object or an array
+ */
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Factory function to create a WebDavStorageModule instance
+ */
+export function createWebDavModule(): WebDavStorageModule {
+  return new WebDavStorageModule();
+}
+
+export default WebDavStorageModule;
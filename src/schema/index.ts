@@ -66,6 +66,8 @@ export interface HazoFilesColumnDefinitions {
   original_filename: 'TEXT';
   /** Content tag classifying the document type (V3) */
   content_tag: 'TEXT';
+  /** JSON string of FileVersionRecord[] - record history (V4) */
+  file_versions: 'TEXT';
 }
 
 /**
@@ -147,7 +149,8 @@ export const HAZO_FILES_TABLE_SCHEMA: HazoFilesTableSchema = {
   storage_verified_at TEXT,
   deleted_at TEXT,
   original_filename TEXT,
-  content_tag TEXT
+  content_tag TEXT,
+  file_versions TEXT DEFAULT '[]'
 )`,
     indexes: [
       'CREATE INDEX IF NOT EXISTS idx_hazo_files_path ON hazo_files (file_path)',
@@ -183,7 +186,8 @@ export const HAZO_FILES_TABLE_SCHEMA: HazoFilesTableSchema = {
   storage_verified_at TIMESTAMP WITH TIME ZONE,
   deleted_at TIMESTAMP WITH TIME ZONE,
   original_filename TEXT,
-  content_tag TEXT
+  content_tag TEXT,
+  file_versions TEXT DEFAULT '[]'
 )`,
     indexes: [
       'CREATE INDEX IF NOT EXISTS idx_hazo_files_path ON hazo_files (file_path)',
@@ -219,6 +223,7 @@ export const HAZO_FILES_TABLE_SCHEMA: HazoFilesTableSchema = {
     'deleted_at',
     'original_filename',
     'content_tag',
+    'file_versions',
   ] as const,
 };
 
@@ -606,3 +611,278 @@ export function getMigrationV3ForTable(
     backfill: migration.backfill,
   };
 }
+
+// ============================================
+// V4 Migration (Version History)
+// ============================================
+
+/**
+ * Migration schema for adding the V4 file_versions column to existing tables.
+ * Needed for `tracking.versioning`. Idempotent — safe to run multiple times.
+ *
+ * @example
+ * ```typescript
+ * import { HAZO_FILES_MIGRATION_V4 } from 'hazo_files';
+ *
+ * // SQLite
+ * for (const stmt of HAZO_FILES_MIGRATION_V4.sqlite.alterStatements) {
+ *   try { await db.run(stmt); } catch { /* column already exists *\/ }
+ * }
+ *
+ * // PostgreSQL
+ * for (const stmt of HAZO_FILES_MIGRATION_V4.postgres.alterStatements) {
+ *   await client.query(stmt);
+ * }
+ * ```
+ */
+export interface HazoFilesMigrationV4 {
+  /** Default table name */
+  tableName: string;
+  /** SQLite migration statements */
+  sqlite: MigrationSchemaDefinition;
+  /** PostgreSQL migration statements */
+  postgres: MigrationSchemaDefinition;
+  /** New column names added in V4 */
+  newColumns: readonly string[];
+}
+
+export const HAZO_FILES_MIGRATION_V4: HazoFilesMigrationV4 = {
+  tableName: HAZO_FILES_DEFAULT_TABLE_NAME,
+
+  sqlite: {
+    alterStatements: [
+      "ALTER TABLE hazo_files ADD COLUMN file_versions TEXT DEFAULT '[]'",
+    ],
+    indexes: [],
+    backfill: '', // No backfill needed — a missing history reads as empty
+  },
+
+  postgres: {
+    alterStatements: [
+      "ALTER TABLE hazo_files ADD COLUMN IF NOT EXISTS file_versions TEXT DEFAULT '[]'",
+    ],
+    indexes: [],
+    backfill: '', // No backfill needed — a missing history reads as empty
+  },
+
+  newColumns: [
+    'file_versions',
+  ] as const,
+};
+
+/**
+ * Get V4 migration statements for a custom table name
+ */
+export function getMigrationV4ForTable(
+  tableName: string,
+  dbType: 'sqlite' | 'postgres'
+): MigrationSchemaDefinition {
+  const migration = HAZO_FILES_MIGRATION_V4[dbType];
+  const defaultName = HAZO_FILES_MIGRATION_V4.tableName;
+
+  return {
+    alterStatements: migration.alterStatements.map((stmt) =>
+      stmt.replace(new RegExp(defaultName, 'g'), tableName)
+    ),
+    indexes: migration.indexes.map((idx) =>
+      idx.replace(new RegExp(defaultName, 'g'), tableName)
+    ),
+    backfill: migration.backfill,
+  };
+}
+
+// ============================================
+// Google Drive Path Index Table Schema
+// ============================================
+
+/**
+ * Default table name for the Google Drive path index
+ */
+export const HAZO_FILES_DRIVE_INDEX_DEFAULT_TABLE_NAME = 'hazo_files_drive_index';
+
+/**
+ * Column definitions for the hazo_files_drive_index table
+ */
+export interface HazoFilesDriveIndexColumnDefinitions {
+  /** Primary key (UUID) */
+  id: 'TEXT';
+  /** Drive folder ID the virtual paths are relative to */
+  root_id: 'TEXT';
+  /** Virtual path of the file or folder */
+  file_path: 'TEXT';
+  /** Google Drive file ID */
+  file_id: 'TEXT';
+  /** 1 for folders, 0 for files */
+  is_folder: 'INTEGER';
+  /** ISO timestamp of last modification */
+  changed_at: 'TEXT' | 'TIMESTAMP';
+}
+
+/**
+ * Schema definition for hazo_files_drive_index table
+ */
+export interface HazoFilesDriveIndexTableSchema {
+  /** Default table name */
+  tableName: string;
+  /** SQLite-specific DDL */
+  sqlite: DatabaseSchemaDefinition;
+  /** PostgreSQL-specific DDL */
+  postgres: DatabaseSchemaDefinition;
+  /** Column names for reference */
+  columns: readonly string[];
+}
+
+/**
+ * DDL schema for the hazo_files_drive_index table.
+ *
+ * This table persists the path to file ID index of GoogleDriveModule, so the
+ * index survives restarts and is shared between server instances. Rows are unique
+ * per root folder and path; entries are checked against Drive before use, so changes
+ * made elsewhere are picked up.
+ *
+ * @example Using with hazo_connect
+ * ```typescript
+ * import { createHazoConnect, createCrudService } from 'hazo_connect/server';
+ * import { HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA, createDatabasePathIndexStore } from 'hazo_files';
+ * import type { DrivePathIndexRecord } from 'hazo_files';
+ *
+ * // 1. Create table during app setup
+ * await db.run(HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA.sqlite.ddl);
+ * for (const idx of HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA.sqlite.indexes) {
+ *   await db.run(idx);
+ * }
+ *
+ * // 2. Create CRUD service and pass it to the Drive module
+ * const crud = createCrudService<DrivePathIndexRecord>(
+ *   adapter,
+ *   HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA.tableName
+ * );
+ * driveModule.setPathIndexStore(createDatabasePathIndexStore(crud));
+ * ```
+ */
+export const HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA: HazoFilesDriveIndexTableSchema = {
+  tableName: HAZO_FILES_DRIVE_INDEX_DEFAULT_TABLE_NAME,
+
+  sqlite: {
+    ddl: `CREATE TABLE IF NOT EXISTS hazo_files_drive_index (
+  id TEXT PRIMARY KEY,
+  root_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_id TEXT NOT NULL,
+  is_folder INTEGER NOT NULL DEFAULT 0,
+  changed_at TEXT NOT NULL
+)`,
+    indexes: [
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_hazo_files_drive_index_path ON hazo_files_drive_index (root_id, file_path)',
+    ],
+  },
+
+  postgres: {
+    ddl: `CREATE TABLE IF NOT EXISTS hazo_files_drive_index (
+  id TEXT PRIMARY KEY,
+  root_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_id TEXT NOT NULL,
+  is_folder INTEGER NOT NULL DEFAULT 0,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+)`,
+    indexes: [
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_hazo_files_drive_index_path ON hazo_files_drive_index (root_id, file_path)',
+    ],
+  },
+
+  columns: ['id', 'root_id', 'file_path', 'file_id', 'is_folder', 'changed_at'] as const,
+};
+
+/**
+ * Get DDL for a custom Drive path index table name
+ */
+export function getDriveIndexSchemaForTable(
+  tableName: string,
+  dbType: 'sqlite' | 'postgres'
+): DatabaseSchemaDefinition {
+  const schema = HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA[dbType];
+  const defaultName = HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA.tableName;
+
+  return {
+    ddl: schema.ddl.replace(new RegExp(defaultName, 'g'), tableName),
+    indexes: schema.indexes.map((idx) =>
+      idx.replace(new RegExp(defaultName, 'g'), tableName)
+    ),
+  };
+}
+
+// ============================================
+// Content Index Table Schema
+// ============================================
+
+/**
+ * Default table name for the full-text content index
+ */
+export const HAZO_FILES_CONTENT_INDEX_DEFAULT_TABLE_NAME = 'hazo_files_content_index';
+
+/**
+ * Schema definition for the hazo_files_content_index table (SQLite only: an FTS5 table)
+ */
+export interface HazoFilesContentIndexTableSchema {
+  /** Default table name */
+  tableName: string;
+  /** SQLite-specific DDL */
+  sqlite: DatabaseSchemaDefinition;
+  /** Column names for reference */
+  columns: readonly string[];
+}
+
+/**
+ * DDL schema for the hazo_files_content_index table.
+ *
+ * This FTS5 table holds the searchable text of tracked files for SqliteContentIndex,
+ * which creates it on first use. Only filename and content are indexed; the other
+ * columns filter the matches.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ * import { createSqliteContentIndex, createTrackedFileManager } from 'hazo_files';
+ *
+ * const db = new Database('./data.db');
+ * const contentIndex = createSqliteContentIndex({
+ *   run: (sql, params = []) => db.prepare(sql).run(...params),
+ *   all: (sql, params = []) => db.prepare(sql).all(...params),
+ * });
+ * const fm = createTrackedFileManager({ crudService, tracking: { enabled: true }, contentIndex });
+ * ```
+ */
+export const HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA: HazoFilesContentIndexTableSchema = {
+  tableName: HAZO_FILES_CONTENT_INDEX_DEFAULT_TABLE_NAME,
+
+  sqlite: {
+    ddl: `CREATE VIRTUAL TABLE IF NOT EXISTS hazo_files_content_index USING fts5(
+  file_id UNINDEXED,
+  storage_type UNINDEXED,
+  scope_id UNINDEXED,
+  content_tag UNINDEXED,
+  filename,
+  content,
+  tokenize = 'unicode61 remove_diacritics 2'
+)`,
+    indexes: [],
+  },
+
+  columns: ['file_id', 'storage_type', 'scope_id', 'content_tag', 'filename', 'content'] as const,
+};
+
+/**
+ * Get DDL for a custom content index table name
+ */
+export function getContentIndexSchemaForTable(tableName: string): DatabaseSchemaDefinition {
+  const schema = HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA.sqlite;
+  const defaultName = HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA.tableName;
+
+  return {
+    ddl: schema.ddl.replace(new RegExp(defaultName, 'g'), tableName),
+    indexes: schema.indexes.map((idx) =>
+      idx.replace(new RegExp(defaultName, 'g'), tableName)
+    ),
+  };
+}
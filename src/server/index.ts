@@ -46,20 +46,40 @@ export {
   TrackedFileManager,
   createTrackedFileManager,
   createInitializedTrackedFileManager,
+  MemoryUploadSessionStore,
+  FileUploadSessionStore,
+  createMemoryUploadSessionStore,
+  createFileUploadSessionStore,
   FileMetadataService,
   createFileMetadataService,
+  MetadataQueryBuilder,
+  createMetadataQueryBuilder,
   NamingConventionService,
   createNamingConventionService,
   LLMExtractionService,
   createLLMExtractionService,
   UploadExtractService,
   createUploadExtractService,
+  // Content search
+  MemoryContentIndex,
+  SqliteContentIndex,
+  createMemoryContentIndex,
+  createSqliteContentIndex,
+  ContentSearchService,
+  createContentSearchService,
+  migrateStorage,
 } from '../services';
 
 export type {
   FileManagerOptions,
   TrackedFileManagerFullOptions,
   TrackedUploadOptions,
+  TrackedCopyOptions,
+  TrackedBatchCopyOptions,
+  DuplicateFile,
+  MigrateStorageOptions,
+  MigrationProgress,
+  MigrationResult,
   MetadataLogger,
   CrudServiceLike,
   FileMetadataServiceOptions,
@@ -73,6 +93,9 @@ export type {
   UploadExtractOptions,
   UploadExtractResult,
   CreateFolderOptions,
+  ContentIndexExecutor,
+  ContentSearchServiceOptions,
+  ReindexContentOptions,
 } from '../services';
 
 // Schema exports
@@ -83,10 +106,18 @@ export {
   HAZO_FILES_NAMING_TABLE_SCHEMA,
   HAZO_FILES_NAMING_DEFAULT_TABLE_NAME,
   getNamingSchemaForTable,
+  HAZO_FILES_DRIVE_INDEX_TABLE_SCHEMA,
+  HAZO_FILES_DRIVE_INDEX_DEFAULT_TABLE_NAME,
+  getDriveIndexSchemaForTable,
+  HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA,
+  HAZO_FILES_CONTENT_INDEX_DEFAULT_TABLE_NAME,
+  getContentIndexSchemaForTable,
   HAZO_FILES_MIGRATION_V2,
   getMigrationForTable,
   HAZO_FILES_MIGRATION_V3,
   getMigrationV3ForTable,
+  HAZO_FILES_MIGRATION_V4,
+  getMigrationV4ForTable,
 } from '../schema';
 
 export type {
@@ -95,8 +126,12 @@ export type {
   DatabaseSchemaDefinition,
   HazoFilesColumnDefinitions,
   HazoFilesNamingColumnDefinitions,
+  HazoFilesDriveIndexTableSchema,
+  HazoFilesDriveIndexColumnDefinitions,
+  HazoFilesContentIndexTableSchema,
   HazoFilesMigrationV2,
   HazoFilesMigrationV3,
+  HazoFilesMigrationV4,
   MigrationSchemaDefinition,
 } from '../schema';
 
@@ -105,6 +140,7 @@ export {
   migrateToV2,
   backfillV2Defaults,
   migrateToV3,
+  migrateToV4,
 } from '../migrations';
 
 export type { MigrationExecutor } from '../migrations';
@@ -122,19 +158,60 @@ export {
   createGoogleDriveModule,
   GoogleDriveAuth,
   createGoogleDriveAuth,
+  DatabasePathIndexStore,
+  createDatabasePathIndexStore,
   DropboxModule,
   createDropboxModule,
   DropboxAuth,
   createDropboxAuth,
+  S3StorageModule,
+  createS3Module,
+  MemoryStorageModule,
+  createMemoryModule,
+  SftpStorageModule,
+  createSftpModule,
+  WebDavStorageModule,
+  createWebDavModule,
+  MirroredStorageModule,
+  createMirroredModule,
+  MountedStorageModule,
+  createMountedModule,
+  EncryptedStorageModule,
+  createEncryptedModule,
+  LocalKeyProvider,
+  createLocalKeyProvider,
+  CompressedStorageModule,
+  createCompressedModule,
+  CachedStorageModule,
+  createCachedModule,
 } from '../modules';
 
 export type {
   TokenData,
   AuthCallbacks,
   GoogleAuthConfig,
+  ResolvePathsOptions,
+  PathIndexStore,
+  PathIndexEntry,
+  DrivePathIndexRecord,
   DropboxTokenData,
   DropboxAuthCallbacks,
   DropboxAuthConfig,
+  MirroredStorageOptions,
+  MirrorWriteMode,
+  ReplicationOperation,
+  ReplicationTask,
+  ReplicationStatus,
+  EncryptedStorageOptions,
+  KeyRotationOptions,
+  KeyRotationResult,
+  KeyProvider,
+  LocalKeyProviderOptions,
+  CompressedStorageOptions,
+  CompressionAlgorithm,
+  FileCategory,
+  CachedStorageOptions,
+  CacheStats,
 } from '../modules';
 
 // Configuration
@@ -195,6 +272,13 @@ export {
   InvalidPathError,
   FileTooLargeError,
   InvalidExtensionError,
+  InvalidRangeError,
+  UploadSessionError,
+  OperationAbortedError,
+  EncryptionError,
+  InvalidCursorError,
+  VersionNotFoundError,
+  TrashItemNotFoundError,
   AuthenticationError,
   ConfigurationError,
   OperationError,
@@ -246,8 +330,22 @@ export {
   computeFileHashSync,
   computeFileInfo,
   computeFileHashFromStream,
+  computeFileInfoFromReadable,
+  createFileHasher,
   hashesEqual,
   hasFileContentChanged,
+  // Stream utilities
+  resolveByteRange,
+  sliceStream,
+  trackStreamProgress,
+  // Search utilities
+  globToRegExp,
+  matchesMimeType,
+  createSearchFilter,
+  // Metadata query utilities
+  getFileDataValue,
+  createMetadataQueryFilter,
+  queryMetadataRecords,
   // Reference tracking utilities
   generateRefId,
   parseFileRefs,
@@ -259,7 +357,8 @@ export {
   buildFileWithStatus,
 } from '../common';
 
-export type { FileInfo } from '../common/hash-utils';
+export type { FileInfo, FileHasher } from '../common/hash-utils';
+export type { ByteRange } from '../common/stream-utils';
 
 // Types
 export type {
@@ -272,13 +371,51 @@ export type {
   LocalStorageConfig,
   GoogleDriveConfig,
   DropboxConfig,
+  S3Config,
+  MemoryStorageConfig,
+  VersioningConfig,
+  TrashConfig,
+  SftpConfig,
+  WebDavConfig,
   OperationResult,
   ProgressCallback,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
+  UploadSession,
+  StartUploadOptions,
+  UploadChunkOptions,
+  UploadSessionStore,
   ListOptions,
+  SearchOptions,
+  SearchPage,
   MoveOptions,
+  CopyOptions,
+  CopyProgress,
+  BatchOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchSummary,
+  BatchProgress,
+  BatchResult,
   RenameOptions,
+  DeleteOptions,
+  FileChangeType,
+  FileChange,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  TrashConflictStrategy,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
   TreeNode,
   FileBrowserState,
   // Naming types
@@ -299,6 +436,16 @@ export type {
   FileMetadataUpdate,
   DatabaseTrackingConfig,
   TrackedFileManagerOptions,
+  ReconcileOptions,
+  ReconcileIssueType,
+  ReconcileIssue,
+  ReconcileResult,
+  ImportScopeRule,
+  ImportExistingOptions,
+  ImportProgress,
+  ImportResult,
+  FileVersionRecord,
+  TrackedFileVersion,
   // Extraction data types
   ExtractionData,
   FileDataStructure,
@@ -324,4 +471,20 @@ export type {
   FindOrphanedOptions,
   CleanupOrphanedOptions,
   UploadWithRefOptions,
+  // Metadata query types
+  MetadataQueryOperator,
+  MetadataDataPredicate,
+  MetadataDateRange,
+  MetadataNumberRange,
+  MetadataSortColumn,
+  MetadataSort,
+  MetadataQuery,
+  MetadataQueryPage,
+  // Content search types
+  ContentIndexDocument,
+  ContentSearchOptions,
+  ContentIndexHit,
+  ContentSearchResult,
+  ContentIndexBackend,
+  ReindexContentResult,
 } from '../types';
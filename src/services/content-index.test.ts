@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { MemoryContentIndex, SqliteContentIndex, type ContentIndexExecutor } from './content-index';
+import type { ContentIndexDocument } from '../types';
+
+function doc(file_id: string, content: string, extra: Partial<ContentIndexDocument> = {}): ContentIndexDocument {
+  return { file_id, storage_type: 'local', scope_id: null, content_tag: null, filename: `${file_id}.txt`, content, ...extra };
+}
+
+describe('MemoryContentIndex', () => {
+  let index: MemoryContentIndex;
+
+  const search = async (query: string, options = {}) => (await index.search(query, options)).map((hit) => hit.file_id);
+
+  beforeEach(() => {
+    index = new MemoryContentIndex();
+  });
+
+  it('ranks files matching more and rarer words higher', async () => {
+    await index.upsert([
+      doc('acme', 'Quarterly report for ACME'),
+      doc('invoice1', 'Invoice for services'),
+      doc('invoice2', 'Invoice for goods'),
+      doc('both', 'Invoice for ACME'),
+      doc('other', 'Meeting notes'),
+    ]);
+
+    expect(await search('invoice acme')).toEqual(['both', 'acme', 'invoice1', 'invoice2']);
+  });
+
+  it('counts a word in the file name more than one in the content', async () => {
+    await index.upsert([
+      doc('content', 'budget', { filename: 'notes.txt' }),
+      doc('name', 'notes', { filename: 'budget.txt' }),
+    ]);
+
+    expect(await search('budget')).toEqual(['name', 'content']);
+  });
+
+  it('leaves out stop words unless the query has nothing else', async () => {
+    await index.upsert([doc('a', 'The invoice'), doc('b', 'The receipt')]);
+
+    expect(await search('the invoice')).toEqual(['a']);
+    expect((await search('the')).sort()).toEqual(['a', 'b']);
+    expect(await search(' ,. ')).toEqual([]);
+  });
+
+  it('matches numbers with or without thousands separators and words without accents', async () => {
+    await index.upsert([doc('a', 'Total due: $4,200 at the Café')]);
+
+    expect(await search('4200')).toEqual(['a']);
+    expect(await search('4,200')).toEqual(['a']);
+    expect(await search('cafe')).toEqual(['a']);
+  });
+
+  it('filters, pages and highlights hits', async () => {
+    await index.upsert([
+      doc('a', 'invoice one', { scope_id: 'w1', content_tag: 'invoice' }),
+      doc('b', 'invoice two', { scope_id: 'w2' }),
+      doc('c', 'invoice three invoice', { scope_id: 'w1', storage_type: 's3' }),
+    ]);
+
+    expect(await search('invoice', { scope_id: 'w1' })).toEqual(['c', 'a']);
+    expect(await search('invoice', { content_tag: 'invoice' })).toEqual(['a']);
+    expect(await search('invoice', { storage_type: 's3' })).toEqual(['c']);
+    expect(await search('invoice', { limit: 1, offset: 1 })).toEqual(['a']);
+
+    const [hit] = await index.search('three', { highlightTags: ['[', ']'] });
+    expect(hit.highlights).toEqual(['invoice [three] invoice']);
+  });
+
+  it('replaces and removes documents', async () => {
+    await index.upsert([doc('a', 'draft'), doc('b', 'draft')]);
+    await index.upsert([doc('a', 'final')]);
+    expect(await search('draft')).toEqual(['b']);
+    expect(await search('final')).toEqual(['a']);
+
+    await index.remove(['b']);
+    expect(await search('draft')).toEqual([]);
+
+    await index.clear();
+    expect(await search('final')).toEqual([]);
+  });
+});
+
+describe('SqliteContentIndex', () => {
+  let statements: { sql: string; params?: unknown[] }[];
+  let rows: Record<string, unknown>[];
+  let executor: ContentIndexExecutor;
+
+  const sql = () => statements.map((statement) => statement.sql.split('\n')[0]);
+
+  beforeEach(() => {
+    statements = [];
+    rows = [];
+    executor = {
+      run: (sql, params) => {
+        statements.push({ sql, params });
+      },
+      all: (sql, params) => {
+        statements.push({ sql, params });
+        return rows;
+      },
+    };
+  });
+
+  it('only accepts plain identifiers as table names', () => {
+    for (const name of ['content index', 'files; DROP TABLE users', '1index', 'a-b', '"quoted"', '']) {
+      expect(() => new SqliteContentIndex(executor, name)).toThrow(/Invalid content index table name/);
+    }
+    expect(() => new SqliteContentIndex(executor, '_content_index2')).not.toThrow();
+  });
+
+  it('creates the FTS5 table on first use and replaces documents', async () => {
+    const index = new SqliteContentIndex(executor, 'search_index');
+
+    await index.upsert([doc('a', 'Total: $4,200', { filename: 'Invoice 1,000.txt', scope_id: 'w1' })]);
+    await index.remove(['a']);
+
+    expect(sql()).toEqual([
+      'CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(',
+      'DELETE FROM search_index WHERE file_id = ?',
+      'INSERT INTO search_index (file_id, storage_type, scope_id, content_tag, filename, content) VALUES (?, ?, ?, ?, ?, ?)',
+      'DELETE FROM search_index WHERE file_id = ?',
+    ]);
+    expect(statements[2].params).toEqual(['a', 'local', 'w1', null, 'Invoice 1000.txt', 'Total: $4200']);
+    expect(statements[3].params).toEqual(['a']);
+  });
+
+  it('creates the table again after a failed attempt', async () => {
+    const index = new SqliteContentIndex({
+      ...executor,
+      run: (sql, params) => {
+        if (statements.length === 0 && sql.startsWith('CREATE')) {
+          statements.push({ sql: 'failed' });
+          throw new Error('database is locked');
+        }
+        return executor.run(sql, params);
+      },
+    });
+
+    await expect(index.clear()).rejects.toThrow('database is locked');
+    await index.clear();
+    expect(sql()).toEqual([
+      'failed',
+      'CREATE VIRTUAL TABLE IF NOT EXISTS hazo_files_content_index USING fts5(',
+      'DELETE FROM hazo_files_content_index',
+    ]);
+  });
+
+  it('matches any query word, ranked with bm25() and filtered by the options', async () => {
+    const index = new SqliteContentIndex(executor);
+    rows = [
+      { file_id: 'a', rank: -2.5, highlight: '<b>ACME</b> invoice' },
+      { file_id: 'b', rank: -1, highlight: null },
+    ];
+
+    const hits = await index.search('the "ACME" invoice for $4,200', {
+      scope_id: 'w1',
+      storage_type: 'local',
+      limit: 5,
+      offset: 10,
+      highlightTags: ['<b>', '</b>'],
+    });
+
+    expect(hits).toEqual([
+      { file_id: 'a', score: 2.5, highlights: ['<b>ACME</b> invoice'] },
+      { file_id: 'b', score: 1, highlights: [] },
+    ]);
+    const query = statements[1];
+    expect(query.sql).toContain('bm25(hazo_files_content_index, 0, 0, 0, 0, 2, 1) AS rank');
+    expect(query.sql).toContain(
+      'WHERE hazo_files_content_index MATCH ? AND scope_id = ? AND storage_type = ? ORDER BY rank LIMIT ? OFFSET ?'
+    );
+    expect(query.params).toEqual(['<b>', '</b>', '"acme" OR "invoice" OR "4200"', 'w1', 'local', 5, 10]);
+  });
+
+  it('does not query the table for a query without words', async () => {
+    const index = new SqliteContentIndex(executor);
+
+    expect(await index.search('?!')).toEqual([]);
+    expect(statements).toEqual([]);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Content Indexes
+ * Backends that keep the full-text index of ContentSearchService
+ */
+
+import type {
+  ContentIndexBackend,
+  ContentIndexDocument,
+  ContentIndexHit,
+  ContentSearchOptions,
+} from '../types';
+import { HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA, getContentIndexSchemaForTable } from '../schema';
+
+/** Hits returned when no limit is given */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+const DEFAULT_HIGHLIGHT_TAGS: [string, string] = ['<mark>', '</mark>'];
+
+/** Highlights per hit, and words of context on each side of a match */
+const MAX_HIGHLIGHTS = 3;
+const HIGHLIGHT_CONTEXT_WORDS = 8;
+
+// BM25 parameters, and how much more a word in the file name counts than one in the content
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const FILENAME_WEIGHT = 2;
+
+/**
+ * Words left out of queries, so that "the invoice from ACME" ranks by the words
+ * that matter. Used only when the query has other words.
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with',
+]);
+
+// Words are runs of letters and digits; numbers with thousands separators are one word
+const WORD_PATTERN = /\p{N}{1,3}(?:,\p{N}{3})+|[\p{L}\p{N}]+/gu;
+
+interface Word {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Split text into words, each with its search term (lower case, without accents or
+ * thousands separators) and its position in the text
+ */
+function tokenize(text: string): Word[] {
+  const words: Word[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    words.push({
+      term: match[0].replace(/,/g, '').normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase(),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return words;
+}
+
+/**
+ * Search terms of a query: its words without duplicates and stop words
+ */
+function getQueryTerms(query: string): string[] {
+  const terms = Array.from(new Set(tokenize(query).map((word) => word.term)));
+  const meaningful = terms.filter((term) => !STOP_WORDS.has(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+/**
+ * Parts of a text around the words matching the terms, with those words marked
+ */
+function buildHighlights(text: string, terms: Set<string>, tags: [string, string]): string[] {
+  const words = tokenize(text);
+  const highlights: string[] = [];
+  let covered = -1;
+
+  for (let i = 0; i < words.length && highlights.length < MAX_HIGHLIGHTS; i++) {
+    if (i <= covered || !terms.has(words[i].term)) continue;
+
+    const first = Math.max(0, i - HIGHLIGHT_CONTEXT_WORDS);
+    const last = Math.min(words.length - 1, i + HIGHLIGHT_CONTEXT_WORDS);
+    let snippet = first > 0 ? '…' : '';
+    let position = words[first].start;
+    for (let j = first; j <= last; j++) {
+      const word = words[j];
+      snippet += text.slice(position, word.start);
+      snippet += terms.has(word.term) ? `${tags[0]}${text.slice(word.start, word.end)}${tags[1]}` : text.slice(word.start, word.end);
+      position = word.end;
+    }
+    highlights.push((snippet + (last < words.length - 1 ? '…' : '')).replace(/\s+/g, ' ').trim());
+    covered = last;
+  }
+
+  return highlights;
+}
+
+function matchesFilters(document: ContentIndexDocument, options: ContentSearchOptions): boolean {
+  return (options.scope_id === undefined || document.scope_id === options.scope_id) &&
+    (options.content_tag === undefined || document.content_tag === options.content_tag) &&
+    (options.storage_type === undefined || document.storage_type === options.storage_type);
+}
+
+interface IndexedDocument {
+  document: ContentIndexDocument;
+  /** Weighted occurrences of each term */
+  frequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * In-memory content index (default)
+ * Ranks with BM25 over the file name and content. The index is lost when the process
+ * exits; rebuild it with reindexContent() or use a persistent backend.
+ */
+export class MemoryContentIndex implements ContentIndexBackend {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  async upsert(documents: ContentIndexDocument[]): Promise<void> {
+    for (const document of documents) {
+      this.removeDocument(document.file_id);
+
+      const frequencies = new Map<string, number>();
+      let length = 0;
+      const count = (text: string, weight: number) => {
+        for (const { term } of tokenize(text)) {
+          frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+          length += weight;
+        }
+      };
+      count(document.filename, FILENAME_WEIGHT);
+      count(document.content, 1);
+
+      for (const term of frequencies.keys()) {
+        let ids = this.postings.get(term);
+        if (!ids) {
+          ids = new Set();
+          this.postings.set(term, ids);
+        }
+        ids.add(document.file_id);
+      }
+      this.documents.set(document.file_id, { document: { ...document }, frequencies, length });
+      this.totalLength += length;
+    }
+  }
+
+  async remove(fileIds: string[]): Promise<void> {
+    for (const fileId of fileIds) {
+      this.removeDocument(fileId);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  async search(query: string, options: ContentSearchOptions = {}): Promise<ContentIndexHit[]> {
+    const terms = getQueryTerms(query);
+    if (terms.length === 0 || this.documents.size === 0) {
+      return [];
+    }
+
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+    const scores = new Map<string, number>();
+    for (const term of terms) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      const idf = Math.log(1 + (count - ids.size + 0.5) / (ids.size + 0.5));
+      for (const id of ids) {
+        const indexed = this.documents.get(id)!;
+        if (!matchesFilters(indexed.document, options)) continue;
+        const frequency = indexed.frequencies.get(term)!;
+        const norm = BM25_K1 * (1 - BM25_B + BM25_B * (indexed.length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + idf * (frequency * (BM25_K1 + 1)) / (frequency + norm));
+      }
+    }
+
+    const offset = options.offset ?? 0;
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const tags = options.highlightTags ?? DEFAULT_HIGHLIGHT_TAGS;
+    const termSet = new Set(terms);
+    return Array.from(scores, ([fileId, score]) => ({ fileId, score }))
+      .sort((a, b) => b.score - a.score || (a.fileId < b.fileId ? -1 : 1))
+      .slice(offset, offset + limit)
+      .map(({ fileId, score }) => {
+        const { document } = this.documents.get(fileId)!;
+        const highlights = buildHighlights(document.content, termSet, tags);
+        return {
+          file_id: fileId,
+          score,
+          highlights: highlights.length > 0 ? highlights : buildHighlights(document.filename, termSet, tags),
+        };
+      });
+  }
+
+  private removeDocument(fileId: string): void {
+    const indexed = this.documents.get(fileId);
+    if (!indexed) return;
+
+    for (const term of indexed.frequencies.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(fileId);
+      if (ids?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    this.documents.delete(fileId);
+    this.totalLength -= indexed.length;
+  }
+}
+
+/**
+ * Runs SQL against a SQLite database, e.g. for better-sqlite3:
+ * `{ run: (sql, params = []) => db.prepare(sql).run(...params), all: (sql, params = []) => db.prepare(sql).all(...params) }`
+ */
+export interface ContentIndexExecutor {
+  run(sql: string, params?: unknown[]): Promise<unknown> | unknown;
+  all(sql: string, params?: unknown[]): Promise<Record<string, unknown>[]> | Record<string, unknown>[];
+}
+
+/**
+ * SQLite content index using an FTS5 table (HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA),
+ * ranked with bm25() and highlighted with snippet(). The table is created on first use.
+ */
+export class SqliteContentIndex implements ContentIndexBackend {
+  private readonly tableName: string;
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    private readonly executor: ContentIndexExecutor,
+    tableName: string = HAZO_FILES_CONTENT_INDEX_TABLE_SCHEMA.tableName
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+      throw new Error(`Invalid content index table name: ${tableName}`);
+    }
+    this.tableName = tableName;
+  }
+
+  async upsert(documents: ContentIndexDocument[]): Promise<void> {
+    await this.ensureTable();
+    for (const document of documents) {
+      await this.executor.run(`DELETE FROM ${this.tableName} WHERE file_id = ?`, [document.file_id]);
+      await this.executor.run(
+        `INSERT INTO ${this.tableName} (file_id, storage_type, scope_id, content_tag, filename, content) VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          document.file_id,
+          document.storage_type,
+          document.scope_id,
+          document.content_tag,
+          joinThousands(document.filename),
+          joinThousands(document.content),
+        ]
+      );
+    }
+  }
+
+  async remove(fileIds: string[]): Promise<void> {
+    await this.ensureTable();
+    for (const fileId of fileIds) {
+      await this.executor.run(`DELETE FROM ${this.tableName} WHERE file_id = ?`, [fileId]);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureTable();
+    await this.executor.run(`DELETE FROM ${this.tableName}`);
+  }
+
+  async search(query: string, options: ContentSearchOptions = {}): Promise<ContentIndexHit[]> {
+    const terms = getQueryTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+    await this.ensureTable();
+
+    const [open, close] = options.highlightTags ?? DEFAULT_HIGHLIGHT_TAGS;
+    const params: unknown[] = [open, close, terms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' OR ')];
+    let sql = `SELECT file_id, bm25(${this.tableName}, 0, 0, 0, 0, ${FILENAME_WEIGHT}, 1) AS rank, ` +
+      `snippet(${this.tableName}, -1, ?, ?, '…', ${HIGHLIGHT_CONTEXT_WORDS * 2}) AS highlight ` +
+      `FROM ${this.tableName} WHERE ${this.tableName} MATCH ?`;
+    for (const column of ['scope_id', 'content_tag', 'storage_type'] as const) {
+      if (options[column] !== undefined) {
+        sql += ` AND ${column} = ?`;
+        params.push(options[column]);
+      }
+    }
+    sql += ' ORDER BY rank LIMIT ? OFFSET ?';
+    params.push(options.limit ?? DEFAULT_SEARCH_LIMIT, options.offset ?? 0);
+
+    const rows = await this.executor.all(sql, params);
+    return rows.map((row) => ({
+      file_id: String(row.file_id),
+      // bm25() is lower for better matches
+      score: -Number(row.rank),
+      highlights: row.highlight ? [String(row.highlight)] : [],
+    }));
+  }
+
+  private ensureTable(): Promise<void> {
+    if (!this.ready) {
+      const { ddl } = getContentIndexSchemaForTable(this.tableName);
+      this.ready = Promise.resolve(this.executor.run(ddl)).then(() => undefined);
+      this.ready.catch(() => {
+        this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+}
+
+/**
+ * Write numbers without thousands separators, as the memory index reads them,
+ * so that "$4,200" finds 4200
+ */
+function joinThousands(text: string): string {
+  return text.replace(/\p{N}{1,3}(?:,\p{N}{3})+/gu, (number) => number.replace(/,/g, ''));
+}
+
+/**
+ * Create an in-memory content index
+ */
+export function createMemoryContentIndex(): MemoryContentIndex {
+  return new MemoryContentIndex();
+}
+
+/**
+ * Create a SQLite FTS5 content index
+ * @param executor - Runs SQL against the database
+ * @param tableName - Table name (default: 'hazo_files_content_index')
+ */
+export function createSqliteContentIndex(executor: ContentIndexExecutor, tableName?: string): SqliteContentIndex {
+  return new SqliteContentIndex(executor, tableName);
+}
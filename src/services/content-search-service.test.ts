@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+
+import { createTrackedFileManager, type TrackedFileManager } from './tracked-file-manager';
+import { MemoryContentIndex } from './content-index';
+import type { CrudServiceLike } from './file-metadata-service';
+import type { FileMetadataRecord, FileMetadataRecordV2 } from '../types';
+
+/**
+ * CRUD service over an in-memory table
+ */
+function createMemoryCrud() {
+  const rows = new Map<string, FileMetadataRecordV2>();
+  const matches = (row: FileMetadataRecord, criteria: Record<string, unknown>) =>
+    Object.entries(criteria).every(([key, value]) => row[key as keyof FileMetadataRecord] === value);
+
+  const crud: CrudServiceLike<FileMetadataRecord> = {
+    list: async () => [...rows.values()],
+    findBy: async (criteria) => [...rows.values()].filter((row) => matches(row, criteria)),
+    findOneBy: async (criteria) => [...rows.values()].find((row) => matches(row, criteria)) ?? null,
+    insert: async (data) =>
+      (Array.isArray(data) ? data : [data]).map((input) => {
+        const row = { id: randomUUID(), status: 'active', ...input } as FileMetadataRecordV2;
+        rows.set(row.id, row);
+        return row;
+      }),
+    updateById: async (id, patch) => {
+      const row = { ...rows.get(id as string)!, ...patch } as FileMetadataRecordV2;
+      rows.set(row.id, row);
+      return [row];
+    },
+    deleteById: async (id) => {
+      rows.delete(id as string);
+    },
+  };
+  return { crud, rows };
+}
+
+describe('ContentSearchService', () => {
+  let manager: TrackedFileManager;
+  let index: MemoryContentIndex;
+
+  const search = async (query: string) =>
+    ((await manager.searchContent(query)).data ?? []).map((hit) => hit.record.file_path);
+
+  beforeEach(async () => {
+    index = new MemoryContentIndex();
+    manager = createTrackedFileManager({
+      crudService: createMemoryCrud().crud,
+      tracking: { enabled: true, logErrors: false },
+      config: { provider: 'memory' },
+      contentIndex: index,
+    });
+    await manager.initialize();
+
+    for (const [path, content] of [['/acme.txt', 'Invoice from ACME'], ['/globex.md', 'Invoice from Globex'], ['/photo.png', 'ACME']]) {
+      await manager.uploadFile(Buffer.from(content), path, { awaitRecording: true });
+    }
+  });
+
+  it('indexes the content of uploaded text files', async () => {
+    expect(await search('acme invoice')).toEqual(['/acme.txt', '/globex.md']);
+    // Binary files are found by name only
+    expect(await search('photo')).toEqual(['/photo.png']);
+  });
+
+  it('reports moved files at their new path', async () => {
+    await manager.moveItem('/acme.txt', '/archive.txt');
+
+    expect(await search('acme')).toEqual(['/archive.txt']);
+  });
+
+  it('drops deleted files from the results and the index', async () => {
+    await manager.deleteFile('/acme.txt');
+
+    expect(await search('invoice')).toEqual(['/globex.md']);
+    expect((await index.search('acme', {})).map((hit) => hit.file_id)).toHaveLength(0);
+  });
+
+  it('counts files that could not be read as failed, not indexed', async () => {
+    const module = manager.getModule();
+    const downloadStream = module.downloadStream.bind(module);
+    module.downloadStream = async (path, options) =>
+      path === '/globex.md' ? { success: false, error: 'Permission denied: /globex.md' } : downloadStream(path, options);
+
+    const result = await manager.reindexContent({ clear: true });
+
+    expect(result.data).toEqual({
+      indexed: 2,
+      failed: 1,
+      errors: ['Failed to read /globex.md: Permission denied: /globex.md'],
+    });
+    // Still found by its name
+    expect(await search('invoice')).toEqual(['/acme.txt']);
+    expect(await search('globex')).toEqual(['/globex.md']);
+  });
+});
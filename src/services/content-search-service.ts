@@ -0,0 +1,364 @@
+/**
+ * Content Search Service
+ * Full-text search over the extracted data and text content of tracked files
+ */
+
+import type {
+  FileMetadataRecord,
+  FileMetadataRecordV2,
+  OperationResult,
+  StorageProvider,
+  ContentIndexBackend,
+  ContentIndexDocument,
+  ContentSearchOptions,
+  ContentSearchResult,
+  ReindexContentResult,
+} from '../types';
+import type { FileManager } from './file-manager';
+import type { FileMetadataService, MetadataLogger } from './file-metadata-service';
+import { MemoryContentIndex } from './content-index';
+import { parseFileData } from '../common/file-data-utils';
+import { toV2Record } from '../common/ref-utils';
+import { getMimeType } from '../common/mime-types';
+import { OperationAbortedError } from '../common/errors';
+import { mapWithConcurrency } from '../common/utils';
+
+/** Text files larger than this are indexed without their content */
+const DEFAULT_MAX_CONTENT_SIZE = 1024 * 1024;
+
+const DEFAULT_CONTENT_MIME_TYPES = ['text/plain', 'text/markdown'];
+
+/**
+ * Options for ContentSearchService
+ */
+export interface ContentSearchServiceOptions {
+  /** Where the index is kept (default: an in-memory index) */
+  backend?: ContentIndexBackend;
+  /**
+   * Reads the content of text files for the index. Only files in its storage are read;
+   * without it, only extracted data is indexed.
+   */
+  fileManager?: FileManager;
+  /** MIME types whose content is indexed (default: text/plain and text/markdown) */
+  contentMimeTypes?: string[];
+  /** Largest file whose content is indexed, in bytes (default: 1 MB) */
+  maxContentSize?: number;
+  /** Logger for diagnostics */
+  logger?: MetadataLogger;
+  /** Log errors to console (default: true) */
+  logErrors?: boolean;
+}
+
+/**
+ * Options for reindex()
+ */
+export interface ReindexContentOptions {
+  /** Empty the index first, dropping files of other storages too (default: false) */
+  clear?: boolean;
+  /** Files indexed at the same time (default: 4) */
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Content Search Service
+ *
+ * Indexes the merged_data values and extractions in each record's file_data, plus the
+ * content of plain-text and markdown files, and finds files by ranked full-text search.
+ * Hits are checked against the current records, so files deleted or moved since they
+ * were indexed are dropped or reported at their new path; records that gain extractions
+ * or a content tag need indexFile() again.
+ *
+ * @example
+ * ```typescript
+ * const contentSearch = createContentSearchService(metadataService, { fileManager });
+ * await contentSearch.reindex('local');
+ *
+ * const result = await contentSearch.searchContent('invoice from ACME for $4,200', {
+ *   scope_id: 'workspace-1',
+ *   content_tag: 'invoice',
+ * });
+ * for (const hit of result.data ?? []) {
+ *   console.log(hit.record.file_path, hit.highlights);
+ * }
+ * ```
+ */
+export class ContentSearchService {
+  private metadataService: FileMetadataService;
+  private backend: ContentIndexBackend;
+  private fileManager?: FileManager;
+  private contentMimeTypes: string[];
+  private maxContentSize: number;
+  private logger?: MetadataLogger;
+  private logErrors: boolean;
+
+  constructor(metadataService: FileMetadataService, options: ContentSearchServiceOptions = {}) {
+    this.metadataService = metadataService;
+    this.backend = options.backend ?? new MemoryContentIndex();
+    this.fileManager = options.fileManager;
+    this.contentMimeTypes = (options.contentMimeTypes ?? DEFAULT_CONTENT_MIME_TYPES).map((type) => type.toLowerCase());
+    this.maxContentSize = options.maxContentSize ?? DEFAULT_MAX_CONTENT_SIZE;
+    this.logger = options.logger;
+    this.logErrors = options.logErrors !== false;
+  }
+
+  /**
+   * Log an error if logging is enabled
+   */
+  private logError(operation: string, error: unknown): void {
+    if (this.logErrors) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger?.error?.(`ContentSearchService.${operation} failed`, { error: message });
+      if (!this.logger) {
+        console.error(`[ContentSearchService] ${operation} failed:`, message);
+      }
+    }
+  }
+
+  /**
+   * Get the index backend
+   */
+  getBackend(): ContentIndexBackend {
+    return this.backend;
+  }
+
+  /**
+   * Index a tracked file, replacing what was indexed for it before
+   * @param content - The file's content when at hand; text files are read otherwise
+   * @returns Whether the file was indexed (folders and deleted files are not)
+   */
+  async indexFile(fileId: string, content?: Buffer | string): Promise<boolean> {
+    const record = await this.metadataService.findById(fileId);
+    if (!record) {
+      await this.removeFile(fileId);
+      return false;
+    }
+    return this.indexRecord(record, content);
+  }
+
+  /**
+   * Index a tracked file from its record
+   * @param content - The file's content when at hand; text files are read otherwise
+   * @returns Whether the file was indexed (folders and deleted files are not)
+   */
+  async indexRecord(record: FileMetadataRecord, content?: Buffer | string): Promise<boolean> {
+    try {
+      return await this.indexRecordOrThrow(record, content);
+    } catch (error) {
+      this.logError('indexRecord', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a file from the index
+   */
+  async removeFile(fileId: string): Promise<boolean> {
+    try {
+      await this.backend.remove([fileId]);
+      return true;
+    } catch (error) {
+      this.logError('removeFile', error);
+      return false;
+    }
+  }
+
+  /**
+   * Index every tracked file of a storage, e.g. to build the index for existing files
+   * or to rebuild an in-memory index after a restart
+   */
+  async reindex(
+    storageType: StorageProvider,
+    options: ReindexContentOptions = {}
+  ): Promise<OperationResult<ReindexContentResult>> {
+    const result: ReindexContentResult = { indexed: 0, failed: 0, errors: [] };
+    try {
+      if (options.clear) {
+        await this.backend.clear();
+      }
+
+      const records = await this.metadataService.findByStorageType(storageType);
+      await mapWithConcurrency(records, options.concurrency ?? 4, async (record) => {
+        if (options.signal?.aborted) {
+          throw new OperationAbortedError(record.file_path);
+        }
+        let content: string | undefined;
+        let read = true;
+        try {
+          content = await this.readContent(record);
+        } catch (error) {
+          read = false;
+          result.failed++;
+          result.errors.push(`Failed to read ${record.file_path}: ${(error as Error).message}`);
+        }
+        // A file that could not be read is still indexed by its name and extracted data
+        if ((await this.indexRecordOrThrow(record, content ?? '')) && read) {
+          result.indexed++;
+        }
+      });
+
+      this.logger?.debug?.('Reindexed content', { storageType, indexed: result.indexed });
+      return { success: true, data: result };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: false, error: new OperationAbortedError(storageType).message };
+      }
+      this.logError('reindex', error);
+      return { success: false, error: `Failed to reindex content: ${(error as Error).message}` };
+    }
+  }
+
+  /**
+   * Find files whose extracted data, text content or name match a query, best first.
+   * Every word of the query counts (common words like "the" and "for" are left out),
+   * and files matching more and rarer words rank higher.
+   * Highlights are the indexed text with matches marked by `highlightTags`; escape
+   * them before rendering the markers as HTML.
+   */
+  async searchContent(
+    query: string,
+    options: ContentSearchOptions = {}
+  ): Promise<OperationResult<ContentSearchResult[]>> {
+    try {
+      const hits = await this.backend.search(query, options);
+      const records = await this.metadataService.findByIds(hits.map((hit) => hit.file_id));
+      const byId = new Map(records.map((record) => [record.id, toV2Record(record)]));
+
+      const results: ContentSearchResult[] = [];
+      const stale: string[] = [];
+      for (const hit of hits) {
+        const record = byId.get(hit.file_id);
+        if (!record || record.status === 'soft_deleted') {
+          stale.push(hit.file_id);
+          continue;
+        }
+        // The index may be older than a change of scope or content tag
+        if (
+          (options.scope_id !== undefined && record.scope_id !== options.scope_id) ||
+          (options.content_tag !== undefined && (record.content_tag ?? null) !== options.content_tag)
+        ) {
+          continue;
+        }
+        results.push({ ...hit, record });
+      }
+
+      if (stale.length > 0) {
+        await this.backend.remove(stale).catch((error) => this.logError('searchContent', error));
+      }
+      return { success: true, data: results };
+    } catch (error) {
+      this.logError('searchContent', error);
+      return { success: false, error: `Failed to search content: ${(error as Error).message}` };
+    }
+  }
+
+  private async indexRecordOrThrow(record: FileMetadataRecord, content?: Buffer | string): Promise<boolean> {
+    const v2 = toV2Record(record);
+    if (record.file_type === 'folder' || v2.status === 'soft_deleted') {
+      await this.backend.remove([record.id]);
+      return false;
+    }
+
+    const text = content === undefined
+      ? await this.readContent(record).catch((error) => {
+        this.logError('readContent', error);
+        return undefined;
+      })
+      : this.isContentIndexed(record) ? toText(content, this.maxContentSize) : undefined;
+
+    await this.backend.upsert([toIndexDocument(v2, text)]);
+    this.logger?.debug?.('Indexed file content', { path: record.file_path });
+    return true;
+  }
+
+  /**
+   * Whether a file's content goes into the index, by its recorded MIME type or,
+   * for files recorded as e.g. application/octet-stream, its extension
+   */
+  private isContentIndexed(record: FileMetadataRecord): boolean {
+    return [record.file_type, getMimeType(record.filename)].some(
+      (mimeType) => !!mimeType && this.contentMimeTypes.includes(mimeType.toLowerCase())
+    );
+  }
+
+  /**
+   * Read the content of a text file in the file manager's storage
+   */
+  private async readContent(record: FileMetadataRecord): Promise<string | undefined> {
+    if (
+      !this.fileManager ||
+      this.fileManager.getProvider() !== record.storage_type ||
+      !this.isContentIndexed(record) ||
+      (record.file_size ?? 0) > this.maxContentSize
+    ) {
+      return undefined;
+    }
+
+    // Read from the module, so a TrackedFileManager doesn't record an access
+    const download = await this.fileManager.getModule().downloadStream(record.file_path, {
+      end: this.maxContentSize - 1,
+    });
+    if (!download.success || !download.data) {
+      throw new Error(download.error || `Failed to read file: ${record.file_path}`);
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of download.data.stream) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : Buffer.from(chunk));
+    }
+    return toText(Buffer.concat(chunks), this.maxContentSize);
+  }
+}
+
+/**
+ * Build the index document of a record: its merged_data values, the values of its
+ * extractions and the text content
+ */
+function toIndexDocument(record: FileMetadataRecordV2, text?: string): ContentIndexDocument {
+  const values = new Set<string>();
+  const fileData = parseFileData(record.file_data);
+  collectValues(fileData.merged_data, values);
+  for (const extraction of fileData.raw_data) {
+    collectValues(extraction.data, values);
+  }
+
+  return {
+    file_id: record.id,
+    storage_type: record.storage_type,
+    scope_id: record.scope_id ?? null,
+    content_tag: record.content_tag ?? null,
+    filename: record.filename,
+    content: [...values, ...(text ? [text] : [])].join('\n'),
+  };
+}
+
+/**
+ * Collect the text of the leaf values of extracted data
+ */
+function collectValues(value: unknown, values: Set<string>): void {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed) values.add(trimmed);
+  } else if (typeof value === 'number' || typeof value === 'boolean') {
+    values.add(String(value));
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectValues(item, values));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectValues(item, values));
+  }
+}
+
+function toText(content: Buffer | string, maxSize: number): string {
+  const buffer = typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+  return buffer.subarray(0, maxSize).toString('utf-8');
+}
+
+/**
+ * Create a ContentSearchService instance
+ */
+export function createContentSearchService(
+  metadataService: FileMetadataService,
+  options?: ContentSearchServiceOptions
+): ContentSearchService {
+  return new ContentSearchService(metadataService, options);
+}
@@ -4,8 +4,11 @@
  * Delegates to the appropriate storage module based on configuration
  */
 
+import { Readable } from 'stream';
 import { loadConfig, loadConfigAsync } from '../config';
-import { createAndInitializeModule, createModule } from '../modules';
+import { createAndInitializeModule, createModule, createMountedModule } from '../modules';
+import { BaseStorageModule } from '../common/base-module';
+import { MemoryUploadSessionStore } from './upload-session-store';
 import type {
   StorageModule,
   StorageProvider,
@@ -16,10 +19,35 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
+  WebDownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchResult,
+  DeleteOptions,
   ListOptions,
+  SearchOptions,
+  SearchPage,
   TreeNode,
+  UploadSession,
+  StartUploadOptions,
+  UploadChunkOptions,
+  UploadSessionStore,
+  ChangesPage,
+  GetChangesOptions,
+  FileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
 } from '../types';
 
 export interface FileManagerOptions {
@@ -29,6 +57,18 @@ export interface FileManagerOptions {
   config?: HazoFilesConfig;
   /** Auto-initialize on creation */
   autoInit?: boolean;
+  /** Persistence for resumable upload sessions (default: in-memory) */
+  uploadSessionStore?: UploadSessionStore;
+  /**
+   * Storage module to use instead of creating one for config.provider,
+   * e.g. a MirroredStorageModule. Initialized with the config unless it already is.
+   */
+  module?: StorageModule;
+  /**
+   * Modules keyed by mount point (e.g. { '/local': ..., '/drive': ... }), combined
+   * into one tree with a MountedStorageModule. Ignored when `module` is set.
+   */
+  mounts?: Record<string, StorageModule>;
 }
 
 /**
@@ -39,12 +79,14 @@ export class FileManager {
   private config: HazoFilesConfig | null = null;
   private initialized = false;
   private options: FileManagerOptions;
+  private uploadSessions: UploadSessionStore;
 
   constructor(options: FileManagerOptions = {}) {
     this.options = {
       autoInit: true,
       ...options,
     };
+    this.uploadSessions = options.uploadSessionStore ?? new MemoryUploadSessionStore();
   }
 
   /**
@@ -65,7 +107,14 @@ export class FileManager {
     }
 
     // Create and initialize the storage module
-    this.module = await createAndInitializeModule(this.config);
+    if (this.options.module || this.options.mounts) {
+      this.module = this.options.module ?? createMountedModule(this.options.mounts);
+      if (!(this.module instanceof BaseStorageModule && this.module.isInitialized)) {
+        await this.module.initialize(this.config);
+      }
+    } else {
+      this.module = await createAndInitializeModule(this.config);
+    }
     this.initialized = true;
   }
 
@@ -85,7 +134,9 @@ export class FileManager {
       this.config = loadConfig(this.options.configPath);
     }
 
-    this.module = createModule(this.config.provider);
+    this.module =
+      this.options.module ??
+      (this.options.mounts ? createMountedModule(this.options.mounts) : createModule(this.config.provider));
     // Note: Module needs async initialization, caller should call initialize() after
   }
 
@@ -107,7 +158,7 @@ export class FileManager {
    * Get the current provider
    */
   getProvider(): StorageProvider | null {
-    return this.config?.provider ?? null;
+    return this.module?.provider ?? this.config?.provider ?? null;
   }
 
   /**
@@ -179,6 +230,186 @@ export class FileManager {
     return this.module!.downloadFile(remotePath, localPath, options);
   }
 
+  /**
+   * Open a file as a Node.js stream without buffering it in memory
+   * @param remotePath - Path of the file
+   * @param options - Optional inclusive byte range (`start`/`end`) and progress callback
+   */
+  async downloadStream(
+    remotePath: string,
+    options?: DownloadStreamOptions
+  ): Promise<OperationResult<DownloadStream>> {
+    this.ensureInitialized();
+    return this.module!.downloadStream(remotePath, options);
+  }
+
+  /**
+   * Open a file as a web ReadableStream (for `new Response(stream)` in route handlers)
+   * @param remotePath - Path of the file
+   * @param options - Optional inclusive byte range (`start`/`end`) and progress callback
+   */
+  async downloadWebStream(
+    remotePath: string,
+    options?: DownloadStreamOptions
+  ): Promise<OperationResult<WebDownloadStream>> {
+    const result = await this.downloadStream(remotePath, options);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error };
+    }
+
+    return {
+      success: true,
+      data: {
+        ...result.data,
+        stream: Readable.toWeb(result.data.stream) as ReadableStream<Uint8Array>,
+      },
+    };
+  }
+
+  // ============ Resumable Uploads ============
+
+  /**
+   * Start a resumable upload session
+   * The session is saved in the upload session store; clients only need to keep its ID.
+   * @param remotePath - Destination path of the file
+   * @param options - Total size, overwrite flag, MIME type and metadata
+   */
+  async startUpload(
+    remotePath: string,
+    options?: StartUploadOptions
+  ): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    const result = await this.module!.startUpload(remotePath, options);
+    if (result.success && result.data) {
+      await this.uploadSessions.save(result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Get the current state of an upload session, e.g. to find the offset to resume from
+   */
+  async getUploadSession(sessionId: string): Promise<OperationResult<UploadSession>> {
+    this.ensureInitialized();
+    const session = await this.uploadSessions.get(sessionId);
+    if (!session) {
+      return { success: false, error: `Upload session not found: ${sessionId}` };
+    }
+    return { success: true, data: session };
+  }
+
+  /**
+   * Append a chunk to an upload session
+   * @param sessionId - Session ID returned by startUpload
+   * @param chunk - Next bytes of the file
+   * @param options - Byte offset of the chunk, to safely resend chunks after a dropped connection
+   */
+  async uploadChunk(
+    sessionId: string,
+    chunk: Buffer,
+    options: UploadChunkOptions = {}
+  ): Promise<OperationResult<UploadSession>> {
+    const sessionResult = await this.getActiveUploadSession(sessionId);
+    if (!sessionResult.success || !sessionResult.data) {
+      return sessionResult;
+    }
+    const session = sessionResult.data;
+
+    let data = chunk;
+    if (options.offset !== undefined) {
+      if (options.offset > session.bytesUploaded) {
+        return {
+          success: false,
+          error: `Chunk offset ${options.offset} is past the uploaded size ${session.bytesUploaded}`,
+        };
+      }
+      // Drop the bytes the session already has (a resent chunk)
+      data = chunk.subarray(session.bytesUploaded - options.offset);
+      if (data.length === 0) {
+        return { success: true, data: session };
+      }
+    }
+
+    const result = await this.module!.uploadChunk(session, data);
+    if (result.success && result.data) {
+      await this.uploadSessions.save(result.data);
+    }
+    return result;
+  }
+
+  /**
+   * Finish an upload session and create the file
+   * The session is removed from the store once the file exists.
+   */
+  async completeUpload(sessionId: string): Promise<OperationResult<FileItem>> {
+    const sessionResult = await this.getActiveUploadSession(sessionId);
+    if (!sessionResult.success || !sessionResult.data) {
+      return { success: false, error: sessionResult.error };
+    }
+
+    const result = await this.module!.completeUpload(sessionResult.data);
+    if (result.success) {
+      await this.uploadSessions.delete(sessionId);
+    }
+    return result;
+  }
+
+  /**
+   * Cancel an upload session and discard the uploaded data
+   */
+  async abortUpload(sessionId: string): Promise<OperationResult> {
+    const sessionResult = await this.getActiveUploadSession(sessionId);
+    if (!sessionResult.success || !sessionResult.data) {
+      return { success: false, error: sessionResult.error };
+    }
+
+    const result = await this.module!.abortUpload(sessionResult.data);
+    if (result.success) {
+      await this.uploadSessions.delete(sessionId);
+    }
+    return result;
+  }
+
+  /**
+   * Abort and remove upload sessions that have expired
+   * @param maxAgeMs - Also expire sessions not updated for this long (default: only provider expiry)
+   * @returns Number of sessions removed
+   */
+  async cleanupExpiredUploads(maxAgeMs?: number): Promise<number> {
+    this.ensureInitialized();
+    const now = Date.now();
+    let removed = 0;
+
+    for (const session of await this.uploadSessions.list()) {
+      const expired =
+        (session.expiresAt !== undefined && Date.parse(session.expiresAt) <= now) ||
+        (maxAgeMs !== undefined && Date.parse(session.updatedAt) + maxAgeMs <= now);
+      if (!expired) continue;
+
+      if (session.provider === this.module!.provider) {
+        await this.module!.abortUpload(session);
+      }
+      await this.uploadSessions.delete(session.id);
+      removed++;
+    }
+
+    return removed;
+  }
+
+  /**
+   * Load a session from the store and check it belongs to the current provider
+   */
+  private async getActiveUploadSession(sessionId: string): Promise<OperationResult<UploadSession>> {
+    const result = await this.getUploadSession(sessionId);
+    if (result.success && result.data && result.data.provider !== this.module!.provider) {
+      return {
+        success: false,
+        error: `Upload session ${sessionId} belongs to provider '${result.data.provider}'`,
+      };
+    }
+    return result;
+  }
+
   /**
    * Move a file or folder
    * @param sourcePath - Current path
@@ -194,12 +425,27 @@ export class FileManager {
     return this.module!.moveItem(sourcePath, destinationPath, options);
   }
 
+  /**
+   * Copy a file or folder (server-side where the provider supports it)
+   * @param sourcePath - Path to copy
+   * @param destinationPath - Path of the copy
+   * @param options - Copy options (`recursive` for folders with contents)
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options?: CopyOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.module!.copyItem(sourcePath, destinationPath, options);
+  }
+
   /**
    * Delete a file
    */
-  async deleteFile(path: string): Promise<OperationResult> {
+  async deleteFile(path: string, options?: DeleteOptions): Promise<OperationResult> {
     this.ensureInitialized();
-    return this.module!.deleteFile(path);
+    return this.module!.deleteFile(path, options);
   }
 
   /**
@@ -232,6 +478,58 @@ export class FileManager {
     return this.module!.renameFolder(path, newName, options);
   }
 
+  // ============ Batch Operations ============
+
+  /**
+   * Delete many files and folders. Fails only when the batch can't run at all;
+   * each path has its own result in `results`.
+   * @param paths - Files and folders to delete
+   * @param options - Batch options (`recursive` for folders with contents)
+   */
+  async batchDelete(paths: string[], options?: BatchDeleteOptions): Promise<OperationResult<BatchResult>> {
+    this.ensureInitialized();
+    return this.module!.batchDelete(paths, options);
+  }
+
+  /**
+   * Move many files and folders
+   * @param operations - Source and destination of each move
+   * @param options - Batch options
+   */
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options?: BatchMoveOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.module!.batchMove(operations, options);
+  }
+
+  /**
+   * Copy many files and folders
+   * @param operations - Source and destination of each copy
+   * @param options - Batch options (`recursive` for folders with contents)
+   */
+  async batchCopy(
+    operations: BatchCopyOperation[],
+    options?: BatchCopyOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.module!.batchCopy(operations, options);
+  }
+
+  /**
+   * Rename many files and folders
+   * @param operations - Path and new name (not full path) of each rename
+   * @param options - Batch options
+   */
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options?: BatchRenameOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    this.ensureInitialized();
+    return this.module!.batchRename(operations, options);
+  }
+
   // ============ Query Operations ============
 
   /**
@@ -273,6 +571,96 @@ export class FileManager {
     return this.module!.getFolderTree(path, depth);
   }
 
+  /**
+   * Find files (and optionally folders) below a folder by glob, name, MIME type, size
+   * and modification time. Google Drive and Dropbox query their search APIs; other
+   * providers walk the tree. Pass the returned cursor to get the next page.
+   * @example
+   * ```typescript
+   * const page = await fm.search({
+   *   glob: '*.pdf',
+   *   minSize: 5 * 1024 * 1024,
+   *   modifiedAfter: new Date('2025-01-01'),
+   * });
+   * ```
+   */
+  async search(options?: SearchOptions): Promise<OperationResult<SearchPage>> {
+    this.ensureInitialized();
+    return this.module!.search(options);
+  }
+
+  /**
+   * Get changes since a cursor (see StorageModule.getChanges).
+   * Call without a cursor to get the starting cursor, then poll with the returned one.
+   */
+  async getChanges(cursor?: string, options?: GetChangesOptions): Promise<OperationResult<ChangesPage>> {
+    this.ensureInitialized();
+    return this.module!.getChanges(cursor, options);
+  }
+
+  // ============ Versions ============
+
+  /**
+   * List the earlier versions of a file, newest first
+   */
+  async listVersions(path: string): Promise<OperationResult<FileVersion[]>> {
+    this.ensureInitialized();
+    return this.module!.listVersions(path);
+  }
+
+  /**
+   * Download the content of an earlier version
+   */
+  async downloadVersion(path: string, versionId: string): Promise<OperationResult<Buffer>> {
+    this.ensureInitialized();
+    return this.module!.downloadVersion(path, versionId);
+  }
+
+  /**
+   * Make an earlier version the current content of a file
+   */
+  async restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>> {
+    this.ensureInitialized();
+    return this.module!.restoreVersion(path, versionId);
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Move a file or folder to the trash of the storage provider
+   */
+  async trashItem(path: string): Promise<OperationResult<TrashItem>> {
+    this.ensureInitialized();
+    return this.module!.trashItem(path);
+  }
+
+  /**
+   * List the items in the trash, most recently deleted first
+   */
+  async listTrash(): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.module!.listTrash();
+  }
+
+  /**
+   * Move an item out of the trash, to its original path unless `options.path` is given
+   */
+  async restoreFromTrash(
+    trashId: string,
+    options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    this.ensureInitialized();
+    return this.module!.restoreFromTrash(trashId, options);
+  }
+
+  /**
+   * Permanently delete items from the trash: by default those past the retention period
+   */
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    this.ensureInitialized();
+    return this.module!.purgeTrash(options);
+  }
+
   // ============ Convenience Methods ============
 
   /**
@@ -304,22 +692,32 @@ export class FileManager {
 
   /**
    * Copy a file to a new location
+   * The content is streamed from source to destination, so large files are never fully buffered.
+   * The source's size goes along as `totalSize`, so size limits reject the copy before it is written.
    */
   async copyFile(
     sourcePath: string,
     destinationPath: string,
     options?: UploadOptions
   ): Promise<OperationResult<FileItem>> {
-    const downloadResult = await this.downloadFile(sourcePath);
-    if (!downloadResult.success) {
+    const downloadResult = await this.downloadStream(sourcePath, { signal: options?.signal });
+    if (!downloadResult.success || !downloadResult.data) {
       return { success: false, error: downloadResult.error };
     }
 
-    const buffer = Buffer.isBuffer(downloadResult.data)
-      ? downloadResult.data
-      : await import('fs').then(fs => fs.promises.readFile(downloadResult.data as string));
+    const { stream, size } = downloadResult.data;
+    const result = await this.uploadFile(
+      Readable.toWeb(stream) as ReadableStream,
+      destinationPath,
+      { totalSize: size, ...options }
+    );
+
+    // Release the source if the upload failed before consuming it
+    if (!result.success) {
+      stream.destroy();
+    }
 
-    return this.uploadFile(buffer, destinationPath, options);
+    return result;
   }
 
   /**
@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+
+import { createFileMetadataService, type CrudServiceLike, type FileMetadataService } from './file-metadata-service';
+import { createMetadataQueryBuilder } from './metadata-query-builder';
+import { queryMetadataRecords } from '../common/metadata-query-utils';
+import { toV2Record } from '../common/ref-utils';
+import type { FileMetadataRecord, MetadataQuery } from '../types';
+
+const base = Date.UTC(2026, 0, 1);
+const compare = {
+  eq: (a: unknown, b: unknown) => a === b,
+  gt: (a: any, b: any) => a > b,
+  gte: (a: any, b: any) => a >= b,
+  lt: (a: any, b: any) => a < b,
+  lte: (a: any, b: any) => a <= b,
+  is: (a: unknown, b: unknown) => (a ?? null) === b,
+  // As in SQLite: ignores case, '%' and '_' are wildcards
+  like: (a: unknown, b: unknown) => {
+    const pattern = String(b).replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.');
+    return new RegExp('^' + pattern + '$', 'is').test(String(a));
+  },
+};
+
+/**
+ * Records with many shared created_at times, so batches end inside a tie
+ */
+function createRows(): FileMetadataRecord[] {
+  return Array.from({ length: 120 }, (_, i) => ({
+    id: `id${String(i).padStart(3, '0')}`,
+    filename: `f${i}.txt`,
+    file_type: 'text/plain',
+    file_data: JSON.stringify({ merged_data: { total: i * 10, vendor: i % 2 ? 'acme' : 'globex' }, raw_data: [] }),
+    file_path: `/docs/f${i}.txt`,
+    storage_type: i % 3 ? 'local' : 's3',
+    created_at: new Date(base + (i % 15) * 1000).toISOString(),
+    changed_at: new Date(base + ((i * 7) % 120) * 1000).toISOString(),
+    file_size: i,
+    status: i % 11 ? 'active' : 'soft_deleted',
+    ref_count: i % 5,
+  })) as FileMetadataRecord[];
+}
+
+/**
+ * CRUD service over an array; list() applies where/order/limit when withBuilder.
+ * Orders unset values first, as SQLite does.
+ */
+function createCrud(rows: FileMetadataRecord[], withBuilder = true) {
+  const stats = { calls: 0, rowsRead: 0 };
+  const crud: CrudServiceLike<FileMetadataRecord> = {
+    list: async (configure) => {
+      stats.calls++;
+      const conditions: [string, keyof typeof compare, unknown][] = [];
+      let order = null as [string, string] | null;
+      let limit = Infinity;
+      const qb = {
+        where: (column: string, operator: keyof typeof compare, value: unknown) => (conditions.push([column, operator, value]), qb),
+        order: (column: string, direction: string) => ((order = [column, direction]), qb),
+        limit: (count: number) => ((limit = count), qb),
+      };
+      configure?.(withBuilder ? qb : {});
+
+      const value = (row: FileMetadataRecord, column: string) => row[column as keyof FileMetadataRecord];
+      let result = rows.filter((row) => conditions.every(([column, op, v]) => compare[op](value(row, column), v)));
+      if (order) {
+        const [column, direction] = order;
+        const text = (row: FileMetadataRecord) => String(value(row, column) ?? '');
+        result.sort((a, b) => text(a).localeCompare(text(b)) * (direction === 'desc' ? -1 : 1));
+      }
+      result = result.slice(0, limit);
+      stats.rowsRead += result.length;
+      return result;
+    },
+    findBy: async (criteria) =>
+      rows.filter((row) => Object.entries(criteria).every(([key, v]) => row[key as keyof FileMetadataRecord] === v)),
+    findOneBy: async () => null,
+    insert: async () => [],
+    updateById: async (id, patch) => {
+      const index = rows.findIndex((row) => row.id === id);
+      rows[index] = { ...rows[index], ...patch };
+      return [rows[index]];
+    },
+    deleteById: async (id) => {
+      rows.splice(rows.findIndex((row) => row.id === id), 1);
+    },
+  };
+  return { crud, stats };
+}
+
+describe('FileMetadataService.queryFiles', () => {
+  let rows: FileMetadataRecord[];
+  let service: FileMetadataService;
+  let stats: { calls: number; rowsRead: number };
+
+  async function queryAll(target: FileMetadataService, query: MetadataQuery): Promise<string[]> {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await target.queryFiles({ ...query, cursor });
+      expect(page).not.toBeNull();
+      ids.push(...page!.items.map((record) => record.id));
+      cursor = page!.cursor;
+    } while (cursor);
+    return ids;
+  }
+
+  function expected(query: MetadataQuery): string[] {
+    const ids: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = queryMetadataRecords(rows.map(toV2Record), { ...query, cursor });
+      ids.push(...page.items.map((record) => record.id));
+      cursor = page.cursor;
+    } while (cursor);
+    return ids;
+  }
+
+  beforeEach(() => {
+    rows = createRows();
+    const store = createCrud(rows);
+    service = createFileMetadataService(store.crud);
+    stats = store.stats;
+  });
+
+  it('pages through the default sort, reading batches from the store', async () => {
+    const query: MetadataQuery = { limit: 7 };
+    const ids = await queryAll(service, query);
+
+    expect(ids).toEqual(expected(query));
+    expect(new Set(ids).size).toBe(ids.length);
+
+    stats.rowsRead = 0;
+    await service.queryFiles(query);
+    expect(stats.rowsRead).toBeLessThan(rows.length / 2);
+  });
+
+  it('matches in-memory paging for filters, ranges and other sorts', async () => {
+    const queries: MetadataQuery[] = [
+      { limit: 13, sort: [{ field: 'created_at', direction: 'asc' }, { field: 'file_size', direction: 'desc' }] },
+      {
+        limit: 9,
+        storage_type: 'local',
+        sort: [{ field: 'changed_at', direction: 'desc' }],
+        file_size: { min: 10, max: 100 },
+        changed_at: { after: new Date(base + 20000) },
+      },
+      { limit: 10, scope_id: ['a', null], status: ['active', 'soft_deleted'] },
+      { limit: 25, sort: [{ field: 'filename' }], ref_count: { min: 2 } },
+      { limit: 1, created_at: { before: new Date(base + 3000) } },
+    ];
+    for (const query of queries) {
+      expect(await queryAll(service, query)).toEqual(expected(query));
+    }
+  });
+
+  it('reads records without the sort time after the others', async () => {
+    rows.forEach((row, i) => {
+      if (i % 4 === 0) row.created_at = null as unknown as string;
+      if (i % 9 === 0) row.changed_at = null as unknown as string;
+    });
+    const queries: MetadataQuery[] = [
+      { limit: 7, sort: [{ field: 'created_at', direction: 'asc' }] },
+      { limit: 7, sort: [{ field: 'created_at', direction: 'desc' }] },
+      { limit: 50, sort: [{ field: 'changed_at', direction: 'asc' }] },
+      { limit: 4, storage_type: 's3', sort: [{ field: 'changed_at', direction: 'desc' }] },
+    ];
+    for (const query of queries) {
+      const ids = await queryAll(service, query);
+      expect(ids).toEqual(expected(query));
+      expect(ids.length).toBe(expected({ ...query, limit: 1000 }).length);
+    }
+  });
+
+  it('filters and sorts by file_data values', async () => {
+    const page = await service.queryFiles({
+      where: [
+        { path: 'merged_data.vendor', op: '=', value: 'acme' },
+        { path: 'merged_data.total', op: '>=', value: 1000 },
+      ],
+      sort: [{ field: 'merged_data.total', direction: 'desc' }],
+      limit: 3,
+    });
+
+    expect(page!.items.map((record) => record.id)).toEqual(['id119', 'id117', 'id115']);
+    expect(page!.hasMore).toBe(true);
+  });
+
+  it('filters in memory when the store has no query builder', async () => {
+    const store = createCrud(rows, false);
+    const plain = createFileMetadataService(store.crud);
+    const query: MetadataQuery = { limit: 25, storage_type: 's3' };
+
+    expect(await queryAll(plain, query)).toEqual(expected(query));
+  });
+
+  it('returns null for a cursor it did not make', async () => {
+    expect(await service.queryFiles({ cursor: 'not-a-cursor' })).toBeNull();
+  });
+});
+
+describe('FileMetadataService path lookups', () => {
+  let rows: FileMetadataRecord[];
+  let service: FileMetadataService;
+  let stats: { calls: number; rowsRead: number };
+
+  const paths = (records: FileMetadataRecord[]) => records.map((record) => record.file_path).sort();
+
+  beforeEach(() => {
+    const local = ['/docs', '/docs/a.txt', '/docs/sub', '/docs/sub/b.txt', '/docs-old/c.txt', '/Docs/d.txt', '/a_b/e.txt', '/axb/f.txt'];
+    rows = [
+      ...local.map((path, i) => ({ id: `l${i}`, file_path: path, storage_type: 'local' })),
+      { id: 's0', file_path: '/docs/a.txt', storage_type: 's3' },
+    ].map((row) => ({ ...row, filename: row.file_path.split('/').pop(), file_type: 'text/plain', file_data: '{}' }) as FileMetadataRecord);
+    const store = createCrud(rows);
+    service = createFileMetadataService(store.crud);
+    stats = store.stats;
+  });
+
+  it('finds a tree by reading only the records under it', async () => {
+    expect(paths(await service.findInTree('/docs', 'local'))).toEqual(['/docs/a.txt', '/docs/sub', '/docs/sub/b.txt']);
+    // '/docs', '/docs-old' and '/Docs' match the LIKE pattern and are dropped afterwards
+    expect(stats.rowsRead).toBe(6);
+
+    expect(paths(await service.findInTree('/docs', 'local', false))).toEqual(['/docs/a.txt', '/docs/sub']);
+    expect(paths(await service.findInTree('/a_b', 'local'))).toEqual(['/a_b/e.txt']);
+  });
+
+  it('reads every record without a query builder', async () => {
+    const plain = createFileMetadataService(createCrud(rows, false).crud);
+
+    expect(paths(await plain.findInTree('/docs', 'local'))).toEqual(['/docs/a.txt', '/docs/sub', '/docs/sub/b.txt']);
+  });
+
+  it('moves records to the trash and back', async () => {
+    await service.recordTrash('/docs', 'local', 'trash-1');
+    expect(rows.filter((row) => row.file_path.startsWith('/.hazo_trash/trash-1'))).toHaveLength(4);
+    expect(paths(await service.findInTree('/docs', 'local'))).toEqual([]);
+
+    await service.recordRestoreFromTrash('trash-1', '/restored', 'local');
+    expect(paths(await service.findInTree('/restored', 'local'))).toEqual([
+      '/restored/a.txt',
+      '/restored/sub',
+      '/restored/sub/b.txt',
+    ]);
+    expect(rows.find((row) => row.file_path === '/docs/a.txt')?.storage_type).toBe('s3');
+  });
+
+  it('deletes the records of a batch and below each path', async () => {
+    await service.recordBatchDelete(['/docs', '/docs/sub/b.txt', '/a_b/e.txt'], 'local');
+
+    expect(rows.map((row) => `${row.storage_type}:${row.file_path}`).sort()).toEqual([
+      'local:/Docs/d.txt',
+      'local:/axb/f.txt',
+      'local:/docs-old/c.txt',
+      's3:/docs/a.txt',
+    ]);
+  });
+});
+
+describe('MetadataQueryBuilder', () => {
+  it('builds a query, replacing filters and adding conditions and sort keys', () => {
+    const builder = createMetadataQueryBuilder()
+      .contentTag('invoice')
+      .scope('w1', null)
+      .status('active')
+      .fileSize({ min: 1 })
+      .fileSize({ max: 10 })
+      .where('merged_data.total', '>', 1000)
+      .where('merged_data.vendor', 'exists')
+      .orderBy('merged_data.total', 'desc')
+      .orderBy('created_at')
+      .limit(20);
+
+    const query = builder.build();
+    expect(query).toEqual({
+      content_tag: 'invoice',
+      scope_id: ['w1', null],
+      status: 'active',
+      file_size: { max: 10 },
+      where: [
+        { path: 'merged_data.total', op: '>', value: 1000 },
+        { path: 'merged_data.vendor', op: 'exists', value: undefined },
+      ],
+      sort: [
+        { field: 'merged_data.total', direction: 'desc' },
+        { field: 'created_at', direction: 'asc' },
+      ],
+      limit: 20,
+    });
+    // The built query is a copy
+    query.where![0].value = 0;
+    expect(builder.build().where![0].value).toBe(1000);
+  });
+
+  it('runs with the service that created it and continues after a cursor', async () => {
+    const service = createFileMetadataService(createCrud(createRows()).crud);
+    const builder = service.query().storageType('s3').orderBy('file_size').limit(5);
+
+    const first = await builder.run();
+    // Record 0 is soft-deleted
+    expect(first!.items.map((record) => record.file_size)).toEqual([3, 6, 9, 12, 15]);
+
+    const next = await builder.after(first!.cursor!).run();
+    expect(next!.items.map((record) => record.file_size)).toEqual([18, 21, 24, 27, 30]);
+  });
+
+  it('cannot run without a service', async () => {
+    await expect(createMetadataQueryBuilder().run()).rejects.toThrow(/FileMetadataService\.query\(\)/);
+  });
+});
@@ -19,6 +19,9 @@ import type {
   RemoveRefsCriteria,
   FileStatus,
   FindOrphanedOptions,
+  FileVersionRecord,
+  MetadataQuery,
+  MetadataQueryPage,
 } from '../types';
 import { getBaseName, getDirName } from '../common/path-utils';
 import {
@@ -41,6 +44,106 @@ import {
   toV2Record,
   buildFileWithStatus,
 } from '../common/ref-utils';
+import { DEFAULT_QUERY_LIMIT, getQueryStart, queryMetadataRecords } from '../common/metadata-query-utils';
+import { MetadataQueryBuilder } from './metadata-query-builder';
+
+/** Entries kept in a record's file_versions column */
+const MAX_VERSION_RECORDS = 100;
+
+/** Records of trashed items are kept under this path, which frees their original path */
+const TRASH_RECORD_PATH = '/.hazo_trash';
+
+function getTrashRecordPath(trashId: string): string {
+  return `${TRASH_RECORD_PATH}/${encodeURIComponent(trashId)}`;
+}
+
+/**
+ * Parse the file_versions column, treating bad JSON as an empty history
+ */
+function parseVersionHistory(json: string | null | undefined): FileVersionRecord[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The filters of a query that findBy() can apply in the store: single values other
+ * than null (which findBy() may not match as SQL NULL). status is left out, as
+ * records from before the V2 migration have none and count as 'active'.
+ */
+function getStoreCriteria(query: MetadataQuery): Record<string, unknown> {
+  const criteria: Record<string, unknown> = {};
+  for (const column of ['storage_type', 'content_tag', 'scope_id', 'uploaded_by'] as const) {
+    const value = query[column];
+    if (typeof value === 'string') {
+      criteria[column] = value;
+    } else if (Array.isArray(value) && value.length === 1 && typeof value[0] === 'string') {
+      criteria[column] = value[0];
+    }
+  }
+  return criteria;
+}
+
+/** A condition queryFiles() hands to the store's query builder */
+type StoreCondition = [column: string, operator: 'eq' | 'gt' | 'gte' | 'lt' | 'lte', value: string | number];
+
+/**
+ * The parts of hazo_connect's query builder that queryFiles() and the path lookups use
+ */
+interface QueryBuilderLike {
+  where(column: string, operator: string, value: unknown): unknown;
+  order(column: string, direction: 'asc' | 'desc'): unknown;
+  limit(count: number): unknown;
+}
+
+function isQueryBuilder(qb: unknown): qb is QueryBuilderLike {
+  const candidate = qb as Partial<QueryBuilderLike> | null;
+  return !!candidate &&
+    typeof candidate.where === 'function' &&
+    typeof candidate.order === 'function' &&
+    typeof candidate.limit === 'function';
+}
+
+/**
+ * Sort columns that queryFiles() reads from the store in order, batch by batch.
+ * Records without a value sort last and are read after the others.
+ */
+const KEYSET_SORT_COLUMNS = new Set(['created_at', 'changed_at']);
+
+/**
+ * A timestamp as the service writes it, or null if it is not a valid time
+ */
+function toStoreTime(value: unknown): string | null {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * The filters of a query that the store's query builder can apply: those of
+ * getStoreCriteria() plus the date and number ranges
+ */
+function getStoreConditions(query: MetadataQuery): StoreCondition[] {
+  const conditions: StoreCondition[] = Object.entries(getStoreCriteria(query))
+    .map(([column, value]) => [column, 'eq', value as string]);
+
+  for (const column of ['created_at', 'changed_at', 'file_changed_at'] as const) {
+    const after = toStoreTime(query[column]?.after);
+    const before = toStoreTime(query[column]?.before);
+    if (after) conditions.push([column, 'gte', after]);
+    if (before) conditions.push([column, 'lt', before]);
+  }
+  for (const column of ['file_size', 'ref_count'] as const) {
+    const { min, max } = query[column] ?? {};
+    if (typeof min === 'number') conditions.push([column, 'gte', min]);
+    if (typeof max === 'number') conditions.push([column, 'lte', max]);
+  }
+  return conditions;
+}
 
 /**
  * Logger interface compatible with hazo_connect
@@ -166,31 +269,7 @@ export class FileMetadataService {
     input: FileMetadataInput
   ): Promise<FileMetadataRecord | null> {
     try {
-      const timestamp = this.now();
-      const record: Record<string, unknown> = {
-        filename: input.filename,
-        file_type: input.file_type,
-        file_data: JSON.stringify(input.file_data || {}),
-        file_path: input.file_path,
-        storage_type: input.storage_type,
-        created_at: timestamp,
-        changed_at: timestamp,
-        file_hash: input.file_hash || null,
-        file_size: input.file_size ?? null,
-        file_changed_at: input.file_hash ? timestamp : null,
-        // V2 defaults — included conditionally to avoid breaking pre-migration DBs
-        file_refs: '[]',
-        ref_count: 0,
-        status: 'active',
-      };
-
-      // Optional V2 fields
-      if (input.scope_id !== undefined) record.scope_id = input.scope_id;
-      if (input.uploaded_by !== undefined) record.uploaded_by = input.uploaded_by;
-      if (input.original_filename !== undefined) record.original_filename = input.original_filename;
-      if (input.content_tag !== undefined) record.content_tag = input.content_tag;
-
-      const results = await this.crud.insert(record as Partial<FileMetadataRecord>);
+      const results = await this.crud.insert(this.toNewRecord(input, this.now()));
       this.logger?.debug?.('Recorded file upload', { path: input.file_path });
       return results[0] || null;
     } catch (error) {
@@ -199,6 +278,52 @@ export class FileMetadataService {
     }
   }
 
+  /**
+   * Record many uploads with one insert
+   * @returns The inserted records, or null if the insert failed
+   */
+  async recordUploads(
+    inputs: FileMetadataInput[]
+  ): Promise<FileMetadataRecord[] | null> {
+    if (inputs.length === 0) return [];
+    try {
+      const timestamp = this.now();
+      const results = await this.crud.insert(inputs.map((input) => this.toNewRecord(input, timestamp)));
+      this.logger?.debug?.('Recorded file uploads', { count: inputs.length });
+      return results;
+    } catch (error) {
+      this.logError('recordUploads', error);
+      return null;
+    }
+  }
+
+  private toNewRecord(input: FileMetadataInput, timestamp: string): Partial<FileMetadataRecord> {
+    const record: Record<string, unknown> = {
+      filename: input.filename,
+      file_type: input.file_type,
+      file_data: JSON.stringify(input.file_data || {}),
+      file_path: input.file_path,
+      storage_type: input.storage_type,
+      created_at: timestamp,
+      changed_at: timestamp,
+      file_hash: input.file_hash || null,
+      file_size: input.file_size ?? null,
+      file_changed_at: input.file_hash ? timestamp : null,
+      // V2 defaults — included conditionally to avoid breaking pre-migration DBs
+      file_refs: '[]',
+      ref_count: 0,
+      status: 'active',
+    };
+
+    // Optional V2 fields
+    if (input.scope_id !== undefined) record.scope_id = input.scope_id;
+    if (input.uploaded_by !== undefined) record.uploaded_by = input.uploaded_by;
+    if (input.original_filename !== undefined) record.original_filename = input.original_filename;
+    if (input.content_tag !== undefined) record.content_tag = input.content_tag;
+
+    return record as Partial<FileMetadataRecord>;
+  }
+
   /**
    * Record a directory creation
    */
@@ -271,10 +396,7 @@ export class FileMetadataService {
     try {
       if (recursive) {
         // Delete all records with paths starting with this directory
-        const records = await this.crud.findBy({ storage_type: storageType });
-        const toDelete = records.filter(
-          (r) => r.file_path === path || r.file_path.startsWith(path + '/')
-        );
+        const toDelete = await this.findUnder(path, storageType);
         for (const record of toDelete) {
           await this.crud.deleteById(record.id);
         }
@@ -292,6 +414,39 @@ export class FileMetadataService {
     }
   }
 
+  /**
+   * Record the deletion of many files and folders: removes their records and the
+   * records below them, reading the records under each path once
+   */
+  async recordBatchDelete(
+    paths: string[],
+    storageType: StorageProvider
+  ): Promise<boolean> {
+    if (paths.length === 0) return true;
+    try {
+      const deleted = new Set(paths);
+      // Paths below another deleted path are read with it
+      const roots = Array.from(deleted).filter((path) => {
+        for (let parent = getDirName(path); parent !== '/' && parent !== ''; parent = getDirName(parent)) {
+          if (deleted.has(parent)) return false;
+        }
+        return true;
+      });
+      const toDelete: FileMetadataRecord[] = [];
+      for (const root of roots) {
+        toDelete.push(...await this.findUnder(root, storageType));
+      }
+      for (const record of toDelete) {
+        await this.crud.deleteById(record.id);
+      }
+      this.logger?.debug?.('Recorded batch deletion', { paths: paths.length, count: toDelete.length });
+      return true;
+    } catch (error) {
+      this.logError('recordBatchDelete', error);
+      return false;
+    }
+  }
+
   /**
    * Record a file or folder move
    */
@@ -346,6 +501,74 @@ export class FileMetadataService {
     }
   }
 
+  /**
+   * Record that a file or folder was moved to the trash. Its record and those below
+   * it are soft-deleted and kept under a path of the trash item until it is restored
+   * or purged.
+   */
+  async recordTrash(
+    path: string,
+    storageType: StorageProvider,
+    trashId: string
+  ): Promise<boolean> {
+    try {
+      const trashPath = getTrashRecordPath(trashId);
+      const records = await this.findUnder(path, storageType);
+      const timestamp = this.now();
+      for (const record of records) {
+        await this.crud.updateById(record.id, {
+          file_path: trashPath + record.file_path.slice(path.length),
+          status: 'soft_deleted',
+          deleted_at: timestamp,
+          changed_at: timestamp,
+        } as Partial<FileMetadataRecord>);
+      }
+      this.logger?.debug?.('Recorded move to trash', { path, trashId, count: records.length });
+      return true;
+    } catch (error) {
+      this.logError('recordTrash', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that a trashed item was restored: its records become active again at the
+   * path it was restored to
+   */
+  async recordRestoreFromTrash(
+    trashId: string,
+    destinationPath: string,
+    storageType: StorageProvider
+  ): Promise<boolean> {
+    try {
+      const trashPath = getTrashRecordPath(trashId);
+      const records = await this.findUnder(trashPath, storageType);
+      const timestamp = this.now();
+      for (const record of records) {
+        const filePath = destinationPath + record.file_path.slice(trashPath.length);
+        await this.crud.updateById(record.id, {
+          file_path: filePath,
+          filename: getBaseName(filePath),
+          status: 'active',
+          deleted_at: null,
+          changed_at: timestamp,
+        } as Partial<FileMetadataRecord>);
+      }
+      this.logger?.debug?.('Recorded restore from trash', { trashId, path: destinationPath, count: records.length });
+      return true;
+    } catch (error) {
+      this.logError('recordRestoreFromTrash', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that a trashed item was permanently deleted
+   */
+  async recordTrashPurge(trashId: string, storageType: StorageProvider): Promise<boolean> {
+    return this.recordDirectoryDelete(getTrashRecordPath(trashId), storageType, true);
+  }
+
   /**
    * Find a record by path and storage type
    */
@@ -378,6 +601,21 @@ export class FileMetadataService {
     }
   }
 
+  /**
+   * Find all records with a content hash (uses idx_hazo_files_hash)
+   */
+  async findByHash(
+    fileHash: string,
+    storageType: StorageProvider
+  ): Promise<FileMetadataRecord[]> {
+    try {
+      return await this.crud.findBy({ file_hash: fileHash, storage_type: storageType });
+    } catch (error) {
+      this.logError('findByHash', error);
+      return [];
+    }
+  }
+
   /**
    * Find all records in a directory
    */
@@ -405,6 +643,169 @@ export class FileMetadataService {
     }
   }
 
+  /**
+   * Find all records in a directory and its subdirectories (or only direct children).
+   * Unlike the other finders this throws when the query fails, for callers that must
+   * not mistake a failed query for an empty directory.
+   */
+  async findInTree(
+    directoryPath: string,
+    storageType: StorageProvider,
+    recursive = true
+  ): Promise<FileMetadataRecord[]> {
+    const records = await this.findUnder(directoryPath, storageType);
+    const prefix = directoryPath === '/' ? '/' : directoryPath + '/';
+    return records.filter((r) => {
+      if (!r.file_path.startsWith(prefix) || r.file_path === '/') return false;
+      return recursive || !r.file_path.slice(prefix.length).includes('/');
+    });
+  }
+
+  /**
+   * Find the records at or below a path. The store narrows them down with a LIKE on
+   * file_path through list()'s query builder; the result is checked here, as LIKE may
+   * ignore case and treats '_' and '%' in the path as wildcards. Without a query
+   * builder (or if it fails) every record of the storage type is read instead.
+   */
+  private async findUnder(path: string, storageType: StorageProvider): Promise<FileMetadataRecord[]> {
+    const prefix = path === '/' ? '/' : `${path}/`;
+    const matches = (r: FileMetadataRecord) =>
+      r.storage_type === storageType && (r.file_path === path || r.file_path.startsWith(prefix));
+
+    // A backslash escapes the next character in some databases' LIKE
+    if (!path.includes('\\')) {
+      try {
+        // Without a query builder, list() returns every record
+        const rows = await this.crud.list((qb) => {
+          if (!isQueryBuilder(qb)) return qb;
+          qb.where('storage_type', 'eq', storageType);
+          qb.where('file_path', 'like', `${path === '/' ? '/' : path}%`);
+          return qb;
+        });
+        return rows.filter(matches);
+      } catch (error) {
+        this.logger?.warn?.('Query builder failed, reading every record of the storage type', {
+          error: (error as Error).message,
+        });
+      }
+    }
+    return (await this.crud.findBy({ storage_type: storageType })).filter(matches);
+  }
+
+  /**
+   * Record new content for a file (hash, size and file_changed_at)
+   */
+  async recordContentChange(
+    fileId: string,
+    fileInfo: { file_hash: string; file_size: number }
+  ): Promise<boolean> {
+    try {
+      const timestamp = this.now();
+      await this.crud.updateById(fileId, {
+        file_hash: fileInfo.file_hash,
+        file_size: fileInfo.file_size,
+        file_changed_at: timestamp,
+        changed_at: timestamp,
+      } as Partial<FileMetadataRecord>);
+      this.logger?.debug?.('Recorded content change', { fileId });
+      return true;
+    } catch (error) {
+      this.logError('recordContentChange', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that a file or folder now lives at another path and/or storage provider.
+   * The record keeps its ID, refs and file_data.
+   */
+  async recordMigration(
+    fileId: string,
+    filePath: string,
+    storageType: StorageProvider,
+    fileInfo?: { file_hash: string; file_size: number }
+  ): Promise<boolean> {
+    try {
+      await this.crud.updateById(fileId, {
+        file_path: filePath,
+        filename: getBaseName(filePath),
+        storage_type: storageType,
+        ...(fileInfo ? { file_hash: fileInfo.file_hash, file_size: fileInfo.file_size } : {}),
+        changed_at: this.now(),
+      } as Partial<FileMetadataRecord>);
+      this.logger?.debug?.('Recorded migration', { fileId, path: filePath, storageType });
+      return true;
+    } catch (error) {
+      this.logError('recordMigration', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record new content for an existing file, keeping its current state in the
+   * file_versions column (V4). The record keeps its ID, path and refs.
+   * @param content - The new content's fields (e.g. file_hash, file_size, file_data)
+   * @param options.versionId - Storage version that now holds the replaced content
+   * @param options.storedVersionIds - Versions the storage still has; the history of
+   *   other versions is dropped (omit when the provider keeps no versions)
+   */
+  async recordNewVersion(
+    fileId: string,
+    content: Partial<Pick<FileMetadataRecordV2, 'file_type' | 'file_data' | 'file_hash' | 'file_size' | 'uploaded_by' | 'content_tag'>>,
+    options: { versionId?: string; storedVersionIds?: string[] } = {}
+  ): Promise<FileMetadataRecord | null> {
+    try {
+      const existing = (await this.findById(fileId)) as FileMetadataRecordV2 | null;
+      if (!existing) {
+        return null;
+      }
+
+      const timestamp = this.now();
+      const archived: FileVersionRecord = {
+        ...(options.versionId ? { version_id: options.versionId } : {}),
+        file_hash: existing.file_hash ?? null,
+        file_size: existing.file_size ?? null,
+        uploaded_by: existing.uploaded_by ?? null,
+        content_tag: existing.content_tag ?? null,
+        file_data: existing.file_data || '{}',
+        file_changed_at: existing.file_changed_at ?? existing.created_at,
+        archived_at: timestamp,
+      };
+      const stored = options.storedVersionIds ? new Set(options.storedVersionIds) : null;
+      const history = [archived, ...parseVersionHistory(existing.file_versions)]
+        .filter((entry) => !stored || !entry.version_id || stored.has(entry.version_id))
+        .slice(0, MAX_VERSION_RECORDS);
+
+      const results = await this.crud.updateById(fileId, {
+        ...content,
+        file_versions: JSON.stringify(history),
+        file_changed_at: timestamp,
+        changed_at: timestamp,
+      } as Partial<FileMetadataRecord>);
+      this.logger?.debug?.('Recorded new version', { fileId, versionId: options.versionId });
+      return results[0] || { ...existing, ...content };
+    } catch (error) {
+      this.logError('recordNewVersion', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the earlier states of a record (V4), newest first
+   */
+  async getVersionHistory(fileId: string): Promise<FileVersionRecord[] | null> {
+    try {
+      const existing = (await this.findById(fileId)) as FileMetadataRecordV2 | null;
+      if (!existing) {
+        return null;
+      }
+      return parseVersionHistory(existing.file_versions);
+    } catch (error) {
+      this.logError('getVersionHistory', error);
+      return null;
+    }
+  }
+
   /**
    * Update custom metadata for a file
    */
@@ -432,6 +833,157 @@ export class FileMetadataService {
     }
   }
 
+  // ============================================
+  // Query Methods
+  // ============================================
+
+  /**
+   * Find records by columns, date ranges, ref counts and file_data values, sorted and
+   * a page at a time.
+   *
+   * Single-valued storage_type, content_tag, scope_id and uploaded_by filters and the
+   * date, file_size and ref_count ranges go to the store through list()'s query builder.
+   * Queries sorted first by created_at or changed_at also read the store in that order,
+   * in batches, until the page is full, and read the records without that time last
+   * (where they sort); other sorts read every record that passes the
+   * store's filters. The remaining filters, sorting and paging are evaluated on the
+   * records read. If the query builder fails, the single-valued filters go through
+   * findBy() instead.
+   *
+   * @returns The page, or null if the query failed (e.g. a cursor from another query)
+   */
+  async queryFiles(query: MetadataQuery = {}): Promise<MetadataQueryPage | null> {
+    try {
+      const start = getQueryStart(query);
+      let page: MetadataQueryPage;
+      try {
+        page = await this.queryStore(query, start);
+      } catch (error) {
+        // e.g. a store whose builder lacks an operator: narrow with findBy() instead
+        this.logger?.warn?.('Query builder failed, filtering records in memory', {
+          error: (error as Error).message,
+        });
+        const criteria = getStoreCriteria(query);
+        const records = Object.keys(criteria).length > 0
+          ? await this.crud.findBy(criteria)
+          : await this.crud.list();
+        page = queryMetadataRecords(records.map(toV2Record), query);
+      }
+      this.logger?.debug?.('Queried files', { count: page.items.length });
+      return page;
+    } catch (error) {
+      this.logError('queryFiles', error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a query through list()'s query builder
+   */
+  private async queryStore(
+    query: MetadataQuery,
+    start: ReturnType<typeof getQueryStart>
+  ): Promise<MetadataQueryPage> {
+    const conditions = getStoreConditions(query);
+    const { field } = start.sort;
+    const direction = start.sort.direction ?? 'asc';
+    const keyset = KEYSET_SORT_COLUMNS.has(field);
+    const limit = Math.max(1, query.limit ?? DEFAULT_QUERY_LIMIT);
+
+    // Start at the cursor's time; queryMetadataRecords() skips the records before it
+    const cursorTime = typeof start.value === 'number' ? toStoreTime(start.value) : null;
+    let bound: StoreCondition | null = keyset && cursorTime
+      ? [field, direction === 'asc' ? 'gte' : 'lte', cursorTime]
+      : null;
+    let batchSize = limit + 1;
+    const records: FileMetadataRecordV2[] = [];
+    const timeOf = (row: FileMetadataRecord) => toStoreTime(row[field as keyof FileMetadataRecord]);
+    // A cursor at a record without a time is past every record that has one
+    let timed = !(keyset && start.value === null);
+
+    while (timed) {
+      let configured = false;
+      const rows = await this.crud.list((qb) => {
+        if (!isQueryBuilder(qb)) return qb;
+        configured = true;
+        for (const [column, operator, value] of bound ? [...conditions, bound] : conditions) {
+          qb.where(column, operator, value);
+        }
+        if (keyset) {
+          qb.order(field, direction);
+          qb.limit(batchSize);
+        }
+        return qb;
+      });
+      if (!configured || !keyset) {
+        // Every record, or every record that passed the store's filters
+        return queryMetadataRecords(rows.map(toV2Record), query);
+      }
+
+      // Stores order records without a time first or last; they are read at the end
+      let exhausted = rows.length < batchSize;
+      let batch = rows.filter((row) => timeOf(row) !== null);
+      if (!exhausted) {
+        const lastTime = timeOf(rows[rows.length - 1]);
+        if (lastTime === null && batch.length > 0) {
+          // Ordered last by this store, so every record with a time has been read
+          exhausted = true;
+        } else if (lastTime === null) {
+          // Only records without a time yet, ordered first by this store
+          batchSize *= 2;
+          continue;
+        } else {
+          // Records sharing the last time may go on past the batch; read them with the next one
+          batch = batch.filter((row) => timeOf(row) !== lastTime);
+          if (batch.length === 0) {
+            batchSize *= 2;
+            continue;
+          }
+          bound = [field, direction === 'asc' ? 'gt' : 'lt', timeOf(batch[batch.length - 1])!];
+        }
+      }
+
+      records.push(...batch.map(toV2Record));
+      const page = queryMetadataRecords(records, query);
+      if (page.hasMore) {
+        return page;
+      }
+      if (exhausted) {
+        timed = false;
+      } else {
+        batchSize *= 2;
+      }
+    }
+
+    // Then the records without a time, which queryMetadataRecords() sorts last
+    const untimed = await this.crud.list((qb) => {
+      if (!isQueryBuilder(qb)) return qb;
+      for (const [column, operator, value] of conditions) {
+        qb.where(column, operator, value);
+      }
+      qb.where(field, 'is', null);
+      return qb;
+    });
+    records.push(...untimed.filter((row) => timeOf(row) === null).map(toV2Record));
+    return queryMetadataRecords(records, query);
+  }
+
+  /**
+   * Start a query with a builder; run() executes it with this service
+   *
+   * @example
+   * ```typescript
+   * const page = await metadataService.query()
+   *   .contentTag('invoice')
+   *   .where('merged_data.total', '>', 1000)
+   *   .orderBy('merged_data.total', 'desc')
+   *   .run();
+   * ```
+   */
+  query(): MetadataQueryBuilder {
+    return new MetadataQueryBuilder(this);
+  }
+
   // ============================================
   // Extraction Data Management Methods
   // ============================================
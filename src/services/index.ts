@@ -16,7 +16,22 @@ export {
   createInitializedTrackedFileManager,
 } from './tracked-file-manager';
 
-export type { TrackedFileManagerFullOptions, TrackedUploadOptions } from './tracked-file-manager';
+export type { TrackedFileManagerFullOptions, TrackedUploadOptions, TrackedCopyOptions, TrackedBatchCopyOptions, DuplicateFile } from './tracked-file-manager';
+
+export { migrateStorage } from './storage-migration';
+
+export type {
+  MigrateStorageOptions,
+  MigrationProgress,
+  MigrationResult,
+} from './storage-migration';
+
+export {
+  MemoryUploadSessionStore,
+  FileUploadSessionStore,
+  createMemoryUploadSessionStore,
+  createFileUploadSessionStore,
+} from './upload-session-store';
 
 export {
   FileMetadataService,
@@ -29,6 +44,11 @@ export type {
   FileMetadataServiceOptions,
 } from './file-metadata-service';
 
+export {
+  MetadataQueryBuilder,
+  createMetadataQueryBuilder,
+} from './metadata-query-builder';
+
 export {
   NamingConventionService,
   createNamingConventionService,
@@ -60,3 +80,22 @@ export type {
   UploadExtractResult,
   CreateFolderOptions,
 } from './upload-extract-service';
+
+export {
+  MemoryContentIndex,
+  SqliteContentIndex,
+  createMemoryContentIndex,
+  createSqliteContentIndex,
+} from './content-index';
+
+export type { ContentIndexExecutor } from './content-index';
+
+export {
+  ContentSearchService,
+  createContentSearchService,
+} from './content-search-service';
+
+export type {
+  ContentSearchServiceOptions,
+  ReindexContentOptions,
+} from './content-search-service';
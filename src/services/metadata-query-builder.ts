@@ -0,0 +1,157 @@
+/**
+ * Metadata Query Builder
+ * Fluent construction of MetadataQuery objects for FileMetadataService.queryFiles()
+ */
+
+import type {
+  StorageProvider,
+  FileStatus,
+  MetadataDateRange,
+  MetadataNumberRange,
+  MetadataQuery,
+  MetadataQueryOperator,
+  MetadataQueryPage,
+  MetadataSort,
+} from '../types';
+import type { FileMetadataService } from './file-metadata-service';
+
+/**
+ * Builds a MetadataQuery step by step. Each method sets one filter (replacing an
+ * earlier value) except where() and orderBy(), which add to the query.
+ *
+ * @example
+ * ```typescript
+ * const invoices = metadataService.query()
+ *   .contentTag('invoice')
+ *   .scope('workspace-1')
+ *   .where('merged_data.total', '>', 1000)
+ *   .orderBy('merged_data.total', 'desc')
+ *   .limit(20);
+ *
+ * const page = await invoices.run();
+ * if (page?.hasMore) {
+ *   const next = await invoices.after(page.cursor!).run();
+ * }
+ * ```
+ */
+export class MetadataQueryBuilder {
+  private query: MetadataQuery = {};
+
+  constructor(private readonly service?: FileMetadataService) {}
+
+  storageType(storageType: StorageProvider): this {
+    this.query.storage_type = storageType;
+    return this;
+  }
+
+  /** Files with any of these content tags (`null` for files without one) */
+  contentTag(...tags: (string | null)[]): this {
+    this.query.content_tag = tags.length === 1 ? tags[0] : tags;
+    return this;
+  }
+
+  /** Files in any of these scopes (`null` for files without one) */
+  scope(...scopeIds: (string | null)[]): this {
+    this.query.scope_id = scopeIds.length === 1 ? scopeIds[0] : scopeIds;
+    return this;
+  }
+
+  status(...statuses: FileStatus[]): this {
+    this.query.status = statuses.length === 1 ? statuses[0] : statuses;
+    return this;
+  }
+
+  uploadedBy(...users: string[]): this {
+    this.query.uploaded_by = users.length === 1 ? users[0] : users;
+    return this;
+  }
+
+  /** Files of any of these MIME types ('image/*' wildcards, 'folder' for folders) */
+  fileType(...mimeTypes: string[]): this {
+    this.query.file_type = mimeTypes.length === 1 ? mimeTypes[0] : mimeTypes;
+    return this;
+  }
+
+  /** Records at or below a folder */
+  under(path: string): this {
+    this.query.path = path;
+    return this;
+  }
+
+  createdAt(range: MetadataDateRange): this {
+    this.query.created_at = range;
+    return this;
+  }
+
+  changedAt(range: MetadataDateRange): this {
+    this.query.changed_at = range;
+    return this;
+  }
+
+  fileChangedAt(range: MetadataDateRange): this {
+    this.query.file_changed_at = range;
+    return this;
+  }
+
+  refCount(range: MetadataNumberRange): this {
+    this.query.ref_count = range;
+    return this;
+  }
+
+  fileSize(range: MetadataNumberRange): this {
+    this.query.file_size = range;
+    return this;
+  }
+
+  /** Add a condition on a file_data value, e.g. where('merged_data.total', '>', 1000) */
+  where(path: string, op: MetadataQueryOperator, value?: unknown): this {
+    this.query.where = [...(this.query.where ?? []), { path, op, value }];
+    return this;
+  }
+
+  /** Add a sort key; the first one added takes precedence */
+  orderBy(field: MetadataSort['field'], direction: 'asc' | 'desc' = 'asc'): this {
+    this.query.sort = [...(this.query.sort ?? []), { field, direction }];
+    return this;
+  }
+
+  limit(limit: number): this {
+    this.query.limit = limit;
+    return this;
+  }
+
+  /** Continue after the page that returned this cursor */
+  after(cursor: string): this {
+    this.query.cursor = cursor;
+    return this;
+  }
+
+  /**
+   * Get the query as a plain object
+   */
+  build(): MetadataQuery {
+    return {
+      ...this.query,
+      where: this.query.where?.map((predicate) => ({ ...predicate })),
+      sort: this.query.sort?.map((key) => ({ ...key })),
+    };
+  }
+
+  /**
+   * Run the query with the service that created the builder
+   * @returns The page, or null if the query failed
+   */
+  async run(): Promise<MetadataQueryPage | null> {
+    if (!this.service) {
+      throw new Error('MetadataQueryBuilder.run() needs a builder from FileMetadataService.query()');
+    }
+    return this.service.queryFiles(this.build());
+  }
+}
+
+/**
+ * Create a MetadataQueryBuilder, e.g. to build a query for queryFiles() elsewhere
+ */
+export function createMetadataQueryBuilder(): MetadataQueryBuilder {
+  return new MetadataQueryBuilder();
+}
@@ -0,0 +1,328 @@
+/**
+ * Storage Migration
+ * Copies a tree from one storage provider to another and moves the metadata
+ * records along with the files
+ */
+
+import { Readable } from 'stream';
+import type { FileManager } from './file-manager';
+import type { FileMetadataService } from './file-metadata-service';
+import { TrackedFileManager } from './tracked-file-manager';
+import type {
+  FileItem,
+  FileMetadataRecord,
+  FileSystemItem,
+  OperationResult,
+  StorageModule,
+} from '../types';
+import { normalizePath, joinPath, getPathSegments } from '../common/path-utils';
+import { OperationAbortedError } from '../common/errors';
+import { isFile, mapWithConcurrency } from '../common/utils';
+import {
+  computeFileInfoFromReadable,
+  createFileHasher,
+  hashesEqual,
+  type FileHasher,
+  type FileInfo,
+} from '../common/hash-utils';
+
+/**
+ * Options for migrateStorage()
+ */
+export interface MigrateStorageOptions {
+  /** Folder to migrate (default: '/') */
+  path?: string;
+  /** Folder in the target to migrate it to (default: the same path) */
+  targetPath?: string;
+  /** Files copied at the same time (default: 4) */
+  concurrency?: number;
+  /** Read every copy back and compare its hash with the source (default: true) */
+  verify?: boolean;
+  /**
+   * Copy files the target already has (default: false). Otherwise a target file with
+   * the size of the source (and with verify, the same hash) was copied by an earlier run.
+   */
+  overwrite?: boolean;
+  /**
+   * Service of the records to move along with the files (default: the source's, when
+   * it is a TrackedFileManager). Pass null to only copy files.
+   */
+  metadataService?: FileMetadataService | null;
+  /** Called after every file */
+  onProgress?: (progress: MigrationProgress) => void;
+  /** Abort the migration; run it again to continue */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress of a migration, reported after every file
+ */
+export interface MigrationProgress {
+  /** Files found in the source */
+  files: number;
+  /** Files copied */
+  copied: number;
+  /** Files the target already had */
+  skipped: number;
+  /** Files that could not be copied or verified */
+  failed: number;
+  /** Bytes written to the target */
+  bytesCopied: number;
+}
+
+/**
+ * Result of migrateStorage()
+ */
+export interface MigrationResult extends MigrationProgress {
+  /** Folders found in the source */
+  folders: number;
+  /** Records now pointing at the target */
+  recordsUpdated: number;
+  errors: string[];
+}
+
+/**
+ * Copy a tree from one file manager's storage to another's, e.g. from Dropbox to S3.
+ *
+ * Files are streamed from source to target (hashed on the way) and, with verify, read
+ * back from the target to compare hashes. Once a file (or folder) is in the target its
+ * metadata record is rewritten to the new file_path and storage_type, keeping its ID,
+ * refs and file_data, so references and extractions survive the move.
+ *
+ * Nothing is deleted from the source. An interrupted migration is resumed by running it
+ * again: files the target already has are skipped, and records that were moved are no
+ * longer found under the source.
+ *
+ * @example
+ * ```typescript
+ * const result = await migrateStorage(dropboxManager, s3Manager, {
+ *   path: '/clients',
+ *   concurrency: 8,
+ *   onProgress: (p) => console.log(`${p.copied + p.skipped}/${p.files}`),
+ * });
+ * ```
+ */
+export async function migrateStorage(
+  source: FileManager,
+  target: FileManager,
+  options: MigrateStorageOptions = {}
+): Promise<OperationResult<MigrationResult>> {
+  const root = normalizePath(options.path ?? '/');
+  const targetRoot = normalizePath(options.targetPath ?? root);
+  const verify = options.verify !== false;
+  const metadataService = options.metadataService !== undefined
+    ? options.metadataService
+    : source instanceof TrackedFileManager ? source.getMetadataService() : null;
+  const result: MigrationResult = {
+    files: 0,
+    folders: 0,
+    copied: 0,
+    skipped: 0,
+    failed: 0,
+    bytesCopied: 0,
+    recordsUpdated: 0,
+    errors: [],
+  };
+
+  try {
+    // The modules are used directly, so that a TrackedFileManager neither records
+    // the copies as new files nor tracks the reads as accesses
+    const sourceModule = source.getModule();
+    const targetModule = target.getModule();
+    const sourceStorage = source.getProvider() ?? sourceModule.provider;
+    const targetStorage = target.getProvider() ?? targetModule.provider;
+    if (source === target && root === targetRoot) {
+      return { success: false, error: 'Source and target are the same location' };
+    }
+
+    const toTargetPath = (path: string) => joinPath(targetRoot, path.slice(root.length));
+
+    const listing = await sourceModule.listDirectory(root, {
+      recursive: true,
+      includeHidden: true,
+      signal: options.signal,
+    });
+    if (!listing.success || !listing.data) {
+      return { success: false, error: listing.error || `Failed to list directory: ${root}` };
+    }
+    const items = listing.data.map((item) => ({ ...item, path: normalizePath(item.path) }) as FileSystemItem);
+    const folders = items
+      .filter((item) => item.isDirectory)
+      .sort((a, b) => getPathSegments(a.path).length - getPathSegments(b.path).length);
+    const files = items.filter(isFile).sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+    result.folders = folders.length;
+    result.files = files.length;
+
+    // Records still under the source, and the target paths that already have one
+    const records = new Map<string, FileMetadataRecord>();
+    const targetRecords = new Map<string, FileMetadataRecord>();
+    if (metadataService) {
+      const rootRecord = root === '/' ? null : await metadataService.findByPath(root, sourceStorage);
+      const tree = await metadataService.findInTree(root, sourceStorage);
+      for (const record of rootRecord ? [rootRecord, ...tree] : tree) {
+        records.set(normalizePath(record.file_path), record);
+      }
+      for (const record of await metadataService.findInTree(targetRoot, targetStorage)) {
+        targetRecords.set(normalizePath(record.file_path), record);
+      }
+    }
+
+    const moveRecord = async (path: string, destination: string, fileInfo?: FileInfo) => {
+      const record = records.get(path);
+      if (!record || !metadataService || (sourceStorage === targetStorage && path === destination)) {
+        return;
+      }
+      const existing = targetRecords.get(destination);
+      if (existing && existing.id !== record.id) {
+        result.errors.push(`Record for ${path} not moved: ${destination} already has a record (${existing.id})`);
+        return;
+      }
+      if (await metadataService.recordMigration(record.id, destination, targetStorage, fileInfo)) {
+        result.recordsUpdated++;
+      } else {
+        result.errors.push(`Failed to update the record for ${path}`);
+      }
+    };
+
+    if (targetRoot !== '/') {
+      await ensureFolder(targetModule, targetRoot);
+      if (root !== '/') await moveRecord(root, targetRoot);
+    }
+    for (const folder of folders) {
+      if (options.signal?.aborted) {
+        throw new OperationAbortedError(folder.path);
+      }
+      const destination = toTargetPath(folder.path);
+      try {
+        await ensureFolder(targetModule, destination);
+        await moveRecord(folder.path, destination);
+      } catch (error) {
+        result.errors.push(`Failed to create ${destination}: ${(error as Error).message}`);
+      }
+    }
+
+    await mapWithConcurrency(files, options.concurrency ?? 4, async (file) => {
+      if (options.signal?.aborted) {
+        throw new OperationAbortedError(file.path);
+      }
+      const destination = toTargetPath(file.path);
+      try {
+        const copy = await migrateFile(sourceModule, targetModule, file, destination, verify, options);
+        if (copy.copied) {
+          result.copied++;
+          result.bytesCopied += copy.fileInfo!.file_size;
+        } else {
+          result.skipped++;
+        }
+        await moveRecord(file.path, destination, copy.fileInfo);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        result.failed++;
+        result.errors.push(`Failed to migrate ${file.path}: ${(error as Error).message}`);
+      }
+
+      options.onProgress?.({
+        files: result.files,
+        copied: result.copied,
+        skipped: result.skipped,
+        failed: result.failed,
+        bytesCopied: result.bytesCopied,
+      });
+    });
+
+    return { success: true, data: result };
+  } catch (error) {
+    if (options.signal?.aborted) {
+      return { success: false, error: new OperationAbortedError(root).message };
+    }
+    return { success: false, error: `Failed to migrate: ${(error as Error).message}` };
+  }
+}
+
+/**
+ * Copy one file, unless the target already has it
+ * @returns Whether it was copied, and the hash of the target content when known
+ */
+async function migrateFile(
+  sourceModule: StorageModule,
+  targetModule: StorageModule,
+  file: FileItem,
+  destination: string,
+  verify: boolean,
+  options: MigrateStorageOptions
+): Promise<{ copied: boolean; fileInfo?: FileInfo }> {
+  if (!options.overwrite) {
+    const existing = await targetModule.getItem(destination);
+    if (existing.success && existing.data && !existing.data.isDirectory && existing.data.size === file.size) {
+      if (!verify) {
+        return { copied: false };
+      }
+      const sourceInfo = await hashFile(sourceModule, file.path, options.signal);
+      const targetInfo = await hashFile(targetModule, destination, options.signal);
+      if (hashesEqual(sourceInfo.file_hash, targetInfo.file_hash)) {
+        return { copied: false, fileInfo: targetInfo };
+      }
+    }
+  }
+
+  const download = await sourceModule.downloadStream(file.path, { signal: options.signal });
+  if (!download.success || !download.data) {
+    throw new Error(download.error || `Failed to read file: ${file.path}`);
+  }
+
+  const { stream } = download.data;
+  const hasher = await createFileHasher();
+  const upload = await targetModule.uploadFile(
+    Readable.toWeb(Readable.from(hashChunks(stream, hasher))) as ReadableStream,
+    destination,
+    { overwrite: true, signal: options.signal }
+  );
+  if (!upload.success) {
+    stream.destroy();
+    throw new Error(upload.error || `Failed to write file: ${destination}`);
+  }
+
+  const fileInfo = hasher.digest();
+  if (verify) {
+    const copied = await hashFile(targetModule, destination, options.signal);
+    if (copied.file_size !== fileInfo.file_size || !hashesEqual(copied.file_hash, fileInfo.file_hash)) {
+      throw new Error(`the copy at ${destination} does not match the source`);
+    }
+  }
+  return { copied: true, fileInfo };
+}
+
+/**
+ * Pass a stream's chunks through, hashing them on the way
+ */
+async function* hashChunks(
+  stream: AsyncIterable<Uint8Array | string>,
+  hasher: FileHasher
+): AsyncGenerator<Uint8Array> {
+  for await (const chunk of stream) {
+    const bytes = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk;
+    hasher.update(bytes);
+    yield bytes;
+  }
+}
+
+async function hashFile(module: StorageModule, path: string, signal?: AbortSignal): Promise<FileInfo> {
+  const download = await module.downloadStream(path, { signal });
+  if (!download.success || !download.data) {
+    throw new Error(download.error || `Failed to read file: ${path}`);
+  }
+  return computeFileInfoFromReadable(download.data.stream);
+}
+
+/**
+ * Create a folder in the target unless it already exists
+ */
+async function ensureFolder(module: StorageModule, path: string): Promise<void> {
+  const created = await module.createDirectory(path);
+  if (created.success) return;
+
+  const existing = await module.getItem(path);
+  if (!existing.success || !existing.data?.isDirectory) {
+    throw new Error(created.error || `Failed to create directory: ${path}`);
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+
+import { createTrackedFileManager, type TrackedFileManager } from './tracked-file-manager';
+import type { CrudServiceLike } from './file-metadata-service';
+import type { FileMetadataRecord, FileMetadataRecordV2, StorageModule } from '../types';
+
+/**
+ * CRUD service over an in-memory table
+ */
+function createMemoryCrud() {
+  const rows = new Map<string, FileMetadataRecordV2>();
+  const matches = (row: FileMetadataRecord, criteria: Record<string, unknown>) =>
+    Object.entries(criteria).every(([key, value]) => row[key as keyof FileMetadataRecord] === value);
+
+  const crud: CrudServiceLike<FileMetadataRecord> = {
+    list: async () => [...rows.values()],
+    findBy: async (criteria) => [...rows.values()].filter((row) => matches(row, criteria)),
+    findOneBy: async (criteria) => [...rows.values()].find((row) => matches(row, criteria)) ?? null,
+    insert: async (data) =>
+      (Array.isArray(data) ? data : [data]).map((input) => {
+        const row = { id: randomUUID(), status: 'active', ...input } as FileMetadataRecordV2;
+        rows.set(row.id, row);
+        return row;
+      }),
+    updateById: async (id, patch) => {
+      const row = { ...rows.get(id as string)!, ...patch } as FileMetadataRecordV2;
+      rows.set(row.id, row);
+      return [row];
+    },
+    deleteById: async (id) => {
+      rows.delete(id as string);
+    },
+  };
+  return { crud, rows };
+}
+
+describe('TrackedFileManager.reconcile', () => {
+  let manager: TrackedFileManager;
+  let module: StorageModule;
+  let rows: Map<string, FileMetadataRecordV2>;
+
+  const recordAt = (path: string) => [...rows.values()].find((row) => row.file_path === path);
+
+  beforeEach(async () => {
+    const store = createMemoryCrud();
+    rows = store.rows;
+    manager = createTrackedFileManager({
+      crudService: store.crud,
+      tracking: { enabled: true },
+      config: { provider: 'memory' },
+    });
+    await manager.initialize();
+    module = manager.getModule();
+
+    for (const [path, content] of [['/a.txt', 'one'], ['/docs/b.txt', 'two'], ['/docs/c.txt', 'three'], ['/gone.txt', 'four']]) {
+      await manager.uploadFile(Buffer.from(content), path, { awaitRecording: true });
+    }
+    // Drift made behind the manager's back
+    await module.uploadFile(Buffer.from('ONE!'), '/a.txt', { overwrite: true });
+    await module.moveItem('/docs/b.txt', '/moved-b.txt');
+    await module.deleteFile('/gone.txt');
+    await module.uploadFile(Buffer.from('new'), '/docs/new.txt');
+  });
+
+  it('reports drift without changing records in a dry run', async () => {
+    const before = JSON.stringify([...rows.values()]);
+    const result = await manager.reconcile({ dryRun: true });
+
+    expect(result.data).toMatchObject({ scannedFiles: 4, scannedRecords: 4, errors: [] });
+    expect(result.data!.issues.map(({ type, path, previousPath, fixed }) => ({ type, path, previousPath, fixed }))).toEqual([
+      { type: 'changed', path: '/a.txt', previousPath: undefined, fixed: false },
+      { type: 'moved', path: '/moved-b.txt', previousPath: '/docs/b.txt', fixed: false },
+      { type: 'untracked', path: '/docs/new.txt', previousPath: undefined, fixed: false },
+      { type: 'missing', path: '/gone.txt', previousPath: undefined, fixed: false },
+    ]);
+    expect(JSON.stringify([...rows.values()])).toBe(before);
+  });
+
+  it('fixes the records and finds nothing on the next run', async () => {
+    const movedId = recordAt('/docs/b.txt')!.id;
+    const result = await manager.reconcile();
+
+    expect(result.data!.issues.every((issue) => issue.fixed)).toBe(true);
+    expect(recordAt('/a.txt')).toMatchObject({ file_size: 4, status: 'active' });
+    expect(recordAt('/moved-b.txt')).toMatchObject({ id: movedId, status: 'active' });
+    expect(recordAt('/docs/new.txt')).toMatchObject({ file_size: 3, status: 'active' });
+    expect(recordAt('/gone.txt')).toMatchObject({ status: 'missing' });
+
+    const again = await manager.reconcile({ verifyHashes: true });
+    expect(again.data).toMatchObject({ scannedFiles: 4, scannedRecords: 5, issues: [] });
+  });
+
+  it('reactivates missing records whose file is back', async () => {
+    await manager.reconcile();
+    await module.uploadFile(Buffer.from('four'), '/gone.txt');
+
+    await manager.reconcile();
+    expect(recordAt('/gone.txt')).toMatchObject({ status: 'active' });
+  });
+
+  it('only looks at the given folder', async () => {
+    const result = await manager.reconcile({ path: '/docs', dryRun: true });
+
+    expect(result.data!.issues.map((issue) => [issue.type, issue.path])).toEqual([
+      ['untracked', '/docs/new.txt'],
+      ['missing', '/docs/b.txt'],
+    ]);
+  });
+});
+
+describe('TrackedFileManager.importExisting', () => {
+  let manager: TrackedFileManager;
+  let crud: CrudServiceLike<FileMetadataRecord>;
+  let rows: Map<string, FileMetadataRecordV2>;
+
+  beforeEach(async () => {
+    ({ crud, rows } = createMemoryCrud());
+    manager = createTrackedFileManager({
+      crudService: crud,
+      tracking: { enabled: true, logErrors: false },
+      config: { provider: 'memory' },
+    });
+    await manager.initialize();
+    for (const name of ['a', 'b', 'c', 'd', 'e', 'f']) {
+      await manager.getModule().uploadFile(Buffer.from(name), `/${name}.txt`);
+    }
+  });
+
+  it('imports in batches, reporting a cursor after each, and skips known items', async () => {
+    const cursors: (string | null)[] = [];
+    const result = await manager.importExisting({ batchSize: 2, onProgress: (progress) => cursors.push(progress.cursor) });
+
+    expect(result.data).toMatchObject({ scanned: 6, imported: 6, skipped: 0, failed: 0, cursor: '/f.txt' });
+    expect(cursors).toEqual(['/b.txt', '/d.txt', '/f.txt']);
+    expect([...rows.values()].map((row) => row.file_path).sort()).toEqual(
+      ['/a.txt', '/b.txt', '/c.txt', '/d.txt', '/e.txt', '/f.txt']
+    );
+    expect([...rows.values()].every((row) => !!row.file_hash)).toBe(true);
+
+    const again = await manager.importExisting({ batchSize: 2 });
+    expect(again.data).toMatchObject({ imported: 0, skipped: 6 });
+  });
+
+  it('resumes after the cursor', async () => {
+    const result = await manager.importExisting({ resumeAfter: '/d.txt', skipHash: true });
+
+    expect(result.data).toMatchObject({ imported: 2, cursor: '/f.txt' });
+    expect([...rows.values()].map((row) => row.file_path).sort()).toEqual(['/e.txt', '/f.txt']);
+  });
+
+  it('keeps the cursor before a batch that failed, so resuming imports it', async () => {
+    const insert = crud.insert;
+    let calls = 0;
+    crud.insert = async (data) => {
+      if (++calls === 2) throw new Error('database unavailable');
+      return insert(data);
+    };
+
+    const result = await manager.importExisting({ batchSize: 2, skipHash: true });
+    expect(result.data).toMatchObject({ imported: 4, failed: 2, cursor: '/b.txt' });
+    expect(result.data!.errors).toHaveLength(1);
+
+    const resumed = await manager.importExisting({ batchSize: 2, skipHash: true, resumeAfter: result.data!.cursor! });
+    expect(resumed.data).toMatchObject({ imported: 2, skipped: 2, failed: 0, cursor: '/f.txt' });
+    expect(rows.size).toBe(6);
+  });
+});
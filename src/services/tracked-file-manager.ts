@@ -5,6 +5,7 @@
 
 import { FileManager, FileManagerOptions } from './file-manager';
 import { FileMetadataService, CrudServiceLike } from './file-metadata-service';
+import { ContentSearchService, type ReindexContentOptions } from './content-search-service';
 import type {
   StorageProvider,
   FileItem,
@@ -13,8 +14,20 @@ import type {
   OperationResult,
   UploadOptions,
   DownloadOptions,
+  DownloadStreamOptions,
+  DownloadStream,
   MoveOptions,
+  CopyOptions,
   RenameOptions,
+  BatchDeleteOptions,
+  BatchMoveOptions,
+  BatchCopyOptions,
+  BatchRenameOptions,
+  BatchMoveOperation,
+  BatchCopyOperation,
+  BatchRenameOperation,
+  BatchResult,
+  DeleteOptions,
   FileMetadataRecord,
   DatabaseTrackingConfig,
   AddRefOptions,
@@ -22,9 +35,38 @@ import type {
   FindOrphanedOptions,
   CleanupOrphanedOptions,
   UploadWithRefOptions,
+  FileMetadataRecordV2,
+  ReconcileOptions,
+  ReconcileResult,
+  FileMetadataInput,
+  ImportExistingOptions,
+  ImportResult,
+  TrackedFileVersion,
+  TrashItem,
+  RestoreFromTrashOptions,
+  PurgeTrashOptions,
+  ContentIndexBackend,
+  ContentSearchOptions,
+  ContentSearchResult,
+  ReindexContentResult,
+  UploadSession,
+  StartUploadOptions,
+  UploadChunkOptions,
 } from '../types';
 import { getMimeType } from '../common/mime-types';
-import { computeFileInfo, hasFileContentChanged } from '../common/hash-utils';
+import { normalizePath, getPathSegments, isChildPath } from '../common/path-utils';
+import { OperationAbortedError } from '../common/errors';
+import { mapWithConcurrency } from '../common/utils';
+import { parseFileData } from '../common/file-data-utils';
+import {
+  computeFileInfo,
+  computeFileInfoFromReadable,
+  createFileHasher,
+  hasFileContentChanged,
+  hashesEqual,
+  type FileInfo,
+  type FileHasher,
+} from '../common/hash-utils';
 
 /**
  * Options for creating a TrackedFileManager
@@ -34,6 +76,11 @@ export interface TrackedFileManagerFullOptions extends FileManagerOptions {
   crudService?: CrudServiceLike<FileMetadataRecord>;
   /** Database tracking configuration */
   tracking?: DatabaseTrackingConfig;
+  /**
+   * Index for searchContent(). Uploaded files are indexed as they are recorded;
+   * files tracked before need reindexContent(). Requires tracking.
+   */
+  contentIndex?: ContentIndexBackend;
 }
 
 /**
@@ -48,6 +95,42 @@ export interface TrackedUploadOptions extends UploadOptions {
    * Set to true when you need to immediately query/update the file record.
    */
   awaitRecording?: boolean;
+  /**
+   * Known hash and size of the content. Used instead of computing them,
+   * e.g. for stream sources where the content is never held in memory.
+   */
+  fileInfo?: FileInfo;
+  /**
+   * Return the stored file with the same content instead of storing another copy
+   * (default: tracking.deduplicate). Needs a Buffer source or `fileInfo`.
+   */
+  deduplicate?: boolean;
+  /** scope_id that duplicates must have (default: files without a scope) */
+  deduplicationScope?: string;
+}
+
+/**
+ * Copy options with record handling
+ */
+export interface TrackedCopyOptions extends CopyOptions {
+  /** Copy the source records' file_data (extractions) and content_tag to the copies (default: false) */
+  copyFileData?: boolean;
+}
+
+/**
+ * Batch copy options with record handling
+ */
+export interface TrackedBatchCopyOptions extends BatchCopyOptions {
+  /** Copy the source records' file_data (extractions) and content_tag to the copies (default: false) */
+  copyFileData?: boolean;
+}
+
+/**
+ * A stored file with the same content as an upload
+ */
+export interface DuplicateFile {
+  record: FileMetadataRecordV2;
+  file: FileItem;
 }
 
 /**
@@ -59,6 +142,9 @@ export interface TrackedUploadOptions extends UploadOptions {
 export class TrackedFileManager extends FileManager {
   private metadataService: FileMetadataService | null = null;
   private trackingConfig: DatabaseTrackingConfig;
+  private contentSearch: ContentSearchService | null = null;
+  /** Hashes of the upload sessions whose chunks all passed through this instance */
+  private uploadHashers = new Map<string, { hasher: FileHasher; bytes: number }>();
 
   constructor(options: TrackedFileManagerFullOptions = {}) {
     super(options);
@@ -68,6 +154,8 @@ export class TrackedFileManager extends FileManager {
       tableName: options.tracking?.tableName ?? 'hazo_files',
       trackDownloads: options.tracking?.trackDownloads ?? true,
       logErrors: options.tracking?.logErrors ?? true,
+      deduplicate: options.tracking?.deduplicate ?? false,
+      versioning: options.tracking?.versioning ?? false,
     };
 
     if (options.crudService && this.trackingConfig.enabled) {
@@ -75,6 +163,14 @@ export class TrackedFileManager extends FileManager {
         tableName: this.trackingConfig.tableName,
         logErrors: this.trackingConfig.logErrors,
       });
+
+      if (options.contentIndex) {
+        this.contentSearch = new ContentSearchService(this.metadataService, {
+          backend: options.contentIndex,
+          fileManager: this,
+          logErrors: this.trackingConfig.logErrors,
+        });
+      }
     }
   }
 
@@ -133,19 +229,54 @@ export class TrackedFileManager extends FileManager {
 
   /**
    * Upload a file and record it in the database
-   * Computes file hash for change detection unless skipHash is true
+   * Computes file hash for change detection unless skipHash is true.
+   * The record is only written once the file is stored, so an upload aborted via
+   * `options.signal` leaves no record; an abort after that point doesn't skip it.
+   *
+   * With deduplication, content that is already stored (see findDuplicate()) is not
+   * uploaded again: the result is the existing file, with `deduplicated: true` and its
+   * `file_id`, and nothing is created at `remotePath`. With `overwrite`, the upload is
+   * only skipped when the duplicate is the file at `remotePath`; otherwise it is stored,
+   * so `remotePath` holds the new content.
+   *
+   * With `tracking.versioning`, overwriting a tracked file updates its record instead
+   * of recording a new one: the replaced hash, size, uploader and file_data are kept
+   * in its version history (see listVersions()), and the uploader and content tag
+   * stay on the record.
    */
   async uploadFile(
     source: string | Buffer | ReadableStream,
     remotePath: string,
     options?: TrackedUploadOptions
-  ): Promise<OperationResult<FileItem>> {
+  ): Promise<OperationResult<FileItem & { file_id?: string; deduplicated?: boolean }>> {
     // Get buffer for hash computation if source is a Buffer
     let fileBuffer: Buffer | null = null;
     if (source instanceof Buffer) {
       fileBuffer = source;
     }
 
+    if ((options?.deduplicate ?? this.trackingConfig.deduplicate) && this.isTrackingEnabled()) {
+      const fileInfo = options?.fileInfo ?? (fileBuffer ? await computeFileInfo(fileBuffer).catch(() => null) : null);
+      if (fileInfo) {
+        const duplicate = await this.findDuplicate(fileInfo, options?.deduplicationScope);
+        if (duplicate && (!options?.overwrite || duplicate.record.file_path === normalizePath(remotePath))) {
+          if (typeof source !== 'string' && !Buffer.isBuffer(source)) {
+            await source.cancel().catch(() => {});
+          }
+          return {
+            success: true,
+            data: { ...duplicate.file, file_id: duplicate.record.id, deduplicated: true },
+          };
+        }
+        // Don't hash the content twice
+        options = { ...options, fileInfo };
+      }
+    }
+
+    const replaced = options?.overwrite && this.trackingConfig.versioning && this.isTrackingEnabled()
+      ? await this.metadataService!.findByPath(remotePath, this.getStorageType())
+      : null;
+
     const result = await super.uploadFile(source, remotePath, options);
 
     if (result.success && this.isTrackingEnabled() && result.data) {
@@ -157,7 +288,10 @@ export class TrackedFileManager extends FileManager {
       let fileHash: string | undefined;
       let fileSize: number | undefined;
 
-      if (fileBuffer && !skipHash) {
+      if (options?.fileInfo) {
+        fileHash = skipHash ? undefined : options.fileInfo.file_hash;
+        fileSize = options.fileInfo.file_size;
+      } else if (fileBuffer && !skipHash) {
         try {
           const fileInfo = await computeFileInfo(fileBuffer);
           fileHash = fileInfo.file_hash;
@@ -170,14 +304,12 @@ export class TrackedFileManager extends FileManager {
         fileSize = fileBuffer.length;
       }
 
-      const recordPromise = this.metadataService!.recordUpload({
-        filename: fileItem.name,
-        file_type: fileItem.mimeType || getMimeType(fileItem.name),
-        file_data: options?.metadata || fileItem.metadata,
-        file_path: remotePath,
-        storage_type: this.getStorageType(),
-        file_hash: fileHash,
-        file_size: fileSize,
+      const recordPromise = this.recordStoredFile(remotePath, fileItem, {
+        replaced,
+        metadata: options?.metadata,
+        fileHash,
+        fileSize,
+        content: fileBuffer ?? undefined,
       });
 
       if (awaitRecording) {
@@ -212,6 +344,128 @@ export class TrackedFileManager extends FileManager {
     return result;
   }
 
+  /**
+   * Open a file as a stream and optionally track access
+   */
+  async downloadStream(
+    remotePath: string,
+    options?: DownloadStreamOptions
+  ): Promise<OperationResult<DownloadStream>> {
+    const result = await super.downloadStream(remotePath, options);
+
+    if (result.success && this.isTrackingEnabled() && this.trackingConfig.trackDownloads) {
+      this.metadataService!.recordAccess(
+        remotePath,
+        this.getStorageType()
+      ).catch(() => {});
+    }
+
+    return result;
+  }
+
+  /**
+   * Start a resumable upload. The chunks are hashed as they pass through, so the
+   * completed file is recorded with its hash like uploadFile().
+   */
+  async startUpload(
+    remotePath: string,
+    options?: StartUploadOptions
+  ): Promise<OperationResult<UploadSession>> {
+    const result = await super.startUpload(remotePath, options);
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      this.uploadHashers.set(result.data.id, { hasher: await createFileHasher(), bytes: 0 });
+    }
+    return result;
+  }
+
+  /**
+   * Append a chunk to an upload session, hashing the bytes the session takes
+   */
+  async uploadChunk(
+    sessionId: string,
+    chunk: Buffer,
+    options?: UploadChunkOptions
+  ): Promise<OperationResult<UploadSession>> {
+    const hashing = this.uploadHashers.get(sessionId);
+    const before = hashing ? (await this.getUploadSession(sessionId)).data : undefined;
+    const result = await super.uploadChunk(sessionId, chunk, options);
+
+    if (hashing && result.success && result.data) {
+      const taken = before ? result.data.bytesUploaded - before.bytesUploaded : -1;
+      if (hashing.bytes === before?.bytesUploaded && taken >= 0 && taken <= chunk.length) {
+        // Resent bytes are dropped from the front of the chunk
+        hashing.hasher.update(chunk.subarray(chunk.length - taken));
+        hashing.bytes += taken;
+      } else {
+        // Hashed from the stored file on completion instead
+        this.uploadHashers.delete(sessionId);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Finish a resumable upload and record the new file in the database, with the same
+   * hashing, deduplication, versioning and content indexing as uploadFile(). The hash
+   * comes from the chunks when they all passed through this instance; otherwise (e.g.
+   * a session resumed in another process) the stored file is read to compute it.
+   */
+  async completeUpload(
+    sessionId: string
+  ): Promise<OperationResult<FileItem & { file_id?: string; deduplicated?: boolean }>> {
+    // Read the session first: it is removed from the store once the upload completes
+    const session = (await this.getUploadSession(sessionId)).data;
+    const replaced = session?.overwrite && this.trackingConfig.versioning && this.isTrackingEnabled()
+      ? await this.metadataService!.findByPath(session.remotePath, this.getStorageType())
+      : null;
+
+    const result = await super.completeUpload(sessionId);
+    if (!result.success || !result.data || !session || !this.isTrackingEnabled()) {
+      return result;
+    }
+
+    const fileItem = result.data;
+    const hashing = this.uploadHashers.get(sessionId);
+    this.uploadHashers.delete(sessionId);
+    const fileInfo = hashing && hashing.bytes === fileItem.size
+      ? hashing.hasher.digest()
+      : await this.hashStoredFile(session.remotePath).catch(() => null);
+
+    if (fileInfo && this.trackingConfig.deduplicate) {
+      const duplicate = await this.findDuplicate(fileInfo);
+      if (duplicate && duplicate.record.file_path !== normalizePath(session.remotePath) && !session.overwrite) {
+        // Like uploadFile(), nothing is left at remotePath
+        const removed = await super.deleteFile(session.remotePath);
+        if (removed.success) {
+          return {
+            success: true,
+            data: { ...duplicate.file, file_id: duplicate.record.id, deduplicated: true },
+          };
+        }
+      }
+    }
+
+    this.recordStoredFile(session.remotePath, fileItem, {
+      replaced,
+      metadata: session.metadata,
+      fileHash: fileInfo?.file_hash,
+      fileSize: fileInfo?.file_size ?? fileItem.size,
+    }).catch(() => {});
+
+    return result;
+  }
+
+  /**
+   * Abort an upload session and drop its hash
+   */
+  async abortUpload(sessionId: string): Promise<OperationResult> {
+    const result = await super.abortUpload(sessionId);
+    if (result.success) {
+      this.uploadHashers.delete(sessionId);
+    }
+    return result;
+  }
+
   /**
    * Move a file or folder and update its path in the database
    */
@@ -236,8 +490,8 @@ export class TrackedFileManager extends FileManager {
   /**
    * Delete a file and remove its record from the database
    */
-  async deleteFile(path: string): Promise<OperationResult> {
-    const result = await super.deleteFile(path);
+  async deleteFile(path: string, options?: DeleteOptions): Promise<OperationResult> {
+    const result = await super.deleteFile(path, options);
 
     if (result.success && this.isTrackingEnabled()) {
       this.metadataService!.recordDelete(
@@ -291,6 +545,175 @@ export class TrackedFileManager extends FileManager {
     return result;
   }
 
+  /**
+   * Copy a file or folder and record every copy. The records take the hash, size,
+   * scope and uploader of the source records, and with copyFileData their extractions.
+   */
+  async copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options: TrackedCopyOptions = {}
+  ): Promise<OperationResult<FileSystemItem>> {
+    const { copyFileData, ...copyOptions } = options;
+    const result = await super.copyItem(sourcePath, destinationPath, copyOptions);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      await this.recordCopies(normalizePath(sourcePath), result.data, !!options.overwrite, !!copyFileData);
+    }
+
+    return result;
+  }
+
+  /**
+   * Insert records for a copied item and everything under it, based on the records
+   * found at the same place under the source
+   */
+  private async recordCopies(
+    sourcePath: string,
+    copy: FileSystemItem,
+    overwrite: boolean,
+    copyFileData: boolean
+  ): Promise<void> {
+    const storageType = this.getStorageType();
+    const service = this.metadataService!;
+    const destination = normalizePath(copy.path);
+
+    try {
+      if (overwrite) {
+        await service.recordDirectoryDelete(destination, storageType, true);
+      }
+
+      // Source records keyed by their path relative to the copied item
+      const sources = new Map<string, FileMetadataRecordV2>();
+      const root = await service.findByPath(sourcePath, storageType);
+      if (root) sources.set('', root as FileMetadataRecordV2);
+      if (copy.isDirectory) {
+        for (const record of await service.findInTree(sourcePath, storageType)) {
+          sources.set(normalizePath(record.file_path).slice(sourcePath.length), record as FileMetadataRecordV2);
+        }
+      }
+
+      let items: FileSystemItem[] = [{ ...copy, path: destination }];
+      if (copy.isDirectory) {
+        const listing = await super.listDirectory(destination, { recursive: true, includeHidden: true });
+        items = items.concat((listing.data ?? []).map((item) => ({ ...item, path: normalizePath(item.path) })));
+      }
+
+      // Paths that already have a record, e.g. copied there earlier in the same batch
+      const recorded = new Set<string>();
+      const existing = await service.findByPath(destination, storageType);
+      if (existing) recorded.add(destination);
+      if (copy.isDirectory) {
+        for (const record of await service.findInTree(destination, storageType)) {
+          recorded.add(normalizePath(record.file_path));
+        }
+      }
+      items = items.filter((item) => !recorded.has(item.path));
+
+      const inputs = items.map((item): FileMetadataInput => {
+        const source = sources.get(item.path.slice(destination.length));
+        return {
+          filename: item.name,
+          file_type: item.isDirectory ? 'folder' : item.mimeType || getMimeType(item.name),
+          file_path: item.path,
+          storage_type: storageType,
+          ...(item.isDirectory ? {} : { file_size: item.size }),
+          ...(source?.file_hash ? { file_hash: source.file_hash } : {}),
+          ...(source?.scope_id ? { scope_id: source.scope_id } : {}),
+          ...(source?.uploaded_by ? { uploaded_by: source.uploaded_by } : {}),
+          ...(source?.original_filename ? { original_filename: source.original_filename } : {}),
+          ...(copyFileData && source && !item.isDirectory
+            ? {
+                file_data: parseFileData(source.file_data) as unknown as Record<string, unknown>,
+                ...(source.content_tag ? { content_tag: source.content_tag } : {}),
+              }
+            : {}),
+        };
+      });
+      await service.recordUploads(inputs);
+    } catch {
+      // Tracking failures don't affect the copy
+    }
+  }
+
+  // ============ Tracked Batch Operations ============
+
+  /**
+   * Delete many files and folders and remove the records of the deleted ones
+   */
+  async batchDelete(paths: string[], options?: BatchDeleteOptions): Promise<OperationResult<BatchResult>> {
+    const result = await super.batchDelete(paths, options);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      const deleted = paths.filter((_, i) => result.data!.results[i].success).map((path) => normalizePath(path));
+      await this.metadataService!.recordBatchDelete(deleted, this.getStorageType());
+    }
+
+    return result;
+  }
+
+  /**
+   * Move many files and folders and update the records of the moved ones
+   */
+  async batchMove(
+    operations: BatchMoveOperation[],
+    options?: BatchMoveOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    const result = await super.batchMove(operations, options);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      const moved = operations.filter((_, i) => result.data!.results[i].success);
+      await mapWithConcurrency(moved, options?.concurrency ?? 4, (operation) =>
+        this.metadataService!.recordMove(operation.sourcePath, operation.destinationPath, this.getStorageType())
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy many files and folders and record every copy (see copyItem())
+   */
+  async batchCopy(
+    operations: BatchCopyOperation[],
+    options: TrackedBatchCopyOptions = {}
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    const { copyFileData, ...batchOptions } = options;
+    const result = await super.batchCopy(operations, batchOptions);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      // One at a time and in order, as a copy may land inside an earlier one
+      const results = result.data.results;
+      for (let i = 0; i < operations.length; i++) {
+        const copy = results[i].data;
+        if (copy) {
+          await this.recordCopies(normalizePath(operations[i].sourcePath), copy, !!options.overwrite, !!copyFileData);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Rename many files and folders and update the records of the renamed ones
+   */
+  async batchRename(
+    operations: BatchRenameOperation[],
+    options?: BatchRenameOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>> {
+    const result = await super.batchRename(operations, options);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      const renamed = operations.filter((_, i) => result.data!.results[i].success);
+      await mapWithConcurrency(renamed, options?.concurrency ?? 4, (operation) =>
+        this.metadataService!.recordRename(operation.path, operation.newName, this.getStorageType())
+      );
+    }
+
+    return result;
+  }
+
   // ============ Tracked Convenience Methods ============
 
   /**
@@ -301,9 +724,9 @@ export class TrackedFileManager extends FileManager {
     content: string,
     options?: UploadOptions
   ): Promise<OperationResult<FileItem>> {
-    // Use uploadFile which already handles tracking
+    // Use uploadFile which already handles tracking; the path is always written
     const buffer = Buffer.from(content, 'utf-8');
-    return this.uploadFile(buffer, path, options);
+    return this.uploadFile(buffer, path, { ...options, deduplicate: false });
   }
 
   /**
@@ -320,10 +743,234 @@ export class TrackedFileManager extends FileManager {
   async copyFile(
     sourcePath: string,
     destinationPath: string,
-    options?: UploadOptions
+    options?: TrackedUploadOptions
   ): Promise<OperationResult<FileItem>> {
+    // The content is streamed, so carry the source's stored hash/size over to the copy
+    let fileInfo = options?.fileInfo;
+    if (!fileInfo && this.isTrackingEnabled()) {
+      const source = await this.metadataService!.findByPath(sourcePath, this.getStorageType());
+      if (source?.file_hash && source.file_size != null) {
+        fileInfo = { file_hash: source.file_hash, file_size: source.file_size };
+      }
+    }
+
     // Use the parent implementation which uses uploadFile, which handles tracking
-    return super.copyFile(sourcePath, destinationPath, options);
+    const uploadOptions: TrackedUploadOptions = { ...options, fileInfo, deduplicate: false };
+    return super.copyFile(sourcePath, destinationPath, uploadOptions);
+  }
+
+  // ============ Deduplication ============
+
+  /**
+   * Find a stored file with the same content (by file_hash and size). Only active
+   * records of this storage provider with the given scope_id (or, without one, records
+   * without a scope) match, and only while the file is still in storage.
+   * @param content - The content, or its hash and size
+   */
+  async findDuplicate(content: Buffer | FileInfo, scopeId?: string): Promise<DuplicateFile | null> {
+    if (!this.isTrackingEnabled()) {
+      return null;
+    }
+
+    const fileInfo: FileInfo = Buffer.isBuffer(content) ? await computeFileInfo(content) : content;
+    const candidates = await this.metadataService!.findByHash(fileInfo.file_hash, this.getStorageType());
+    for (const candidate of candidates) {
+      const record = candidate as FileMetadataRecordV2;
+      if (
+        record.file_type === 'folder' ||
+        (record.status !== undefined && record.status !== 'active') ||
+        (record.file_size != null && record.file_size !== fileInfo.file_size) ||
+        (record.scope_id ?? undefined) !== scopeId
+      ) {
+        continue;
+      }
+
+      const item = await super.getItem(record.file_path);
+      if (item.success && item.data && !item.data.isDirectory) {
+        return { record, file: item.data };
+      }
+    }
+    return null;
+  }
+
+  // ============ Versions ============
+
+  /**
+   * List the earlier versions of a file. With `tracking.versioning`, each version
+   * carries the record history of its content (hash, uploader, extractions).
+   */
+  async listVersions(path: string): Promise<OperationResult<TrackedFileVersion[]>> {
+    const result = await super.listVersions(path);
+    if (!result.success || !result.data || !this.isTrackingEnabled() || !this.trackingConfig.versioning) {
+      return result;
+    }
+
+    const record = await this.metadataService!.findByPath(path, this.getStorageType());
+    const history = record ? await this.metadataService!.getVersionHistory(record.id) : null;
+    return {
+      success: true,
+      data: result.data.map((version) => {
+        const entry = history?.find((candidate) => candidate.version_id === version.id);
+        return entry ? { ...version, record: entry } : version;
+      }),
+    };
+  }
+
+  /**
+   * Make an earlier version the current content of a file.
+   * With `tracking.versioning` the record gets the hash, size, uploader and
+   * file_data the version had, and the replaced state goes to its history.
+   */
+  async restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>> {
+    const result = await super.restoreVersion(path, versionId);
+    if (!result.success || !this.isTrackingEnabled() || !this.trackingConfig.versioning) {
+      return result;
+    }
+
+    const record = await this.metadataService!.findByPath(path, this.getStorageType());
+    if (record) {
+      const history = await this.metadataService!.getVersionHistory(record.id);
+      const entry = history?.find((candidate) => candidate.version_id === versionId);
+      if (entry) {
+        await this.recordNewVersion(record.id, path, {
+          file_data: entry.file_data,
+          file_hash: entry.file_hash ?? null,
+          file_size: entry.file_size ?? null,
+          uploaded_by: entry.uploaded_by ?? null,
+          content_tag: entry.content_tag ?? null,
+        });
+      } else {
+        const fileInfo = await this.hashStoredFile(path).catch(() => null);
+        await this.recordNewVersion(record.id, path, {
+          file_data: '{}',
+          file_hash: fileInfo?.file_hash ?? null,
+          file_size: fileInfo?.file_size ?? result.data?.size ?? null,
+          uploaded_by: null,
+          content_tag: null,
+        });
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Record a file that was just stored: as a new version of the record it replaced,
+   * or as a new record. A new version keeps the record's uploader and content tag.
+   * The record is then added to the content index, if there is one.
+   * @param content - The file's content when at hand, for the content index
+   */
+  private recordStoredFile(
+    remotePath: string,
+    fileItem: FileItem,
+    stored: {
+      replaced: FileMetadataRecord | null;
+      metadata?: Record<string, unknown>;
+      fileHash?: string;
+      fileSize?: number;
+      content?: Buffer;
+    }
+  ): Promise<FileMetadataRecord | null> {
+    const replaced = stored.replaced as FileMetadataRecordV2 | null;
+    const recorded = replaced && replaced.file_type !== 'folder'
+      ? this.recordNewVersion(replaced.id, remotePath, {
+        file_type: fileItem.mimeType || getMimeType(fileItem.name),
+        file_data: JSON.stringify(stored.metadata || fileItem.metadata || {}),
+        file_hash: stored.fileHash ?? null,
+        file_size: stored.fileSize ?? null,
+        uploaded_by: replaced.uploaded_by ?? null,
+        content_tag: replaced.content_tag ?? null,
+      })
+      : this.metadataService!.recordUpload({
+        filename: fileItem.name,
+        file_type: fileItem.mimeType || getMimeType(fileItem.name),
+        file_data: stored.metadata || fileItem.metadata,
+        file_path: remotePath,
+        storage_type: this.getStorageType(),
+        file_hash: stored.fileHash,
+        file_size: stored.fileSize,
+      });
+
+    const contentSearch = this.contentSearch;
+    return contentSearch
+      ? recorded.then(async (record) => {
+        if (record) await contentSearch.indexRecord(record, stored.content);
+        return record;
+      })
+      : recorded;
+  }
+
+  /**
+   * Record new content for a tracked file; the replaced content is linked to the
+   * newest storage version, and history of versions the storage no longer has is dropped
+   */
+  private async recordNewVersion(
+    fileId: string,
+    path: string,
+    content: Parameters<FileMetadataService['recordNewVersion']>[1]
+  ): Promise<FileMetadataRecord | null> {
+    const versions = await super.listVersions(path);
+    const versionIds = versions.success && versions.data ? versions.data.map((version) => version.id) : undefined;
+    return this.metadataService!.recordNewVersion(fileId, content, {
+      versionId: versionIds?.[0],
+      storedVersionIds: versionIds,
+    });
+  }
+
+  // ============ Trash ============
+
+  /**
+   * Move a file or folder to the trash. Its records are soft-deleted and set aside
+   * until it is restored or purged, so the path is free for new files.
+   */
+  async trashItem(path: string): Promise<OperationResult<TrashItem>> {
+    const result = await super.trashItem(path);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      await this.metadataService!.recordTrash(
+        normalizePath(path),
+        this.getStorageType(),
+        result.data.id
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Restore an item from the trash; its records become active again at the path it
+   * was restored to (records of an item it overwrote are removed)
+   */
+  async restoreFromTrash(
+    trashId: string,
+    options?: RestoreFromTrashOptions
+  ): Promise<OperationResult<FileSystemItem>> {
+    const result = await super.restoreFromTrash(trashId, options);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      const storageType = this.getStorageType();
+      const path = normalizePath(result.data.path);
+      if (options?.onConflict === 'overwrite') {
+        await this.metadataService!.recordDirectoryDelete(path, storageType, true);
+      }
+      await this.metadataService!.recordRestoreFromTrash(trashId, path, storageType);
+    }
+
+    return result;
+  }
+
+  /**
+   * Permanently delete items from the trash and remove their records
+   */
+  async purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>> {
+    const result = await super.purgeTrash(options);
+
+    if (result.success && result.data && this.isTrackingEnabled()) {
+      for (const item of result.data) {
+        await this.metadataService!.recordTrashPurge(item.id, this.getStorageType());
+      }
+    }
+
+    return result;
   }
 
   // ============ Metadata Service Access ============
@@ -349,6 +996,51 @@ export class TrackedFileManager extends FileManager {
     return { ...this.trackingConfig };
   }
 
+  // ============ Content Search ============
+
+  /**
+   * Find tracked files by the text extracted from them and the content of text files,
+   * best match first, with highlights of the matched words.
+   * Requires the `contentIndex` option.
+   */
+  async searchContent(
+    query: string,
+    options?: ContentSearchOptions
+  ): Promise<OperationResult<ContentSearchResult[]>> {
+    if (!this.contentSearch) {
+      return { success: false, error: 'Content search is not enabled' };
+    }
+    return this.contentSearch.searchContent(query, options);
+  }
+
+  /**
+   * Index a tracked file again, e.g. after extracting data from it or tagging it
+   * @returns Whether the file was indexed
+   */
+  async indexContent(path: string): Promise<boolean> {
+    if (!this.contentSearch) return false;
+    const record = await this.metadataService!.findByPath(normalizePath(path), this.getStorageType());
+    return record ? this.contentSearch.indexRecord(record) : false;
+  }
+
+  /**
+   * Index every tracked file of this storage, e.g. for files tracked before the
+   * index was set up, or to rebuild an in-memory index after a restart
+   */
+  async reindexContent(options?: ReindexContentOptions): Promise<OperationResult<ReindexContentResult>> {
+    if (!this.contentSearch) {
+      return { success: false, error: 'Content search is not enabled' };
+    }
+    return this.contentSearch.reindex(this.getStorageType(), options);
+  }
+
+  /**
+   * Get the content search service for direct access
+   */
+  getContentSearchService(): ContentSearchService | null {
+    return this.contentSearch;
+  }
+
   // ============ Hash-based Change Detection ============
 
   /**
@@ -475,11 +1167,19 @@ export class TrackedFileManager extends FileManager {
   }
 
   /**
-   * Soft-delete a file (marks as soft_deleted, does not remove physical file)
+   * Soft-delete a file (marks as soft_deleted). The physical file stays where it is,
+   * unless `options.trash` moves it to the trash (see trashItem()).
    */
-  async softDeleteFile(fileId: string): Promise<boolean> {
+  async softDeleteFile(fileId: string, options: { trash?: boolean } = {}): Promise<boolean> {
     if (!this.isTrackingEnabled()) return false;
-    return this.metadataService!.softDelete(fileId);
+    if (!options.trash) {
+      return this.metadataService!.softDelete(fileId);
+    }
+
+    const record = await this.metadataService!.findById(fileId);
+    if (!record) return false;
+    const result = await this.trashItem(record.file_path);
+    return result.success;
   }
 
   /**
@@ -554,16 +1254,386 @@ export class TrackedFileManager extends FileManager {
     return fileExists;
   }
 
+  // ============ Reconciliation ============
+
   /**
-   * Upload a file and optionally add an initial reference
+   * Compare storage with the metadata table and fix the drift between them:
+   * - `untracked`: a file without a record gets one, with hash and size
+   * - `missing`: a record whose file is gone is marked `missing`
+   * - `changed`: a record whose file has other content gets the new hash and size
+   * - `moved`: a record whose file is gone is moved to an untracked file with the same hash
+   *
+   * A file is only hashed when its size or modification time differs from its record
+   * (or the record has no hash yet), unless `verifyHashes` is set. Records marked
+   * `missing` whose file is back become `active` again. Folders and soft-deleted
+   * records are left alone, and moves are only found within the reconciled folder.
+   *
+   * @example
+   * ```typescript
+   * const report = await trackedManager.reconcile({ path: '/uploads', dryRun: true });
+   * for (const issue of report.data!.issues) {
+   *   console.log(issue.type, issue.path);
+   * }
+   * ```
+   */
+  async reconcile(options: ReconcileOptions = {}): Promise<OperationResult<ReconcileResult>> {
+    if (!this.isTrackingEnabled()) {
+      return { success: false, error: 'Database tracking is not enabled' };
+    }
+
+    const root = normalizePath(options.path ?? '/');
+    const recursive = options.recursive ?? true;
+    const dryRun = options.dryRun ?? false;
+    const storageType = this.getStorageType();
+    const service = this.metadataService!;
+    const report: ReconcileResult = { scannedFiles: 0, scannedRecords: 0, issues: [], errors: [] };
+
+    try {
+      const listing = await super.listDirectory(root, { recursive, includeHidden: true, signal: options.signal });
+      if (!listing.success || !listing.data) {
+        return { success: false, error: listing.error || `Failed to list directory: ${root}` };
+      }
+
+      const files = listing.data.filter((item): item is FileItem => !item.isDirectory);
+      const records = (await service.findInTree(root, storageType, recursive)).filter(
+        (record) => record.file_type !== 'folder' && record.status !== 'soft_deleted'
+      ) as FileMetadataRecordV2[];
+      report.scannedFiles = files.length;
+      report.scannedRecords = records.length;
+
+      // Records not matched to a file at their path
+      const unmatched = new Map(records.map((record) => [normalizePath(record.file_path), record]));
+      const untracked: Array<{ item: FileItem; path: string; info: FileInfo }> = [];
+
+      for (const item of files) {
+        if (options.signal?.aborted) throw new OperationAbortedError(root);
+        const path = normalizePath(item.path);
+        const record = unmatched.get(path);
+        unmatched.delete(path);
+
+        try {
+          if (record) {
+            await this.reconcileRecord(record, item, path, options, report);
+          } else {
+            untracked.push({ item, path, info: await this.hashStoredFile(path, options.signal) });
+          }
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          report.errors.push(`Failed to check ${path}: ${(error as Error).message}`);
+        }
+      }
+
+      // A record without a file whose content turns up untracked elsewhere was moved
+      const unmatchedByContent = new Map<string, FileMetadataRecordV2[]>();
+      for (const record of unmatched.values()) {
+        if (!record.file_hash) continue;
+        const key = `${record.file_hash.toLowerCase()}:${record.file_size}`;
+        unmatchedByContent.set(key, [...(unmatchedByContent.get(key) ?? []), record]);
+      }
+
+      for (const { item, path, info } of untracked) {
+        const record = unmatchedByContent.get(`${info.file_hash.toLowerCase()}:${info.file_size}`)?.shift();
+        if (record) {
+          unmatched.delete(normalizePath(record.file_path));
+          let fixed = false;
+          if (!dryRun) {
+            fixed = await service.recordMove(record.file_path, path, storageType);
+            if (fixed && record.status === 'missing') {
+              await service.updateStatus(record.id, 'active');
+            }
+          }
+          report.issues.push({ type: 'moved', path, previousPath: record.file_path, fileId: record.id, fixed });
+          continue;
+        }
+
+        const created = dryRun
+          ? null
+          : await service.recordUpload({
+              filename: item.name,
+              file_type: item.mimeType || getMimeType(item.name),
+              file_path: path,
+              storage_type: storageType,
+              file_hash: info.file_hash,
+              file_size: info.file_size,
+            });
+        report.issues.push({ type: 'untracked', path, fileId: created?.id, fixed: created !== null });
+      }
+
+      const verifiedAt = new Date().toISOString();
+      for (const record of unmatched.values()) {
+        if (record.status === 'missing') continue; // Found by an earlier run
+        const fixed = !dryRun && await service.updateFields(record.id, {
+          status: 'missing',
+          storage_verified_at: verifiedAt,
+        });
+        report.issues.push({ type: 'missing', path: record.file_path, fileId: record.id, fixed });
+      }
+
+      return { success: true, data: report };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: false, error: new OperationAbortedError(root).message };
+      }
+      return { success: false, error: `Failed to reconcile: ${(error as Error).message}` };
+    }
+  }
+
+  /**
+   * Compare a file with its record, hashing it only when it looks changed
+   */
+  private async reconcileRecord(
+    record: FileMetadataRecordV2,
+    item: FileItem,
+    path: string,
+    options: ReconcileOptions,
+    report: ReconcileResult
+  ): Promise<void> {
+    const service = this.metadataService!;
+    const recordedAt = Date.parse(record.file_changed_at || record.created_at);
+    const suspect =
+      options.verifyHashes ||
+      !record.file_hash ||
+      record.file_size !== item.size ||
+      !(new Date(item.modifiedAt).getTime() <= recordedAt);
+
+    if (suspect) {
+      const info = await this.hashStoredFile(path, options.signal);
+      const changed = record.file_hash
+        ? !hashesEqual(record.file_hash, info.file_hash)
+        : record.file_size != null && record.file_size !== info.file_size;
+
+      // Records without a hash get one, so later runs can compare content
+      const fixed = !options.dryRun && (changed || !record.file_hash)
+        ? await service.recordContentChange(record.id, info)
+        : false;
+      if (changed) {
+        report.issues.push({ type: 'changed', path, fileId: record.id, fixed });
+      }
+    }
+
+    if (record.status === 'missing' && !options.dryRun) {
+      await service.updateStatus(record.id, 'active');
+    }
+  }
+
+  /**
+   * Hash a stored file as it streams, without tracking the read as an access
+   */
+  private async hashStoredFile(path: string, signal?: AbortSignal): Promise<FileInfo> {
+    const download = await super.downloadStream(path, { signal });
+    if (!download.success || !download.data) {
+      throw new Error(download.error || `Failed to read file: ${path}`);
+    }
+    return computeFileInfoFromReadable(download.data.stream);
+  }
+
+  // ============ Bulk Import ============
+
+  /**
+   * Create records for files (and folders) already in storage, e.g. after turning
+   * tracking on for an existing store. Items that already have a record are skipped,
+   * so running it again only imports what is new.
+   *
+   * The tree is walked one folder at a time in a fixed order (by name), and records
+   * are inserted in batches. After every batch `onProgress` reports a cursor: pass it
+   * as `resumeAfter` to continue an interrupted import where it stopped. The cursor
+   * doesn't move past a batch whose records could not be written, so resuming retries it.
+   *
+   * @example
+   * ```typescript
+   * const result = await trackedManager.importExisting({
+   *   path: '/clients',
+   *   scopeRules: [{ path: '/clients', scope_id: (item) => item.path.split('/')[2] }],
+   *   resumeAfter: await loadCursor(),
+   *   onProgress: (progress) => saveCursor(progress.cursor),
+   * });
+   * ```
+   */
+  async importExisting(options: ImportExistingOptions = {}): Promise<OperationResult<ImportResult>> {
+    if (!this.isTrackingEnabled()) {
+      return { success: false, error: 'Database tracking is not enabled' };
+    }
+
+    const root = normalizePath(options.path ?? '/');
+    const resumeAfter = options.resumeAfter ? normalizePath(options.resumeAfter) : undefined;
+    const batchSize = Math.max(1, options.batchSize ?? 100);
+    const storageType = this.getStorageType();
+    const service = this.metadataService!;
+    const result: ImportResult = {
+      scanned: 0,
+      imported: 0,
+      skipped: 0,
+      failed: 0,
+      cursor: resumeAfter ?? null,
+      errors: [],
+    };
+
+    let batch: FileSystemItem[] = [];
+    let lastVisited: string | null = null;
+    // Set once a batch could not be recorded: the cursor stays before it, so resuming retries it
+    let cursorHeld = false;
+
+    const flush = async () => {
+      const items = batch;
+      batch = [];
+
+      const inputs = await mapWithConcurrency(items, options.concurrency ?? 4, async (item) => {
+        try {
+          return await this.toImportInput(item, options);
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          result.failed++;
+          result.errors.push(`Failed to read ${item.path}: ${(error as Error).message}`);
+          return null;
+        }
+      });
+      const valid = inputs.filter((input): input is FileMetadataInput => input !== null);
+
+      const inserted = await service.recordUploads(valid);
+      if (inserted) {
+        result.imported += valid.length;
+      } else {
+        result.failed += valid.length;
+        result.errors.push(`Failed to record ${valid.length} items up to ${lastVisited}`);
+        cursorHeld = true;
+      }
+
+      if (!cursorHeld) {
+        result.cursor = lastVisited;
+      }
+      options.onProgress?.({
+        scanned: result.scanned,
+        imported: result.imported,
+        skipped: result.skipped,
+        failed: result.failed,
+        cursor: result.cursor,
+      });
+    };
+
+    try {
+      const tracked = new Set(
+        (await service.findInTree(root, storageType)).map((record) => normalizePath(record.file_path))
+      );
+
+      await this.walkForImport(root, resumeAfter, options, result.errors, async (item) => {
+        result.scanned++;
+        lastVisited = item.path;
+        if (tracked.has(item.path) || (item.isDirectory && options.includeFolders === false)) {
+          result.skipped++;
+        } else {
+          batch.push(item);
+        }
+        if (batch.length >= batchSize) {
+          await flush();
+        }
+      });
+
+      if (batch.length > 0 || (lastVisited !== null && lastVisited !== result.cursor)) {
+        await flush();
+      }
+      return { success: true, data: result };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { success: false, error: new OperationAbortedError(root).message };
+      }
+      return { success: false, error: `Failed to import: ${(error as Error).message}` };
+    }
+  }
+
+  /**
+   * Visit the items below a folder depth first, sorted by name, skipping everything
+   * up to the resume cursor. A folder that can't be listed is reported and skipped.
+   */
+  private async walkForImport(
+    folder: string,
+    resumeAfter: string | undefined,
+    options: ImportExistingOptions,
+    errors: string[],
+    visit: (item: FileSystemItem) => Promise<void>
+  ): Promise<void> {
+    const listing = await super.listDirectory(folder, { includeHidden: true, signal: options.signal });
+    if (!listing.success || !listing.data) {
+      const message = listing.error || `Failed to list directory: ${folder}`;
+      if (folder === normalizePath(options.path ?? '/') || options.signal?.aborted) {
+        throw new Error(message);
+      }
+      errors.push(message);
+      return;
+    }
+
+    const items = listing.data
+      .map((item) => ({ ...item, path: normalizePath(item.path) }) as FileSystemItem)
+      .sort((a, b) => comparePathOrder(a.path, b.path));
+
+    for (const item of items) {
+      if (options.signal?.aborted) {
+        throw new OperationAbortedError(item.path);
+      }
+
+      const done = resumeAfter !== undefined && comparePathOrder(item.path, resumeAfter) <= 0;
+      const holdsCursor = done && item.isDirectory && isChildPath(item.path, resumeAfter!);
+      if (done && !holdsCursor) {
+        continue;
+      }
+
+      if (!done) {
+        await visit(item);
+      }
+      if (item.isDirectory && options.recursive !== false) {
+        await this.walkForImport(item.path, resumeAfter, options, errors, visit);
+      }
+    }
+  }
+
+  /**
+   * Build the record for an imported item (hashing a file unless skipHash is set)
+   */
+  private async toImportInput(item: FileSystemItem, options: ImportExistingOptions): Promise<FileMetadataInput> {
+    const scope = (options.scopeRules ?? [])
+      .filter((rule) => {
+        const rulePath = normalizePath(rule.path);
+        return item.path === rulePath || isChildPath(rulePath, item.path);
+      })
+      .sort((a, b) => normalizePath(b.path).length - normalizePath(a.path).length)[0];
+    const scopeId = typeof scope?.scope_id === 'function' ? scope.scope_id(item) : scope?.scope_id;
+
+    const input: FileMetadataInput = {
+      filename: item.name,
+      file_type: item.isDirectory ? 'folder' : item.mimeType || getMimeType(item.name),
+      file_data: item.metadata,
+      file_path: item.path,
+      storage_type: this.getStorageType(),
+      original_filename: item.name,
+      ...(scopeId ? { scope_id: scopeId } : {}),
+      ...(options.uploaded_by !== undefined ? { uploaded_by: options.uploaded_by } : {}),
+    };
+
+    if (!item.isDirectory) {
+      if (options.skipHash) {
+        input.file_size = item.size;
+      } else {
+        const info = await this.hashStoredFile(item.path, options.signal);
+        input.file_hash = info.file_hash;
+        input.file_size = info.file_size;
+      }
+    }
+    return input;
+  }
+
+  /**
+   * Upload a file and optionally add an initial reference.
+   * With deduplication the ref is added to the existing file's record, and duplicates
+   * are looked up within `scope_id`.
    */
   async uploadFileWithRef(
     source: string | Buffer | ReadableStream,
     remotePath: string,
     options?: TrackedUploadOptions & UploadWithRefOptions
-  ): Promise<OperationResult<FileItem & { file_id?: string; ref_id?: string }>> {
-    // Ensure we await recording so we have the record ID
+  ): Promise<OperationResult<FileItem & { file_id?: string; ref_id?: string; deduplicated?: boolean }>> {
+    // Ensure we await recording so we have the record ID.
+    // The signal only applies to the upload: once stored, the record and ref are always completed
     const uploadResult = await this.uploadFile(source, remotePath, {
+      deduplicationScope: options?.scope_id,
       ...options,
       awaitRecording: true,
     });
@@ -572,18 +1642,24 @@ export class TrackedFileManager extends FileManager {
       return uploadResult as OperationResult<FileItem & { file_id?: string; ref_id?: string }>;
     }
 
-    // Find the just-created record
-    const record = await this.metadataService!.findByPath(remotePath, this.getStorageType());
+    // Find the just-created record (or the existing one the upload was deduplicated to)
+    const record = uploadResult.data.deduplicated
+      ? await this.metadataService!.findById(uploadResult.data.file_id!)
+      : await this.metadataService!.findByPath(remotePath, this.getStorageType());
     if (!record) {
       return uploadResult as OperationResult<FileItem & { file_id?: string; ref_id?: string }>;
     }
 
-    // Update V2 fields if provided
+    // Update V2 fields if provided (the record of an existing file keeps them)
     const fieldsToUpdate: Record<string, string> = {};
-    if (options?.scope_id) fieldsToUpdate.scope_id = options.scope_id;
-    if (options?.uploaded_by) fieldsToUpdate.uploaded_by = options.uploaded_by;
+    if (!uploadResult.data.deduplicated) {
+      if (options?.scope_id) fieldsToUpdate.scope_id = options.scope_id;
+      if (options?.uploaded_by) fieldsToUpdate.uploaded_by = options.uploaded_by;
+    }
     if (Object.keys(fieldsToUpdate).length > 0) {
       await this.metadataService!.updateFields(record.id, fieldsToUpdate);
+      // The upload was indexed without its scope
+      await this.contentSearch?.indexFile(record.id, source instanceof Buffer ? source : undefined);
     }
 
     // Add ref if specified
@@ -604,6 +1680,20 @@ export class TrackedFileManager extends FileManager {
   }
 }
 
+/**
+ * Order of paths in an import: depth first, by name within each folder
+ */
+function comparePathOrder(a: string, b: string): number {
+  const left = getPathSegments(a);
+  const right = getPathSegments(b);
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+  return left.length - right.length;
+}
+
 /**
  * Create a new TrackedFileManager instance
  */
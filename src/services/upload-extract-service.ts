@@ -12,6 +12,7 @@ import type { NamingConventionService } from './naming-convention-service';
 import { hazo_files_generate_file_name, hazo_files_generate_folder_name } from '../common/naming-utils';
 import { getMimeType } from '../common/mime-types';
 import { joinPath } from '../common/path-utils';
+import { parseFileData } from '../common/file-data-utils';
 
 /**
  * Options for upload with extraction
@@ -90,6 +91,11 @@ export interface UploadExtractResult {
   originalFileName?: string;
   /** Content tag assigned by LLM (if content tagging was performed) */
   contentTag?: string;
+  /**
+   * The content was already stored (deduplication): `file` is the existing file, and
+   * `extraction`/`contentTag` are its stored ones when it has them
+   */
+  deduplicated?: boolean;
 }
 
 /**
@@ -177,8 +183,19 @@ export class UploadExtractService {
       let extractionResult: ExtractionResult | undefined;
       let extractionData: ExtractionData | undefined;
 
+      // Step 0: With deduplication, content that is already stored keeps its extraction
+      // and content tag instead of being sent to the LLM again
+      const duplicate = (options.deduplicate ?? this.fileManager.getTrackingConfig().deduplicate)
+        ? await this.fileManager.findDuplicate(source, options.deduplicationScope)
+        : null;
+      const storedExtractions = duplicate ? parseFileData(duplicate.record.file_data).raw_data : [];
+      const storedExtraction = storedExtractions[storedExtractions.length - 1];
+      const storedContentTag = duplicate?.record.content_tag ?? undefined;
+
       // Step 1: Extract data if requested
-      if (options.extract && this.extractionService && options.extractionOptions) {
+      if (options.extract && storedExtraction) {
+        extractionData = storedExtraction;
+      } else if (options.extract && this.extractionService && options.extractionOptions) {
         extractionResult = await this.extractionService.extract(
           source,
           mimeType,
@@ -292,14 +309,18 @@ export class UploadExtractService {
         };
       }
 
+      // A deduplicated upload is the existing file, at its own path
+      const deduplicated = uploadResult.data?.deduplicated ?? false;
+      const storedPath = deduplicated ? uploadResult.data!.path : fullPath;
+
       // Step 8: Add extraction to file metadata if tracking is enabled
       // Since we used awaitRecording: true above, the record is guaranteed to exist
-      if (extractionData && this.fileManager.isTrackingActive()) {
+      if (extractionData && !(deduplicated && extractionData === storedExtraction) && this.fileManager.isTrackingActive()) {
         const metadataService = this.fileManager.getMetadataService();
         if (metadataService) {
           const storageType = this.fileManager.getProvider() || 'local';
           await metadataService.addExtraction(
-            fullPath,
+            storedPath,
             storageType,
             extractionData.data,
             {
@@ -312,15 +333,22 @@ export class UploadExtractService {
 
       // Step 9: Content tagging via LLM (if configured)
       let contentTag: string | undefined;
-      if (needsContentTagging && effectiveContentTagConfig) {
+      if (deduplicated && storedContentTag) {
+        contentTag = storedContentTag;
+      } else if (needsContentTagging && effectiveContentTagConfig) {
         contentTag = await this.performContentTagging(
           source,
           mimeType,
           effectiveContentTagConfig,
-          fullPath
+          storedPath
         );
       }
 
+      // Step 10: Index the extracted data and tag for content search (if enabled)
+      if (extractionData || contentTag) {
+        await this.fileManager.indexContent(storedPath);
+      }
+
       return {
         success: true,
         file: uploadResult.data!,
@@ -329,6 +357,7 @@ export class UploadExtractService {
         generatedFolderPath: generatedFolderPath || undefined,
         originalFileName,
         contentTag,
+        ...(deduplicated ? { deduplicated } : {}),
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -552,6 +581,7 @@ export class UploadExtractService {
     if (!tagValue) {
       return { success: false, error: 'Content tagging did not produce a result' };
     }
+    await this.fileManager.indexContent(record.file_path);
 
     return { success: true, data: tagValue };
   }
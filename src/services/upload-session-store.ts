@@ -0,0 +1,118 @@
+/**
+ * Upload Session Stores
+ * Persistence for resumable upload sessions
+ */
+
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import type { UploadSession, UploadSessionStore } from '../types/upload-session';
+
+// Session IDs come from clients: only allow safe file names
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * In-memory session store (default)
+ * Sessions are lost when the process exits, so uploads can only resume within one process.
+ */
+export class MemoryUploadSessionStore implements UploadSessionStore {
+  private sessions = new Map<string, UploadSession>();
+
+  async get(sessionId: string): Promise<UploadSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? { ...session } : null;
+  }
+
+  async save(session: UploadSession): Promise<void> {
+    this.sessions.set(session.id, { ...session });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<UploadSession[]> {
+    return Array.from(this.sessions.values(), (session) => ({ ...session }));
+  }
+}
+
+/**
+ * File system session store
+ * Keeps one JSON file per session in a directory, so uploads survive a restart.
+ */
+export class FileUploadSessionStore implements UploadSessionStore {
+  constructor(private readonly directory: string) {}
+
+  async get(sessionId: string): Promise<UploadSession | null> {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(this.sessionPath(sessionId), 'utf-8');
+      return JSON.parse(content) as UploadSession;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(session: UploadSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // Write then rename so a crash never leaves a half-written session
+    const target = this.sessionPath(session.id);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session), 'utf-8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await fs.rm(this.sessionPath(sessionId), { force: true });
+  }
+
+  async list(): Promise<UploadSession[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const sessions: UploadSession[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const session = await this.get(entry.slice(0, -'.json'.length));
+      if (session) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  private sessionPath(sessionId: string): string {
+    if (!SESSION_ID_PATTERN.test(sessionId)) {
+      throw new Error(`Invalid upload session ID: ${sessionId}`);
+    }
+    return join(this.directory, `${sessionId}.json`);
+  }
+}
+
+/**
+ * Create an in-memory upload session store
+ */
+export function createMemoryUploadSessionStore(): MemoryUploadSessionStore {
+  return new MemoryUploadSessionStore();
+}
+
+/**
+ * Create a file system upload session store
+ * @param directory - Directory for the session files
+ */
+export function createFileUploadSessionStore(directory: string): FileUploadSessionStore {
+  return new FileUploadSessionStore(directory);
+}
@@ -0,0 +1,86 @@
+/**
+ * Content Search Types for hazo_files
+ * Full-text search over extracted data and text file content, kept in a pluggable index
+ */
+
+import type { StorageProvider } from './index';
+import type { FileMetadataRecordV2 } from './reference-tracking';
+
+/**
+ * The searchable text of one tracked file, as kept in a content index
+ */
+export interface ContentIndexDocument {
+  /** ID of the file's metadata record */
+  file_id: string;
+  storage_type: StorageProvider;
+  scope_id: string | null;
+  content_tag: string | null;
+  filename: string;
+  /** Extracted values (merged_data and extractions) and the text of text files */
+  content: string;
+}
+
+/**
+ * Options for searchContent()
+ */
+export interface ContentSearchOptions {
+  /** Only files with this scope_id */
+  scope_id?: string;
+  /** Only files with this content_tag */
+  content_tag?: string;
+  /** Only files in this storage */
+  storage_type?: StorageProvider;
+  /** Hits to return (default: 20) */
+  limit?: number;
+  /** Hits to skip, for the next page (default: 0) */
+  offset?: number;
+  /** Markers put around matched words in highlights (default: ['<mark>', '</mark>']) */
+  highlightTags?: [string, string];
+}
+
+/**
+ * A ranked match returned by a content index
+ */
+export interface ContentIndexHit {
+  file_id: string;
+  /** Relevance; higher is better, and only comparable within one search */
+  score: number;
+  /** Parts of the indexed text around the matched words, with the words marked */
+  highlights: string[];
+}
+
+/**
+ * A match of searchContent(), with the file's current record
+ */
+export interface ContentSearchResult extends ContentIndexHit {
+  record: FileMetadataRecordV2;
+}
+
+/**
+ * Where a content index is kept.
+ * Built in: MemoryContentIndex (default) and SqliteContentIndex (SQLite FTS5).
+ */
+export interface ContentIndexBackend {
+  /** Add documents, replacing those with the same file_id */
+  upsert(documents: ContentIndexDocument[]): Promise<void>;
+  /** Remove the documents of files */
+  remove(fileIds: string[]): Promise<void>;
+  /**
+   * Find documents matching any of the query's words, best first. Filters, limit and
+   * offset of the options are applied by the backend.
+   */
+  search(query: string, options: ContentSearchOptions): Promise<ContentIndexHit[]>;
+  /** Remove every document */
+  clear(): Promise<void>;
+}
+
+/**
+ * Result of reindexContent()
+ */
+export interface ReindexContentResult {
+  /** Files indexed with their content */
+  indexed: number;
+  /** Files whose content could not be read (indexed by name and extracted data only) */
+  failed: number;
+  errors: string[];
+}
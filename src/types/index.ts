@@ -2,8 +2,11 @@
  * Core types for the hazo_files package
  */
 
+import type { Readable } from 'stream';
+import type { UploadSession, StartUploadOptions } from './upload-session';
+
 /** Supported storage provider types */
-export type StorageProvider = 'local' | 'google_drive' | 'dropbox';
+export type StorageProvider = 'local' | 'google_drive' | 'dropbox' | 's3' | 'memory' | 'sftp' | 'webdav' | 'mount';
 
 /** File item representing a file in storage */
 export interface FileItem {
@@ -43,6 +46,8 @@ export interface DropboxConfig {
   refreshToken?: string;
   accessToken?: string;
   rootPath?: string;
+  /** Retention used by purgeTrash() for deleted files */
+  trash?: TrashConfig;
 }
 
 /** Configuration for the file manager */
@@ -51,6 +56,15 @@ export interface HazoFilesConfig {
   local?: LocalStorageConfig;
   google_drive?: GoogleDriveConfig;
   dropbox?: DropboxConfig;
+  s3?: S3Config;
+  memory?: MemoryStorageConfig;
+  sftp?: SftpConfig;
+  webdav?: WebDavConfig;
+  /**
+   * Mount points for the 'mount' provider, e.g. { '/local': 'local', '/drive': 'google_drive' }.
+   * Each mounted module reads its settings from the section of its provider.
+   */
+  mounts?: Record<string, StorageProvider>;
 }
 
 /** Local storage specific configuration */
@@ -58,6 +72,36 @@ export interface LocalStorageConfig {
   basePath: string;
   allowedExtensions?: string[];
   maxFileSize?: number;
+  /** Keep overwritten content in a hidden versions area */
+  versioning?: VersioningConfig;
+  /** Retention of the hidden trash folder */
+  trash?: TrashConfig;
+}
+
+/** In-memory storage configuration (all fields optional) */
+export interface MemoryStorageConfig {
+  allowedExtensions?: string[];
+  maxFileSize?: number;
+  /** Keep overwritten content in memory */
+  versioning?: VersioningConfig;
+  /** Retention of the in-memory trash */
+  trash?: TrashConfig;
+}
+
+/** Version history for providers without native revisions (local, memory) */
+export interface VersioningConfig {
+  /** Keep the previous content when a file is overwritten */
+  enabled: boolean;
+  /** Versions kept per file, the oldest are removed first (default: 0, no limit) */
+  maxVersions?: number;
+  /** Remove versions older than this many days (default: 0, no limit) */
+  maxAgeDays?: number;
+}
+
+/** Trash retention (local, memory, Google Drive, Dropbox) */
+export interface TrashConfig {
+  /** Days an item stays in the trash before purgeTrash() removes it (default: 30, 0 = until purged by ID) */
+  retentionDays?: number;
 }
 
 /** Google Drive specific configuration */
@@ -68,6 +112,56 @@ export interface GoogleDriveConfig {
   refreshToken?: string;
   accessToken?: string;
   rootFolderId?: string;
+  /** Retention used by purgeTrash() (Drive itself empties its trash after 30 days) */
+  trash?: TrashConfig;
+}
+
+/** S3-compatible storage (AWS S3, MinIO, etc.) configuration */
+export interface S3Config {
+  bucket: string;
+  region?: string;
+  /** Custom endpoint for S3-compatible services, e.g. http://localhost:9000 for MinIO */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Key prefix used as the virtual root (empty = bucket root) */
+  prefix?: string;
+  /** Use path-style addressing (required by most MinIO setups) */
+  forcePathStyle?: boolean;
+  /** Part size in bytes; larger files are uploaded as multipart (default: 8MB, minimum 5MB) */
+  partSize?: number;
+}
+
+/** SFTP (SSH) storage configuration */
+export interface SftpConfig {
+  host: string;
+  port?: number;
+  username: string;
+  /** Password authentication */
+  password?: string;
+  /** Private key for key authentication (PEM contents or a path to the key file) */
+  privateKey?: string;
+  /** Passphrase for an encrypted private key */
+  passphrase?: string;
+  /** Remote directory used as the virtual root (default: '/') */
+  basePath?: string;
+  /** Connection timeout in milliseconds (default: 20000) */
+  readyTimeout?: number;
+}
+
+/** WebDAV storage configuration (Nextcloud, ownCloud, any RFC 4918 server) */
+export interface WebDavConfig {
+  /** Server URL of the DAV root (e.g. https://cloud.example.com/remote.php/dav/files/alice) */
+  url: string;
+  /** Basic authentication (use an app password for Nextcloud) */
+  username?: string;
+  password?: string;
+  /** Bearer token, used instead of basic authentication when set */
+  token?: string;
+  /** Folder below the DAV root used as the virtual root */
+  basePath?: string;
+  /** Extra headers sent with every request */
+  headers?: Record<string, string>;
 }
 
 /** Result of file operations */
@@ -85,28 +179,285 @@ export interface UploadOptions {
   overwrite?: boolean;
   onProgress?: ProgressCallback;
   metadata?: Record<string, unknown>;
+  /** Size of a stream source in bytes, if known, so size limits are checked before writing */
+  totalSize?: number;
+  /** Cancel the upload; the operation fails with an OperationAbortedError message */
+  signal?: AbortSignal;
 }
 
 /** Options for download operations */
 export interface DownloadOptions {
   onProgress?: ProgressCallback;
+  /** Cancel the download */
+  signal?: AbortSignal;
 }
 
+/** Options for streaming downloads. Byte offsets follow HTTP Range semantics (both inclusive). */
+export interface DownloadStreamOptions {
+  /** First byte to read (default: 0) */
+  start?: number;
+  /** Last byte to read, inclusive (default: last byte of the file) */
+  end?: number;
+  onProgress?: ProgressCallback;
+  /** Cancel opening the stream, and destroy the stream if aborted while it is read */
+  signal?: AbortSignal;
+}
+
+/** A file opened for streaming, with what is needed to answer an HTTP Range request */
+export interface DownloadStream<S = Readable> {
+  stream: S;
+  /** Total size of the file in bytes */
+  size: number;
+  /** First byte in the stream */
+  start: number;
+  /** Last byte in the stream, inclusive (-1 for an empty file) */
+  end: number;
+  /** Number of bytes the stream will produce */
+  contentLength: number;
+  mimeType: string;
+}
+
+/** Web (WHATWG) stream variant of DownloadStream, e.g. for `new Response(stream)` */
+export type WebDownloadStream = DownloadStream<ReadableStream<Uint8Array>>;
+
 /** Options for list operations */
 export interface ListOptions {
   recursive?: boolean;
   includeHidden?: boolean;
   filter?: (item: FileSystemItem) => boolean;
+  /** Stop a (recursive) listing */
+  signal?: AbortSignal;
+}
+
+/** Options for search() */
+export interface SearchOptions {
+  /** Folder to search below (default: '/') */
+  root?: string;
+  /**
+   * Pattern for the path below root, ignoring case: `*` and `?` match within a name,
+   * `**` any number of folders and `{a,b}` either alternative. A pattern without '/'
+   * matches the name at any depth, e.g. '*.pdf', '*.{jpg,png}' or 'invoices/2025/**'.
+   */
+  glob?: string;
+  /** Part of the name, ignoring case */
+  nameContains?: string;
+  /** MIME types of the files to find; 'image/*' matches every image type */
+  mimeTypes?: string[];
+  /** Smallest file size in bytes */
+  minSize?: number;
+  /** Largest file size in bytes */
+  maxSize?: number;
+  /** Modified at or after */
+  modifiedAfter?: Date;
+  /** Modified before */
+  modifiedBefore?: Date;
+  /** Also find folders (default: false); folders never match mimeTypes, minSize or maxSize */
+  includeFolders?: boolean;
+  /** Include hidden files and folders (names starting with '.') */
+  includeHidden?: boolean;
+  /** Items per page (default: 100) */
+  limit?: number;
+  /** Cursor of the previous page, to get the next one */
+  cursor?: string;
+  signal?: AbortSignal;
+}
+
+/** A page of items found by search() */
+export interface SearchPage {
+  items: FileSystemItem[];
+  /** Pass as `cursor` to get the next page; absent on the last page */
+  cursor?: string;
+  /** More items match than this page holds */
+  hasMore: boolean;
 }
 
 /** Options for move operations */
 export interface MoveOptions {
   overwrite?: boolean;
+  signal?: AbortSignal;
+}
+
+/** Options for copyItem() */
+export interface CopyOptions {
+  /** Copy folders with their contents (copying a non-empty folder fails without it) */
+  recursive?: boolean;
+  /** Replace an item that already exists at the destination */
+  overwrite?: boolean;
+  /** Called after every copied file */
+  onProgress?: (progress: CopyProgress) => void;
+  signal?: AbortSignal;
+}
+
+/** Progress of a copy, reported after every file */
+export interface CopyProgress {
+  /** Destination path of the file just copied */
+  path: string;
+  /** Files copied so far */
+  filesCopied: number;
+  /** Bytes copied so far */
+  bytesCopied: number;
+}
+
+/** Options shared by the batch operations */
+export interface BatchOptions {
+  /** Operations running at the same time (default: 4) */
+  concurrency?: number;
+  /** Called after every operation */
+  onProgress?: (progress: BatchProgress) => void;
+  /** Abort the batch; operations that haven't finished fail as aborted */
+  signal?: AbortSignal;
+}
+
+/** Options for batchDelete() */
+export interface BatchDeleteOptions extends BatchOptions {
+  /** Delete folders with their contents (otherwise only empty folders are deleted) */
+  recursive?: boolean;
+}
+
+/** Options for batchMove() */
+export interface BatchMoveOptions extends BatchOptions {
+  overwrite?: boolean;
+}
+
+/** Options for batchCopy() */
+export interface BatchCopyOptions extends BatchOptions {
+  /** Copy folders with their contents */
+  recursive?: boolean;
+  overwrite?: boolean;
+}
+
+/** Options for batchRename() */
+export interface BatchRenameOptions extends BatchOptions {
+  overwrite?: boolean;
+}
+
+/** One move (or copy) in a batch */
+export interface BatchMoveOperation {
+  sourcePath: string;
+  destinationPath: string;
+}
+
+/** One copy in a batch */
+export type BatchCopyOperation = BatchMoveOperation;
+
+/** One rename in a batch */
+export interface BatchRenameOperation {
+  path: string;
+  /** New name (not a full path) */
+  newName: string;
+}
+
+/** Counts of a batch */
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+}
+
+/** Progress of a batch, reported after every operation */
+export interface BatchProgress extends BatchSummary {
+  /** Path the operation that just finished acted on */
+  path: string;
+}
+
+/** Result of a batch operation */
+export interface BatchResult<T = void> {
+  /** Result of each operation, in the order they were given */
+  results: OperationResult<T>[];
+  summary: BatchSummary;
 }
 
 /** Options for rename operations */
 export interface RenameOptions {
   overwrite?: boolean;
+  signal?: AbortSignal;
+}
+
+/** Options for delete operations */
+export interface DeleteOptions {
+  signal?: AbortSignal;
+}
+
+/** Kind of change reported by getChanges() */
+export type FileChangeType = 'created' | 'modified' | 'deleted' | 'moved';
+
+/** A change to a file or folder */
+export interface FileChange {
+  type: FileChangeType;
+  /** Path of the item (the new path for 'moved') */
+  path: string;
+  /** Path before the move ('moved' only) */
+  previousPath?: string;
+  /** The item after the change (not set for 'deleted') */
+  item?: FileSystemItem;
+  /** Provider ID of the item, when known */
+  id?: string;
+}
+
+/** A page of changes returned by getChanges() */
+export interface ChangesPage {
+  changes: FileChange[];
+  /** Pass to the next getChanges() call to continue after these changes */
+  cursor: string;
+  /** More changes are available right away */
+  hasMore: boolean;
+}
+
+/** Options for getChanges() */
+export interface GetChangesOptions {
+  signal?: AbortSignal;
+}
+
+/** An earlier version of a file */
+export interface FileVersion {
+  /** Version ID for downloadVersion() and restoreVersion() */
+  id: string;
+  /** Path of the file */
+  path: string;
+  /** Content size in bytes */
+  size: number;
+  /** When this content was written */
+  modifiedAt: Date;
+  /** Content hash reported by the provider (Drive: MD5, Dropbox: content hash) */
+  hash?: string;
+  /** Who wrote this content, when the provider reports it */
+  modifiedBy?: string;
+}
+
+/** A file or folder in the trash */
+export interface TrashItem {
+  /** Trash ID for restoreFromTrash() and purgeTrash() */
+  id: string;
+  name: string;
+  /** Path the item was deleted from */
+  originalPath: string;
+  isDirectory: boolean;
+  /** Size in bytes (files only) */
+  size?: number;
+  /** When the item was moved to the trash */
+  deletedAt: Date;
+}
+
+/** What restoreFromTrash() does when the path to restore to is taken */
+export type TrashConflictStrategy = 'fail' | 'rename' | 'overwrite';
+
+/** Options for restoreFromTrash() */
+export interface RestoreFromTrashOptions {
+  /** Path to restore to (default: the original path) */
+  path?: string;
+  /**
+   * When the path is taken: 'fail' (default), 'rename' to restore as "name (1).ext",
+   * or 'overwrite' to permanently delete the existing item
+   */
+  onConflict?: TrashConflictStrategy;
+}
+
+/** Options for purgeTrash() */
+export interface PurgeTrashOptions {
+  /** Purge items deleted more than this many days ago (default: the retention period) */
+  olderThanDays?: number;
+  /** Purge these items, whatever their age */
+  ids?: string[];
 }
 
 /** Tree node for folder tree representation */
@@ -159,6 +510,24 @@ export interface StorageModule {
     options?: DownloadOptions
   ): Promise<OperationResult<Buffer | string>>;
 
+  /** Open a file as a Node.js stream, optionally limited to a byte range */
+  downloadStream(remotePath: string, options?: DownloadStreamOptions): Promise<OperationResult<DownloadStream>>;
+
+  /** Open a file as a web ReadableStream, optionally limited to a byte range */
+  downloadWebStream(remotePath: string, options?: DownloadStreamOptions): Promise<OperationResult<WebDownloadStream>>;
+
+  /** Start a resumable upload session */
+  startUpload(remotePath: string, options?: StartUploadOptions): Promise<OperationResult<UploadSession>>;
+
+  /** Append a chunk to an upload session, returning the updated session */
+  uploadChunk(session: UploadSession, chunk: Buffer): Promise<OperationResult<UploadSession>>;
+
+  /** Finish an upload session and create the file */
+  completeUpload(session: UploadSession): Promise<OperationResult<FileItem>>;
+
+  /** Cancel an upload session and discard uploaded data */
+  abortUpload(session: UploadSession): Promise<OperationResult>;
+
   /** Move a file or folder */
   moveItem(
     sourcePath: string,
@@ -166,8 +535,15 @@ export interface StorageModule {
     options?: MoveOptions
   ): Promise<OperationResult<FileSystemItem>>;
 
+  /** Copy a file or folder, on the server where the provider supports it */
+  copyItem(
+    sourcePath: string,
+    destinationPath: string,
+    options?: CopyOptions
+  ): Promise<OperationResult<FileSystemItem>>;
+
   /** Delete a file */
-  deleteFile(path: string): Promise<OperationResult>;
+  deleteFile(path: string, options?: DeleteOptions): Promise<OperationResult>;
 
   /** Rename a file */
   renameFile(path: string, newName: string, options?: RenameOptions): Promise<OperationResult<FileItem>>;
@@ -175,6 +551,27 @@ export interface StorageModule {
   /** Rename a folder */
   renameFolder(path: string, newName: string, options?: RenameOptions): Promise<OperationResult<FolderItem>>;
 
+  /** Delete many files and folders, with a result per path */
+  batchDelete(paths: string[], options?: BatchDeleteOptions): Promise<OperationResult<BatchResult>>;
+
+  /** Move many files and folders, with a result per move */
+  batchMove(
+    operations: BatchMoveOperation[],
+    options?: BatchMoveOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>>;
+
+  /** Copy many files and folders, with a result per copy */
+  batchCopy(
+    operations: BatchCopyOperation[],
+    options?: BatchCopyOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>>;
+
+  /** Rename many files and folders, with a result per rename */
+  batchRename(
+    operations: BatchRenameOperation[],
+    options?: BatchRenameOptions
+  ): Promise<OperationResult<BatchResult<FileSystemItem>>>;
+
   /** List contents of a directory */
   listDirectory(path: string, options?: ListOptions): Promise<OperationResult<FileSystemItem[]>>;
 
@@ -186,6 +583,36 @@ export interface StorageModule {
 
   /** Get folder tree structure */
   getFolderTree(path?: string, depth?: number): Promise<OperationResult<TreeNode[]>>;
+
+  /** Find files (and optionally folders) below a folder by glob and attributes, a page at a time */
+  search(options?: SearchOptions): Promise<OperationResult<SearchPage>>;
+
+  /**
+   * Get changes made since a cursor. Without a cursor, returns no changes and a
+   * cursor for the current state of the storage.
+   */
+  getChanges(cursor?: string, options?: GetChangesOptions): Promise<OperationResult<ChangesPage>>;
+
+  /** List the earlier versions of a file, newest first (the current content is not included) */
+  listVersions(path: string): Promise<OperationResult<FileVersion[]>>;
+
+  /** Download the content of an earlier version */
+  downloadVersion(path: string, versionId: string): Promise<OperationResult<Buffer>>;
+
+  /** Make an earlier version the current content; the replaced content becomes a version */
+  restoreVersion(path: string, versionId: string): Promise<OperationResult<FileItem>>;
+
+  /** Move a file or folder to the trash */
+  trashItem(path: string): Promise<OperationResult<TrashItem>>;
+
+  /** List the items in the trash, most recently deleted first */
+  listTrash(): Promise<OperationResult<TrashItem[]>>;
+
+  /** Move an item out of the trash, to its original path unless another is given */
+  restoreFromTrash(trashId: string, options?: RestoreFromTrashOptions): Promise<OperationResult<FileSystemItem>>;
+
+  /** Permanently delete items from the trash; returns the purged items */
+  purgeTrash(options?: PurgeTrashOptions): Promise<OperationResult<TrashItem[]>>;
 }
 
 // Naming rule types
@@ -210,6 +637,16 @@ export type {
   FileMetadataUpdate,
   DatabaseTrackingConfig,
   TrackedFileManagerOptions,
+  ReconcileOptions,
+  ReconcileIssueType,
+  ReconcileIssue,
+  ReconcileResult,
+  ImportScopeRule,
+  ImportExistingOptions,
+  ImportProgress,
+  ImportResult,
+  FileVersionRecord,
+  TrackedFileVersion,
   ExtractionData,
   FileDataStructure,
   AddExtractionOptions,
@@ -240,3 +677,33 @@ export type {
   CleanupOrphanedOptions,
   UploadWithRefOptions,
 } from './reference-tracking';
+
+// Upload session types
+export type {
+  UploadSession,
+  StartUploadOptions,
+  UploadChunkOptions,
+  UploadSessionStore,
+} from './upload-session';
+
+// Content search types
+export type {
+  ContentIndexDocument,
+  ContentSearchOptions,
+  ContentIndexHit,
+  ContentSearchResult,
+  ContentIndexBackend,
+  ReindexContentResult,
+} from './content-search';
+
+// Metadata query types
+export type {
+  MetadataQueryOperator,
+  MetadataDataPredicate,
+  MetadataDateRange,
+  MetadataNumberRange,
+  MetadataSortColumn,
+  MetadataSort,
+  MetadataQuery,
+  MetadataQueryPage,
+} from './metadata-query';
@@ -0,0 +1,109 @@
+/**
+ * Metadata Query Types for hazo_files
+ * Filters, sorting and cursor pagination over tracked file records
+ */
+
+import type { StorageProvider } from './index';
+import type { FileMetadataRecordV2, FileStatus } from './reference-tracking';
+
+/**
+ * Comparison of a file_data value with a query value.
+ * `>`, `>=`, `<` and `<=` compare numbers as numbers (numeric strings included),
+ * dates as dates and other strings as text; `contains` matches a substring
+ * (ignoring case) or an array element; `in` matches any of an array of values;
+ * `exists` matches values that are set (or, with `false`, missing).
+ */
+export type MetadataQueryOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'contains' | 'exists';
+
+/**
+ * A condition on a value inside the record's file_data
+ */
+export interface MetadataDataPredicate {
+  /**
+   * Path into file_data, e.g. 'merged_data.total', 'merged_data.vendor.name' or
+   * 'merged_data.lines[0].amount'
+   */
+  path: string;
+  op: MetadataQueryOperator;
+  value?: unknown;
+}
+
+/**
+ * A range of timestamps; `after` is inclusive, `before` exclusive
+ */
+export interface MetadataDateRange {
+  after?: Date | string;
+  before?: Date | string;
+}
+
+/**
+ * A range of numbers, both ends inclusive
+ */
+export interface MetadataNumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Record columns that queries can sort by
+ */
+export type MetadataSortColumn =
+  | 'created_at'
+  | 'changed_at'
+  | 'file_changed_at'
+  | 'filename'
+  | 'file_path'
+  | 'file_size'
+  | 'ref_count'
+  | 'content_tag';
+
+/**
+ * A sort key: a record column or a path into file_data (e.g. 'merged_data.total').
+ * Records without a value come last in either direction.
+ */
+export interface MetadataSort {
+  field: MetadataSortColumn | `merged_data.${string}` | `raw_data${string}`;
+  direction?: 'asc' | 'desc';
+}
+
+/**
+ * A query over tracked file records. All given filters must match; a filter
+ * given an array matches any of its values.
+ */
+export interface MetadataQuery {
+  storage_type?: StorageProvider;
+  /** `null` matches files without a tag */
+  content_tag?: string | null | (string | null)[];
+  /** `null` matches files without a scope */
+  scope_id?: string | null | (string | null)[];
+  /** Default: every status except 'soft_deleted' */
+  status?: FileStatus | FileStatus[];
+  uploaded_by?: string | string[];
+  /** MIME types, which may contain wildcards like 'image/*'; 'folder' matches folders */
+  file_type?: string | string[];
+  /** Only records at or below this folder */
+  path?: string;
+  created_at?: MetadataDateRange;
+  changed_at?: MetadataDateRange;
+  file_changed_at?: MetadataDateRange;
+  ref_count?: MetadataNumberRange;
+  file_size?: MetadataNumberRange;
+  /** Conditions on file_data values */
+  where?: MetadataDataPredicate[];
+  /** Sort keys, in order of precedence (default: newest created_at first) */
+  sort?: MetadataSort[];
+  /** Records per page (default: 100) */
+  limit?: number;
+  /** Cursor from a previous page of the same query */
+  cursor?: string;
+}
+
+/**
+ * A page of records matching a query
+ */
+export interface MetadataQueryPage {
+  items: FileMetadataRecordV2[];
+  /** Pass as `cursor` to get the next page (set when hasMore) */
+  cursor?: string;
+  hasMore: boolean;
+}
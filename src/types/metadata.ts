@@ -3,7 +3,7 @@
  * Used for database tracking of file operations
  */
 
-import type { StorageProvider } from './index';
+import type { StorageProvider, FileSystemItem, FileVersion } from './index';
 
 /**
  * Record stored in the hazo_files database table
@@ -80,6 +80,17 @@ export interface DatabaseTrackingConfig {
   trackDownloads?: boolean;
   /** Log database errors instead of failing silently (default: true) */
   logErrors?: boolean;
+  /**
+   * Don't store content that is already stored: uploads of identical content
+   * (same file_hash and size) return the existing file (default: false)
+   */
+  deduplicate?: boolean;
+  /**
+   * Keep the history of a record when its file is overwritten: the replaced hash, size,
+   * uploader and file_data (extractions) go to the file_versions column (V4) and the
+   * record keeps its ID and refs (default: false)
+   */
+  versioning?: boolean;
 }
 
 /**
@@ -90,6 +101,148 @@ export interface TrackedFileManagerOptions {
   tracking?: DatabaseTrackingConfig;
 }
 
+/**
+ * Options for TrackedFileManager.reconcile()
+ */
+export interface ReconcileOptions {
+  /** Folder to reconcile (default: '/') */
+  path?: string;
+  /** Include subfolders (default: true) */
+  recursive?: boolean;
+  /** Only report the drift, without changing any record (default: false) */
+  dryRun?: boolean;
+  /**
+   * Hash every file (default: false). Otherwise a file is only hashed when its size or
+   * modification time differs from its record, or the record has no hash.
+   */
+  verifyHashes?: boolean;
+  /** Abort the scan */
+  signal?: AbortSignal;
+}
+
+/** Kind of drift found by reconcile() */
+export type ReconcileIssueType = 'untracked' | 'missing' | 'changed' | 'moved';
+
+/**
+ * A difference between storage and the metadata table
+ */
+export interface ReconcileIssue {
+  type: ReconcileIssueType;
+  /** Path of the file (for 'missing', the path of the record) */
+  path: string;
+  /** Path the record had before the file was moved ('moved' only) */
+  previousPath?: string;
+  /** ID of the affected record (for 'untracked', of the record created) */
+  fileId?: string;
+  /** Whether the record was fixed (false in a dry run or when the update failed) */
+  fixed: boolean;
+}
+
+/**
+ * Report of a reconcile() run
+ */
+export interface ReconcileResult {
+  /** Files found in storage */
+  scannedFiles: number;
+  /** Records compared with storage */
+  scannedRecords: number;
+  issues: ReconcileIssue[];
+  /** Files or records that could not be checked */
+  errors: string[];
+}
+
+/**
+ * Scope assignment for imported files: files under `path` get `scope_id`
+ * (the rule with the longest matching path wins)
+ */
+export interface ImportScopeRule {
+  /** Folder the rule applies to, including everything below it */
+  path: string;
+  /** Scope ID, or a function of the item (return null/undefined for no scope) */
+  scope_id: string | ((item: FileSystemItem) => string | null | undefined);
+}
+
+/**
+ * Options for TrackedFileManager.importExisting()
+ */
+export interface ImportExistingOptions {
+  /** Folder to import (default: '/') */
+  path?: string;
+  /** Include subfolders (default: true) */
+  recursive?: boolean;
+  /** Record folders as well as files (default: true) */
+  includeFolders?: boolean;
+  /** Records inserted per database write (default: 100) */
+  batchSize?: number;
+  /** Files hashed at the same time (default: 4) */
+  concurrency?: number;
+  /** Skip content hashing; only size and type are recorded (default: false) */
+  skipHash?: boolean;
+  /** Scope rules for the scope_id column */
+  scopeRules?: ImportScopeRule[];
+  /** Value for the uploaded_by column */
+  uploaded_by?: string;
+  /** Cursor from an earlier, interrupted import: continue after it */
+  resumeAfter?: string;
+  /** Called after every batch; persist `cursor` to be able to resume */
+  onProgress?: (progress: ImportProgress) => void;
+  /** Abort the import (the last reported cursor stays valid) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Progress of an import, reported after every batch
+ */
+export interface ImportProgress {
+  /** Files and folders visited */
+  scanned: number;
+  /** Records created */
+  imported: number;
+  /** Items that already had a record (or folders, with includeFolders: false) */
+  skipped: number;
+  /** Items that could not be read or recorded */
+  failed: number;
+  /**
+   * Everything up to this path (in import order) is done; null before the first batch.
+   * It stops before the first batch whose records could not be written.
+   */
+  cursor: string | null;
+}
+
+/**
+ * Result of TrackedFileManager.importExisting()
+ */
+export interface ImportResult extends ImportProgress {
+  errors: string[];
+}
+
+/**
+ * Earlier state of a record, kept in its file_versions column (V4) when the file
+ * was overwritten or a version was restored
+ */
+export interface FileVersionRecord {
+  /** ID of the storage version holding this content (none if the provider keeps no versions) */
+  version_id?: string;
+  file_hash?: string | null;
+  file_size?: number | null;
+  uploaded_by?: string | null;
+  content_tag?: string | null;
+  /** file_data (extractions) of this content, as JSON string */
+  file_data: string;
+  /** ISO timestamp when this content was written */
+  file_changed_at?: string | null;
+  /** ISO timestamp when this content was replaced */
+  archived_at: string;
+}
+
+/**
+ * A version from TrackedFileManager.listVersions(): the storage version with the
+ * record history of its content, when there is one
+ */
+export interface TrackedFileVersion extends FileVersion {
+  record?: FileVersionRecord;
+}
+
 /**
  * Individual extraction entry stored in raw_data array
  */
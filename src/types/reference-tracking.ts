@@ -65,6 +65,8 @@ export interface FileMetadataRecordV2 extends FileMetadataRecord {
   deleted_at?: string | null;
   /** Content tag classifying the document type (V3) */
   content_tag?: string | null;
+  /** JSON string of FileVersionRecord[], newest first (V4) */
+  file_versions?: string | null;
 }
 
 // ============================================
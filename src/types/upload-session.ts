@@ -0,0 +1,72 @@
+/**
+ * Upload Session Types for hazo_files
+ * Resumable, chunked uploads whose state can be persisted between requests and restarts
+ */
+
+import type { StorageProvider } from './index';
+
+/**
+ * State of a resumable upload.
+ * Sessions are plain JSON so they can be stored anywhere.
+ */
+export interface UploadSession {
+  /** Unique session ID */
+  id: string;
+  /** Provider that owns the session */
+  provider: StorageProvider;
+  /** Destination path of the file */
+  remotePath: string;
+  /** Total size in bytes, if declared when the session was started */
+  totalSize?: number;
+  /** Bytes committed so far - the offset of the next chunk */
+  bytesUploaded: number;
+  /** Replace an existing file at remotePath on completion */
+  overwrite: boolean;
+  /** MIME type of the file */
+  mimeType: string;
+  /** Caller-supplied metadata (recorded by TrackedFileManager on completion) */
+  metadata?: Record<string, unknown>;
+  /**
+   * Provider-specific state, e.g. the Drive session URI,
+   * the Dropbox upload session ID or the local temp part file
+   */
+  providerState: Record<string, unknown>;
+  /** ISO timestamp when the session was started */
+  createdAt: string;
+  /** ISO timestamp of the last change */
+  updatedAt: string;
+  /** ISO timestamp after which the provider discards the session */
+  expiresAt?: string;
+}
+
+/** Options for starting an upload session */
+export interface StartUploadOptions {
+  /** Total size in bytes (required by some providers to finish without an extra request) */
+  totalSize?: number;
+  overwrite?: boolean;
+  /** MIME type (default: derived from the file name) */
+  mimeType?: string;
+  metadata?: Record<string, unknown>;
+}
+
+/** Options for uploading a chunk */
+export interface UploadChunkOptions {
+  /**
+   * Byte offset of the chunk. When given, bytes the session already has are
+   * skipped, so a client can safely resend the chunk that was in flight when it lost
+   * its connection. An offset past `bytesUploaded` is rejected.
+   */
+  offset?: number;
+}
+
+/**
+ * Pluggable persistence for upload sessions.
+ * Use a durable store (file system, database, Redis, ...) so uploads can resume after a restart.
+ */
+export interface UploadSessionStore {
+  get(sessionId: string): Promise<UploadSession | null>;
+  save(session: UploadSession): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  /** List all stored sessions (used to clean up expired ones) */
+  list(): Promise<UploadSession[]>;
+}
@@ -55,7 +55,12 @@ export interface FileBrowserAPI {
   getFolderTree: (path?: string, depth?: number) => Promise<OperationResult<TreeNode[]>>;
   createDirectory: (path: string) => Promise<OperationResult<FolderItem>>;
   removeDirectory: (path: string, recursive?: boolean) => Promise<OperationResult>;
-  uploadFile: (file: File, remotePath: string) => Promise<OperationResult<FileItem>>;
+  /** `options.signal` is aborted when the user cancels the upload */
+  uploadFile: (
+    file: File,
+    remotePath: string,
+    options?: { signal?: AbortSignal }
+  ) => Promise<OperationResult<FileItem>>;
   downloadFile: (path: string) => Promise<OperationResult<Blob>>;
   deleteFile: (path: string) => Promise<OperationResult>;
   renameFile: (path: string, newName: string) => Promise<OperationResult<FileItem>>;
@@ -311,14 +316,17 @@ export function FileBrowser({
     }
   }, [api, currentPath, loadTree]);
 
-  const handleUpload = useCallback(async (fileList: FileList) => {
+  const handleUpload = useCallback(async (fileList: FileList, signal?: AbortSignal) => {
     for (let i = 0; i < fileList.length; i++) {
+      // Cancelled: skip the remaining files
+      if (signal?.aborted) break;
+
       const file = fileList[i];
       const remotePath = currentPath === '/' ? `/${file.name}` : `${currentPath}/${file.name}`;
-      const result = await api.uploadFile(file, remotePath);
+      const result = await api.uploadFile(file, remotePath, { signal });
       if (result.success && result.data) {
         setFiles(prev => sortItems([...prev, result.data!]));
-      } else {
+      } else if (!signal?.aborted) {
         onError?.(result.error || `Failed to upload ${file.name}`);
       }
     }
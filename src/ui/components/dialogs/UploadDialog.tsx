@@ -3,7 +3,7 @@
  * Dialog for uploading files with drag and drop support
  */
 
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { XIcon, UploadIcon, LoaderIcon, FileIcon } from '../../icons/FileIcons';
 import { formatBytes } from '../../../common/utils';
 
@@ -11,7 +11,8 @@ export interface UploadDialogProps {
   isOpen: boolean;
   currentPath: string;
   onClose: () => void;
-  onUpload: (files: FileList) => Promise<void>;
+  /** `signal` is aborted when the user cancels or closes the dialog during the upload */
+  onUpload: (files: FileList, signal: AbortSignal) => Promise<void>;
 }
 
 export function UploadDialog({
@@ -25,6 +26,10 @@ export function UploadDialog({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel an in-flight upload if the dialog unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleFileSelect = useCallback((files: FileList | null) => {
     if (files) {
@@ -59,6 +64,8 @@ export function UploadDialog({
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
 
@@ -66,17 +73,24 @@ export function UploadDialog({
       // Convert to FileList-like object
       const dt = new DataTransfer();
       selectedFiles.forEach(file => dt.items.add(file));
-      await onUpload(dt.files);
+      await onUpload(dt.files, controller.signal);
+      // A cancelled upload has already closed the dialog
+      if (controller.signal.aborted) return;
       setSelectedFiles([]);
       onClose();
     } catch (err) {
-      setError((err as Error).message);
+      if (!controller.signal.aborted) {
+        setError((err as Error).message);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   }, [selectedFiles, onUpload, onClose]);
 
   const handleClose = useCallback(() => {
+    // Closing during an upload cancels it
+    abortControllerRef.current?.abort();
     setSelectedFiles([]);
     setError(null);
     onClose();
@@ -188,9 +202,8 @@ export function UploadDialog({
             type="button"
             onClick={handleClose}
             className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
-            disabled={isLoading}
           >
-            Cancel
+            {isLoading ? 'Cancel Upload' : 'Cancel'}
           </button>
           <button
             type="button"
@@ -130,7 +130,12 @@ export interface FileBrowserAPI {
   getFolderTree: (path?: string, depth?: number) => Promise<OperationResult<TreeNode[]>>;
   createDirectory: (path: string) => Promise<OperationResult<FolderItem>>;
   removeDirectory: (path: string, recursive?: boolean) => Promise<OperationResult>;
-  uploadFile: (file: File, remotePath: string) => Promise<OperationResult<FileItem>>;
+  /** `options.signal` is aborted when the user cancels the upload */
+  uploadFile: (
+    file: File,
+    remotePath: string,
+    options?: { signal?: AbortSignal }
+  ) => Promise<OperationResult<FileItem>>;
   downloadFile: (path: string) => Promise<OperationResult<Blob>>;
   deleteFile: (path: string) => Promise<OperationResult>;
   renameFile: (path: string, newName: string) => Promise<OperationResult<FileItem>>;
@@ -156,7 +161,7 @@ interface FileBrowserContextValue {
   createFolder: (name: string) => Promise<OperationResult<FolderItem>>;
   deleteSelected: () => Promise<OperationResult>;
   renameSelected: (newName: string) => Promise<OperationResult<FileSystemItem>>;
-  uploadFiles: (files: FileList) => Promise<OperationResult<FileItem>[]>;
+  uploadFiles: (files: FileList, signal?: AbortSignal) => Promise<OperationResult<FileItem>[]>;
   downloadSelected: () => Promise<void>;
   moveSelected: (destinationPath: string) => Promise<OperationResult<FileSystemItem>>;
 }
@@ -276,13 +281,19 @@ export function FileBrowserProvider({ children, api, initialPath = '/' }: FileBr
   }, [api, state.selectedItem]);
 
   // Upload files
-  const uploadFiles = useCallback(async (files: FileList): Promise<OperationResult<FileItem>[]> => {
+  const uploadFiles = useCallback(async (
+    files: FileList,
+    signal?: AbortSignal
+  ): Promise<OperationResult<FileItem>[]> => {
     const results: OperationResult<FileItem>[] = [];
 
     for (let i = 0; i < files.length; i++) {
+      // Cancelled: skip the remaining files
+      if (signal?.aborted) break;
+
       const file = files[i];
       const remotePath = state.currentPath === '/' ? `/${file.name}` : `${state.currentPath}/${file.name}`;
-      const result = await api.uploadFile(file, remotePath);
+      const result = await api.uploadFile(file, remotePath, { signal });
       results.push(result);
 
       if (result.success && result.data) {
@@ -48,7 +48,7 @@ export interface UseFileBrowserReturn {
   deleteSelected: () => Promise<OperationResult>;
   renameItem: (path: string, newName: string, isDirectory: boolean) => Promise<OperationResult<FileSystemItem>>;
   renameSelected: (newName: string) => Promise<OperationResult<FileSystemItem>>;
-  uploadFiles: (files: FileList) => Promise<OperationResult<FileItem>[]>;
+  uploadFiles: (files: FileList, signal?: AbortSignal) => Promise<OperationResult<FileItem>[]>;
   downloadFile: (path: string) => Promise<void>;
   downloadSelected: () => Promise<void>;
   moveItem: (sourcePath: string, destinationPath: string) => Promise<OperationResult<FileSystemItem>>;
@@ -224,13 +224,19 @@ export function useFileBrowser(options: UseFileBrowserOptions): UseFileBrowserRe
   }, [renameItem, state.selectedItem]);
 
   // Upload files
-  const uploadFiles = useCallback(async (files: FileList): Promise<OperationResult<FileItem>[]> => {
+  const uploadFiles = useCallback(async (
+    files: FileList,
+    signal?: AbortSignal
+  ): Promise<OperationResult<FileItem>[]> => {
     const results: OperationResult<FileItem>[] = [];
 
     for (let i = 0; i < files.length; i++) {
+      // Cancelled: skip the remaining files
+      if (signal?.aborted) break;
+
       const file = files[i];
       const remotePath = state.currentPath === '/' ? `/${file.name}` : `${state.currentPath}/${file.name}`;
-      const result = await api.uploadFile(file, remotePath);
+      const result = await api.uploadFile(file, remotePath, { signal });
       results.push(result);
 
       if (result.success && result.data) {